@@ -0,0 +1,24 @@
+"use server";
+
+/**
+ * Server actions of the agent detail page
+ */
+
+import { revalidatePath } from "next/cache";
+import { invalidateMcpProbe } from "@/lib/mcp";
+
+/**
+ * Probes an agent's MCP endpoint again on the next render
+ *
+ * Only drops the cached result: the probe itself runs when the page renders,
+ * against the endpoint in the agent's registration file. Re-checks within a
+ * few seconds of the last probe are ignored.
+ */
+export async function recheckMcpEndpoint(
+  agentId: string,
+  endpoint: string
+): Promise<void> {
+  if (await invalidateMcpProbe(endpoint)) {
+    revalidatePath(`/agent/${encodeURIComponent(agentId)}`);
+  }
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { ErrorState } from "@/components/ErrorState";
+
+export default function AgentError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return <ErrorState error={error} reset={reset} />;
+}
@@ -0,0 +1,35 @@
+/**
+ * Agent detail skeleton shown while the agent and its reviews load
+ */
+export default function AgentLoading() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-4xl px-6 py-6">
+          <div className="mb-6 h-4 w-32 animate-pulse rounded bg-white/5" />
+          <div className="flex gap-6">
+            <div className="h-20 w-20 shrink-0 animate-pulse rounded-2xl bg-white/5" />
+            <div className="flex-1 space-y-3">
+              <div className="h-7 w-64 animate-pulse rounded bg-white/5" />
+              <div className="h-4 w-40 animate-pulse rounded bg-white/5" />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-6 py-8">
+        <div className="grid gap-8 lg:grid-cols-3">
+          <div className="h-64 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]" />
+          <div className="space-y-4 lg:col-span-2">
+            {Array.from({ length: 3 }, (_, i) => (
+              <div
+                key={i}
+                className="h-32 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+              />
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -2,16 +2,62 @@
  * Agent Detail Page
  *
  * Displays detailed information about a single agent including:
- * - Basic info (name, description, owner, creation date)
- * - Endpoints (MCP, A2A)
- * - Trust models
- * - Reviews/feedback from other users
+ * - Basic info (name, description, owner, creation date, ENS name, agent wallet)
+ * - Endpoints (MCP, A2A, ENS, DID, wallet, ...) and cross-chain registrations
+ * - Live inspection of the MCP endpoint (tools, resources, prompts)
+ * - The A2A agent card, checked against the registration file
+ * - Trust models, with the feedback or validations backing each
+ * - Validation Registry requests and responses
+ * - Reputation summary over all feedback
+ * - Reviews/feedback from other users, paginated and filterable via URL params,
+ *   with responses threaded below each review
+ * - Activity timeline (registration, URI updates, transfers, feedback)
+ *
+ * Owner, reviewer and responder addresses are shown by their ENS names where
+ * they have one.
+ *
+ * A second tab (`?tab=metadata`) replaces the right column with the raw
+ * metadata inspector: the URI, the fetched document, schema issues and the
+ * IPFS integrity check.
  */
 
-import { fetchAgentWithFeedback, Feedback } from "@/lib/subgraph";
-import { ArrowLeft, ExternalLink, Star } from "lucide-react";
+import { AgentEndpoint, AgentRegistration } from "@/lib/subgraph";
+import { getDataSource } from "@/lib/dataSource";
+import { getChain } from "@/lib/chains";
+import { fetchActivity, getActivityAddresses } from "@/lib/activity";
+import { EnsNames, lookupEnsNames } from "@/lib/ens";
+import { parseCaip10 } from "@/lib/registration";
+import { fetchReputation } from "@/lib/reputation";
+import { loadResponseThreads } from "@/lib/responses";
+import { getTrustEvidence, TrustEvidence } from "@/lib/validation";
+import {
+  hasReviewFilters,
+  MAX_REVIEW_PAGE,
+  parseReviewParams,
+  REVIEWS_PER_PAGE,
+  ReviewParams,
+} from "@/lib/reviews";
+import { buildUrl } from "@/lib/listing";
+import {
+  A2aCardPanel,
+  A2aCardPanelFallback,
+} from "@/components/A2aCardPanel";
+import { ActivityTimeline } from "@/components/ActivityTimeline";
+import { FeedbackCard } from "@/components/FeedbackCard";
+import { McpInspector, McpInspectorFallback } from "@/components/McpInspector";
+import {
+  MetadataInspector,
+  MetadataInspectorFallback,
+} from "@/components/MetadataInspector";
+import { ReputationPanel } from "@/components/ReputationPanel";
+import { ReviewFilters } from "@/components/ReviewFilters";
+import { ScoreBar } from "@/components/ScoreBar";
+import { ValidationsPanel } from "@/components/ValidationsPanel";
+import { ArrowLeft, ExternalLink } from "lucide-react";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import { recheckMcpEndpoint } from "./actions";
 
 // =============================================================================
 // Helper Functions
@@ -22,6 +68,11 @@ function formatAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
+/** Shows an address by its ENS name when one is known */
+function displayAddress(address: string, names: EnsNames): string {
+  return names.get(address.toLowerCase()) ?? formatAddress(address);
+}
+
 /** Converts Unix timestamp to readable date */
 function formatTimestamp(timestamp: string): string {
   const date = new Date(parseInt(timestamp) * 1000);
@@ -32,137 +83,226 @@ function formatTimestamp(timestamp: string): string {
   });
 }
 
-/**
- * Checks if a string contains readable text (not garbled bytes)
- * Some tags in the subgraph contain binary data that displays as garbage
- */
-function isReadableText(str: string | null): boolean {
-  if (!str) return false;
-  const nonReadable = str
-    .split("")
-    .filter((c) => c.charCodeAt(0) < 32 || c.charCodeAt(0) > 126).length;
-  return nonReadable / str.length < 0.3;
-}
-
 // =============================================================================
 // Components
 // =============================================================================
 
-/** Visual score bar showing 0-100 rating */
-function ScoreBar({ score }: { score: number }) {
+/** Displays one entry of the registration file's endpoints array */
+function EndpointRow({ endpoint }: { endpoint: AgentEndpoint }) {
+  const isUrl = /^https?:\/\//.test(endpoint.endpoint);
+
   return (
-    <div className="flex items-center gap-2">
-      <div className="h-2 w-24 overflow-hidden rounded-full bg-white/10">
-        <div
-          className="h-full rounded-full bg-gradient-to-r from-amber-500 to-emerald-500"
-          style={{ width: `${score}%` }}
-        />
-      </div>
-      <span className="text-sm font-medium text-white/70">{score}/100</span>
+    <div>
+      <span className="text-white/40">
+        {endpoint.name}
+        {endpoint.version && (
+          <span className="ml-1.5 font-mono text-xs text-white/30">
+            v{endpoint.version.replace(/^v/, "")}
+          </span>
+        )}
+      </span>
+      {isUrl ? (
+        <a
+          href={endpoint.endpoint}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-0.5 flex items-center gap-1 text-blue-400 hover:underline"
+        >
+          <span className="truncate">{endpoint.endpoint}</span>
+          <ExternalLink className="h-3 w-3 shrink-0" />
+        </a>
+      ) : (
+        <p className="mt-0.5 break-all font-mono text-xs text-white/70">
+          {endpoint.endpoint}
+        </p>
+      )}
     </div>
   );
 }
 
-/** Displays a single feedback/review */
-function FeedbackCard({ feedback }: { feedback: Feedback }) {
-  const score = parseInt(feedback.score);
-  const text = feedback.feedbackFile?.text;
-  const capability = feedback.feedbackFile?.capability;
-  const skill = feedback.feedbackFile?.skill;
-
-  // Filter out garbled/binary tags
-  const tag1 = isReadableText(feedback.tag1) ? feedback.tag1 : null;
-  const tag2 = isReadableText(feedback.tag2) ? feedback.tag2 : null;
+/**
+ * Displays a supported trust model with the evidence behind it
+ *
+ * Models with feedback or validator responses are highlighted; the count is
+ * left out when the subgraph doesn't index validations.
+ */
+function TrustBadge({ evidence }: { evidence: TrustEvidence }) {
+  const { trust, source, count, mean } = evidence;
+  const noun = source === "feedback" ? "review" : "validation";
 
   return (
-    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-5">
-      {/* Score and date */}
-      <div className="mb-3 flex items-start justify-between gap-4">
-        <div className="flex items-center gap-2">
-          <Star className="h-4 w-4 text-amber-400" />
-          <ScoreBar score={score} />
-        </div>
-        <span className="shrink-0 text-xs text-white/40">
-          {formatTimestamp(feedback.createdAt)}
+    <span
+      className={`rounded-md px-2 py-0.5 text-xs ${
+        count ? "bg-emerald-500/10 text-emerald-400" : "bg-white/5 text-white/60"
+      }`}
+      title={mean !== null ? `Average ${Math.round(mean)}/100` : undefined}
+    >
+      {trust}
+      {count !== null && (
+        <span className={count ? "ml-1.5 text-emerald-400/70" : "ml-1.5 text-white/30"}>
+          {count ? `${count} ${noun}${count === 1 ? "" : "s"}` : `no ${noun}s`}
         </span>
-      </div>
-
-      {/* Review text */}
-      {text && (
-        <p className="mb-3 text-sm leading-relaxed text-white/70">{text}</p>
       )}
+    </span>
+  );
+}
 
-      {/* Tags and capabilities */}
-      <div className="flex flex-wrap items-center gap-2">
-        {tag1 && (
-          <span className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
-            {tag1}
-          </span>
-        )}
-        {tag2 && (
-          <span className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
-            {tag2}
-          </span>
-        )}
-        {capability && (
-          <span className="rounded-md bg-blue-500/10 px-2 py-0.5 text-xs text-blue-400">
-            {capability}
-          </span>
-        )}
-        {skill && (
-          <span className="rounded-md bg-purple-500/10 px-2 py-0.5 text-xs text-purple-400">
-            {skill}
+/**
+ * Displays a registration of this agent in an identity registry
+ * Links to the agent page when the registry's chain is one we index
+ */
+function RegistrationRow({
+  registration,
+  currentId,
+}: {
+  registration: AgentRegistration;
+  currentId: string;
+}) {
+  const registry = parseCaip10(registration.agentRegistry);
+  const chain = registry?.chainId ? getChain(registry.chainId) : null;
+  const agentId = registry?.chainId
+    ? `${registry.chainId}:${registration.agentId}`
+    : null;
+  const chainLabel =
+    chain?.name ?? (registry?.chainId ? `Chain ${registry.chainId}` : "Unknown chain");
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white/70">{chainLabel}</span>
+        {chain && agentId && agentId !== currentId ? (
+          <Link
+            href={`/agent/${encodeURIComponent(agentId)}`}
+            className="font-mono text-xs text-blue-400 hover:underline"
+          >
+            #{registration.agentId}
+          </Link>
+        ) : (
+          <span className="font-mono text-xs text-white/50">
+            #{registration.agentId}
+            {agentId === currentId && " (this agent)"}
           </span>
         )}
       </div>
-
-      {/* Reviewer address */}
-      <div className="mt-3 border-t border-white/5 pt-3">
-        <span className="font-mono text-xs text-white/40">
-          by {formatAddress(feedback.clientAddress)}
-        </span>
-      </div>
+      <p className="mt-0.5 truncate font-mono text-xs text-white/30">
+        {registry ? formatAddress(registry.address) : registration.agentRegistry}
+      </p>
     </div>
   );
 }
 
+/** Link in the tab bar, highlighted when it's the current tab */
+function TabLink({
+  href,
+  active,
+  children,
+}: {
+  href: string;
+  active: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Link
+      href={href}
+      className={`-mb-px border-b-2 px-1 pb-3 text-sm ${
+        active
+          ? "border-white text-white"
+          : "border-transparent text-white/50 hover:text-white/70"
+      }`}
+    >
+      {children}
+    </Link>
+  );
+}
+
 // =============================================================================
 // Page Component
 // =============================================================================
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  searchParams: Promise<ReviewParams & { tab?: string }>;
 }
 
-export default async function AgentPage({ params }: PageProps) {
+export default async function AgentPage({ params, searchParams }: PageProps) {
   const { id } = await params;
   const decodedId = decodeURIComponent(id);
 
-  // Fetch agent and feedback from subgraph
-  const { agent, feedback } = await fetchAgentWithFeedback(decodedId);
+  // Selected tab and review list state from URL
+  const { tab, ...reviewParams } = await searchParams;
+  const showMetadata = tab === "metadata";
+  const { filters, sort, page } = parseReviewParams(reviewParams);
+  const filtered = hasReviewFilters(filters);
+  const path = `/agent/${encodeURIComponent(decodedId)}`;
+
+  // Fetch agent, a page of feedback, reputation and validations from the
+  // configured data source. One extra review is requested to tell whether
+  // there is a next page.
+  const [{ agent, feedback: feedbackPage }, reputation, validations] =
+    await Promise.all([
+      getDataSource().fetchAgentWithFeedback(decodedId, {
+        first: REVIEWS_PER_PAGE + 1,
+        skip: (page - 1) * REVIEWS_PER_PAGE,
+        filters,
+        sort,
+      }),
+      fetchReputation(decodedId),
+      getDataSource().fetchAgentValidations(decodedId),
+    ]);
 
   // Show 404 if agent not found
   if (!agent) {
     notFound();
   }
 
+  // The timeline needs the agent's creation time, owner and URI; reply
+  // threads need the owner to label the owner's responses
+  const feedback = feedbackPage.slice(0, REVIEWS_PER_PAGE);
+  const [activity, threads] = await Promise.all([
+    fetchActivity(agent),
+    loadResponseThreads(feedback, agent.owner),
+  ]);
+
+  // ENS names for every address on the page
+  const names = await lookupEnsNames([
+    agent.owner,
+    ...(agent.registrationFile?.agentWallet
+      ? [agent.registrationFile.agentWallet]
+      : []),
+    ...feedback.map((f) => f.clientAddress),
+    ...[...threads.values()].flat().map((reply) => reply.response.responder),
+    ...getActivityAddresses(activity),
+  ]);
+
   // Extract agent metadata
   const name = agent.registrationFile?.name || `Agent #${agent.agentId}`;
   const description = agent.registrationFile?.description;
   const image = agent.registrationFile?.image;
-  const trusts = agent.registrationFile?.supportedTrusts || [];
-  const mcpEndpoint = agent.registrationFile?.mcpEndpoint;
-  const a2aEndpoint = agent.registrationFile?.a2aEndpoint;
-  const totalFeedback = parseInt(agent.totalFeedback);
-
-  // Calculate average score from reviews
+  const trusts = getTrustEvidence(
+    agent.registrationFile?.supportedTrusts || [],
+    validations,
+    reputation
+  );
+  const endpoints = agent.registrationFile?.endpoints || [];
+  const ens = agent.registrationFile?.ens;
+  const agentWallet = agent.registrationFile?.agentWallet;
+  const walletChainId = agent.registrationFile?.agentWalletChainId;
+  // ENS and the wallet have their own rows in the details card
+  const serviceEndpoints = endpoints.filter(
+    (e) => !["ens", "agentwallet"].includes(e.name.toLowerCase())
+  );
+  const registrations = agent.registrationFile?.registrations || [];
+  const isActive = agent.registrationFile?.active;
+  const x402support = agent.registrationFile?.x402support;
+  const mcpEndpoint = endpoints.find(
+    (e) => e.name.toLowerCase() === "mcp" && /^https?:\/\//.test(e.endpoint)
+  )?.endpoint;
+  const hasNextPage =
+    feedbackPage.length > REVIEWS_PER_PAGE && page < MAX_REVIEW_PAGE;
+
+  // Average over all non-revoked feedback, not just the reviews shown below
   const avgScore =
-    feedback.length > 0
-      ? Math.round(
-          feedback.reduce((acc, f) => acc + parseInt(f.score), 0) /
-            feedback.length
-        )
-      : null;
+    reputation.mean !== null ? Math.round(reputation.mean) : null;
 
   return (
     <div className="min-h-screen bg-[#0a0a0b]">
@@ -198,14 +338,17 @@ export default async function AgentPage({ params }: PageProps) {
             {/* Name and stats */}
             <div className="min-w-0 flex-1">
               <h1 className="text-2xl font-semibold text-white">{name}</h1>
-              <p className="mt-1 font-mono text-sm text-white/40">{agent.id}</p>
+              <p className="mt-1 font-mono text-sm text-white/40">
+                {agent.id}
+                {ens && <span className="ml-3 text-white/60">{ens}</span>}
+              </p>
 
               {/* Average score */}
               {avgScore !== null && (
                 <div className="mt-3 flex items-center gap-3">
                   <ScoreBar score={avgScore} />
                   <span className="text-sm text-white/50">
-                    ({totalFeedback} reviews)
+                    ({reputation.count} reviews)
                   </span>
                 </div>
               )}
@@ -216,6 +359,16 @@ export default async function AgentPage({ params }: PageProps) {
 
       {/* Main content: details + reviews */}
       <main className="mx-auto max-w-4xl px-6 py-8">
+        {/* Tabs: overview or raw metadata */}
+        <nav className="mb-8 flex gap-6 border-b border-white/5">
+          <TabLink href={buildUrl(reviewParams, {}, path)} active={!showMetadata}>
+            Overview
+          </TabLink>
+          <TabLink href={`${path}?tab=metadata`} active={showMetadata}>
+            Metadata
+          </TabLink>
+        </nav>
+
         <div className="grid gap-8 lg:grid-cols-3">
           {/* Left column: Agent details */}
           <div className="lg:col-span-1">
@@ -226,11 +379,43 @@ export default async function AgentPage({ params }: PageProps) {
                 {/* Owner */}
                 <div>
                   <span className="text-white/40">Owner</span>
-                  <p className="mt-0.5 font-mono text-white/70">
-                    {formatAddress(agent.owner)}
-                  </p>
+                  <Link
+                    href={`/owner/${agent.owner}`}
+                    className="mt-0.5 block font-mono text-blue-400 hover:underline"
+                    title={names.has(agent.owner.toLowerCase()) ? agent.owner : undefined}
+                  >
+                    {displayAddress(agent.owner, names)}
+                  </Link>
                 </div>
 
+                {/* ENS name from the registration file */}
+                {ens && (
+                  <div>
+                    <span className="text-white/40">ENS name</span>
+                    <p className="mt-0.5 break-all text-white/70">{ens}</p>
+                  </div>
+                )}
+
+                {/* Wallet the agent receives payments with */}
+                {agentWallet && (
+                  <div>
+                    <span className="text-white/40">
+                      Agent wallet
+                      {walletChainId && (
+                        <span className="ml-1.5 text-xs text-white/30">
+                          {getChain(walletChainId)?.name ?? `Chain ${walletChainId}`}
+                        </span>
+                      )}
+                    </span>
+                    <p
+                      className="mt-0.5 break-all font-mono text-xs text-white/70"
+                      title={agentWallet}
+                    >
+                      {names.get(agentWallet.toLowerCase()) ?? agentWallet}
+                    </p>
+                  </div>
+                )}
+
                 {/* Created date */}
                 <div>
                   <span className="text-white/40">Created</span>
@@ -239,57 +424,102 @@ export default async function AgentPage({ params }: PageProps) {
                   </p>
                 </div>
 
-                {/* Trust models */}
-                {trusts.length > 0 && (
+                {/* Last update */}
+                {agent.updatedAt !== agent.createdAt && (
                   <div>
-                    <span className="text-white/40">Trust Models</span>
+                    <span className="text-white/40">Last updated</span>
+                    <p className="mt-0.5 text-white/70">
+                      {formatTimestamp(agent.updatedAt)}
+                    </p>
+                  </div>
+                )}
+
+                {/* Status flags from the registration file */}
+                {(isActive !== null && isActive !== undefined) || x402support ? (
+                  <div>
+                    <span className="text-white/40">Status</span>
                     <div className="mt-1.5 flex flex-wrap gap-1.5">
-                      {trusts.map((trust) => (
+                      {isActive !== null && isActive !== undefined && (
                         <span
-                          key={trust}
-                          className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60"
+                          className={`rounded-md px-2 py-0.5 text-xs ${
+                            isActive
+                              ? "bg-emerald-500/10 text-emerald-400"
+                              : "bg-white/5 text-white/50"
+                          }`}
                         >
-                          {trust}
+                          {isActive ? "Active" : "Inactive"}
                         </span>
-                      ))}
+                      )}
+                      {x402support && (
+                        <span className="rounded-md bg-blue-500/10 px-2 py-0.5 text-xs text-blue-400">
+                          x402 payments
+                        </span>
+                      )}
                     </div>
                   </div>
-                )}
+                ) : null}
 
-                {/* MCP Endpoint */}
-                {mcpEndpoint && (
-                  <div>
-                    <span className="text-white/40">MCP Endpoint</span>
-                    <a
-                      href={mcpEndpoint}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="mt-0.5 flex items-center gap-1 text-blue-400 hover:underline"
-                    >
-                      <span className="truncate">{mcpEndpoint}</span>
-                      <ExternalLink className="h-3 w-3 shrink-0" />
-                    </a>
-                  </div>
-                )}
+                {/* Metadata source */}
+                <div>
+                  <span className="text-white/40">Metadata</span>
+                  <p className="mt-0.5 text-white/70">
+                    {agent.metadataSource === "subgraph"
+                      ? "Indexed by the subgraph"
+                      : agent.metadataSource === "explorer"
+                        ? "Resolved by the explorer"
+                        : "Unavailable"}
+                  </p>
+                </div>
 
-                {/* A2A Endpoint */}
-                {a2aEndpoint && (
+                {/* Trust models */}
+                {trusts.length > 0 && (
                   <div>
-                    <span className="text-white/40">A2A Endpoint</span>
-                    <a
-                      href={a2aEndpoint}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="mt-0.5 flex items-center gap-1 text-blue-400 hover:underline"
-                    >
-                      <span className="truncate">{a2aEndpoint}</span>
-                      <ExternalLink className="h-3 w-3 shrink-0" />
-                    </a>
+                    <span className="text-white/40">Trust Models</span>
+                    <div className="mt-1.5 flex flex-wrap gap-1.5">
+                      {trusts.map((evidence) => (
+                        <TrustBadge key={evidence.trust} evidence={evidence} />
+                      ))}
+                    </div>
                   </div>
                 )}
               </div>
             </div>
 
+            {/* Endpoints card */}
+            {serviceEndpoints.length > 0 && (
+              <div className="mt-4 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+                <h2 className="mb-4 text-sm font-medium text-white/70">
+                  Endpoints
+                </h2>
+                <div className="space-y-4 text-sm">
+                  {serviceEndpoints.map((endpoint) => (
+                    <EndpointRow
+                      key={`${endpoint.name}|${endpoint.endpoint}`}
+                      endpoint={endpoint}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Cross-chain registrations card */}
+            {registrations.length > 0 && (
+              <div className="mt-4 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+                <h2 className="mb-4 text-sm font-medium text-white/70">
+                  Registrations
+                </h2>
+                <div className="space-y-3 text-sm">
+                  {registrations.map((registration) => (
+                    <RegistrationRow
+                      key={`${registration.agentRegistry}|${registration.agentId}`}
+                      registration={registration}
+                      currentId={agent.id}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Description card */}
             {description && (
               <div className="mt-4 rounded-xl border border-white/10 bg-white/[0.02] p-5">
@@ -303,24 +533,99 @@ export default async function AgentPage({ params }: PageProps) {
             )}
           </div>
 
-          {/* Right column: Reviews */}
-          <div className="lg:col-span-2">
-            <h2 className="mb-4 text-lg font-medium text-white">
-              Reviews ({feedback.length})
-            </h2>
+          {/* Right column: the metadata inspector, or MCP and A2A
+              inspection, reputation, reviews and activity */}
+          {showMetadata ? (
+            <div className="lg:col-span-2">
+              <Suspense fallback={<MetadataInspectorFallback />}>
+                <MetadataInspector agent={agent} />
+              </Suspense>
+            </div>
+          ) : (
+            <div className="lg:col-span-2">
+              {/* Live MCP inspection, streamed in once the probe finishes */}
+              {mcpEndpoint && (
+                <Suspense fallback={<McpInspectorFallback />}>
+                  <McpInspector
+                    endpoint={mcpEndpoint}
+                    recheck={recheckMcpEndpoint.bind(null, agent.id, mcpEndpoint)}
+                  />
+                </Suspense>
+              )}
 
-            {feedback.length === 0 ? (
-              <div className="rounded-xl border border-white/10 bg-white/[0.02] p-8 text-center">
-                <p className="text-white/50">No reviews yet</p>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                {feedback.map((f) => (
-                  <FeedbackCard key={f.id} feedback={f} />
-                ))}
+              {/* A2A agent card, streamed in the same way */}
+              {agent.registrationFile?.a2aEndpoint && (
+                <Suspense fallback={<A2aCardPanelFallback />}>
+                  <A2aCardPanel registrationFile={agent.registrationFile} />
+                </Suspense>
+              )}
+
+              <ReputationPanel reputation={reputation} />
+
+              <ValidationsPanel validations={validations} />
+
+              <h2 className="mb-4 text-lg font-medium text-white">
+                Reviews{!filtered && ` (${reputation.count})`}
+              </h2>
+
+              <ReviewFilters
+                path={path}
+                params={reviewParams}
+                filtered={filtered}
+              />
+
+              {feedback.length === 0 ? (
+                <div className="rounded-xl border border-white/10 bg-white/[0.02] p-8 text-center">
+                  <p className="text-white/50">
+                    {filtered || page > 1
+                      ? "No reviews match these filters"
+                      : "No reviews yet"}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {feedback.map((f) => (
+                    <FeedbackCard
+                      key={f.id}
+                      feedback={f}
+                      replies={threads.get(f.id)}
+                      names={names}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Review pagination */}
+              {(page > 1 || hasNextPage) && (
+                <div className="mt-6 flex items-center justify-center gap-2">
+                  {page > 1 && (
+                    <a
+                      href={buildUrl(reviewParams, { page: String(page - 1) }, path)}
+                      className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
+                    >
+                      Previous
+                    </a>
+                  )}
+                  <span className="px-4 py-2 text-sm text-white/50">
+                    Page {page}
+                  </span>
+                  {hasNextPage && (
+                    <a
+                      href={buildUrl(reviewParams, { page: String(page + 1) }, path)}
+                      className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
+                    >
+                      Next
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {/* Activity timeline */}
+              <div className="mt-8">
+                <ActivityTimeline activity={activity} names={names} />
               </div>
-            )}
-          </div>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,13 @@
+"use client";
+
+import { ErrorState } from "@/components/ErrorState";
+
+export default function AnalyticsError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return <ErrorState error={error} reset={reset} />;
+}
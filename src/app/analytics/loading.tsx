@@ -0,0 +1,37 @@
+/**
+ * Analytics skeleton shown while the registry loads
+ */
+export default function AnalyticsLoading() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <div className="mb-6 h-4 w-32 animate-pulse rounded bg-white/5" />
+          <div className="space-y-3">
+            <div className="h-7 w-48 animate-pulse rounded bg-white/5" />
+            <div className="h-4 w-64 max-w-full animate-pulse rounded bg-white/5" />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <div className="mb-8 grid grid-cols-2 gap-4 lg:grid-cols-4">
+          {Array.from({ length: 4 }, (_, i) => (
+            <div
+              key={i}
+              className="h-20 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+            />
+          ))}
+        </div>
+        <div className="grid gap-4 lg:grid-cols-2">
+          {Array.from({ length: 6 }, (_, i) => (
+            <div
+              key={i}
+              className="h-64 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+/**
+ * Registry Analytics Page
+ *
+ * Registry-wide charts and rankings (see `lib/analytics.ts`):
+ * - Registrations and feedback volume per day or week
+ * - Score distribution of all feedback
+ * - MCP/A2A endpoint share and trust model adoption
+ * - Top agents by reviews and by score, and the most active reviewers
+ *
+ * Charts are server-rendered SVG (see `components/Charts.tsx`).
+ */
+
+import {
+  AgentRanking,
+  AnalyticsInterval,
+  fetchRegistryAnalytics,
+  MIN_REVIEWS_FOR_SCORE_RANKING,
+} from "@/lib/analytics";
+import { getChain, getEnabledChains, parseChainSelection } from "@/lib/chains";
+import { lookupEnsNames } from "@/lib/ens";
+import { BarChart, ColumnChart, ShareChart } from "@/components/Charts";
+import { ChainSelect } from "@/components/ChainSelect";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+
+const INTERVAL_LABELS: Record<AnalyticsInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+};
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Shortens an address for display */
+function truncateAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Formats a period start as a short date */
+function formatPeriod(start: number): string {
+  return new Date(start * 1000).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Formats a score average with at most one decimal */
+function formatScore(score: number | null): string {
+  return score === null ? "–" : String(Math.round(score * 10) / 10);
+}
+
+/** Builds an analytics page URL, leaving defaults out */
+function analyticsUrl(params: { chain?: string; interval?: string }): string {
+  const query = new URLSearchParams();
+  if (params.chain && params.chain !== "all") query.set("chain", params.chain);
+  if (params.interval && params.interval !== "week") {
+    query.set("interval", params.interval);
+  }
+  const search = query.toString();
+  return search ? `/analytics?${search}` : "/analytics";
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/** Single stat in the summary row */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <p className="text-xs text-white/40">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+/** Titled panel around a chart or list */
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="rounded-xl border border-white/10 bg-white/[0.02] p-5">
+      <h2 className="mb-4 text-sm font-medium text-white/70">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/** Ranked list of agents */
+function AgentList({ agents }: { agents: AgentRanking[] }) {
+  if (agents.length === 0) {
+    return <p className="text-sm text-white/30">No reviewed agents yet</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {agents.map((agent, i) => (
+        <li key={agent.id} className="flex items-center gap-3 text-sm">
+          <span className="w-5 shrink-0 text-right text-white/30">{i + 1}</span>
+          <Link
+            href={`/agent/${encodeURIComponent(agent.id)}`}
+            className="min-w-0 flex-1 truncate text-white/80 hover:text-white"
+          >
+            {agent.name ?? `Agent ${agent.id}`}
+          </Link>
+          <span className="shrink-0 text-xs text-white/50">
+            {agent.reviews} {agent.reviews === 1 ? "review" : "reviews"} · avg{" "}
+            {formatScore(agent.average)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// =============================================================================
+// Page Component
+// =============================================================================
+
+interface PageProps {
+  searchParams: Promise<{ chain?: string; interval?: string }>;
+}
+
+export default async function AnalyticsPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const chain = parseChainSelection(params.chain);
+  const interval: AnalyticsInterval =
+    params.interval === "day" ? "day" : "week";
+
+  const analytics = await fetchRegistryAnalytics(chain, interval);
+  const names = await lookupEnsNames(
+    analytics.topReviewers.map((r) => r.address)
+  );
+
+  const chains = getEnabledChains();
+  const scopeLabel =
+    chain !== "all"
+      ? (getChain(chain)?.name ?? `chain ${chain}`)
+      : chains.length === 1
+        ? chains[0].name
+        : `${chains.length} chains`;
+  const periodLabel = interval === "day" ? "day" : "week";
+  const { endpoints } = analytics;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      {/* Header */}
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <Link
+            href="/"
+            className="mb-6 inline-flex items-center gap-2 text-sm text-white/50 hover:text-white/70"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to all agents
+          </Link>
+
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-white">
+                Registry analytics
+              </h1>
+              <p className="mt-1 text-sm text-white/50">
+                Agents and feedback on {scopeLabel}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {(Object.keys(INTERVAL_LABELS) as AnalyticsInterval[]).map(
+                (value) => (
+                  <Link
+                    key={value}
+                    href={analyticsUrl({ chain: params.chain, interval: value })}
+                    className={`rounded-lg border px-3 py-1.5 text-sm transition-colors ${
+                      value === interval
+                        ? "border-blue-500/50 bg-blue-500/10 text-blue-400"
+                        : "border-white/10 bg-white/5 text-white/60 hover:border-white/20 hover:text-white/80"
+                    }`}
+                  >
+                    {INTERVAL_LABELS[value]}
+                  </Link>
+                )
+              )}
+
+              {/* Chain switcher (only useful when more than one chain is configured) */}
+              {chains.length > 1 && (
+                <ChainSelect
+                  currentChain={String(chain)}
+                  chains={chains.map((c) => ({ id: c.id, name: c.name }))}
+                  currentParams={{
+                    chain: params.chain,
+                    interval: params.interval,
+                  }}
+                  path="/analytics"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        {/* Summary */}
+        <div className="mb-8 grid grid-cols-2 gap-4 lg:grid-cols-4">
+          <Stat label="Agents" value={analytics.agents.toLocaleString()} />
+          <Stat
+            label="Feedback"
+            value={
+              analytics.revokedFeedback > 0
+                ? `${analytics.feedback.toLocaleString()} (${analytics.revokedFeedback} revoked)`
+                : analytics.feedback.toLocaleString()
+            }
+          />
+          <Stat
+            label="Reviewers"
+            value={analytics.reviewers.toLocaleString()}
+          />
+          <Stat label="Mean score" value={formatScore(analytics.meanScore)} />
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Panel title={`Registrations per ${periodLabel}`}>
+            <ColumnChart
+              label={`Registrations per ${periodLabel}`}
+              data={analytics.registrations.map((point) => ({
+                label: formatPeriod(point.start),
+                value: point.count,
+                title: `${INTERVAL_LABELS[interval]} from ${formatPeriod(point.start)}: ${point.count} registered`,
+              }))}
+            />
+          </Panel>
+
+          <Panel title={`Feedback per ${periodLabel}`}>
+            <ColumnChart
+              label={`Feedback per ${periodLabel}`}
+              data={analytics.feedbackVolume.map((point) => ({
+                label: formatPeriod(point.start),
+                value: point.count,
+                title: `${INTERVAL_LABELS[interval]} from ${formatPeriod(point.start)}: ${point.count} feedback`,
+              }))}
+            />
+          </Panel>
+
+          <Panel title="Score distribution">
+            <ColumnChart
+              label="Score distribution"
+              data={analytics.scoreHistogram.map((bucket) => ({
+                label: String(bucket.min),
+                value: bucket.count,
+                title: `Scores ${bucket.min}-${bucket.max}: ${bucket.count}`,
+              }))}
+            />
+          </Panel>
+
+          <Panel title="Endpoints">
+            <ShareChart
+              label="Agents by endpoint type"
+              segments={[
+                {
+                  label: "MCP only",
+                  value: endpoints.mcp - endpoints.both,
+                  color: "blue",
+                },
+                {
+                  label: "A2A only",
+                  value: endpoints.a2a - endpoints.both,
+                  color: "violet",
+                },
+                {
+                  label: "MCP and A2A",
+                  value: endpoints.both,
+                  color: "emerald",
+                },
+                {
+                  label: "Neither",
+                  value:
+                    endpoints.described -
+                    endpoints.mcp -
+                    endpoints.a2a +
+                    endpoints.both,
+                  color: "muted",
+                },
+              ]}
+            />
+            <p className="mt-4 text-xs text-white/30">
+              Of the {endpoints.described} agents with an indexed registration file
+            </p>
+          </Panel>
+
+          <Panel title="Trust model adoption">
+            <BarChart
+              label="Agents by supported trust model"
+              total={endpoints.described}
+              data={analytics.trustModels.map((model) => ({
+                label: model.trust,
+                value: model.count,
+                title: `${model.trust}: ${model.count} of ${endpoints.described} agents`,
+              }))}
+            />
+          </Panel>
+
+          <Panel title="Most active reviewers">
+            {analytics.topReviewers.length === 0 ? (
+              <p className="text-sm text-white/30">No feedback yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {analytics.topReviewers.map((reviewer, i) => (
+                  <li
+                    key={reviewer.address}
+                    className="flex items-center gap-3 text-sm"
+                  >
+                    <span className="w-5 shrink-0 text-right text-white/30">
+                      {i + 1}
+                    </span>
+                    <Link
+                      href={`/reviewer/${reviewer.address}`}
+                      className="min-w-0 flex-1 truncate font-mono text-white/80 hover:text-white"
+                    >
+                      {names.get(reviewer.address) ??
+                        truncateAddress(reviewer.address)}
+                    </Link>
+                    <span className="shrink-0 text-xs text-white/50">
+                      {reviewer.reviews}{" "}
+                      {reviewer.reviews === 1 ? "review" : "reviews"} ·{" "}
+                      {reviewer.agents}{" "}
+                      {reviewer.agents === 1 ? "agent" : "agents"} · avg{" "}
+                      {formatScore(reviewer.mean)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </Panel>
+
+          <Panel title="Top agents by reviews">
+            <AgentList agents={analytics.topByReviews} />
+          </Panel>
+
+          <Panel title="Top agents by score">
+            <AgentList agents={analytics.topByScore} />
+            <p className="mt-4 text-xs text-white/30">
+              Average score, for agents with at least{" "}
+              {MIN_REVIEWS_FOR_SCORE_RANKING} reviews
+            </p>
+          </Panel>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Comparison skeleton shown while the agents load
+ */
+export default function CompareLoading() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <div className="mb-6 h-4 w-32 animate-pulse rounded bg-white/5" />
+          <div className="h-7 w-48 animate-pulse rounded bg-white/5" />
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <div className="h-[36rem] animate-pulse rounded-xl border border-white/10 bg-white/[0.02]" />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * Agent Comparison Page
+ *
+ * Shows 2-4 agents side by side (`/compare?ids=...`, see `lib/compare.ts`):
+ * description, endpoints, trust models, reviews, average score, score
+ * distribution, creation date and owner. Agents are picked with the compare
+ * checkboxes on the listing.
+ */
+
+import { getDataSource } from "@/lib/dataSource";
+import { getChain, getEnabledChains } from "@/lib/chains";
+import {
+  buildCompareUrl,
+  formatCompareIds,
+  MIN_COMPARE_AGENTS,
+  parseCompareIds,
+} from "@/lib/compare";
+import { lookupEnsNames } from "@/lib/ens";
+import { buildUrl } from "@/lib/listing";
+import { fetchReputation, ReputationSummary } from "@/lib/reputation";
+import type { Agent } from "@/lib/subgraph";
+import { ColumnChart } from "@/components/Charts";
+import { ScoreBar } from "@/components/ScoreBar";
+import { ArrowLeft, X } from "lucide-react";
+import Link from "next/link";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Truncates an Ethereum address to "0x1234...5678" format */
+function formatAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Converts Unix timestamp to readable date */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(parseInt(timestamp) * 1000);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/** An agent on the page, with its reputation summary */
+interface ComparedAgent {
+  agent: Agent;
+  reputation: ReputationSummary;
+}
+
+/** One compared property, with a cell per agent */
+function Row({
+  label,
+  agents,
+  render,
+}: {
+  label: string;
+  agents: ComparedAgent[];
+  render: (entry: ComparedAgent) => React.ReactNode;
+}) {
+  return (
+    <tr className="border-t border-white/5 align-top">
+      <th
+        scope="row"
+        className="w-36 py-4 pr-4 text-left text-xs font-normal text-white/40"
+      >
+        {label}
+      </th>
+      {agents.map((entry) => (
+        <td key={entry.agent.id} className="py-4 pr-4 text-sm text-white/70">
+          {render(entry)}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/** Placeholder for a missing value */
+function None() {
+  return <span className="text-white/30">–</span>;
+}
+
+// =============================================================================
+// Page Component
+// =============================================================================
+
+interface PageProps {
+  searchParams: Promise<{ ids?: string }>;
+}
+
+export default async function ComparePage({ searchParams }: PageProps) {
+  const { ids: idsParam } = await searchParams;
+  const ids = parseCompareIds(idsParam);
+
+  const dataSource = getDataSource();
+  const loaded = await Promise.all(
+    ids.map(async (id) => {
+      // Only the agent is needed; the reputation summary covers its feedback
+      const [{ agent }, reputation] = await Promise.all([
+        dataSource.fetchAgentWithFeedback(id, { first: 0 }),
+        fetchReputation(id),
+      ]);
+      return agent ? { agent, reputation } : null;
+    })
+  );
+  const compared = loaded.filter((entry) => entry !== null);
+  const missing = ids.filter((_, i) => loaded[i] === null);
+  const names = await lookupEnsNames(compared.map(({ agent }) => agent.owner));
+  const showChain = getEnabledChains().length > 1;
+
+  // Back to the listing with the selection, to change it
+  const listingUrl = buildUrl({}, { compare: formatCompareIds(ids) });
+
+  /** Drops an agent from the comparison, or returns to the listing once too few are left */
+  const removeUrl = (id: string) => {
+    const remaining = ids.filter((selected) => selected !== id);
+    return remaining.length >= MIN_COMPARE_AGENTS
+      ? buildCompareUrl(remaining)
+      : buildUrl({}, { compare: formatCompareIds(remaining) });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      {/* Header */}
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <Link
+            href={listingUrl}
+            className="mb-6 inline-flex items-center gap-2 text-sm text-white/50 hover:text-white/70"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to all agents
+          </Link>
+
+          <h1 className="text-2xl font-semibold text-white">Compare agents</h1>
+          {missing.length > 0 && (
+            <p className="mt-2 text-sm text-amber-400/80">
+              Not found: {missing.join(", ")}
+            </p>
+          )}
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        {compared.length < MIN_COMPARE_AGENTS ? (
+          <div className="rounded-xl border border-white/10 bg-white/[0.02] p-12 text-center">
+            <p className="text-white/50">
+              Select at least {MIN_COMPARE_AGENTS} agents to compare
+            </p>
+            <Link
+              href={listingUrl}
+              className="mt-2 inline-block text-sm text-white/70 underline underline-offset-2 hover:text-white"
+            >
+              Pick agents from the listing
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/[0.02] px-5">
+            <table className="w-full min-w-[40rem] table-fixed">
+              <thead>
+                <tr>
+                  <th className="w-36" />
+                  {compared.map(({ agent }) => (
+                    <th
+                      key={agent.id}
+                      scope="col"
+                      className="py-5 pr-4 text-left align-top font-normal"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <Link
+                            href={`/agent/${encodeURIComponent(agent.id)}`}
+                            className="block truncate font-medium text-white/90 hover:text-white"
+                          >
+                            {agent.registrationFile?.name ||
+                              `Agent #${agent.agentId}`}
+                          </Link>
+                          <p className="mt-0.5 truncate font-mono text-xs text-white/40">
+                            ID: {agent.agentId}
+                            {showChain &&
+                              ` · ${getChain(agent.chainId)?.shortName ?? agent.chainId}`}
+                          </p>
+                        </div>
+                        <Link
+                          href={removeUrl(agent.id)}
+                          className="shrink-0 text-white/30 hover:text-white/70"
+                          aria-label="Remove from comparison"
+                          title="Remove from comparison"
+                        >
+                          <X className="h-4 w-4" />
+                        </Link>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+
+              <tbody>
+                <Row
+                  label="Description"
+                  agents={compared}
+                  render={({ agent }) =>
+                    agent.registrationFile?.description ? (
+                      <p className="line-clamp-6 leading-relaxed text-white/60">
+                        {agent.registrationFile.description}
+                      </p>
+                    ) : (
+                      <None />
+                    )
+                  }
+                />
+
+                <Row
+                  label="Endpoints"
+                  agents={compared}
+                  render={({ agent }) => {
+                    // ENS and the wallet aren't service endpoints
+                    const endpoints = (
+                      agent.registrationFile?.endpoints ?? []
+                    ).filter(
+                      (e) =>
+                        !["ens", "agentwallet"].includes(e.name.toLowerCase())
+                    );
+                    return endpoints.length > 0 ? (
+                      <ul className="space-y-1.5">
+                        {endpoints.map((e) => (
+                          <li key={`${e.name}-${e.endpoint}`} className="min-w-0">
+                            <span className="rounded-md bg-blue-500/10 px-1.5 py-0.5 text-xs text-blue-400">
+                              {e.name}
+                            </span>
+                            <p
+                              className="mt-0.5 truncate font-mono text-xs text-white/40"
+                              title={e.endpoint}
+                            >
+                              {e.endpoint}
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <None />
+                    );
+                  }}
+                />
+
+                <Row
+                  label="Trust models"
+                  agents={compared}
+                  render={({ agent }) => {
+                    const trusts = agent.registrationFile?.supportedTrusts ?? [];
+                    return trusts.length > 0 ? (
+                      <div className="flex flex-wrap gap-1.5">
+                        {trusts.map((trust) => (
+                          <span
+                            key={trust}
+                            className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60"
+                          >
+                            {trust}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <None />
+                    );
+                  }}
+                />
+
+                <Row
+                  label="Reviews"
+                  agents={compared}
+                  render={({ reputation }) => (
+                    <span className="text-base font-semibold text-white">
+                      {reputation.count}
+                    </span>
+                  )}
+                />
+
+                <Row
+                  label="Average score"
+                  agents={compared}
+                  render={({ reputation }) =>
+                    reputation.mean !== null ? (
+                      <ScoreBar score={Math.round(reputation.mean)} />
+                    ) : (
+                      <None />
+                    )
+                  }
+                />
+
+                <Row
+                  label="Score distribution"
+                  agents={compared}
+                  render={({ agent, reputation }) => (
+                    <ColumnChart
+                      label={`Score distribution of agent ${agent.agentId}`}
+                      data={reputation.histogram.map((bucket) => ({
+                        label: String(bucket.min),
+                        value: bucket.count,
+                        title: `Scores ${bucket.min}-${bucket.max}: ${bucket.count}`,
+                      }))}
+                    />
+                  )}
+                />
+
+                <Row
+                  label="Created"
+                  agents={compared}
+                  render={({ agent }) => formatTimestamp(agent.createdAt)}
+                />
+
+                <Row
+                  label="Owner"
+                  agents={compared}
+                  render={({ agent }) => {
+                    const ownerName = names.get(agent.owner.toLowerCase());
+                    return (
+                      <Link
+                        href={`/owner/${agent.owner}`}
+                        className="hover:text-white hover:underline"
+                        title={ownerName ? agent.owner : undefined}
+                      >
+                        {ownerName ?? formatAddress(agent.owner)}
+                      </Link>
+                    );
+                  }}
+                />
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
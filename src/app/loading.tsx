@@ -0,0 +1,24 @@
+/**
+ * Listing skeleton shown while agents are fetched from the subgraph
+ */
+export default function Loading() {
+    return (
+        <div className="min-h-screen bg-[#0a0a0b]">
+            <header className="border-b border-white/5">
+                <div className="mx-auto max-w-7xl px-6 py-6">
+                    <h1 className="text-2xl font-semibold tracking-tight text-white">8004 Agents Explorer</h1>
+                    <div className="mt-2 h-4 w-48 animate-pulse rounded bg-white/5" />
+                </div>
+            </header>
+
+            <main className="mx-auto max-w-7xl px-6 py-8">
+                <div className="mb-6 h-8 w-72 animate-pulse rounded-lg bg-white/5" />
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {Array.from({ length: 6 }, (_, i) => (
+                        <div key={i} className="h-44 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]" />
+                    ))}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { ErrorState } from "@/components/ErrorState";
+
+export default function OwnerError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return <ErrorState error={error} reset={reset} />;
+}
@@ -0,0 +1,30 @@
+/**
+ * Owner portfolio skeleton shown while the owner's agents load
+ */
+export default function OwnerLoading() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <div className="mb-6 h-4 w-32 animate-pulse rounded bg-white/5" />
+          <div className="space-y-3">
+            <div className="h-7 w-32 animate-pulse rounded bg-white/5" />
+            <div className="h-4 w-96 max-w-full animate-pulse rounded bg-white/5" />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <div className="mb-8 h-40 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]" />
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 6 }, (_, i) => (
+            <div
+              key={i}
+              className="h-48 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * Owner Portfolio Page
+ *
+ * Lists the agents a wallet owns across all enabled chains, with aggregate
+ * feedback and endpoint coverage over the whole portfolio. Only the newest
+ * agents are shown; the full list can be browsed on the listing page with the
+ * `owner` filter.
+ */
+
+import { getDataSource } from "@/lib/dataSource";
+import { getChain, getEnabledChains } from "@/lib/chains";
+import { lookupEnsNames } from "@/lib/ens";
+import { buildUrl } from "@/lib/listing";
+import { summarizePortfolio } from "@/lib/portfolio";
+import { isAddress } from "@/lib/registration";
+import { AgentCard } from "@/components/AgentCard";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+/**
+ * Most agents shown on the page; all are aggregated, but only the shown ones
+ * get unindexed metadata resolved. The listing pages through the rest.
+ */
+const OWNER_AGENT_LIMIT = 99;
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/** Single stat in the summary row */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <p className="text-xs text-white/40">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+/** Share of agents exposing one endpoint type */
+function CoverageRow({
+  name,
+  count,
+  total,
+}: {
+  name: string;
+  count: number;
+  total: number;
+}) {
+  const percent = total > 0 ? Math.round((count / total) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="w-24 shrink-0 text-white/60">{name}</span>
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full rounded-full bg-blue-500/70"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="w-16 shrink-0 text-right text-xs text-white/50">
+        {count}/{total}
+      </span>
+    </div>
+  );
+}
+
+// =============================================================================
+// Page Component
+// =============================================================================
+
+interface PageProps {
+  params: Promise<{ address: string }>;
+}
+
+export default async function OwnerPage({ params }: PageProps) {
+  const { address } = await params;
+
+  if (!isAddress(address)) {
+    notFound();
+  }
+
+  const owner = address.toLowerCase();
+  const dataSource = getDataSource();
+  const [agents, names] = await Promise.all([
+    dataSource.fetchOwnerAgents(owner, OWNER_AGENT_LIMIT),
+    lookupEnsNames([owner]),
+  ]);
+  const ensName = names.get(owner);
+  const summary = summarizePortfolio(agents);
+  const showChain = getEnabledChains().length > 1;
+  const shownAgents = agents.slice(0, OWNER_AGENT_LIMIT);
+  const truncated = agents.length > shownAgents.length;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      {/* Header */}
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-7xl px-6 py-6">
+          <Link
+            href="/"
+            className="mb-6 inline-flex items-center gap-2 text-sm text-white/50 hover:text-white/70"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to all agents
+          </Link>
+
+          <h1 className="text-2xl font-semibold text-white">
+            {ensName ?? "Owner"}
+          </h1>
+          <p className="mt-1 break-all font-mono text-sm text-white/40">
+            {address}
+          </p>
+          <p className="mt-2 text-sm text-white/50">
+            {agents.length.toLocaleString()}{" "}
+            {agents.length === 1 ? "agent" : "agents"}
+            {summary.chains.length > 0 &&
+              ` on ${summary.chains
+                .map((c) => getChain(c.chainId)?.name ?? `chain ${c.chainId}`)
+                .join(", ")}`}
+          </p>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        {agents.length === 0 ? (
+          <div className="rounded-xl border border-white/10 bg-white/[0.02] p-12 text-center">
+            <p className="text-white/50">
+              This address doesn&apos;t own any agents
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Portfolio summary */}
+            <div className="mb-8 grid gap-4 lg:grid-cols-3">
+              <div className="grid grid-cols-2 gap-4 lg:col-span-2">
+                <Stat
+                  label="Total feedback"
+                  value={summary.totalFeedback.toLocaleString()}
+                />
+                <Stat
+                  label="Agents with reviews"
+                  value={`${summary.reviewedAgents}/${summary.agents}`}
+                />
+                <Stat
+                  label="Agents with endpoints"
+                  value={`${summary.withEndpoint}/${summary.agents}`}
+                />
+                <Stat
+                  label="Active agents"
+                  value={`${summary.activeAgents}/${summary.agents}`}
+                />
+              </div>
+
+              <div className="rounded-xl border border-white/10 bg-white/[0.02] p-5">
+                <h2 className="mb-4 text-sm font-medium text-white/70">
+                  Endpoint coverage
+                </h2>
+                <div className="space-y-2">
+                  {summary.endpointCoverage.map((coverage) => (
+                    <CoverageRow
+                      key={coverage.name}
+                      name={coverage.name}
+                      count={coverage.count}
+                      total={summary.agents}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {truncated && (
+              <p className="mb-4 text-sm text-white/50">
+                Showing the newest {shownAgents.length} agents.{" "}
+                <a
+                  href={buildUrl({}, { owner })}
+                  className="text-blue-400 hover:underline"
+                >
+                  Browse all of them
+                </a>
+              </p>
+            )}
+
+            {/* Agent grid */}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {shownAgents.map((agent) => (
+                <AgentCard
+                  key={agent.id}
+                  agent={agent}
+                  showChain={showChain}
+                  ownerName={ensName}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,24 +1,47 @@
 /**
  * Agent Listing Page
  *
- * Displays a paginated grid of ERC-8004 agents fetched from the subgraph.
- * Supports search, filtering, and configurable pagination.
+ * Displays a paginated grid of ERC-8004 agents fetched from the configured
+ * data source (the subgraph, or local fixtures).
+ * Supports ranked, typo-tolerant search (over names, descriptions, trust
+ * models, endpoint hosts and skills, or by ENS name or address), filtering
+ * (trust model, protocol, owner, creation date, review count, average score),
+ * sorting, chain selection, and configurable pagination. Active filters are shown as
+ * removable chips, and owners by their ENS names.
  */
 
-import { fetchAgents, fetchAgentCount, fetchGlobalStats, AgentFilters } from "@/lib/subgraph";
+import { AgentFilters, MAX_SKIP } from "@/lib/subgraph";
+import { getDataSource } from "@/lib/dataSource";
+import { getChain, getEnabledChains, parseChainSelection } from "@/lib/chains";
+import {
+    buildCompareUrl,
+    formatCompareIds,
+    MAX_COMPARE_AGENTS,
+    MIN_COMPARE_AGENTS,
+    parseCompareIds,
+    toggleCompareId,
+} from "@/lib/compare";
+import { decodeCursor, encodeCursor } from "@/lib/cursor";
+import { isEnsName, lookupEnsNames, resolveEnsName } from "@/lib/ens";
+import { searchAgents } from "@/lib/searchSource";
+import { AgentCard } from "@/components/AgentCard";
+import { ChainSelect } from "@/components/ChainSelect";
+import { FilterChips, ListingFilters } from "@/components/ListingFilters";
 import { PageSizeSelect } from "@/components/PageSizeSelect";
-import { Search, Filter } from "lucide-react";
-import Link from "next/link";
-
-// =============================================================================
-// Constants
-// =============================================================================
-
-/** Available page size options (multiples of 3 for grid layout) */
-const PAGE_SIZES = [12, 24, 48, 99];
-
-/** Default page size */
-const DEFAULT_PAGE_SIZE = 24;
+import { SortSelect } from "@/components/SortSelect";
+import {
+    buildUrl,
+    DEFAULT_PAGE_SIZE,
+    getDefaultAgentSort,
+    getFilterChips,
+    getPagination,
+    ListingFilterParams,
+    PAGE_SIZES,
+    parseAgentSort,
+    parseListingFilters,
+} from "@/lib/listing";
+import { getCursorField } from "@/lib/query";
+import { BarChart3, GitCompareArrows, Search, Filter } from "lucide-react";
 
 // =============================================================================
 // Helper Functions
@@ -29,108 +52,10 @@ function formatAddress(address: string): string {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-/** Converts Unix timestamp to readable date */
-function formatTimestamp(timestamp: string): string {
-    const date = new Date(parseInt(timestamp) * 1000);
-    return date.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-        year: "numeric",
-    });
-}
-
-/** Builds URL with current params, updating specified values */
-function buildUrl(params: Record<string, string | undefined>, updates: Record<string, string | undefined>): string {
-    const merged = { ...params, ...updates };
-    const searchParams = new URLSearchParams();
-
-    Object.entries(merged).forEach(([key, value]) => {
-        if (value && value !== "1" && !(key === "perPage" && value === String(DEFAULT_PAGE_SIZE))) {
-            searchParams.set(key, value);
-        }
-    });
-
-    const query = searchParams.toString();
-    return query ? `/?${query}` : "/";
-}
-
 // =============================================================================
 // Components
 // =============================================================================
 
-/** Props for the AgentCard component */
-interface AgentCardProps {
-    agent: {
-        id: string;
-        agentId: string;
-        owner: string;
-        createdAt: string;
-        totalFeedback: string;
-        registrationFile: {
-            name: string | null;
-            description: string | null;
-            image: string | null;
-            supportedTrusts: string[] | null;
-            mcpEndpoint: string | null;
-            a2aEndpoint: string | null;
-        } | null;
-    };
-}
-
-/** Displays a single agent as a clickable card */
-function AgentCard({ agent }: AgentCardProps) {
-    const name = agent.registrationFile?.name || `Agent #${agent.agentId}`;
-    const description = agent.registrationFile?.description;
-    const trusts = agent.registrationFile?.supportedTrusts || [];
-    const feedbackCount = parseInt(agent.totalFeedback);
-    const hasEndpoint = agent.registrationFile?.mcpEndpoint || agent.registrationFile?.a2aEndpoint;
-
-    return (
-        <Link
-            href={`/agent/${encodeURIComponent(agent.id)}`}
-            className="group block rounded-xl border border-white/10 bg-white/[0.02] p-5 transition-all hover:border-white/20 hover:bg-white/[0.04]"
-        >
-            {/* Header: Name and badges */}
-            <div className="mb-3 flex items-start justify-between gap-3">
-                <div className="min-w-0 flex-1">
-                    <h3 className="truncate font-medium text-white/90">{name}</h3>
-                    <p className="mt-0.5 font-mono text-xs text-white/40">ID: {agent.agentId}</p>
-                </div>
-                <div className="flex shrink-0 gap-1.5">
-                    {hasEndpoint && (
-                        <span className="rounded-full bg-blue-500/10 px-2 py-0.5 text-xs text-blue-400">API</span>
-                    )}
-                    {feedbackCount > 0 && (
-                        <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-xs text-emerald-400">
-                            {feedbackCount}
-                        </span>
-                    )}
-                </div>
-            </div>
-
-            {/* Description (truncated to 2 lines) */}
-            {description && <p className="mb-4 line-clamp-2 text-sm leading-relaxed text-white/50">{description}</p>}
-
-            {/* Trust model badges */}
-            {trusts.length > 0 && (
-                <div className="mb-4 flex flex-wrap gap-1.5">
-                    {trusts.slice(0, 3).map((trust) => (
-                        <span key={trust} className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
-                            {trust}
-                        </span>
-                    ))}
-                </div>
-            )}
-
-            {/* Footer: Owner address and creation date */}
-            <div className="flex items-center justify-between border-t border-white/5 pt-3 text-xs text-white/40">
-                <span>Owner: {formatAddress(agent.owner)}</span>
-                <span>{formatTimestamp(agent.createdAt)}</span>
-            </div>
-        </Link>
-    );
-}
-
 /** Filter toggle button */
 function FilterButton({ active, href, children }: { active: boolean; href: string; children: React.ReactNode }) {
     return (
@@ -151,13 +76,14 @@ function FilterButton({ active, href, children }: { active: boolean; href: strin
 // Page Component
 // =============================================================================
 
-/** URL search params for the page */
-interface SearchParams {
-    search?: string;
+/** URL search params for the page (filter params are listed in `LISTING_FILTER_PARAMS`) */
+interface SearchParams extends ListingFilterParams {
     page?: string;
+    cursor?: string;
     perPage?: string;
-    hasReviews?: string;
-    hasEndpoint?: string;
+    chain?: string;
+    sort?: string;
+    compare?: string; // Agents selected for comparison
 }
 
 interface PageProps {
@@ -167,46 +93,124 @@ interface PageProps {
 export default async function Home({ searchParams }: PageProps) {
     // Parse URL search params
     const params = await searchParams;
-    const search = params.search || "";
-    const page = parseInt(params.page || "1");
+    const { filters: parsedFilters, params: filterParams } = parseListingFilters(params);
+    const search = parsedFilters.search ?? "";
+    const owner = parsedFilters.owner ?? "";
+    const hasReviews = parsedFilters.hasReviews ?? false;
+    const hasEndpoint = parsedFilters.hasEndpoint ?? false;
+    const hasValidations = parsedFilters.hasValidations ?? false;
+    const page = Math.max(1, parseInt(params.page || "1") || 1);
+    const sort = parseAgentSort(params.sort, search !== "");
+    const compareIds = parseCompareIds(params.compare);
+    // Sorts without a cursor field (name, average score, relevance) are paged by offset only
+    const cursorField = getCursorField(sort);
+    const cursor = cursorField ? decodeCursor(params.cursor) : null;
     const perPage = parseInt(params.perPage || String(DEFAULT_PAGE_SIZE));
-    const hasReviews = params.hasReviews === "true";
-    const hasEndpoint = params.hasEndpoint === "true";
+    const chain = parseChainSelection(params.chain);
+    const chains = getEnabledChains();
+    const selectedChain = chain === "all" ? null : getChain(chain);
 
     // Validate perPage
     const pageSize = PAGE_SIZES.includes(perPage) ? perPage : DEFAULT_PAGE_SIZE;
     const skip = (page - 1) * pageSize;
 
+    // Pages reached via Next/Previous carry a cursor. Without one we fall back
+    // to skip, which The Graph only allows up to MAX_SKIP.
+    const pageTooDeep = !cursor && skip > MAX_SKIP;
+
+    // The search index finds and ranks agents by their registration files. ENS names
+    // also match the agents owned by (or paying to) the address they resolve to.
+    // If the index can't be built, the search falls back to the subgraph's name filter.
+    const [searchAddress, searchHits] = await Promise.all([
+        isEnsName(search) ? resolveEnsName(search) : Promise.resolve(null),
+        search ? searchAgents(search).catch(() => null) : Promise.resolve(null),
+    ]);
+    const searchTerms = new Map(searchHits?.map((hit) => [hit.id, hit.terms]));
+
     // Build filters object
     const filters: AgentFilters = {
-        search: search || undefined,
-        hasReviews: hasReviews || undefined,
-        hasEndpoint: hasEndpoint || undefined,
+        ...parsedFilters,
+        searchAddress: searchAddress || undefined,
+        searchMatches: searchHits?.map((hit) => hit.id),
     };
 
     // Current params for URL building
     const currentParams: Record<string, string | undefined> = {
-        search: search || undefined,
+        ...filterParams,
         page: String(page),
+        cursor: cursor ? params.cursor : undefined,
         perPage: String(pageSize),
-        hasReviews: hasReviews ? "true" : undefined,
-        hasEndpoint: hasEndpoint ? "true" : undefined,
+        chain: chain === "all" ? undefined : String(chain),
+        sort: sort === getDefaultAgentSort(search !== "") ? undefined : sort,
+        compare: formatCompareIds(compareIds),
+    };
+
+    // View params that aren't filters, kept by the filter forms
+    const viewParams = {
+        chain: currentParams.chain,
+        sort: currentParams.sort,
+        perPage: pageSize === DEFAULT_PAGE_SIZE ? undefined : String(pageSize),
+        compare: currentParams.compare,
     };
 
+    // Clearing filters keeps the chain, sort and comparison selection
+    const clearFiltersUrl = buildUrl(
+        { chain: currentParams.chain, sort: currentParams.sort, compare: currentParams.compare },
+        {}
+    );
+
     // Check if any filters are active
-    const hasActiveFilters = hasReviews || hasEndpoint || search;
+    const hasActiveFilters = Object.keys(filterParams).length > 0;
+    // Filters set through the form rather than a toggle button
+    const hasFormFilters = ["protocol", "trust", "owner", "from", "to", "minReviews", "minScore"].some(
+        (key) => key in filterParams
+    );
 
     // Fetch agents and stats from subgraph (runs on server)
-    // When filters are active, we need to count filtered results for accurate pagination
+    // When filters are active, we need to count filtered results for accurate pagination.
+    // Stats are only used for the header and page count, so the listing still renders
+    // (with an unknown total) if that query fails.
+    const dataSource = getDataSource();
     const [agents, stats, filteredCount] = await Promise.all([
-        fetchAgents(pageSize, skip, filters),
-        fetchGlobalStats(),
-        hasActiveFilters ? fetchAgentCount(filters) : Promise.resolve(null),
+        pageTooDeep
+            ? Promise.resolve([])
+            : dataSource.fetchAgents(pageSize, cursor ? { cursor } : { skip }, filters, chain, sort),
+        dataSource.fetchGlobalStats(chain).catch(() => null),
+        hasActiveFilters ? dataSource.fetchAgentCount(filters, chain) : Promise.resolve(null),
     ]);
-
-    // Use filtered count for pagination when filters are active, otherwise use global total
-    const totalAgents = filteredCount ?? parseInt(stats.totalAgents);
-    const totalPages = Math.ceil(totalAgents / pageSize);
+    const ownerNames = await lookupEnsNames([...agents.map((agent) => agent.owner), ...(owner ? [owner] : [])]);
+
+    // Use filtered count for pagination when filters are active, otherwise use global total.
+    // A filtered count may still be in progress, in which case it is only a lower bound.
+    const totalAgents = filteredCount?.total ?? (stats ? parseInt(stats.totalAgents) : null);
+    const {
+        totalPages,
+        exact: countIsExact,
+        hasNextPage,
+    } = getPagination(page, pageSize, totalAgents, filteredCount?.exact ?? true, agents.length);
+
+    // Cursors for the neighbouring pages, keyed on the sort field of the agents at
+    // this page's edges. Going back to page 1 needs no cursor.
+    const firstAgent = agents[0];
+    const lastAgent = agents[agents.length - 1];
+    const prevCursor =
+        cursorField && page > 2 && firstAgent
+            ? encodeCursor({ key: { value: firstAgent[cursorField], id: firstAgent.id }, direction: "before" })
+            : undefined;
+    const nextCursor =
+        cursorField && lastAgent
+            ? encodeCursor({ key: { value: lastAgent[cursorField], id: lastAgent.id }, direction: "after" })
+            : undefined;
+
+    const countLabel =
+        totalAgents === null ? null : countIsExact ? totalAgents.toLocaleString() : `${totalAgents.toLocaleString()}+`;
+
+    // Describe where the agents come from in the header line
+    const scopeLabel = selectedChain
+        ? selectedChain.name
+        : chains.length === 1
+          ? chains[0].name
+          : `${chains.length} chains`;
 
     return (
         <div className="min-h-screen bg-[#0a0a0b]">
@@ -218,33 +222,54 @@ export default async function Home({ searchParams }: PageProps) {
                         <div>
                             <h1 className="text-2xl font-semibold tracking-tight text-white">8004 Agents Explorer</h1>
                             <p className="mt-1 text-sm text-white/50">
-                                {hasActiveFilters
-                                    ? `${totalAgents.toLocaleString()} matching agents`
-                                    : `${totalAgents.toLocaleString()} registered agents on Ethereum Sepolia`}
+                                {countLabel === null
+                                    ? `Agents on ${scopeLabel} · registry statistics are temporarily unavailable`
+                                    : hasActiveFilters
+                                      ? `${countLabel} matching agents`
+                                      : `${countLabel} registered agents on ${scopeLabel}`}
+                                {countLabel !== null && !countIsExact && (
+                                    <span
+                                        className="ml-2 text-white/30"
+                                        title="Still counting matching agents; refresh for the exact number"
+                                    >
+                                        (counting…)
+                                    </span>
+                                )}
                             </p>
                         </div>
 
-                        {/* Search form */}
-                        <form action="/" method="GET" className="relative w-full sm:w-72">
-                            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
-                            <input
-                                type="text"
-                                name="search"
-                                placeholder="Search agents..."
-                                defaultValue={search}
-                                className="w-full rounded-lg border border-white/10 bg-white/5 py-2 pl-10 pr-4 text-sm text-white placeholder-white/30 outline-none focus:border-white/20"
-                            />
-                            {/* Preserve other filters when searching */}
-                            {hasReviews && <input type="hidden" name="hasReviews" value="true" />}
-                            {hasEndpoint && <input type="hidden" name="hasEndpoint" value="true" />}
-                            {pageSize !== DEFAULT_PAGE_SIZE && <input type="hidden" name="perPage" value={pageSize} />}
-                        </form>
+                        <div className="flex items-center gap-3">
+                            <a
+                                href="/analytics"
+                                className="inline-flex shrink-0 items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/60 hover:border-white/20 hover:text-white/80"
+                            >
+                                <BarChart3 className="h-4 w-4" />
+                                Analytics
+                            </a>
+
+                            {/* Search form */}
+                            <form action="/" method="GET" className="relative w-full sm:w-72">
+                                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
+                                <input
+                                    type="text"
+                                    name="search"
+                                    placeholder="Search by name, skill, ENS or address..."
+                                    defaultValue={search}
+                                    className="w-full rounded-lg border border-white/10 bg-white/5 py-2 pl-10 pr-4 text-sm text-white placeholder-white/30 outline-none focus:border-white/20"
+                                />
+                                {/* Preserve other filters when searching */}
+                                {Object.entries({ ...filterParams, search: undefined, ...viewParams }).map(
+                                    ([name, value]) =>
+                                        value && <input key={name} type="hidden" name={name} value={value} />
+                                )}
+                            </form>
+                        </div>
                     </div>
                 </div>
             </header>
 
             {/* Main content */}
-            <main className="mx-auto max-w-7xl px-6 py-8">
+            <main className={`mx-auto max-w-7xl px-6 py-8 ${compareIds.length > 0 ? "pb-24" : ""}`}>
                 {/* Filters bar */}
                 <div className="mb-6 flex flex-wrap items-center gap-3">
                     <div className="flex items-center gap-2 text-sm text-white/50">
@@ -272,30 +297,78 @@ export default async function Home({ searchParams }: PageProps) {
                         Has API endpoint
                     </FilterButton>
 
+                    <FilterButton
+                        active={hasValidations}
+                        href={buildUrl(currentParams, {
+                            hasValidations: hasValidations ? undefined : "true",
+                            page: "1",
+                        })}
+                    >
+                        Has validations
+                    </FilterButton>
+
                     {hasActiveFilters && (
                         <a
-                            href="/"
+                            href={clearFiltersUrl}
                             className="ml-2 text-sm text-white/50 underline underline-offset-2 hover:text-white/70"
                         >
                             Clear all
                         </a>
                     )}
+
+                    <div className="ml-auto flex items-center gap-2">
+                        <span className="text-sm text-white/50">Sort:</span>
+                        <SortSelect currentSort={sort} currentParams={currentParams} />
+
+                        {/* Chain switcher (only useful when more than one chain is configured) */}
+                        {chains.length > 1 && (
+                            <ChainSelect
+                                currentChain={String(chain)}
+                                chains={chains.map((c) => ({ id: c.id, name: c.name }))}
+                                currentParams={currentParams}
+                            />
+                        )}
+                    </div>
                 </div>
 
+                {/* Filters that need a value */}
+                <ListingFilters params={filterParams} preserved={viewParams} open={hasFormFilters} />
+
                 {/* Search result indicator */}
                 {search && (
                     <div className="mb-6 flex items-center gap-2">
-                        <span className="text-sm text-white/50">Results for &quot;{search}&quot;</span>
+                        <span className="text-sm text-white/50">
+                            Results for &quot;{search}&quot;
+                            {searchAddress && (
+                                <span className="ml-1.5 font-mono text-white/30">({formatAddress(searchAddress)})</span>
+                            )}
+                        </span>
                     </div>
                 )}
 
+                {/* Active filters, each removable */}
+                <FilterChips chips={getFilterChips(filterParams, ownerNames.get(owner))} params={currentParams} />
+
                 {/* Agent grid or empty state */}
-                {agents.length === 0 ? (
+                {pageTooDeep ? (
+                    <div className="py-20 text-center">
+                        <p className="text-white/50">This page is too deep to open directly</p>
+                        {/* Offset-only sorts can't go deeper, so offer a sort that can */}
+                        <a
+                            href={buildUrl(currentParams, cursorField ? { page: "1" } : { sort: "newest", page: "1" })}
+                            className="mt-2 inline-block text-sm text-white/70 underline underline-offset-2 hover:text-white"
+                        >
+                            {cursorField
+                                ? "Start from the first page and use Next"
+                                : "Sort by newest to browse further with Next"}
+                        </a>
+                    </div>
+                ) : agents.length === 0 ? (
                     <div className="py-20 text-center">
                         <p className="text-white/50">No agents found</p>
                         {hasActiveFilters && (
                             <a
-                                href="/"
+                                href={clearFiltersUrl}
                                 className="mt-2 inline-block text-sm text-white/70 underline underline-offset-2 hover:text-white"
                             >
                                 Clear filters
@@ -307,7 +380,20 @@ export default async function Home({ searchParams }: PageProps) {
                         {/* Agent cards grid */}
                         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                             {agents.map((agent) => (
-                                <AgentCard key={agent.id} agent={agent} />
+                                <AgentCard
+                                    key={agent.id}
+                                    agent={agent}
+                                    showChain={chain === "all" && chains.length > 1}
+                                    ownerName={ownerNames.get(agent.owner.toLowerCase())}
+                                    highlight={searchTerms.get(agent.id)}
+                                    compare={{
+                                        href: buildUrl(currentParams, {
+                                            compare: formatCompareIds(toggleCompareId(compareIds, agent.id)),
+                                        }),
+                                        selected: compareIds.includes(agent.id),
+                                        disabled: compareIds.length >= MAX_COMPARE_AGENTS,
+                                    }}
+                                />
                             ))}
                         </div>
 
@@ -324,22 +410,24 @@ export default async function Home({ searchParams }: PageProps) {
                             </div>
 
                             {/* Center: Page navigation */}
-                            {totalPages > 1 && (
+                            {(totalPages > 1 || hasNextPage) && (
                                 <div className="flex items-center gap-2">
                                     {page > 1 && (
                                         <a
-                                            href={buildUrl(currentParams, { page: String(page - 1) })}
+                                            href={buildUrl(currentParams, { page: String(page - 1), cursor: prevCursor })}
                                             className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
                                         >
                                             Previous
                                         </a>
                                     )}
                                     <span className="px-4 py-2 text-sm text-white/50">
-                                        Page {page} of {totalPages}
+                                        {totalAgents === null
+                                            ? `Page ${page}`
+                                            : `Page ${page} of ${countIsExact ? totalPages : `${Math.max(totalPages, page)}+`}`}
                                     </span>
-                                    {page < totalPages && (
+                                    {hasNextPage && (
                                         <a
-                                            href={buildUrl(currentParams, { page: String(page + 1) })}
+                                            href={buildUrl(currentParams, { page: String(page + 1), cursor: nextCursor })}
                                             className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
                                         >
                                             Next
@@ -354,6 +442,42 @@ export default async function Home({ searchParams }: PageProps) {
                     </>
                 )}
             </main>
+
+            {/* Comparison tray, while agents are selected */}
+            {compareIds.length > 0 && (
+                <div className="fixed inset-x-0 bottom-0 z-20 border-t border-white/10 bg-[#0a0a0b]/95 backdrop-blur">
+                    <div className="mx-auto flex max-w-7xl items-center justify-between gap-4 px-6 py-4">
+                        <p className="text-sm text-white/60">
+                            {compareIds.length} of {MAX_COMPARE_AGENTS} agents selected
+                            {compareIds.length < MIN_COMPARE_AGENTS && (
+                                <span className="ml-2 text-white/30">· select another agent to compare</span>
+                            )}
+                        </p>
+                        <div className="flex items-center gap-3">
+                            <a
+                                href={buildUrl(currentParams, { compare: undefined })}
+                                className="text-sm text-white/50 underline underline-offset-2 hover:text-white/70"
+                            >
+                                Clear
+                            </a>
+                            {compareIds.length >= MIN_COMPARE_AGENTS ? (
+                                <a
+                                    href={buildCompareUrl(compareIds)}
+                                    className="inline-flex items-center gap-1.5 rounded-lg border border-blue-500/50 bg-blue-500/10 px-4 py-2 text-sm text-blue-400 hover:bg-blue-500/20"
+                                >
+                                    <GitCompareArrows className="h-4 w-4" />
+                                    Compare
+                                </a>
+                            ) : (
+                                <span className="inline-flex cursor-not-allowed items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/30">
+                                    <GitCompareArrows className="h-4 w-4" />
+                                    Compare
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
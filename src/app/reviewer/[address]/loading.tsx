@@ -0,0 +1,37 @@
+/**
+ * Reviewer profile skeleton shown while the reviewer's feedback loads
+ */
+export default function ReviewerLoading() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-4xl px-6 py-6">
+          <div className="mb-6 h-4 w-32 animate-pulse rounded bg-white/5" />
+          <div className="space-y-3">
+            <div className="h-7 w-40 animate-pulse rounded bg-white/5" />
+            <div className="h-4 w-96 max-w-full animate-pulse rounded bg-white/5" />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-6 py-8">
+        <div className="mb-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {Array.from({ length: 4 }, (_, i) => (
+            <div
+              key={i}
+              className="h-20 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+            />
+          ))}
+        </div>
+        <div className="space-y-4">
+          {Array.from({ length: 3 }, (_, i) => (
+            <div
+              key={i}
+              className="h-32 animate-pulse rounded-xl border border-white/10 bg-white/[0.02]"
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
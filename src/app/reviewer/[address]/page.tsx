@@ -0,0 +1,172 @@
+/**
+ * Reviewer Profile Page
+ *
+ * Lists every feedback entry a wallet (the `clientAddress` of the feedback)
+ * has given, across all agents and enabled chains, with stats that help judge
+ * whether the reviewer is credible:
+ * - Review count and revocations
+ * - Average score given
+ * - Number of distinct agents reviewed
+ */
+
+import { getDataSource } from "@/lib/dataSource";
+import { lookupEnsNames } from "@/lib/ens";
+import { buildUrl } from "@/lib/listing";
+import { isAddress } from "@/lib/registration";
+import { summarizeReviewer } from "@/lib/reputation";
+import { REVIEWS_PER_PAGE } from "@/lib/reviews";
+import { FeedbackCard } from "@/components/FeedbackCard";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Converts Unix timestamp to readable date */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(parseInt(timestamp) * 1000);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/** Single stat in the summary row */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <p className="text-xs text-white/40">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+// =============================================================================
+// Page Component
+// =============================================================================
+
+interface PageProps {
+  params: Promise<{ address: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+export default async function ReviewerPage({ params, searchParams }: PageProps) {
+  const { address } = await params;
+  const { page: pageParam } = await searchParams;
+
+  if (!isAddress(address)) {
+    notFound();
+  }
+
+  const [feedback, names] = await Promise.all([
+    getDataSource().fetchReviewerFeedback(address),
+    lookupEnsNames([address]),
+  ]);
+  const ensName = names.get(address.toLowerCase());
+  const summary = summarizeReviewer(feedback);
+
+  // Everything is already loaded for the stats, so pages are slices
+  const totalPages = Math.max(1, Math.ceil(feedback.length / REVIEWS_PER_PAGE));
+  const page = Math.min(totalPages, Math.max(1, parseInt(pageParam || "1") || 1));
+  const pageFeedback = feedback.slice(
+    (page - 1) * REVIEWS_PER_PAGE,
+    page * REVIEWS_PER_PAGE
+  );
+  const path = `/reviewer/${address}`;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0b]">
+      {/* Header */}
+      <header className="border-b border-white/5">
+        <div className="mx-auto max-w-4xl px-6 py-6">
+          <Link
+            href="/"
+            className="mb-6 inline-flex items-center gap-2 text-sm text-white/50 hover:text-white/70"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to all agents
+          </Link>
+
+          <h1 className="text-2xl font-semibold text-white">
+            {ensName ?? "Reviewer"}
+          </h1>
+          <p className="mt-1 break-all font-mono text-sm text-white/40">
+            {address}
+          </p>
+          {summary.firstReviewAt && summary.lastReviewAt && (
+            <p className="mt-2 text-sm text-white/50">
+              Reviewing since {formatTimestamp(summary.firstReviewAt)}, last
+              review {formatTimestamp(summary.lastReviewAt)}
+            </p>
+          )}
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl px-6 py-8">
+        {/* Stats */}
+        <div className="mb-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <Stat label="Reviews given" value={String(summary.count)} />
+          <Stat
+            label="Average score given"
+            value={
+              summary.mean !== null
+                ? String(Math.round(summary.mean * 10) / 10)
+                : "–"
+            }
+          />
+          <Stat label="Agents reviewed" value={String(summary.agentsReviewed)} />
+          <Stat label="Revoked" value={String(summary.revoked)} />
+        </div>
+
+        {/* Feedback list */}
+        <h2 className="mb-4 text-lg font-medium text-white">Feedback given</h2>
+
+        {feedback.length === 0 ? (
+          <div className="rounded-xl border border-white/10 bg-white/[0.02] p-8 text-center">
+            <p className="text-white/50">
+              This address hasn&apos;t given any feedback
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pageFeedback.map((f) => (
+              <FeedbackCard key={f.id} feedback={f} agent={f.agent} />
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-6 flex items-center justify-center gap-2">
+            {page > 1 && (
+              <a
+                href={buildUrl({}, { page: String(page - 1) }, path)}
+                className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
+              >
+                Previous
+              </a>
+            )}
+            <span className="px-4 py-2 text-sm text-white/50">
+              Page {page} of {totalPages}
+            </span>
+            {page < totalPages && (
+              <a
+                href={buildUrl({}, { page: String(page + 1) }, path)}
+                className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
+              >
+                Next
+              </a>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { AlertTriangle, ExternalLink, Network } from "lucide-react";
+import { A2aCardResult, A2aSkill, fetchAgentCard } from "@/lib/a2a";
+import { RegistrationFile } from "@/lib/registration";
+
+/** Card frame shared by the result and the loading state */
+function PanelCard({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="mb-8 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <h2 className="mb-4 flex items-center gap-2 text-sm font-medium text-white/70">
+                <Network className="h-4 w-4" />
+                A2A agent card
+            </h2>
+            {children}
+        </div>
+    );
+}
+
+/** Row of media type or tag chips */
+function Chips({ items }: { items: string[] }) {
+    return (
+        <div className="flex flex-wrap gap-1.5">
+            {items.map((item) => (
+                <span key={item} className="rounded-md bg-white/5 px-2 py-0.5 font-mono text-xs text-white/60">
+                    {item}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+/** Capability flag, dimmed when the card doesn't declare it */
+function Capability({ label, enabled }: { label: string; enabled: boolean }) {
+    return (
+        <span
+            className={`rounded-md px-2 py-0.5 text-xs ${
+                enabled ? "bg-emerald-500/10 text-emerald-400" : "bg-white/5 text-white/30 line-through"
+            }`}
+        >
+            {label}
+        </span>
+    );
+}
+
+/** One declared skill */
+function SkillRow({ skill }: { skill: A2aSkill }) {
+    return (
+        <li className="rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2">
+            <div className="text-sm">
+                <span className="text-white/80">{skill.name ?? skill.id ?? "Unnamed skill"}</span>
+                {skill.id && skill.name && <span className="ml-2 font-mono text-xs text-white/30">{skill.id}</span>}
+            </div>
+            {skill.description && <p className="mt-1 text-xs text-white/50">{skill.description}</p>}
+            {skill.tags.length > 0 && (
+                <div className="mt-2">
+                    <Chips items={skill.tags} />
+                </div>
+            )}
+            {(skill.inputModes || skill.outputModes) && (
+                <p className="mt-2 font-mono text-xs text-white/30">
+                    {skill.inputModes?.join(", ") ?? "default"} → {skill.outputModes?.join(", ") ?? "default"}
+                </p>
+            )}
+            {skill.examples.length > 0 && (
+                <ul className="mt-2 space-y-0.5 text-xs italic text-white/40">
+                    {skill.examples.map((example) => (
+                        <li key={example}>&ldquo;{example}&rdquo;</li>
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+}
+
+/** Renders a card resolution result */
+export function A2aCardView({ result }: { result: A2aCardResult }) {
+    if (!result.ok) {
+        return (
+            <PanelCard>
+                <span className="rounded-md bg-red-500/10 px-2 py-0.5 text-xs text-red-400">Unavailable</span>
+                {result.url && <p className="mt-4 truncate font-mono text-xs text-white/30">{result.url}</p>}
+                <p className="mt-2 text-sm text-white/50">{result.error}</p>
+            </PanelCard>
+        );
+    }
+
+    const { card, issues, mismatches } = result;
+
+    return (
+        <PanelCard>
+            <a
+                href={result.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mb-4 flex items-center gap-1 truncate font-mono text-xs text-white/30 hover:text-white/50"
+            >
+                {result.url}
+                <ExternalLink className="h-3 w-3 shrink-0" />
+            </a>
+
+            <div className="space-y-4 text-sm">
+                {/* Identity */}
+                <div className="grid gap-3 sm:grid-cols-3">
+                    <div>
+                        <span className="text-white/40">Name</span>
+                        <p className="mt-0.5 text-white/70">{card.name ?? "Unknown"}</p>
+                    </div>
+                    <div>
+                        <span className="text-white/40">Version</span>
+                        <p className="mt-0.5 font-mono text-white/70">{card.version ?? "Unknown"}</p>
+                    </div>
+                    <div>
+                        <span className="text-white/40">Protocol</span>
+                        <p className="mt-0.5 font-mono text-white/70">
+                            {card.protocolVersion ?? "Unknown"}
+                            {card.preferredTransport && ` · ${card.preferredTransport}`}
+                        </p>
+                    </div>
+                </div>
+
+                {card.provider && (
+                    <p className="text-xs text-white/50">
+                        Provided by{" "}
+                        {card.provider.url ? (
+                            <a
+                                href={card.provider.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-white/70 hover:text-white"
+                            >
+                                {card.provider.organization}
+                            </a>
+                        ) : (
+                            <span className="text-white/70">{card.provider.organization}</span>
+                        )}
+                    </p>
+                )}
+
+                {/* Capabilities */}
+                <div className="flex flex-wrap gap-1.5">
+                    <Capability label="Streaming" enabled={card.capabilities.streaming} />
+                    <Capability label="Push notifications" enabled={card.capabilities.pushNotifications} />
+                    <Capability label="State history" enabled={card.capabilities.stateTransitionHistory} />
+                </div>
+
+                {/* Default I/O modes */}
+                <div className="grid gap-3 sm:grid-cols-2">
+                    <div>
+                        <h3 className="mb-1.5 text-white/40">Input modes</h3>
+                        <Chips items={card.defaultInputModes} />
+                    </div>
+                    <div>
+                        <h3 className="mb-1.5 text-white/40">Output modes</h3>
+                        <Chips items={card.defaultOutputModes} />
+                    </div>
+                </div>
+
+                {/* Skills */}
+                <div>
+                    <h3 className="mb-2 text-white/40">Skills ({card.skills.length})</h3>
+                    {card.skills.length === 0 ? (
+                        <p className="text-xs text-white/40">No skills declared</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {card.skills.map((skill, index) => (
+                                <SkillRow key={skill.id ?? index} skill={skill} />
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Authentication */}
+                <div>
+                    <h3 className="mb-2 text-white/40">Authentication</h3>
+                    {card.securitySchemes.length === 0 ? (
+                        <p className="text-xs text-white/40">None declared</p>
+                    ) : (
+                        <ul className="space-y-1 text-xs">
+                            {card.securitySchemes.map((scheme) => (
+                                <li key={scheme.name}>
+                                    <span className="font-mono text-white/70">{scheme.name}</span>
+                                    <span className="ml-1.5 text-white/30">
+                                        {scheme.type}
+                                        {scheme.detail && ` (${scheme.detail})`}
+                                    </span>
+                                    {scheme.description && (
+                                        <span className="ml-1.5 text-white/40">- {scheme.description}</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {card.security.length > 0 && (
+                        <p className="mt-1.5 text-xs text-white/40">
+                            Requires {card.security.map((schemes) => schemes.join(" + ")).join(" or ")}
+                        </p>
+                    )}
+                </div>
+
+                {/* Disagreements with the registration file */}
+                {mismatches.length > 0 && (
+                    <div className="rounded-lg border border-amber-500/20 bg-amber-500/5 p-3">
+                        <h3 className="mb-1.5 flex items-center gap-1.5 text-xs font-medium text-amber-400">
+                            <AlertTriangle className="h-3.5 w-3.5" />
+                            Differs from the registration file
+                        </h3>
+                        <ul className="space-y-1 text-xs text-amber-400/80">
+                            {mismatches.map((mismatch) => (
+                                <li key={mismatch.message}>{mismatch.message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {/* Spec violations */}
+                {issues.length > 0 && (
+                    <div>
+                        <h3 className="mb-1.5 text-xs text-white/40">Card validation</h3>
+                        <ul className="space-y-0.5 text-xs text-amber-400/80">
+                            {issues.map((issue) => (
+                                <li key={issue}>{issue}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </PanelCard>
+    );
+}
+
+/**
+ * Fetches the Agent Card behind a registration file's A2A endpoint and shows it
+ *
+ * An async server component; render it inside `<Suspense>` with
+ * `A2aCardPanelFallback`. Renders nothing when there's no A2A endpoint.
+ */
+export async function A2aCardPanel({ registrationFile }: { registrationFile: RegistrationFile }) {
+    const result = await fetchAgentCard(registrationFile);
+    return result ? <A2aCardView result={result} /> : null;
+}
+
+/** Placeholder shown while the card loads */
+export function A2aCardPanelFallback() {
+    return (
+        <PanelCard>
+            <p className="text-sm text-white/40">Fetching the agent card...</p>
+        </PanelCard>
+    );
+}
@@ -0,0 +1,211 @@
+import { ArrowLeftRight, Ban, FilePen, History, MessageSquare, UserPlus } from "lucide-react";
+import Link from "next/link";
+import type { AgentActivity, RegistrationDiff, TimelineEvent } from "@/lib/activity";
+import type { DiffCell, DiffRow } from "@/lib/diff";
+import type { EnsNames } from "@/lib/ens";
+
+/** Truncates an Ethereum address to "0x1234...5678" format */
+function formatAddress(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Converts Unix timestamp to a readable date and time (UTC, since events often share a day) */
+function formatDateTime(timestamp: string): string {
+    const date = new Date(parseInt(timestamp) * 1000);
+    return `${date.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+        timeZone: "UTC",
+    })} UTC`;
+}
+
+/** Shortens long URIs (data: URIs especially) for display */
+function formatUri(uri: string): string {
+    return uri.length > 60 ? `${uri.slice(0, 40)}...${uri.slice(-12)}` : uri;
+}
+
+/** Address linking to its owner or reviewer page, shown by its ENS name when one is known */
+function AddressLink({ address, kind, names }: { address: string; kind: "owner" | "reviewer"; names?: EnsNames }) {
+    return (
+        <Link href={`/${kind}/${address}`} className="font-mono text-blue-400 hover:underline">
+            {names?.get(address.toLowerCase()) ?? formatAddress(address)}
+        </Link>
+    );
+}
+
+const rowClasses: Record<Exclude<DiffRow["type"], "skip">, { left: string; right: string }> = {
+    same: { left: "text-white/40", right: "text-white/40" },
+    changed: { left: "bg-red-500/10 text-red-300", right: "bg-emerald-500/10 text-emerald-300" },
+    removed: { left: "bg-red-500/10 text-red-300", right: "" },
+    added: { left: "", right: "bg-emerald-500/10 text-emerald-300" },
+};
+
+/** One side of a diff row: line number and text */
+function DiffSide({ cell, className }: { cell: DiffCell | null; className: string }) {
+    return (
+        <div className={`flex min-w-0 gap-2 px-2 ${className}`}>
+            <span className="w-6 shrink-0 select-none text-right text-white/20">{cell?.line}</span>
+            <span className="whitespace-pre-wrap break-all">{cell?.text}</span>
+        </div>
+    );
+}
+
+/** Side-by-side diff of the registration files behind a URI update */
+function RegistrationDiffView({ diff }: { diff: RegistrationDiff | null }) {
+    if (!diff) return null;
+
+    if (diff.status === "unavailable") {
+        return <p className="mt-2 text-xs text-white/40">Couldn&apos;t load the registration files: {diff.error}</p>;
+    }
+    if (diff.status !== "ok") {
+        return (
+            <p className="mt-2 text-xs text-white/40">
+                {diff.status === "same-uri"
+                    ? "The URI is unchanged, so the previous file can't be compared."
+                    : "The previous URI wasn't recorded."}
+            </p>
+        );
+    }
+
+    if (!diff.changed) {
+        return <p className="mt-2 text-xs text-white/40">The registration file contents are identical.</p>;
+    }
+
+    return (
+        <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-white/50 hover:text-white/70">
+                Show registration file changes
+            </summary>
+            <div className="mt-2 overflow-x-auto rounded-lg border border-white/10 font-mono text-xs">
+                <div className="grid grid-cols-2 border-b border-white/10 text-white/50">
+                    <span className="px-2 py-1">Before</span>
+                    <span className="border-l border-white/10 px-2 py-1">After</span>
+                </div>
+                {diff.rows.map((row, index) =>
+                    row.type === "skip" ? (
+                        <div key={index} className="bg-white/[0.02] px-2 py-0.5 text-center text-white/30">
+                            {row.count} unchanged {row.count === 1 ? "line" : "lines"}
+                        </div>
+                    ) : (
+                        <div key={index} className="grid grid-cols-2">
+                            <DiffSide cell={row.left} className={rowClasses[row.type].left} />
+                            <DiffSide
+                                cell={row.right}
+                                className={`border-l border-white/10 ${rowClasses[row.type].right}`}
+                            />
+                        </div>
+                    )
+                )}
+            </div>
+        </details>
+    );
+}
+
+/** Icon and description of one timeline event */
+function EventContent({ event, names }: { event: TimelineEvent; names?: EnsNames }) {
+    switch (event.kind) {
+        case "registered":
+            return (
+                <>
+                    <UserPlus className="mt-0.5 h-4 w-4 shrink-0 text-emerald-400" />
+                    <div className="min-w-0">
+                        <p className="text-white/70">
+                            Registered by <AddressLink address={event.owner} kind="owner" names={names} />
+                        </p>
+                        {event.uri && (
+                            <p className="truncate font-mono text-xs text-white/30">{formatUri(event.uri)}</p>
+                        )}
+                    </div>
+                </>
+            );
+        case "uri-updated":
+            return (
+                <>
+                    <FilePen className="mt-0.5 h-4 w-4 shrink-0 text-blue-400" />
+                    <div className="min-w-0 flex-1">
+                        <p className="text-white/70">
+                            URI updated by <AddressLink address={event.update.updatedBy} kind="owner" names={names} />
+                        </p>
+                        <p className="truncate font-mono text-xs text-white/30">{formatUri(event.update.newURI)}</p>
+                        <RegistrationDiffView diff={event.diff} />
+                    </div>
+                </>
+            );
+        case "transferred":
+            return (
+                <>
+                    <ArrowLeftRight className="mt-0.5 h-4 w-4 shrink-0 text-amber-400" />
+                    <p className="text-white/70">
+                        Transferred from <AddressLink address={event.from} kind="owner" names={names} /> to{" "}
+                        <AddressLink address={event.to} kind="owner" names={names} />
+                    </p>
+                </>
+            );
+        case "feedback-given":
+            return (
+                <>
+                    <MessageSquare className="mt-0.5 h-4 w-4 shrink-0 text-white/40" />
+                    <p className="text-white/70">
+                        Feedback of {event.feedback.score} from{" "}
+                        <AddressLink address={event.feedback.clientAddress} kind="reviewer" names={names} />
+                        {event.feedback.isRevoked && !event.feedback.revokedAt && (
+                            <span className="ml-2 text-xs text-red-400">(later revoked)</span>
+                        )}
+                    </p>
+                </>
+            );
+        case "feedback-revoked":
+            return (
+                <>
+                    <Ban className="mt-0.5 h-4 w-4 shrink-0 text-red-400" />
+                    <p className="text-white/70">
+                        Feedback of {event.feedback.score} revoked by{" "}
+                        <AddressLink address={event.feedback.clientAddress} kind="reviewer" names={names} />
+                    </p>
+                </>
+            );
+    }
+}
+
+/**
+ * Timeline of registration, URI updates, transfers and feedback, newest first
+ *
+ * URI updates expand into a side-by-side diff of the registration files.
+ */
+export function ActivityTimeline({ activity, names }: { activity: AgentActivity; names?: EnsNames }) {
+    return (
+        <div className="rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <h2 className="mb-4 flex items-center gap-2 text-sm font-medium text-white/70">
+                <History className="h-4 w-4" />
+                Activity
+            </h2>
+
+            <ol className="space-y-3 text-sm">
+                {activity.events.map((event, index) => (
+                    <li key={index} className="flex gap-3">
+                        <EventContent event={event} names={names} />
+                        <span className="ml-auto shrink-0 pl-2 text-xs text-white/40">
+                            {formatDateTime(event.timestamp)}
+                        </span>
+                    </li>
+                ))}
+            </ol>
+
+            {activity.total > activity.events.length && (
+                <p className="mt-4 text-xs text-white/40">
+                    Showing the latest {activity.events.length} of {activity.total} events.
+                </p>
+            )}
+            {!activity.complete && (
+                <p className="mt-4 text-xs text-white/40">
+                    This subgraph doesn&apos;t index URI updates or ownership transfers, so only registration and
+                    feedback are shown.
+                </p>
+            )}
+        </div>
+    );
+}
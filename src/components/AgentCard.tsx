@@ -0,0 +1,189 @@
+import Link from "next/link";
+import { Square, SquareCheck } from "lucide-react";
+import { getChain } from "@/lib/chains";
+import { MAX_COMPARE_AGENTS } from "@/lib/compare";
+import { highlightText } from "@/lib/search";
+
+/** Truncates an Ethereum address to "0x1234...5678" format */
+function formatAddress(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Converts Unix timestamp to readable date */
+function formatTimestamp(timestamp: string): string {
+    const date = new Date(parseInt(timestamp) * 1000);
+    return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+    });
+}
+
+/** Text with the matched search terms marked */
+function Highlighted({ text, terms }: { text: string; terms?: string[] }) {
+    if (!terms || terms.length === 0) return <>{text}</>;
+
+    return (
+        <>
+            {highlightText(text, terms).map((segment, index) =>
+                segment.match ? (
+                    <mark key={index} className="rounded-sm bg-amber-400/20 text-inherit">
+                        {segment.text}
+                    </mark>
+                ) : (
+                    segment.text
+                )
+            )}
+        </>
+    );
+}
+
+/** Checkbox that adds the agent to (or removes it from) the comparison */
+function CompareToggle({ href, selected, disabled }: NonNullable<AgentCardProps["compare"]>) {
+    const Icon = selected ? SquareCheck : Square;
+
+    if (disabled && !selected) {
+        return (
+            <span
+                role="checkbox"
+                aria-checked={false}
+                aria-disabled
+                className="relative z-10 inline-flex cursor-not-allowed items-center gap-1 text-white/20"
+                title={`Up to ${MAX_COMPARE_AGENTS} agents can be compared`}
+            >
+                <Icon className="h-3.5 w-3.5" />
+                Compare
+            </span>
+        );
+    }
+
+    return (
+        <Link
+            href={href}
+            role="checkbox"
+            aria-checked={selected}
+            scroll={false}
+            className={`relative z-10 inline-flex items-center gap-1 hover:text-white/70 ${
+                selected ? "text-blue-400" : ""
+            }`}
+        >
+            <Icon className="h-3.5 w-3.5" />
+            Compare
+        </Link>
+    );
+}
+
+/** Props for the AgentCard component */
+interface AgentCardProps {
+    agent: {
+        id: string;
+        chainId: string;
+        agentId: string;
+        owner: string;
+        createdAt: string;
+        totalFeedback: string;
+        registrationFile: {
+            name: string | null;
+            description: string | null;
+            image: string | null;
+            supportedTrusts: string[] | null;
+            mcpEndpoint: string | null;
+            a2aEndpoint: string | null;
+            ens: string | null;
+        } | null;
+    };
+    /** Show which chain the agent lives on (used when listing several chains) */
+    showChain?: boolean;
+    /** ENS primary name of the owner, shown instead of the address */
+    ownerName?: string;
+    /** Words the search matched, marked in the name, description and trust models */
+    highlight?: string[];
+    /** Compare checkbox: the URL that toggles the agent, whether it is selected, and whether the selection is full */
+    compare?: { href: string; selected: boolean; disabled?: boolean };
+}
+
+/**
+ * Displays a single agent as a clickable card
+ *
+ * The agent link is stretched over the whole card, so other links (like the
+ * owner's) can sit inside it without nesting anchors.
+ */
+export function AgentCard({ agent, showChain, ownerName, highlight, compare }: AgentCardProps) {
+    const chainName = showChain ? getChain(agent.chainId)?.shortName : null;
+    const name = agent.registrationFile?.name || `Agent #${agent.agentId}`;
+    const description = agent.registrationFile?.description;
+    const trusts = agent.registrationFile?.supportedTrusts || [];
+    const feedbackCount = parseInt(agent.totalFeedback);
+    const hasEndpoint = agent.registrationFile?.mcpEndpoint || agent.registrationFile?.a2aEndpoint;
+
+    return (
+        <div className="group relative rounded-xl border border-white/10 bg-white/[0.02] p-5 transition-all hover:border-white/20 hover:bg-white/[0.04]">
+            {/* Header: Name and badges */}
+            <div className="mb-3 flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                    <h3 className="truncate font-medium text-white/90">
+                        <Link
+                            href={`/agent/${encodeURIComponent(agent.id)}`}
+                            className="after:absolute after:inset-0 after:rounded-xl"
+                        >
+                            <Highlighted text={name} terms={highlight} />
+                        </Link>
+                    </h3>
+                    <p className="mt-0.5 truncate font-mono text-xs text-white/40">
+                        ID: {agent.agentId}
+                        {agent.registrationFile?.ens && <span className="ml-2">{agent.registrationFile.ens}</span>}
+                    </p>
+                </div>
+                <div className="flex shrink-0 gap-1.5">
+                    {chainName && (
+                        <span className="rounded-full bg-white/5 px-2 py-0.5 text-xs text-white/50">{chainName}</span>
+                    )}
+                    {hasEndpoint && (
+                        <span className="rounded-full bg-blue-500/10 px-2 py-0.5 text-xs text-blue-400">API</span>
+                    )}
+                    {feedbackCount > 0 && (
+                        <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-xs text-emerald-400">
+                            {feedbackCount}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            {/* Description (truncated to 2 lines) */}
+            {description && (
+                <p className="mb-4 line-clamp-2 text-sm leading-relaxed text-white/50">
+                    <Highlighted text={description} terms={highlight} />
+                </p>
+            )}
+
+            {/* Trust model badges */}
+            {trusts.length > 0 && (
+                <div className="mb-4 flex flex-wrap gap-1.5">
+                    {trusts.slice(0, 3).map((trust) => (
+                        <span key={trust} className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
+                            <Highlighted text={trust} terms={highlight} />
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {/* Footer: Owner address, creation date and compare checkbox */}
+            <div className="flex items-center justify-between border-t border-white/5 pt-3 text-xs text-white/40">
+                <span>
+                    Owner:{" "}
+                    <Link
+                        href={`/owner/${agent.owner}`}
+                        className="relative z-10 hover:text-white/70 hover:underline"
+                        title={ownerName ? agent.owner : undefined}
+                    >
+                        {ownerName ?? formatAddress(agent.owner)}
+                    </Link>
+                </span>
+                <span className="flex items-center gap-3">
+                    {formatTimestamp(agent.createdAt)}
+                    {compare && <CompareToggle {...compare} />}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+interface ChainSelectProps {
+    /** Selected chain ID, or "all" */
+    currentChain: string;
+    /** Chains that can be selected (enabled chains from the server config) */
+    chains: { id: number; name: string }[];
+    /** Current URL params to preserve when changing chain */
+    currentParams: Record<string, string | undefined>;
+    /** Page to navigate to (default: the listing) */
+    path?: string;
+}
+
+export function ChainSelect({ currentChain, chains, currentParams, path = "/" }: ChainSelectProps) {
+    const router = useRouter();
+
+    const handleChange = (newChain: string) => {
+        const params = new URLSearchParams();
+        Object.entries(currentParams).forEach(([key, value]) => {
+            if (key === "chain") {
+                // "all" is the default, so leave it out of the URL
+                if (newChain !== "all") params.set("chain", newChain);
+            } else if (key === "page" || key === "cursor") {
+                // Reset to page 1 when switching chains; cursors are per result set
+            } else if (value) {
+                params.set(key, value);
+            }
+        });
+        const query = params.toString();
+        router.push(query ? `${path}?${query}` : path);
+    };
+
+    return (
+        <div className="relative">
+            <select
+                value={currentChain}
+                onChange={(e) => handleChange(e.target.value)}
+                className="appearance-none rounded-lg border border-white/10 bg-white/5 py-1.5 pl-3 pr-8 text-sm text-white/70 outline-none focus:border-white/20"
+            >
+                <option value="all" className="bg-[#0a0a0b]">
+                    All chains
+                </option>
+                {chains.map((chain) => (
+                    <option key={chain.id} value={String(chain.id)} className="bg-[#0a0a0b]">
+                        {chain.name}
+                    </option>
+                ))}
+            </select>
+            <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
+        </div>
+    );
+}
@@ -0,0 +1,261 @@
+/**
+ * Server-rendered SVG charts
+ *
+ * Plain SVG with no client code, so charts render with the page and need no
+ * charting library. Charts scale to their container's width; hovering a bar
+ * shows its `title`.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One bar of a chart
+ */
+export interface ChartDatum {
+    label: string;
+    value: number;
+    title?: string; // Hover text (default: "label: value")
+}
+
+/**
+ * One segment of a share chart
+ */
+export interface ShareSegment {
+    label: string;
+    value: number;
+    color: SegmentColor;
+}
+
+export type SegmentColor = keyof typeof SEGMENT_COLORS;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const COLUMN_CHART_WIDTH = 600;
+const COLUMN_CHART_HEIGHT = 180;
+const COLUMN_CHART_MARGIN = { top: 8, right: 4, bottom: 20, left: 28 };
+
+/** Most x-axis labels shown; the rest are left out so they don't overlap */
+const MAX_AXIS_LABELS = 6;
+
+const BAR_CHART_WIDTH = 600;
+const BAR_CHART_ROW_HEIGHT = 24;
+const BAR_CHART_LABEL_WIDTH = 160;
+const BAR_CHART_VALUE_WIDTH = 48;
+
+/** Donut stroke and legend swatch classes (spelled out in full so Tailwind picks them up) */
+const SEGMENT_COLORS = {
+    blue: { stroke: "stroke-blue-500", swatch: "bg-blue-500" },
+    violet: { stroke: "stroke-violet-500", swatch: "bg-violet-500" },
+    emerald: { stroke: "stroke-emerald-500", swatch: "bg-emerald-500" },
+    muted: { stroke: "stroke-white/10", swatch: "bg-white/10" },
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Rounds a maximum up to a number the y axis can be labeled with (1, 2, 5, 10, 20, ...) */
+function niceMax(value: number): number {
+    if (value <= 1) return 1;
+    const magnitude = 10 ** Math.floor(Math.log10(value));
+    const step = [1, 2, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+    return step * magnitude;
+}
+
+/** Placeholder for a chart without data */
+function EmptyChart() {
+    return (
+        <div className="flex h-24 items-center justify-center text-sm text-white/30">No data yet</div>
+    );
+}
+
+// =============================================================================
+// Charts
+// =============================================================================
+
+/**
+ * Vertical bar chart, for time series and distributions
+ */
+export function ColumnChart({ data, label }: { data: ChartDatum[]; label: string }) {
+    if (data.length === 0 || data.every((d) => d.value === 0)) return <EmptyChart />;
+
+    const { top, right, bottom, left } = COLUMN_CHART_MARGIN;
+    const plotWidth = COLUMN_CHART_WIDTH - left - right;
+    const plotHeight = COLUMN_CHART_HEIGHT - top - bottom;
+    const max = niceMax(Math.max(...data.map((d) => d.value)));
+    const slot = plotWidth / data.length;
+    const gap = Math.min(slot * 0.2, 4);
+    const labelEvery = Math.ceil(data.length / MAX_AXIS_LABELS);
+
+    return (
+        <svg
+            viewBox={`0 0 ${COLUMN_CHART_WIDTH} ${COLUMN_CHART_HEIGHT}`}
+            role="img"
+            aria-label={label}
+            className="h-auto w-full"
+        >
+            {/* Grid lines with y-axis labels */}
+            {[0, max / 2, max].map((tick) => {
+                const y = top + plotHeight - (tick / max) * plotHeight;
+                return (
+                    <g key={tick}>
+                        <line x1={left} x2={COLUMN_CHART_WIDTH - right} y1={y} y2={y} className="stroke-white/10" />
+                        <text
+                            x={left - 6}
+                            y={y}
+                            textAnchor="end"
+                            dominantBaseline="middle"
+                            fontSize={10}
+                            className="fill-white/40"
+                        >
+                            {Number.isInteger(tick) ? tick : tick.toFixed(1)}
+                        </text>
+                    </g>
+                );
+            })}
+
+            {data.map((d, i) => {
+                const height = (d.value / max) * plotHeight;
+                const x = left + i * slot;
+                return (
+                    <g key={`${d.label}-${i}`}>
+                        <rect
+                            x={x + gap / 2}
+                            y={top + plotHeight - height}
+                            width={slot - gap}
+                            height={height}
+                            rx={2}
+                            className="fill-blue-500/70"
+                        >
+                            <title>{d.title ?? `${d.label}: ${d.value}`}</title>
+                        </rect>
+                        {i % labelEvery === 0 && (
+                            <text
+                                x={x + slot / 2}
+                                y={COLUMN_CHART_HEIGHT - 6}
+                                textAnchor="middle"
+                                fontSize={10}
+                                className="fill-white/40"
+                            >
+                                {d.label}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
+
+/**
+ * Horizontal bar chart, for ranked categories
+ *
+ * @param total - Value of a full-width bar (default: the largest value)
+ */
+export function BarChart({ data, label, total }: { data: ChartDatum[]; label: string; total?: number }) {
+    if (data.length === 0) return <EmptyChart />;
+
+    const max = total ?? Math.max(...data.map((d) => d.value));
+    const plotWidth = BAR_CHART_WIDTH - BAR_CHART_LABEL_WIDTH - BAR_CHART_VALUE_WIDTH;
+    const height = data.length * BAR_CHART_ROW_HEIGHT;
+
+    return (
+        <svg viewBox={`0 0 ${BAR_CHART_WIDTH} ${height}`} role="img" aria-label={label} className="h-auto w-full">
+            {data.map((d, i) => {
+                const y = i * BAR_CHART_ROW_HEIGHT;
+                const width = max > 0 ? (d.value / max) * plotWidth : 0;
+                return (
+                    <g key={d.label}>
+                        <title>{d.title ?? `${d.label}: ${d.value}`}</title>
+                        <text
+                            x={0}
+                            y={y + BAR_CHART_ROW_HEIGHT / 2}
+                            dominantBaseline="middle"
+                            fontSize={12}
+                            className="fill-white/60"
+                        >
+                            {d.label}
+                        </text>
+                        <rect
+                            x={BAR_CHART_LABEL_WIDTH}
+                            y={y + 7}
+                            width={plotWidth}
+                            height={BAR_CHART_ROW_HEIGHT - 14}
+                            rx={5}
+                            className="fill-white/10"
+                        />
+                        <rect
+                            x={BAR_CHART_LABEL_WIDTH}
+                            y={y + 7}
+                            width={width}
+                            height={BAR_CHART_ROW_HEIGHT - 14}
+                            rx={5}
+                            className="fill-blue-500/70"
+                        />
+                        <text
+                            x={BAR_CHART_WIDTH}
+                            y={y + BAR_CHART_ROW_HEIGHT / 2}
+                            textAnchor="end"
+                            dominantBaseline="middle"
+                            fontSize={12}
+                            className="fill-white/50"
+                        >
+                            {d.value}
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
+
+/**
+ * Donut chart of how a whole splits into parts, with a legend
+ */
+export function ShareChart({ segments, label }: { segments: ShareSegment[]; label: string }) {
+    const total = segments.reduce((sum, s) => sum + s.value, 0);
+    if (total === 0) return <EmptyChart />;
+
+    // A circle with circumference 100, so dash lengths are percentages
+    const radius = 100 / (2 * Math.PI);
+    const percents = segments.map((s) => (s.value / total) * 100);
+    const offsets = percents.map((_, i) => percents.slice(0, i).reduce((sum, p) => sum + p, 0));
+
+    return (
+        <div className="flex items-center gap-6">
+            <svg viewBox="0 0 42 42" role="img" aria-label={label} className="h-32 w-32 shrink-0 -rotate-90">
+                {segments.map((segment, i) => (
+                    <circle
+                        key={segment.label}
+                        cx={21}
+                        cy={21}
+                        r={radius}
+                        fill="none"
+                        strokeWidth={6}
+                        strokeDasharray={`${percents[i]} ${100 - percents[i]}`}
+                        strokeDashoffset={-offsets[i]}
+                        className={SEGMENT_COLORS[segment.color].stroke}
+                    >
+                        <title>{`${segment.label}: ${segment.value}`}</title>
+                    </circle>
+                ))}
+            </svg>
+
+            <ul className="space-y-1.5 text-sm">
+                {segments.map((segment) => (
+                    <li key={segment.label} className="flex items-center gap-2">
+                        <span className={`h-2.5 w-2.5 rounded-sm ${SEGMENT_COLORS[segment.color].swatch}`} />
+                        <span className="text-white/60">{segment.label}</span>
+                        <span className="text-white/40">
+                            {segment.value} ({Math.round((segment.value / total) * 100)}%)
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
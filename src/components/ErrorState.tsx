@@ -0,0 +1,80 @@
+"use client";
+
+import { getSubgraphErrorKind, SubgraphErrorKind } from "@/lib/errors";
+import { RotateCw } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { startTransition } from "react";
+
+/** User-facing explanation for each kind of subgraph failure */
+const MESSAGES: Record<SubgraphErrorKind | "other", { title: string; detail: string }> = {
+    "rate-limited": {
+        title: "Too many requests",
+        detail: "The Graph gateway is rate limiting the explorer right now. Wait a few seconds and try again.",
+    },
+    "indexer-behind": {
+        title: "Indexer is catching up",
+        detail: "The subgraph indexers haven't caught up with the chain yet, so the data can't be served. This usually clears up within a minute.",
+    },
+    validation: {
+        title: "Query rejected",
+        detail: "The subgraph rejected the explorer's query. Its schema may have changed; retrying is unlikely to help.",
+    },
+    network: {
+        title: "Can't reach the subgraph",
+        detail: "The request to The Graph failed or timed out. Check your connection and try again.",
+    },
+    unknown: {
+        title: "Subgraph error",
+        detail: "The subgraph returned an unexpected error.",
+    },
+    other: {
+        title: "Something went wrong",
+        detail: "An unexpected error occurred while rendering this page.",
+    },
+};
+
+interface ErrorStateProps {
+    error: Error & { digest?: string };
+    /** Re-renders the failed segment (from the error boundary) */
+    reset: () => void;
+}
+
+/** Explains a failed page render and offers a retry */
+export function ErrorState({ error, reset }: ErrorStateProps) {
+    const router = useRouter();
+    const kind = getSubgraphErrorKind(error);
+    const { title, detail } = MESSAGES[kind ?? "other"];
+
+    // reset() alone only re-renders on the client; refresh re-runs the server fetches too
+    const retry = () => {
+        startTransition(() => {
+            router.refresh();
+            reset();
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-[#0a0a0b]">
+            <div className="mx-auto max-w-xl px-6 py-24 text-center">
+                <h1 className="text-xl font-semibold text-white">{title}</h1>
+                <p className="mt-3 text-sm leading-relaxed text-white/50">{detail}</p>
+                {process.env.NODE_ENV === "development" && (
+                    <p className="mt-4 break-words font-mono text-xs text-white/30">{error.message}</p>
+                )}
+                <div className="mt-8 flex items-center justify-center gap-3">
+                    <button
+                        onClick={retry}
+                        className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/70 hover:bg-white/10"
+                    >
+                        <RotateCw className="h-4 w-4" />
+                        Try again
+                    </button>
+                    <Link href="/" className="text-sm text-white/50 underline underline-offset-2 hover:text-white/70">
+                        Back to all agents
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+}
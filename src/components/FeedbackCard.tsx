@@ -0,0 +1,160 @@
+import { CornerDownRight, Star } from "lucide-react";
+import Link from "next/link";
+import { ScoreBar } from "@/components/ScoreBar";
+import { EnsNames } from "@/lib/ens";
+import { isReadableText } from "@/lib/reputation";
+import { ResponderRole, ResponseReply } from "@/lib/responses";
+import { Feedback } from "@/lib/subgraph";
+
+/** Truncates an Ethereum address to "0x1234...5678" format */
+function formatAddress(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Shows an address by its ENS name when one is known */
+function displayAddress(address: string, names?: EnsNames): string {
+    return names?.get(address.toLowerCase()) ?? formatAddress(address);
+}
+
+/** Converts Unix timestamp to readable date */
+function formatTimestamp(timestamp: string): string {
+    const date = new Date(parseInt(timestamp) * 1000);
+    return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+    });
+}
+
+interface FeedbackCardProps {
+    feedback: Feedback;
+    /** Agent the feedback was given to; shown instead of the reviewer (reviewer profiles) */
+    agent?: { id: string; name: string | null };
+    /** Responses to the feedback, oldest first, shown as a thread below it */
+    replies?: ResponseReply[];
+    /** ENS names of the reviewer and responders, by lowercase address */
+    names?: EnsNames;
+}
+
+const ROLE_LABELS: Record<Exclude<ResponderRole, null>, { label: string; className: string }> = {
+    owner: { label: "Agent owner", className: "bg-emerald-500/10 text-emerald-400" },
+    reviewer: { label: "Reviewer", className: "bg-white/5 text-white/60" },
+};
+
+/** One response in a feedback thread */
+function Reply({ reply, names }: { reply: ResponseReply; names?: EnsNames }) {
+    const { response, role, text, error } = reply;
+
+    return (
+        <li className="flex gap-2">
+            <CornerDownRight className="mt-0.5 h-3.5 w-3.5 shrink-0 text-white/20" />
+            <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <Link
+                        href={role === "owner" ? `/owner/${response.responder}` : `/reviewer/${response.responder}`}
+                        className="font-mono text-white/50 hover:text-white/70 hover:underline"
+                    >
+                        {displayAddress(response.responder, names)}
+                    </Link>
+                    {role && (
+                        <span className={`rounded-md px-1.5 py-0.5 ${ROLE_LABELS[role].className}`}>
+                            {ROLE_LABELS[role].label}
+                        </span>
+                    )}
+                    <span className="text-white/30">{formatTimestamp(response.createdAt)}</span>
+                </div>
+                {text ? (
+                    <p className="mt-1 whitespace-pre-line text-sm text-white/60">{text}</p>
+                ) : (
+                    <p className="mt-1 text-xs text-white/30" title={error ?? undefined}>
+                        Response unavailable
+                        {response.responseUri && (
+                            <span className="ml-1.5 break-all font-mono">({response.responseUri})</span>
+                        )}
+                    </p>
+                )}
+            </div>
+        </li>
+    );
+}
+
+/**
+ * Displays a single feedback/review
+ *
+ * The footer links to the reviewer's profile, or to the reviewed agent when
+ * `agent` is given. Replies, if any, follow as a thread.
+ */
+export function FeedbackCard({ feedback, agent, replies, names }: FeedbackCardProps) {
+    const score = parseInt(feedback.score);
+    const text = feedback.feedbackFile?.text;
+    const capability = feedback.feedbackFile?.capability;
+    const skill = feedback.feedbackFile?.skill;
+
+    // Filter out garbled/binary tags
+    const tag1 = isReadableText(feedback.tag1) ? feedback.tag1 : null;
+    const tag2 = isReadableText(feedback.tag2) ? feedback.tag2 : null;
+
+    return (
+        <div
+            className={`rounded-xl border border-white/10 bg-white/[0.02] p-5 ${feedback.isRevoked ? "opacity-60" : ""}`}
+        >
+            {/* Score and date */}
+            <div className="mb-3 flex items-start justify-between gap-4">
+                <div className="flex items-center gap-2">
+                    <Star className="h-4 w-4 text-amber-400" />
+                    <ScoreBar score={score} />
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                    {feedback.isRevoked && (
+                        <span className="rounded-md bg-red-500/10 px-2 py-0.5 text-xs text-red-400">Revoked</span>
+                    )}
+                    <span className="text-xs text-white/40">{formatTimestamp(feedback.createdAt)}</span>
+                </div>
+            </div>
+
+            {/* Review text */}
+            {text && <p className="mb-3 text-sm leading-relaxed text-white/70">{text}</p>}
+
+            {/* Tags and capabilities */}
+            <div className="flex flex-wrap items-center gap-2">
+                {tag1 && <span className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">{tag1}</span>}
+                {tag2 && <span className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">{tag2}</span>}
+                {capability && (
+                    <span className="rounded-md bg-blue-500/10 px-2 py-0.5 text-xs text-blue-400">{capability}</span>
+                )}
+                {skill && (
+                    <span className="rounded-md bg-purple-500/10 px-2 py-0.5 text-xs text-purple-400">{skill}</span>
+                )}
+            </div>
+
+            {/* Reviewer address, or the reviewed agent */}
+            <div className="mt-3 border-t border-white/5 pt-3">
+                {agent ? (
+                    <Link
+                        href={`/agent/${encodeURIComponent(agent.id)}`}
+                        className="text-xs text-white/40 hover:text-white/70 hover:underline"
+                    >
+                        for {agent.name || `Agent #${agent.id.split(":")[1]}`}{" "}
+                        <span className="font-mono">({agent.id})</span>
+                    </Link>
+                ) : (
+                    <Link
+                        href={`/reviewer/${feedback.clientAddress}`}
+                        className="font-mono text-xs text-white/40 hover:text-white/70 hover:underline"
+                    >
+                        by {displayAddress(feedback.clientAddress, names)}
+                    </Link>
+                )}
+            </div>
+
+            {/* Responses */}
+            {replies && replies.length > 0 && (
+                <ul className="mt-3 space-y-3 border-l border-white/10 pl-3">
+                    {replies.map((reply) => (
+                        <Reply key={reply.response.id} reply={reply} names={names} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
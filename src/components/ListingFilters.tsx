@@ -0,0 +1,149 @@
+import { SlidersHorizontal, X } from "lucide-react";
+import { buildUrl, FilterChip, ListingFilterParams, PROTOCOLS, TRUST_MODELS } from "@/lib/listing";
+
+interface ListingFiltersProps {
+    /** Current listing filter params */
+    params: ListingFilterParams;
+    /** Other listing params (chain, sort, page size) to keep when filtering */
+    preserved: Record<string, string | undefined>;
+    /** Whether any of the form's filters is active (opens the form) */
+    open: boolean;
+}
+
+const inputClass =
+    "w-full rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white placeholder-white/30 outline-none focus:border-white/20";
+
+/** Labelled form field */
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <label className="block">
+            <span className="mb-1 block text-xs text-white/40">{label}</span>
+            {children}
+        </label>
+    );
+}
+
+/**
+ * Form for the listing filters that don't fit a toggle button
+ *
+ * A plain GET form, like the review filters, so every filtered view has its
+ * own URL. The toggle filters, search and view params travel as hidden inputs.
+ */
+export function ListingFilters({ params, preserved, open }: ListingFiltersProps) {
+    const hidden = {
+        search: params.search,
+        hasReviews: params.hasReviews,
+        hasEndpoint: params.hasEndpoint,
+        hasValidations: params.hasValidations,
+        ...preserved,
+    };
+
+    return (
+        <details open={open} className="mb-6 rounded-xl border border-white/10 bg-white/[0.02]">
+            <summary className="flex cursor-pointer items-center gap-2 px-4 py-2.5 text-sm text-white/60">
+                <SlidersHorizontal className="h-4 w-4" />
+                More filters
+            </summary>
+            <form
+                action="/"
+                method="GET"
+                className="grid gap-3 border-t border-white/5 p-4 sm:grid-cols-2 lg:grid-cols-4"
+            >
+                <Field label="Trust model">
+                    <select name="trust" defaultValue={params.trust ?? ""} className={inputClass}>
+                        <option value="" className="bg-[#0a0a0b]">
+                            Any
+                        </option>
+                        {TRUST_MODELS.map((model) => (
+                            <option key={model.value} value={model.value} className="bg-[#0a0a0b]">
+                                {model.label}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+                <Field label="Endpoint">
+                    <select name="protocol" defaultValue={params.protocol ?? ""} className={inputClass}>
+                        <option value="" className="bg-[#0a0a0b]">
+                            Any
+                        </option>
+                        {PROTOCOLS.map((protocol) => (
+                            <option key={protocol.value} value={protocol.value} className="bg-[#0a0a0b]">
+                                {protocol.label}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+                <Field label="Owner address">
+                    <input
+                        type="text"
+                        name="owner"
+                        placeholder="0x..."
+                        defaultValue={params.owner}
+                        className={`${inputClass} font-mono`}
+                    />
+                </Field>
+                <div className="grid grid-cols-2 gap-2">
+                    <Field label="Min reviews">
+                        <input
+                            type="number"
+                            name="minReviews"
+                            min={0}
+                            defaultValue={params.minReviews}
+                            className={inputClass}
+                        />
+                    </Field>
+                    <Field label="Min avg score">
+                        <input
+                            type="number"
+                            name="minScore"
+                            min={0}
+                            max={100}
+                            defaultValue={params.minScore}
+                            className={inputClass}
+                        />
+                    </Field>
+                </div>
+                <Field label="Created from">
+                    <input type="date" name="from" defaultValue={params.from} className={inputClass} />
+                </Field>
+                <Field label="Created until">
+                    <input type="date" name="to" defaultValue={params.to} className={inputClass} />
+                </Field>
+                {Object.entries(hidden).map(
+                    ([name, value]) => value && <input key={name} type="hidden" name={name} value={value} />
+                )}
+                <div className="flex items-end sm:col-span-2">
+                    <button
+                        type="submit"
+                        className="rounded-lg border border-white/20 bg-white/10 px-4 py-1.5 text-sm text-white hover:bg-white/15"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </form>
+        </details>
+    );
+}
+
+/**
+ * Active filters as chips, each linking to the listing without that filter
+ */
+export function FilterChips({ chips, params }: { chips: FilterChip[]; params: Record<string, string | undefined> }) {
+    if (chips.length === 0) return null;
+
+    return (
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+            {chips.map((chip) => (
+                <a
+                    key={chip.param}
+                    href={buildUrl(params, { [chip.param]: undefined, page: "1" })}
+                    title="Remove filter"
+                    className="flex items-center gap-1.5 rounded-full border border-white/15 bg-white/5 py-1 pl-3 pr-2 text-xs text-white/70 transition-colors hover:border-white/25 hover:text-white"
+                >
+                    {chip.label}
+                    <X className="h-3 w-3 text-white/40" />
+                </a>
+            ))}
+        </div>
+    );
+}
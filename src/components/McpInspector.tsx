@@ -0,0 +1,237 @@
+import { Activity, RefreshCw } from "lucide-react";
+import { McpProbeResult, McpTool, probeMcpEndpoint } from "@/lib/mcp";
+
+interface McpInspectorProps {
+    /** MCP endpoint URL from the registration file */
+    endpoint: string;
+    /** Server action that drops the cached probe and re-renders the page */
+    recheck: () => Promise<void>;
+}
+
+/** Converts a Unix time in milliseconds to a readable time (UTC) */
+function formatCheckedAt(time: number): string {
+    return `${new Date(time).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+        timeZone: "UTC",
+    })} UTC`;
+}
+
+/** Card frame shared by the result and the loading state */
+function InspectorCard({ children, recheck }: { children: React.ReactNode; recheck?: () => Promise<void> }) {
+    return (
+        <div className="mb-8 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <div className="mb-4 flex items-center justify-between gap-2">
+                <h2 className="flex items-center gap-2 text-sm font-medium text-white/70">
+                    <Activity className="h-4 w-4" />
+                    MCP server
+                </h2>
+                {recheck && (
+                    <form action={recheck}>
+                        <button
+                            type="submit"
+                            className="flex items-center gap-1.5 rounded-lg border border-white/10 px-2.5 py-1 text-xs text-white/60 hover:border-white/20 hover:text-white/80"
+                        >
+                            <RefreshCw className="h-3 w-3" />
+                            Re-check
+                        </button>
+                    </form>
+                )}
+            </div>
+            {children}
+        </div>
+    );
+}
+
+/** Argument list of a tool, read from its input schema's top-level properties */
+function ToolArguments({ schema }: { schema: Record<string, unknown> | null }) {
+    const properties =
+        schema?.properties && typeof schema.properties === "object"
+            ? (schema.properties as Record<string, { type?: unknown; description?: unknown }>)
+            : {};
+    const required = new Set(Array.isArray(schema?.required) ? (schema.required as unknown[]) : []);
+    const names = Object.keys(properties);
+
+    if (names.length === 0) {
+        return <p className="text-xs text-white/40">No arguments</p>;
+    }
+
+    return (
+        <ul className="space-y-1 text-xs">
+            {names.map((name) => {
+                const { type, description } = properties[name] ?? {};
+                return (
+                    <li key={name}>
+                        <span className="font-mono text-white/70">{name}</span>
+                        {typeof type === "string" && <span className="ml-1.5 font-mono text-white/30">{type}</span>}
+                        {required.has(name) && <span className="ml-1.5 text-amber-400/80">required</span>}
+                        {typeof description === "string" && (
+                            <span className="ml-1.5 text-white/40">- {description}</span>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
+
+/** One advertised tool, expandable to its input schema */
+function ToolRow({ tool }: { tool: McpTool }) {
+    return (
+        <details className="rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2">
+            <summary className="cursor-pointer text-sm">
+                <span className="font-mono text-white/80">{tool.name}</span>
+                {(tool.title || tool.description) && (
+                    <span className="ml-2 text-xs text-white/40">{tool.title ?? tool.description}</span>
+                )}
+            </summary>
+            <div className="mt-2 space-y-2">
+                {tool.title && tool.description && <p className="text-xs text-white/50">{tool.description}</p>}
+                <ToolArguments schema={tool.inputSchema} />
+                {tool.inputSchema && (
+                    <pre className="max-h-64 overflow-auto rounded-md bg-black/30 p-2 font-mono text-xs text-white/50">
+                        {JSON.stringify(tool.inputSchema, null, 2)}
+                    </pre>
+                )}
+            </div>
+        </details>
+    );
+}
+
+/** Renders a probe result */
+export function McpProbeView({ result, recheck }: { result: McpProbeResult; recheck?: () => Promise<void> }) {
+    return (
+        <InspectorCard recheck={recheck}>
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+                <span
+                    className={`rounded-md px-2 py-0.5 ${
+                        result.ok ? "bg-emerald-500/10 text-emerald-400" : "bg-red-500/10 text-red-400"
+                    }`}
+                >
+                    {result.ok ? "Reachable" : "Unreachable"}
+                </span>
+                {result.latencyMs !== null && <span className="text-white/50">{result.latencyMs} ms</span>}
+                <span className="text-white/30">Checked {formatCheckedAt(result.checkedAt)}</span>
+            </div>
+            <p className="mb-4 truncate font-mono text-xs text-white/30">{result.endpoint}</p>
+
+            {!result.ok ? (
+                <p className="text-sm text-white/50">{result.error}</p>
+            ) : (
+                <div className="space-y-4 text-sm">
+                    {/* Server info */}
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        <div>
+                            <span className="text-white/40">Server</span>
+                            <p className="mt-0.5 text-white/70">
+                                {result.serverInfo
+                                    ? `${result.serverInfo.title ?? result.serverInfo.name}${
+                                          result.serverInfo.version ? ` ${result.serverInfo.version}` : ""
+                                      }`
+                                    : "Unknown"}
+                            </p>
+                        </div>
+                        <div>
+                            <span className="text-white/40">Protocol</span>
+                            <p className="mt-0.5 font-mono text-white/70">{result.protocolVersion}</p>
+                        </div>
+                    </div>
+
+                    {result.capabilities.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                            {result.capabilities.map((capability) => (
+                                <span key={capability} className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
+                                    {capability}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {result.instructions && <p className="text-xs text-white/50">{result.instructions}</p>}
+
+                    {/* Tools */}
+                    {result.tools && (
+                        <div>
+                            <h3 className="mb-2 text-white/40">Tools ({result.tools.length})</h3>
+                            {result.tools.length === 0 ? (
+                                <p className="text-xs text-white/40">No tools advertised</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {result.tools.map((tool) => (
+                                        <ToolRow key={tool.name} tool={tool} />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Resources */}
+                    {result.resources && result.resources.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-white/40">Resources ({result.resources.length})</h3>
+                            <ul className="space-y-1 text-xs">
+                                {result.resources.map((resource) => (
+                                    <li key={resource.uri}>
+                                        <span className="text-white/70">{resource.name}</span>
+                                        <span className="ml-1.5 font-mono text-white/30">{resource.uri}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Prompts */}
+                    {result.prompts && result.prompts.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-white/40">Prompts ({result.prompts.length})</h3>
+                            <ul className="space-y-1 text-xs">
+                                {result.prompts.map((prompt) => (
+                                    <li key={prompt.name}>
+                                        <span className="font-mono text-white/70">{prompt.name}</span>
+                                        {prompt.arguments.length > 0 && (
+                                            <span className="ml-1.5 font-mono text-white/30">
+                                                ({prompt.arguments.map((a) => (a.required ? a.name : `${a.name}?`)).join(", ")})
+                                            </span>
+                                        )}
+                                        {prompt.description && (
+                                            <span className="ml-1.5 text-white/40">- {prompt.description}</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {result.errors.map((error) => (
+                        <p key={error} className="text-xs text-amber-400/80">
+                            {error}
+                        </p>
+                    ))}
+                </div>
+            )}
+        </InspectorCard>
+    );
+}
+
+/**
+ * Probes an agent's MCP endpoint and shows what the server advertises
+ *
+ * An async server component; render it inside `<Suspense>` with
+ * `McpInspectorFallback` so a slow endpoint doesn't hold up the page.
+ */
+export async function McpInspector({ endpoint, recheck }: McpInspectorProps) {
+    const result = await probeMcpEndpoint(endpoint);
+    return <McpProbeView result={result} recheck={recheck} />;
+}
+
+/** Placeholder shown while the probe runs */
+export function McpInspectorFallback() {
+    return (
+        <InspectorCard>
+            <p className="text-sm text-white/40">Connecting to the MCP server...</p>
+        </InspectorCard>
+    );
+}
@@ -0,0 +1,162 @@
+import { AlertTriangle, CheckCircle2, FileSearch, XCircle } from "lucide-react";
+import { inspectMetadata, MetadataInspection } from "@/lib/inspector";
+import { Agent } from "@/lib/subgraph";
+
+/** Longest URI shown before it is cut (data: URIs can be the whole document) */
+const MAX_URI_LENGTH = 200;
+
+const SOURCE_LABELS: Record<string, string> = {
+    subgraph: "Indexed by the subgraph",
+    explorer: "Resolved by the explorer (resolveMetadata)",
+};
+
+/** Card frame shared by the result and the loading state */
+function PanelCard({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="mb-8 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <h2 className="mb-4 flex items-center gap-2 text-sm font-medium text-white/70">
+                <FileSearch className="h-4 w-4" />
+                Metadata inspector
+            </h2>
+            {children}
+        </div>
+    );
+}
+
+/** Label and value row of the summary grid */
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <span className="text-white/40">{label}</span>
+            <div className="mt-0.5 break-all text-white/70">{children}</div>
+        </div>
+    );
+}
+
+/** Outcome of the CID check */
+function CidStatus({ cid }: { cid: NonNullable<MetadataInspection["cid"]> }) {
+    if (cid.status === "match") {
+        return (
+            <span className="flex items-center gap-1.5 text-emerald-400">
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                Content matches the CID ({cid.codec})
+            </span>
+        );
+    }
+    if (cid.status === "mismatch") {
+        return (
+            <span className="flex items-center gap-1.5 text-red-400">
+                <XCircle className="h-3.5 w-3.5" />
+                Content doesn&apos;t match the CID ({cid.codec})
+            </span>
+        );
+    }
+    return <span className="text-white/40">Not checked: {cid.reason}</span>;
+}
+
+/** Renders an inspection result */
+export function MetadataInspectorView({ inspection }: { inspection: MetadataInspection }) {
+    const { uri, fetch, issues } = inspection;
+    const errors = issues.filter((issue) => issue.severity === "error");
+
+    return (
+        <PanelCard>
+            <div className="space-y-4 text-sm">
+                <div className="grid gap-3 sm:grid-cols-2">
+                    <Field label="Metadata URI">
+                        <span className="font-mono text-xs">
+                            {!uri ? "None" : uri.length > MAX_URI_LENGTH ? `${uri.slice(0, MAX_URI_LENGTH)}...` : uri}
+                        </span>
+                    </Field>
+                    <Field label="Scheme">
+                        <span className="font-mono text-xs">{inspection.scheme}</span>
+                    </Field>
+                    <Field label="Displayed data">
+                        {inspection.source ? SOURCE_LABELS[inspection.source] : "No registration file"}
+                    </Field>
+                    <Field label="Fetched from">
+                        {!fetch ? (
+                            <span className="text-white/40">Nothing to fetch</span>
+                        ) : fetch.ok ? (
+                            <span className="font-mono text-xs">{fetch.url ?? "Inline data: URI"}</span>
+                        ) : (
+                            <span className="text-red-400">{fetch.error}</span>
+                        )}
+                    </Field>
+                    {inspection.cid && (
+                        <Field label="Integrity">
+                            <CidStatus cid={inspection.cid} />
+                        </Field>
+                    )}
+                </div>
+
+                {/* Schema validation */}
+                {inspection.json !== null && (
+                    <div>
+                        <h3 className="mb-1.5 text-white/40">Schema validation</h3>
+                        {issues.length === 0 ? (
+                            <p className="flex items-center gap-1.5 text-xs text-emerald-400">
+                                <CheckCircle2 className="h-3.5 w-3.5" />
+                                Valid registration file
+                            </p>
+                        ) : (
+                            <>
+                                <p className="mb-1.5 text-xs text-white/40">
+                                    {errors.length} {errors.length === 1 ? "error" : "errors"} ·{" "}
+                                    {issues.length - errors.length}{" "}
+                                    {issues.length - errors.length === 1 ? "warning" : "warnings"}
+                                </p>
+                                <ul className="space-y-0.5 text-xs">
+                                    {issues.map((issue) => (
+                                        <li
+                                            key={`${issue.path}|${issue.message}`}
+                                            className={issue.severity === "error" ? "text-red-400" : "text-amber-400/80"}
+                                        >
+                                            {issue.path && <span className="font-mono">{issue.path}: </span>}
+                                            {issue.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Raw document */}
+                {inspection.raw !== null && (
+                    <div>
+                        <h3 className="mb-1.5 text-white/40">Raw document</h3>
+                        {inspection.parseError && (
+                            <p className="mb-1.5 flex items-center gap-1.5 text-xs text-red-400">
+                                <AlertTriangle className="h-3.5 w-3.5" />
+                                Not valid JSON: {inspection.parseError}
+                            </p>
+                        )}
+                        <pre className="max-h-96 overflow-auto rounded-lg bg-black/30 p-3 font-mono text-xs text-white/60">
+                            {inspection.json ?? inspection.raw}
+                        </pre>
+                    </div>
+                )}
+            </div>
+        </PanelCard>
+    );
+}
+
+/**
+ * Fetches and checks an agent's metadata document
+ *
+ * An async server component; render it inside `<Suspense>` with
+ * `MetadataInspectorFallback`.
+ */
+export async function MetadataInspector({ agent }: { agent: Agent }) {
+    return <MetadataInspectorView inspection={await inspectMetadata(agent)} />;
+}
+
+/** Placeholder shown while the document loads */
+export function MetadataInspectorFallback() {
+    return (
+        <PanelCard>
+            <p className="text-sm text-white/40">Fetching the metadata document...</p>
+        </PanelCard>
+    );
+}
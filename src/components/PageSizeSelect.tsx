@@ -2,6 +2,7 @@
 
 import { ChevronDown } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { DEFAULT_PAGE_SIZE } from "@/lib/listing";
 
 interface PageSizeSelectProps {
     currentSize: number;
@@ -17,11 +18,11 @@ export function PageSizeSelect({ currentSize, sizes, currentParams }: PageSizeSe
         const params = new URLSearchParams();
         Object.entries(currentParams).forEach(([key, value]) => {
             if (key === "perPage") {
-                // Only add perPage if not default (24)
-                if (newSize !== 24) params.set("perPage", String(newSize));
-            } else if (key === "page") {
+                // Only add perPage if not default
+                if (newSize !== DEFAULT_PAGE_SIZE) params.set("perPage", String(newSize));
+            } else if (key === "page" || key === "cursor") {
                 // Reset to page 1 when changing size
-                // Don't add page=1 to URL
+                // Don't add page=1 to URL, and drop the cursor since page boundaries move
             } else if (value) {
                 params.set(key, value);
             }
@@ -0,0 +1,134 @@
+import { ReputationSummary, TagStat, TrendInterval } from "@/lib/reputation";
+
+interface ReputationPanelProps {
+    reputation: ReputationSummary;
+}
+
+/** Formats a trend period start for its interval */
+function formatPeriod(start: number, interval: TrendInterval): string {
+    const date = new Date(start * 1000);
+    return interval === "month"
+        ? date.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" })
+        : date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/** Formats a score average with at most one decimal */
+function formatScore(score: number): string {
+    return String(Math.round(score * 10) / 10);
+}
+
+/** Most recent trend periods shown */
+const MAX_TREND_POINTS = 12;
+
+const TREND_LABELS: Record<TrendInterval, string> = {
+    day: "Daily",
+    week: "Weekly",
+    month: "Monthly",
+};
+
+/** Small label/value block used in the summary row */
+function Stat({ label, value }: { label: string; value: string }) {
+    return (
+        <div>
+            <p className="text-xs text-white/40">{label}</p>
+            <p className="mt-0.5 text-lg font-semibold text-white">{value}</p>
+        </div>
+    );
+}
+
+/** Lists tags with their review count and average score */
+function TagList({ title, tags }: { title: string; tags: TagStat[] }) {
+    if (tags.length === 0) return null;
+
+    return (
+        <div>
+            <h3 className="mb-2 text-xs text-white/40">{title}</h3>
+            <div className="space-y-1.5">
+                {tags.map((tag) => (
+                    <div key={tag.tag} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">
+                            {tag.tag}
+                        </span>
+                        <span className="shrink-0 text-xs text-white/50">
+                            {tag.count} · avg {formatScore(tag.mean)}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Reputation summary for the agent detail page
+ *
+ * Shows aggregates over all of the agent's non-revoked feedback (see
+ * `lib/reputation.ts`): mean, median, score distribution, trend and tags.
+ */
+export function ReputationPanel({ reputation }: ReputationPanelProps) {
+    if (reputation.count === 0 || reputation.mean === null || reputation.median === null) return null;
+
+    const maxBucket = Math.max(...reputation.histogram.map((b) => b.count));
+    const trend = reputation.trend.slice(-MAX_TREND_POINTS);
+
+    return (
+        <div className="mb-8 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <h2 className="mb-4 text-sm font-medium text-white/70">Reputation</h2>
+
+            {/* Summary numbers */}
+            <div className="mb-6 grid grid-cols-3 gap-4">
+                <Stat label="Reviews" value={String(reputation.count)} />
+                <Stat label="Mean score" value={formatScore(reputation.mean)} />
+                <Stat label="Median score" value={formatScore(reputation.median)} />
+            </div>
+
+            <div className="grid gap-6 sm:grid-cols-2">
+                {/* Score histogram */}
+                <div>
+                    <h3 className="mb-2 text-xs text-white/40">Score distribution</h3>
+                    <div className="flex h-24 items-end gap-1">
+                        {reputation.histogram.map((bucket) => (
+                            <div
+                                key={bucket.min}
+                                className="flex-1 rounded-t bg-gradient-to-t from-amber-500/60 to-emerald-500/60"
+                                style={{ height: `${maxBucket > 0 ? (bucket.count / maxBucket) * 100 : 0}%` }}
+                                title={`${bucket.min}-${bucket.max}: ${bucket.count}`}
+                            />
+                        ))}
+                    </div>
+                    <div className="mt-1 flex justify-between text-xs text-white/30">
+                        <span>0</span>
+                        <span>50</span>
+                        <span>100</span>
+                    </div>
+                </div>
+
+                {/* Trend over time */}
+                <div>
+                    <h3 className="mb-2 text-xs text-white/40">{TREND_LABELS[reputation.trendInterval]} trend</h3>
+                    <div className="space-y-1.5">
+                        {trend.map((point) => (
+                            <div key={point.start} className="flex items-center gap-2 text-xs">
+                                <span className="w-20 shrink-0 text-white/50">
+                                    {formatPeriod(point.start, reputation.trendInterval)}
+                                </span>
+                                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+                                    <div
+                                        className="h-full rounded-full bg-gradient-to-r from-amber-500 to-emerald-500"
+                                        style={{ width: `${point.mean}%` }}
+                                    />
+                                </div>
+                                <span className="w-16 shrink-0 text-right text-white/50">
+                                    {formatScore(point.mean)} ({point.count})
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <TagList title="Tag 1" tags={reputation.tag1} />
+                <TagList title="Tag 2" tags={reputation.tag2} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+import { Filter } from "lucide-react";
+import { buildUrl } from "@/lib/listing";
+import { REVIEW_SORTS, ReviewParams } from "@/lib/reviews";
+
+interface ReviewFiltersProps {
+    /** Path of the agent page the form submits to */
+    path: string;
+    /** Current review list params */
+    params: ReviewParams;
+    /** Whether any filter is active (shows the Clear link) */
+    filtered: boolean;
+}
+
+const inputClass =
+    "w-full rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white placeholder-white/30 outline-none focus:border-white/20";
+
+/** Labelled form field */
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <label className="block">
+            <span className="mb-1 block text-xs text-white/40">{label}</span>
+            {children}
+        </label>
+    );
+}
+
+/**
+ * Filter form and sort links for the review list
+ *
+ * A plain GET form, so filtering works without client-side JavaScript and
+ * every filtered view has its own URL. Submitting resets to the first page.
+ */
+export function ReviewFilters({ path, params, filtered }: ReviewFiltersProps) {
+    const currentSort = params.sort ?? REVIEW_SORTS[0].value;
+
+    return (
+        <div className="mb-4 space-y-3">
+            {/* Sort links */}
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-white/50">Sort:</span>
+                {REVIEW_SORTS.map((sort) => (
+                    <a
+                        key={sort.value}
+                        href={buildUrl(
+                            params,
+                            { sort: sort.value === REVIEW_SORTS[0].value ? undefined : sort.value, page: undefined },
+                            path
+                        )}
+                        className={`rounded-lg border px-3 py-1 text-sm transition-colors ${
+                            currentSort === sort.value
+                                ? "border-white/20 bg-white/10 text-white"
+                                : "border-white/10 text-white/50 hover:border-white/20 hover:text-white/70"
+                        }`}
+                    >
+                        {sort.label}
+                    </a>
+                ))}
+            </div>
+
+            {/* Filters */}
+            <details open={filtered} className="rounded-xl border border-white/10 bg-white/[0.02]">
+                <summary className="flex cursor-pointer items-center gap-2 px-4 py-2.5 text-sm text-white/60">
+                    <Filter className="h-4 w-4" />
+                    Filter reviews
+                </summary>
+                <form action={path} method="GET" className="grid gap-3 border-t border-white/5 p-4 sm:grid-cols-2">
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="Min score">
+                            <input
+                                type="number"
+                                name="minScore"
+                                min={0}
+                                max={100}
+                                defaultValue={params.minScore}
+                                className={inputClass}
+                            />
+                        </Field>
+                        <Field label="Max score">
+                            <input
+                                type="number"
+                                name="maxScore"
+                                min={0}
+                                max={100}
+                                defaultValue={params.maxScore}
+                                className={inputClass}
+                            />
+                        </Field>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="From">
+                            <input type="date" name="from" defaultValue={params.from} className={inputClass} />
+                        </Field>
+                        <Field label="To">
+                            <input type="date" name="to" defaultValue={params.to} className={inputClass} />
+                        </Field>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="Tag 1">
+                            <input type="text" name="tag1" defaultValue={params.tag1} className={inputClass} />
+                        </Field>
+                        <Field label="Tag 2">
+                            <input type="text" name="tag2" defaultValue={params.tag2} className={inputClass} />
+                        </Field>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="Capability">
+                            <input
+                                type="text"
+                                name="capability"
+                                defaultValue={params.capability}
+                                className={inputClass}
+                            />
+                        </Field>
+                        <Field label="Skill">
+                            <input type="text" name="skill" defaultValue={params.skill} className={inputClass} />
+                        </Field>
+                    </div>
+                    <Field label="Reviewer address">
+                        <input
+                            type="text"
+                            name="reviewer"
+                            placeholder="0x..."
+                            defaultValue={params.reviewer}
+                            className={`${inputClass} font-mono`}
+                        />
+                    </Field>
+                    <label className="flex items-center gap-2 self-end pb-1.5 text-sm text-white/60">
+                        <input
+                            type="checkbox"
+                            name="revoked"
+                            value="true"
+                            defaultChecked={params.revoked === "true"}
+                            className="accent-white"
+                        />
+                        Include revoked feedback
+                    </label>
+                    {params.sort && <input type="hidden" name="sort" value={params.sort} />}
+                    <div className="flex items-center gap-3 sm:col-span-2">
+                        <button
+                            type="submit"
+                            className="rounded-lg border border-white/20 bg-white/10 px-4 py-1.5 text-sm text-white hover:bg-white/15"
+                        >
+                            Apply
+                        </button>
+                        {filtered && (
+                            <a
+                                href={buildUrl({}, { sort: params.sort }, path)}
+                                className="text-sm text-white/50 hover:text-white/70"
+                            >
+                                Clear filters
+                            </a>
+                        )}
+                    </div>
+                </form>
+            </details>
+        </div>
+    );
+}
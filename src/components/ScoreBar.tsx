@@ -0,0 +1,14 @@
+/** Visual score bar showing 0-100 rating */
+export function ScoreBar({ score }: { score: number }) {
+    return (
+        <div className="flex items-center gap-2">
+            <div className="h-2 w-24 overflow-hidden rounded-full bg-white/10">
+                <div
+                    className="h-full rounded-full bg-gradient-to-r from-amber-500 to-emerald-500"
+                    style={{ width: `${score}%` }}
+                />
+            </div>
+            <span className="text-sm font-medium text-white/70">{score}/100</span>
+        </div>
+    );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { AGENT_SORTS, buildUrl } from "@/lib/listing";
+
+interface SortSelectProps {
+    /** Selected sort */
+    currentSort: string;
+    /** Current URL params to preserve when changing the sort */
+    currentParams: Record<string, string | undefined>;
+}
+
+export function SortSelect({ currentSort, currentParams }: SortSelectProps) {
+    const router = useRouter();
+
+    // Reset to page 1 when changing the sort; buildUrl drops the cursor and the default sort
+    const handleChange = (newSort: string) => router.push(buildUrl(currentParams, { sort: newSort, page: "1" }));
+    // Relevance only means something for search results
+    const sorts = AGENT_SORTS.filter((sort) => sort.value !== "relevance" || currentParams.search);
+
+    return (
+        <div className="relative">
+            <select
+                value={currentSort}
+                onChange={(e) => handleChange(e.target.value)}
+                aria-label="Sort agents"
+                className="appearance-none rounded-lg border border-white/10 bg-white/5 py-1.5 pl-3 pr-8 text-sm text-white/70 outline-none focus:border-white/20"
+            >
+                {sorts.map((sort) => (
+                    <option key={sort.value} value={sort.value} className="bg-[#0a0a0b]">
+                        {sort.label}
+                    </option>
+                ))}
+            </select>
+            <ChevronDown className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
+        </div>
+    );
+}
@@ -0,0 +1,120 @@
+import { ShieldCheck } from "lucide-react";
+import { summarizeValidations } from "@/lib/validation";
+import type { Validation } from "@/lib/subgraph";
+import { ScoreBar } from "./ScoreBar";
+
+interface ValidationsPanelProps {
+    /** The agent's validations, or null if the subgraph doesn't index them */
+    validations: Validation[] | null;
+}
+
+/** Most recent validations listed */
+const MAX_LISTED = 20;
+
+/** Truncates an address or hash to "0x1234...5678" format */
+function formatHash(value: string): string {
+    return `${value.slice(0, 6)}...${value.slice(-4)}`;
+}
+
+/** Converts Unix timestamp to readable date */
+function formatTimestamp(timestamp: string): string {
+    return new Date(parseInt(timestamp) * 1000).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+    });
+}
+
+/** Request or response document reference; only HTTP(S) URIs are linked */
+function DocumentLink({ label, uri, hash }: { label: string; uri: string | null; hash: string | null }) {
+    if (!uri && !hash) return null;
+    return (
+        <p className="truncate text-xs text-white/30">
+            {label}{" "}
+            {uri && /^https?:\/\//.test(uri) ? (
+                <a href={uri} target="_blank" rel="noopener noreferrer" className="font-mono hover:text-white/50">
+                    {uri}
+                </a>
+            ) : (
+                <span className="font-mono">{uri}</span>
+            )}
+            {hash && <span className="ml-1.5 font-mono">({formatHash(hash)})</span>}
+        </p>
+    );
+}
+
+/** One validation request and its response */
+function ValidationRow({ validation }: { validation: Validation }) {
+    const pending = validation.response === null;
+
+    return (
+        <li className="rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="font-mono text-white/70" title={validation.validatorAddress}>
+                        {formatHash(validation.validatorAddress)}
+                    </span>
+                    {validation.tag && (
+                        <span className="rounded-md bg-white/5 px-2 py-0.5 text-xs text-white/60">{validation.tag}</span>
+                    )}
+                </div>
+                {pending ? (
+                    <span className="rounded-md bg-amber-500/10 px-2 py-0.5 text-xs text-amber-400">Pending</span>
+                ) : (
+                    <ScoreBar score={parseInt(validation.response!)} />
+                )}
+            </div>
+            <p className="mt-1 text-xs text-white/40">
+                Requested {formatTimestamp(validation.createdAt)}
+                {!pending && ` · responded ${formatTimestamp(validation.updatedAt)}`}
+            </p>
+            <div className="mt-1 space-y-0.5">
+                <DocumentLink label="Request" uri={validation.requestUri} hash={validation.requestHash} />
+                <DocumentLink label="Response" uri={validation.responseUri} hash={validation.responseHash} />
+            </div>
+        </li>
+    );
+}
+
+/**
+ * Validation Registry entries for the agent detail page
+ *
+ * Renders nothing when the subgraph doesn't index validations.
+ */
+export function ValidationsPanel({ validations }: ValidationsPanelProps) {
+    if (validations === null) return null;
+
+    const summary = summarizeValidations(validations);
+
+    return (
+        <div className="mb-8 rounded-xl border border-white/10 bg-white/[0.02] p-5">
+            <h2 className="mb-4 flex items-center gap-2 text-sm font-medium text-white/70">
+                <ShieldCheck className="h-4 w-4" />
+                Validations
+            </h2>
+
+            {validations.length === 0 ? (
+                <p className="text-sm text-white/40">No validation requests yet</p>
+            ) : (
+                <>
+                    <p className="mb-4 text-xs text-white/50">
+                        {summary.responded} responded · {summary.pending} pending · {summary.validators}{" "}
+                        {summary.validators === 1 ? "validator" : "validators"}
+                        {summary.mean !== null && ` · avg response ${Math.round(summary.mean)}`}
+                    </p>
+                    <ul className="space-y-2">
+                        {validations.slice(0, MAX_LISTED).map((validation) => (
+                            <ValidationRow key={validation.id} validation={validation} />
+                        ))}
+                    </ul>
+                    {validations.length > MAX_LISTED && (
+                        <p className="mt-3 text-xs text-white/40">
+                            Showing the latest {MAX_LISTED} of {validations.length} validations
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
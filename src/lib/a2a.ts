@@ -0,0 +1,435 @@
+/**
+ * A2A Agent Card resolution
+ *
+ * Agents speaking the A2A protocol publish an Agent Card: a JSON document
+ * (served at `/.well-known/agent-card.json`, or `agent.json` before A2A 0.3)
+ * describing the agent's skills, I/O modes, capabilities and authentication.
+ * This module fetches the card behind a registration file's A2A endpoint,
+ * validates it against the spec's required fields and compares it with what
+ * the registration file claims.
+ *
+ * Cards are fetched with the metadata resolver's timeout and size limit (see
+ * `metadata.ts`) and cached per URL. Card URLs come from registration files,
+ * so like MCP probes, private and loopback hosts are refused, including as
+ * redirect targets.
+ *
+ * Configuration (optional):
+ * - `A2A_CARD_ALLOW_PRIVATE`: set to "true" to fetch cards from private hosts (local development)
+ *
+ * Spec: https://a2a-protocol.org/latest/specification/#5-agent-discovery-the-agent-card
+ */
+
+import { createTtlCache } from "./cache";
+import { isPrivateHost } from "./mcp";
+import { fetchHttpDocument, ResolvedDocument } from "./metadata";
+import type { RegistrationFile } from "./registration";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A skill declared in an Agent Card
+ */
+export interface A2aSkill {
+    id: string | null;
+    name: string | null;
+    description: string | null;
+    tags: string[];
+    examples: string[];
+    inputModes: string[] | null; // null: the card's default modes apply
+    outputModes: string[] | null;
+}
+
+/**
+ * An authentication scheme declared in an Agent Card
+ */
+export interface A2aSecurityScheme {
+    name: string; // Key in `securitySchemes`
+    type: string; // "apiKey", "http", "oauth2", "openIdConnect", "mutualTLS", ...
+    detail: string | null; // e.g. "header X-API-Key", "bearer", OAuth flow names
+    description: string | null;
+}
+
+/**
+ * Normalized Agent Card
+ */
+export interface A2aAgentCard {
+    name: string | null;
+    description: string | null;
+    url: string | null; // Service endpoint
+    version: string | null; // Version of the agent
+    protocolVersion: string | null; // A2A protocol version
+    preferredTransport: string | null;
+    provider: { organization: string; url: string | null } | null;
+    documentationUrl: string | null;
+    capabilities: {
+        streaming: boolean;
+        pushNotifications: boolean;
+        stateTransitionHistory: boolean;
+    };
+    defaultInputModes: string[];
+    defaultOutputModes: string[];
+    skills: A2aSkill[];
+    securitySchemes: A2aSecurityScheme[];
+    security: string[][]; // Alternatives, each a list of scheme names required together
+}
+
+/**
+ * A difference between the Agent Card and the registration file
+ */
+export interface CardMismatch {
+    field: "name" | "version" | "skills" | "url";
+    message: string;
+}
+
+/**
+ * Outcome of resolving an agent's card
+ *
+ * `issues` lists spec violations (missing or mistyped required fields); the
+ * card is still shown when there are some.
+ */
+export type A2aCardResult =
+    | { ok: true; url: string; card: A2aAgentCard; issues: string[]; mismatches: CardMismatch[] }
+    | { ok: false; url: string | null; error: string };
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/** Well-known card paths, current first */
+const WELL_KNOWN_PATHS = ["/.well-known/agent-card.json", "/.well-known/agent.json"];
+
+/** How long a fetched card stays cached */
+const SUCCESS_TTL_MS = 5 * 60 * 1000;
+
+/** How long a failed fetch is remembered before the URL is tried again */
+const FAILURE_TTL_MS = 60 * 1000;
+
+/** Whether cards may come from private hosts, read on each call like the other settings */
+function allowPrivateHosts(): boolean {
+    return process.env.A2A_CARD_ALLOW_PRIVATE === "true";
+}
+
+const cardCache = createTtlCache<Promise<ResolvedDocument>>(SUCCESS_TTL_MS, 500);
+
+/**
+ * Fetches, validates and compares the Agent Card behind a registration file's A2A endpoint
+ *
+ * Candidate URLs (see `getAgentCardUrls`) are tried in order; the first that
+ * returns a JSON object is used.
+ *
+ * @returns The result, or null if the registration file has no A2A endpoint
+ */
+export async function fetchAgentCard(file: RegistrationFile): Promise<A2aCardResult | null> {
+    if (!file.a2aEndpoint) return null;
+
+    const urls = getAgentCardUrls(file.a2aEndpoint);
+    if (urls.length === 0) {
+        return { ok: false, url: null, error: "The A2A endpoint isn't an HTTP(S) URL" };
+    }
+    // Every candidate is on the endpoint's host
+    if (!isAllowedCardUrl(new URL(urls[0]))) {
+        return { ok: false, url: urls[0], error: "Private and loopback hosts aren't fetched" };
+    }
+
+    const errors: string[] = [];
+    for (const url of urls) {
+        const document = await fetchCardDocument(url);
+        if (!document.ok) {
+            errors.push(document.error);
+            continue;
+        }
+
+        let raw: unknown;
+        try {
+            raw = JSON.parse(document.text);
+        } catch {
+            errors.push(`${url} is not JSON`);
+            continue;
+        }
+
+        const parsed = parseAgentCard(raw);
+        if (!parsed) {
+            errors.push(`${url} is not a JSON object`);
+            continue;
+        }
+        return { ok: true, url, ...parsed, mismatches: compareWithRegistration(parsed.card, file) };
+    }
+
+    return { ok: false, url: urls[0], error: errors.join("; ") };
+}
+
+/**
+ * Fetches a candidate card URL, using the cache
+ *
+ * Concurrent calls for the same URL share one request.
+ */
+function fetchCardDocument(url: string): Promise<ResolvedDocument> {
+    const cached = cardCache.get(url);
+    if (cached) return cached;
+
+    const promise = fetchHttpDocument(url, isAllowedCardUrl).then((document) => {
+        cardCache.set(url, Promise.resolve(document), document.ok ? SUCCESS_TTL_MS : FAILURE_TTL_MS);
+        return document;
+    });
+
+    cardCache.set(url, promise);
+    return promise;
+}
+
+/** Checks a card URL or redirect target against the private host rule */
+function isAllowedCardUrl(url: URL): boolean {
+    return allowPrivateHosts() || !isPrivateHost(url.hostname);
+}
+
+/**
+ * Lists the URLs where an A2A endpoint's card may be
+ *
+ * Endpoints that already point at a JSON file are used as is; otherwise the
+ * well-known paths on the endpoint's origin are tried.
+ */
+export function getAgentCardUrls(endpoint: string): string[] {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return [];
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return [];
+    if (url.pathname.endsWith(".json")) return [url.toString()];
+    return WELL_KNOWN_PATHS.map((path) => new URL(path, url.origin).toString());
+}
+
+// =============================================================================
+// Parsing and Validation
+// =============================================================================
+
+/**
+ * Normalizes an Agent Card and lists its spec violations
+ *
+ * Accepts the pre-0.3 `authentication.schemes` list when `securitySchemes`
+ * is absent.
+ *
+ * @returns The card and issues, or null if the value isn't a JSON object
+ */
+export function parseAgentCard(value: unknown): { card: A2aAgentCard; issues: string[] } | null {
+    if (!isObject(value)) return null;
+    const issues: string[] = [];
+
+    const requireString = (key: string) => {
+        if (typeof value[key] !== "string" || value[key] === "") issues.push(`Missing "${key}"`);
+        return asString(value[key]);
+    };
+    const requireModes = (key: string) => {
+        if (!isStringArray(value[key])) issues.push(`"${key}" must be a list of media types`);
+        return asStringArray(value[key]) ?? [];
+    };
+
+    const name = requireString("name");
+    const description = requireString("description");
+    const url = requireString("url");
+    const version = requireString("version");
+    const protocolVersion = requireString("protocolVersion");
+    const defaultInputModes = requireModes("defaultInputModes");
+    const defaultOutputModes = requireModes("defaultOutputModes");
+
+    if (!isObject(value.capabilities)) issues.push(`Missing "capabilities"`);
+    const capabilities = isObject(value.capabilities) ? value.capabilities : {};
+
+    if (!Array.isArray(value.skills)) issues.push(`Missing "skills"`);
+    const skills = (Array.isArray(value.skills) ? value.skills : []).map((skill, index) => {
+        const entry = isObject(skill) ? skill : {};
+        for (const key of ["id", "name", "description"]) {
+            if (typeof entry[key] !== "string" || entry[key] === "") {
+                issues.push(`Skill ${index + 1} is missing "${key}"`);
+            }
+        }
+        if (!isStringArray(entry.tags)) issues.push(`Skill ${index + 1} is missing "tags"`);
+        return {
+            id: asString(entry.id),
+            name: asString(entry.name),
+            description: asString(entry.description),
+            tags: asStringArray(entry.tags) ?? [],
+            examples: asStringArray(entry.examples) ?? [],
+            inputModes: asStringArray(entry.inputModes),
+            outputModes: asStringArray(entry.outputModes),
+        };
+    });
+
+    const provider =
+        isObject(value.provider) && typeof value.provider.organization === "string"
+            ? { organization: value.provider.organization, url: asString(value.provider.url) }
+            : null;
+
+    return {
+        card: {
+            name,
+            description,
+            url,
+            version,
+            protocolVersion,
+            preferredTransport: asString(value.preferredTransport),
+            provider,
+            documentationUrl: asString(value.documentationUrl),
+            capabilities: {
+                streaming: capabilities.streaming === true,
+                pushNotifications: capabilities.pushNotifications === true,
+                stateTransitionHistory: capabilities.stateTransitionHistory === true,
+            },
+            defaultInputModes,
+            defaultOutputModes,
+            skills,
+            securitySchemes: parseSecuritySchemes(value),
+            security: Array.isArray(value.security)
+                ? value.security.filter(isObject).map((requirement) => Object.keys(requirement))
+                : [],
+        },
+        issues,
+    };
+}
+
+/** Reads `securitySchemes`, or the legacy `authentication.schemes` list */
+function parseSecuritySchemes(card: Record<string, unknown>): A2aSecurityScheme[] {
+    if (isObject(card.securitySchemes)) {
+        return Object.entries(card.securitySchemes)
+            .filter((entry): entry is [string, Record<string, unknown>] => isObject(entry[1]))
+            .map(([name, scheme]) => ({
+                name,
+                type: asString(scheme.type) ?? "unknown",
+                detail: describeScheme(scheme),
+                description: asString(scheme.description),
+            }));
+    }
+
+    const legacy = isObject(card.authentication) ? asStringArray(card.authentication.schemes) : null;
+    return (legacy ?? []).map((name) => ({ name, type: name, detail: null, description: null }));
+}
+
+/** Summarizes where a scheme's credentials go */
+function describeScheme(scheme: Record<string, unknown>): string | null {
+    switch (scheme.type) {
+        case "apiKey":
+            return scheme.in && scheme.name ? `${scheme.in} ${scheme.name}` : null;
+        case "http":
+            return asString(scheme.scheme);
+        case "oauth2":
+            return isObject(scheme.flows) ? Object.keys(scheme.flows).join(", ") || null : null;
+        case "openIdConnect":
+            return asString(scheme.openIdConnectUrl);
+        default:
+            return null;
+    }
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * Lists differences between an Agent Card and the registration file
+ *
+ * Compares the agent name, the A2A protocol version of the registration's
+ * A2A endpoint, the skills it lists (matched by skill ID or name, ignoring
+ * case) and the host of the card's service URL.
+ */
+export function compareWithRegistration(card: A2aAgentCard, file: RegistrationFile): CardMismatch[] {
+    const mismatches: CardMismatch[] = [];
+
+    if (card.name && file.name && normalize(card.name) !== normalize(file.name)) {
+        mismatches.push({
+            field: "name",
+            message: `The card names the agent "${card.name}"; the registration file says "${file.name}"`,
+        });
+    }
+
+    if (
+        card.protocolVersion &&
+        file.a2aVersion &&
+        normalizeVersion(card.protocolVersion) !== normalizeVersion(file.a2aVersion)
+    ) {
+        mismatches.push({
+            field: "version",
+            message: `The card uses A2A ${card.protocolVersion}; the registration file says ${file.a2aVersion}`,
+        });
+    }
+
+    if (file.a2aSkills && file.a2aSkills.length > 0) {
+        const cardSkills = new Set(
+            card.skills.flatMap((s) => [s.id, s.name]).filter((s): s is string => s !== null).map(normalize)
+        );
+        const registered = new Set(file.a2aSkills.map(normalize));
+
+        const missing = file.a2aSkills.filter((skill) => !cardSkills.has(normalize(skill)));
+        if (missing.length > 0) {
+            mismatches.push({
+                field: "skills",
+                message: `Skills in the registration file but not on the card: ${missing.join(", ")}`,
+            });
+        }
+
+        const unlisted = card.skills.filter(
+            (s) => !(s.id && registered.has(normalize(s.id))) && !(s.name && registered.has(normalize(s.name)))
+        );
+        if (unlisted.length > 0) {
+            mismatches.push({
+                field: "skills",
+                message: `Skills on the card but not in the registration file: ${unlisted
+                    .map((s) => s.id ?? s.name)
+                    .join(", ")}`,
+            });
+        }
+    }
+
+    const cardHost = hostOf(card.url);
+    const endpointHost = hostOf(file.a2aEndpoint);
+    if (cardHost && endpointHost && cardHost !== endpointHost) {
+        mismatches.push({
+            field: "url",
+            message: `The card's service URL is on ${cardHost}; the registration's A2A endpoint is on ${endpointHost}`,
+        });
+    }
+
+    return mismatches;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function normalize(value: string): string {
+    return value.trim().toLowerCase();
+}
+
+/** "v0.3.0" and "0.3" compare equal */
+function normalizeVersion(version: string): string {
+    return version.trim().replace(/^v/i, "").replace(/(\.0)+$/, "");
+}
+
+function hostOf(url: string | null): string | null {
+    if (!url) return null;
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return null;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/** Returns the value if it is a non-empty string, otherwise null */
+function asString(value: unknown): string | null {
+    return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/** Returns the string items of an array, or null if the value isn't an array */
+function asStringArray(value: unknown): string[] | null {
+    if (!Array.isArray(value)) return null;
+    return value.filter((item): item is string => typeof item === "string");
+}
@@ -0,0 +1,209 @@
+/**
+ * Agent activity timeline
+ *
+ * Turns an agent's history (see `fetchAgentHistory` in subgraph.ts) and
+ * feedback into a timeline of registration, URI updates, ownership transfers
+ * and feedback.
+ * URI updates come with a side-by-side diff of the old and new registration
+ * files, resolved through the metadata cache.
+ */
+
+import { createTtlCache } from "./cache";
+import { getDataSource } from "./dataSource";
+import { diffLines, DiffRow, hasChanges } from "./diff";
+import { fetchMetadataDocument } from "./metadata";
+import { fetchActiveFeedback } from "./reputation";
+import type { Agent, AgentHistory, FeedbackActivity, UriUpdate } from "./subgraph";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Comparison of the registration files before and after a URI update
+ *
+ * - "ok": both files were fetched; `rows` is the line diff of their JSON
+ * - "same-uri": the URI didn't change, so the old contents can't be fetched
+ * - "unknown-previous": the indexer didn't record the old URI
+ * - "unavailable": one of the files couldn't be fetched
+ */
+export type RegistrationDiff =
+    | { status: "ok"; rows: DiffRow[]; changed: boolean }
+    | { status: "same-uri" | "unknown-previous" }
+    | { status: "unavailable"; error: string };
+
+/**
+ * One entry of the timeline
+ */
+export type TimelineEvent =
+    | { kind: "registered"; timestamp: string; owner: string; uri: string | null }
+    | { kind: "uri-updated"; timestamp: string; update: UriUpdate; diff: RegistrationDiff | null } // null: not loaded
+    | { kind: "transferred"; timestamp: string; from: string; to: string }
+    | { kind: "feedback-given" | "feedback-revoked"; timestamp: string; feedback: FeedbackActivity };
+
+/**
+ * Timeline of an agent, newest first
+ */
+export interface AgentActivity {
+    events: TimelineEvent[]; // At most TIMELINE_LIMIT
+    total: number; // Number of events before the limit
+    complete: boolean; // false if URI updates and transfers weren't available
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/** Events shown on the detail page */
+export const TIMELINE_LIMIT = 50;
+
+/** URI updates whose registration files are diffed, newest first */
+const DIFF_LIMIT = 5;
+
+/** How long a loaded timeline stays cached */
+const ACTIVITY_TTL_MS = 5 * 60 * 1000;
+
+const activityCache = createTtlCache<Promise<AgentActivity>>(ACTIVITY_TTL_MS);
+
+/**
+ * Loads the history of an agent and builds its timeline
+ *
+ * Active feedback comes from the load reputation summaries share, so it isn't
+ * walked a second time. Registration files of the latest URI updates are
+ * fetched and diffed. Timelines are cached per agent like reputation
+ * summaries; failed loads aren't cached.
+ */
+export function fetchActivity(agent: Agent): Promise<AgentActivity> {
+    const cached = activityCache.get(agent.id);
+    if (cached) return cached;
+
+    const promise = Promise.all([getDataSource().fetchAgentHistory(agent.id), fetchActiveFeedback(agent.id)])
+        .then(([history, feedback]) => loadDiffs(buildTimeline(agent, history, feedback)))
+        .catch((error) => {
+            activityCache.delete(agent.id);
+            throw error;
+        });
+
+    activityCache.set(agent.id, promise);
+    return promise;
+}
+
+/**
+ * Fills in the diffs of the latest URI updates
+ */
+async function loadDiffs(activity: AgentActivity): Promise<AgentActivity> {
+    let diffed = 0;
+    const events = await Promise.all(
+        activity.events.map(async (event) => {
+            if (event.kind !== "uri-updated" || diffed++ >= DIFF_LIMIT) return event;
+            return { ...event, diff: await diffRegistrationFiles(event.update.previousURI, event.update.newURI) };
+        })
+    );
+    return { ...activity, events };
+}
+
+/**
+ * Fetches two registration files and diffs them
+ *
+ * JSON documents are pretty-printed first so the diff is line by line
+ * regardless of how each file was formatted.
+ */
+export async function diffRegistrationFiles(previousURI: string | null, newURI: string): Promise<RegistrationDiff> {
+    if (previousURI === null) return { status: "unknown-previous" };
+    if (previousURI === newURI) return { status: "same-uri" };
+
+    const [before, after] = await Promise.all([fetchMetadataDocument(previousURI), fetchMetadataDocument(newURI)]);
+    if (!before.ok) return { status: "unavailable", error: `Previous file: ${before.error}` };
+    if (!after.ok) return { status: "unavailable", error: `New file: ${after.error}` };
+
+    const rows = diffLines(formatDocument(before.text), formatDocument(after.text));
+    return { status: "ok", rows, changed: hasChanges(rows) };
+}
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+/**
+ * Merges an agent's history and active feedback into a timeline, newest first
+ *
+ * The registration comes first in time. Its owner is the sender of the first
+ * transfer (or the current owner if there was none) and its URI the old URI
+ * of the first update (or the current URI). Revoked feedback appears twice,
+ * once when given and once when revoked, if the revocation time is known.
+ * Diffs are left unloaded.
+ *
+ * @param feedback - The agent's non-revoked feedback
+ */
+export function buildTimeline(
+    agent: Agent,
+    history: AgentHistory,
+    feedback: Omit<FeedbackActivity, "revokedAt">[]
+): AgentActivity {
+    const firstUpdate = history.uriUpdates[0];
+    const events: TimelineEvent[] = [
+        {
+            kind: "registered",
+            timestamp: agent.createdAt,
+            owner: history.transfers[0]?.from ?? agent.owner,
+            uri: firstUpdate ? firstUpdate.previousURI : agent.metadataUri || null,
+        },
+    ];
+
+    for (const update of history.uriUpdates) {
+        events.push({ kind: "uri-updated", timestamp: update.timestamp, update, diff: null });
+    }
+    for (const transfer of history.transfers) {
+        events.push({ kind: "transferred", timestamp: transfer.timestamp, from: transfer.from, to: transfer.to });
+    }
+    const allFeedback: FeedbackActivity[] = [
+        ...feedback.map((entry) => ({ ...entry, revokedAt: null })),
+        ...history.revokedFeedback,
+    ].sort((a, b) => parseInt(a.createdAt) - parseInt(b.createdAt) || a.id.localeCompare(b.id));
+    for (const entry of allFeedback) {
+        events.push({ kind: "feedback-given", timestamp: entry.createdAt, feedback: entry });
+        if (entry.revokedAt) {
+            events.push({ kind: "feedback-revoked", timestamp: entry.revokedAt, feedback: entry });
+        }
+    }
+
+    // Stable sort keeps the order above for events in the same block
+    const ordered = events
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => parseInt(a.event.timestamp) - parseInt(b.event.timestamp) || a.index - b.index)
+        .map(({ event }) => event)
+        .reverse();
+
+    return {
+        events: ordered.slice(0, TIMELINE_LIMIT),
+        total: ordered.length,
+        complete: history.complete,
+    };
+}
+
+/**
+ * Lists the addresses that appear in a timeline (owners, updaters, reviewers)
+ */
+export function getActivityAddresses(activity: AgentActivity): string[] {
+    return activity.events.flatMap((event) => {
+        switch (event.kind) {
+            case "registered":
+                return [event.owner];
+            case "uri-updated":
+                return [event.update.updatedBy];
+            case "transferred":
+                return [event.from, event.to];
+            default:
+                return [event.feedback.clientAddress];
+        }
+    });
+}
+
+/** Pretty-prints JSON documents; other text is diffed as is */
+function formatDocument(text: string): string {
+    try {
+        return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+        return text;
+    }
+}
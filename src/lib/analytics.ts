@@ -0,0 +1,283 @@
+/**
+ * Registry-wide analytics
+ *
+ * `fetchGlobalStats` only knows two totals. The analytics page needs time
+ * series and breakdowns over every agent and feedback entry, so the data
+ * source returns a compact copy of the registry (`RegistryData`) and it is
+ * aggregated here:
+ * - registrations and feedback volume per day or week
+ * - the score distribution of all non-revoked feedback
+ * - MCP/A2A endpoint share and trust model adoption, from indexed registration files
+ * - top agents by review count and average score, and the most active reviewers
+ */
+
+import { createTtlCache } from "./cache";
+import type { ChainSelection } from "./chains";
+import { getDataSource, getDataSourceName } from "./dataSource";
+import type { SubgraphRegistrationFile } from "./registration";
+import { buildHistogram, clampScore, periodStart, ScoreBucket, TrendInterval } from "./reputation";
+import { computeAgentScores, rankAgentsByScore } from "./scores";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An agent, reduced to the fields analytics need
+ */
+export interface RegistryAgent {
+    id: string;
+    createdAt: string; // Unix timestamp
+    totalFeedback: string; // Including revoked
+    // Indexed registration file (null when the subgraph couldn't index it)
+    registrationFile: Pick<SubgraphRegistrationFile, "name" | "mcpEndpoint" | "a2aEndpoint" | "supportedTrusts"> | null;
+}
+
+/**
+ * A feedback entry, reduced to the fields analytics need
+ */
+export interface RegistryFeedback {
+    id: string;
+    agentId: string;
+    clientAddress: string;
+    score: string;
+    createdAt: string; // Unix timestamp
+    isRevoked: boolean;
+}
+
+/**
+ * Every agent and feedback entry of the selected chains
+ */
+export interface RegistryData {
+    agents: RegistryAgent[];
+    feedback: RegistryFeedback[];
+}
+
+/** Period length of the analytics time series */
+export type AnalyticsInterval = Exclude<TrendInterval, "month">;
+
+/**
+ * Number of events in one period of a time series
+ */
+export interface CountPoint {
+    start: number; // Unix timestamp of the period start (UTC)
+    count: number;
+}
+
+/**
+ * An agent in a top list
+ */
+export interface AgentRanking {
+    id: string;
+    name: string | null;
+    reviews: number;
+    average: number | null; // Over non-revoked feedback
+}
+
+/**
+ * A reviewer in the most active list
+ */
+export interface ReviewerRanking {
+    address: string;
+    reviews: number; // Including revoked
+    agents: number; // Distinct agents reviewed
+    mean: number | null; // Average score given, over non-revoked feedback
+}
+
+/**
+ * Registry analytics for the analytics page
+ */
+export interface RegistryAnalytics {
+    agents: number;
+    feedback: number; // Including revoked
+    revokedFeedback: number;
+    reviewers: number;
+    meanScore: number | null; // Over non-revoked feedback
+    interval: AnalyticsInterval;
+    registrations: CountPoint[]; // Oldest first, empty periods included
+    feedbackVolume: CountPoint[];
+    scoreHistogram: ScoreBucket[];
+    endpoints: { described: number; mcp: number; a2a: number; both: number }; // described: agents with an indexed file
+    trustModels: { trust: string; count: number }[]; // Most adopted first
+    topByReviews: AgentRanking[];
+    topByScore: AgentRanking[];
+    topReviewers: ReviewerRanking[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Entries in each top list */
+export const TOP_LIST_SIZE = 10;
+
+/** Reviews an agent needs to appear in the top list by score, so one perfect review isn't enough */
+export const MIN_REVIEWS_FOR_SCORE_RANKING = 2;
+
+/** How long loaded registry data stays cached */
+const ANALYTICS_TTL_MS = 5 * 60 * 1000;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const INTERVAL_SECONDS: Record<AnalyticsInterval, number> = {
+    day: DAY_SECONDS,
+    week: 7 * DAY_SECONDS,
+};
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+const registryCache = createTtlCache<Promise<RegistryData>>(ANALYTICS_TTL_MS);
+
+/**
+ * Loads the registry of the selected chains and computes its analytics
+ *
+ * The registry data is cached per data source and chain selection (the
+ * interval only changes the aggregation); concurrent requests share one load,
+ * and failed loads aren't cached.
+ */
+export async function fetchRegistryAnalytics(
+    chain: ChainSelection = "all",
+    interval: AnalyticsInterval = "week"
+): Promise<RegistryAnalytics> {
+    const key = `${getDataSourceName()}:${chain}`;
+    let data = registryCache.get(key);
+    if (!data) {
+        data = getDataSource()
+            .fetchRegistryData(chain)
+            .catch((error) => {
+                registryCache.delete(key);
+                throw error;
+            });
+        registryCache.set(key, data);
+    }
+
+    return summarizeRegistry(await data, interval);
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Computes registry analytics (see the module comment)
+ */
+export function summarizeRegistry(data: RegistryData, interval: AnalyticsInterval): RegistryAnalytics {
+    const { agents, feedback } = data;
+    const active = feedback.filter((f) => !f.isRevoked);
+    const scores = active.map((f) => clampScore(parseInt(f.score)));
+
+    // Endpoint share and trust adoption only count agents with an indexed file
+    const described = agents.flatMap((agent) => (agent.registrationFile ? [agent.registrationFile] : []));
+    const trusts = new Map<string, number>();
+    for (const file of described) {
+        new Set(file.supportedTrusts ?? []).forEach((trust) => trusts.set(trust, (trusts.get(trust) ?? 0) + 1));
+    }
+
+    return {
+        agents: agents.length,
+        feedback: feedback.length,
+        revokedFeedback: feedback.length - active.length,
+        reviewers: new Set(feedback.map((f) => f.clientAddress.toLowerCase())).size,
+        meanScore: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+        interval,
+        registrations: buildSeries(agents.map((agent) => parseInt(agent.createdAt)), interval),
+        feedbackVolume: buildSeries(feedback.map((f) => parseInt(f.createdAt)), interval),
+        scoreHistogram: buildHistogram(scores),
+        endpoints: {
+            described: described.length,
+            mcp: described.filter((file) => file.mcpEndpoint).length,
+            a2a: described.filter((file) => file.a2aEndpoint).length,
+            both: described.filter((file) => file.mcpEndpoint && file.a2aEndpoint).length,
+        },
+        trustModels: [...trusts.entries()]
+            .map(([trust, count]) => ({ trust, count }))
+            .sort((a, b) => b.count - a.count || a.trust.localeCompare(b.trust)),
+        ...rankAgents(agents, active),
+        topReviewers: rankReviewers(feedback),
+    };
+}
+
+/**
+ * Counts events per period, oldest first, filling empty periods with zeros
+ */
+function buildSeries(timestamps: number[], interval: AnalyticsInterval): CountPoint[] {
+    const counts = new Map<number, number>();
+    let first = Infinity;
+    let last = -Infinity;
+    for (const timestamp of timestamps) {
+        if (Number.isNaN(timestamp)) continue;
+        const start = periodStart(timestamp, interval);
+        counts.set(start, (counts.get(start) ?? 0) + 1);
+        if (start < first) first = start;
+        if (start > last) last = start;
+    }
+    if (counts.size === 0) return [];
+
+    const points: CountPoint[] = [];
+    for (let start = first; start <= last; start += INTERVAL_SECONDS[interval]) {
+        points.push({ start, count: counts.get(start) ?? 0 });
+    }
+    return points;
+}
+
+/**
+ * Builds the top agent lists
+ *
+ * By reviews uses the registry's feedback count (like the "reviews" sort); by
+ * score uses the average of non-revoked feedback (like the "score" sort).
+ */
+function rankAgents(
+    agents: RegistryAgent[],
+    active: RegistryFeedback[]
+): Pick<RegistryAnalytics, "topByReviews" | "topByScore"> {
+    const scores = computeAgentScores(active);
+    const toRanking = (agent: RegistryAgent): AgentRanking => ({
+        id: agent.id,
+        name: agent.registrationFile?.name ?? null,
+        reviews: parseInt(agent.totalFeedback),
+        average: scores.get(agent.id)?.average ?? null,
+    });
+
+    const byReviews = agents
+        .filter((agent) => parseInt(agent.totalFeedback) > 0)
+        .sort(
+            (a, b) =>
+                parseInt(b.totalFeedback) - parseInt(a.totalFeedback) ||
+                parseInt(b.createdAt) - parseInt(a.createdAt) ||
+                (a.id < b.id ? -1 : 1)
+        );
+    const byScore = rankAgentsByScore(
+        agents.filter((agent) => (scores.get(agent.id)?.count ?? 0) >= MIN_REVIEWS_FOR_SCORE_RANKING),
+        scores
+    );
+
+    return {
+        topByReviews: byReviews.slice(0, TOP_LIST_SIZE).map(toRanking),
+        topByScore: byScore.slice(0, TOP_LIST_SIZE).map(toRanking),
+    };
+}
+
+/** Ranks reviewers by feedback given (revocations included), then address */
+function rankReviewers(feedback: RegistryFeedback[]): ReviewerRanking[] {
+    const reviewers = new Map<string, { reviews: number; agents: Set<string>; scores: number[] }>();
+    for (const f of feedback) {
+        const address = f.clientAddress.toLowerCase();
+        const reviewer = reviewers.get(address) ?? { reviews: 0, agents: new Set<string>(), scores: [] };
+        reviewer.reviews += 1;
+        reviewer.agents.add(f.agentId);
+        if (!f.isRevoked) reviewer.scores.push(clampScore(parseInt(f.score)));
+        reviewers.set(address, reviewer);
+    }
+
+    return [...reviewers.entries()]
+        .map(([address, { reviews, agents, scores }]) => ({
+            address,
+            reviews,
+            agents: agents.size,
+            mean: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+        }))
+        .sort((a, b) => b.reviews - a.reviews || a.address.localeCompare(b.address))
+        .slice(0, TOP_LIST_SIZE);
+}
@@ -0,0 +1,54 @@
+/**
+ * Small in-memory TTL cache
+ *
+ * Server modules use this to keep expensive results (counts, resolved
+ * metadata, probes) between requests. Entries live in the Node.js process, so
+ * each server instance has its own cache and everything resets on restart.
+ */
+
+/**
+ * A key/value cache whose entries expire after a fixed time
+ */
+export interface TtlCache<V> {
+    get(key: string): V | undefined;
+    set(key: string, value: V, ttlMs?: number): void;
+    delete(key: string): void;
+    clear(): void;
+}
+
+/**
+ * Creates a TTL cache
+ *
+ * @param defaultTtlMs - How long entries stay fresh unless `set` overrides it
+ * @param maxEntries - Oldest entries are evicted past this size (default: 1000)
+ */
+export function createTtlCache<V>(defaultTtlMs: number, maxEntries: number = 1000): TtlCache<V> {
+    const entries = new Map<string, { value: V; expiresAt: number }>();
+
+    return {
+        get(key) {
+            const entry = entries.get(key);
+            if (!entry) return undefined;
+            if (entry.expiresAt <= Date.now()) {
+                entries.delete(key);
+                return undefined;
+            }
+            return entry.value;
+        },
+        set(key, value, ttlMs = defaultTtlMs) {
+            // Re-inserting moves the key to the end, keeping Map order = age order
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+            if (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest !== undefined) entries.delete(oldest);
+            }
+        },
+        delete(key) {
+            entries.delete(key);
+        },
+        clear() {
+            entries.clear();
+        },
+    };
+}
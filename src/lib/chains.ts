@@ -0,0 +1,110 @@
+/**
+ * Chain registry for ERC-8004 subgraphs
+ *
+ * Each chain that hosts an ERC-8004 registry has its own subgraph deployment.
+ * This module maps chain IDs to their subgraph endpoints so the rest of the app
+ * can route queries based on the chain prefix of an agent ID ("chainId:tokenId").
+ *
+ * Endpoints can be overridden (or enabled for chains without a default) with
+ * environment variables named `SUBGRAPH_URL_<chainId>`, e.g. `SUBGRAPH_URL_84532`.
+ */
+
+/**
+ * Configuration for a single chain
+ */
+export interface ChainConfig {
+    id: number;
+    name: string;
+    shortName: string; // Compact label used on badges
+    subgraphUrl: string | null; // null when no endpoint is configured
+}
+
+/**
+ * Which chains to query: a single chain ID or every enabled chain
+ */
+export type ChainSelection = number | "all";
+
+/** Known ERC-8004 deployments and their default subgraph endpoints */
+const KNOWN_CHAINS: ChainConfig[] = [
+    {
+        id: 11155111,
+        name: "Ethereum Sepolia",
+        shortName: "Sepolia",
+        // Agent0's public subgraph endpoint for Ethereum Sepolia
+        subgraphUrl:
+            "https://gateway.thegraph.com/api/00a452ad3cd1900273ea62c1bf283f93/subgraphs/id/6wQRC7geo9XYAhckfmfo8kbMRLeWU8KQd3XsJqFKmZLT",
+    },
+    {
+        id: 84532,
+        name: "Base Sepolia",
+        shortName: "Base Sepolia",
+        subgraphUrl: null,
+    },
+    {
+        id: 80002,
+        name: "Polygon Amoy",
+        shortName: "Amoy",
+        subgraphUrl: null,
+    },
+];
+
+/**
+ * Returns every known chain with environment overrides applied
+ */
+function getAllChains(): ChainConfig[] {
+    return KNOWN_CHAINS.map((chain) => ({
+        ...chain,
+        subgraphUrl: process.env[`SUBGRAPH_URL_${chain.id}`] || chain.subgraphUrl,
+    }));
+}
+
+/**
+ * Returns the chains that have a subgraph endpoint configured
+ */
+export function getEnabledChains(): ChainConfig[] {
+    return getAllChains().filter((chain) => chain.subgraphUrl !== null);
+}
+
+/**
+ * Looks up an enabled chain by ID
+ *
+ * @param chainId - Numeric chain ID (or its string form from the subgraph)
+ * @returns The chain config, or null if the chain is unknown or has no endpoint
+ */
+export function getChain(chainId: number | string): ChainConfig | null {
+    const id = typeof chainId === "string" ? parseInt(chainId) : chainId;
+    return getEnabledChains().find((chain) => chain.id === id) ?? null;
+}
+
+/**
+ * Resolves a chain selection to the list of chains to query
+ *
+ * Unknown chain IDs resolve to an empty list rather than throwing, so a stale
+ * URL parameter simply shows no results.
+ */
+export function resolveChains(selection: ChainSelection): ChainConfig[] {
+    if (selection === "all") return getEnabledChains();
+    const chain = getChain(selection);
+    return chain ? [chain] : [];
+}
+
+/**
+ * Parses a chain selection from a URL parameter ("all" or a chain ID)
+ */
+export function parseChainSelection(value: string | undefined): ChainSelection {
+    if (!value || value === "all") return "all";
+    const id = parseInt(value);
+    return Number.isNaN(id) ? "all" : id;
+}
+
+/**
+ * Splits an agent ID into its chain ID and token ID
+ *
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ * @returns The parsed parts, or null if the ID is malformed
+ */
+export function parseAgentId(agentId: string): { chainId: number; tokenId: string } | null {
+    const match = agentId.match(/^(\d+):(\d+)$/);
+    if (!match) return null;
+    return { chainId: parseInt(match[1]), tokenId: match[2] };
+}
@@ -0,0 +1,247 @@
+/**
+ * IPFS content identifier (CID) verification
+ *
+ * Gateways are trusted to return the content an IPFS URI names, but nothing
+ * forces them to. This module recomputes the CID of fetched content and
+ * compares it with the one in the URI.
+ *
+ * Only single-block files can be checked without the rest of the DAG, which
+ * covers registration files:
+ * - `raw` CIDs (CIDv1 with raw leaves, the default for `ipfs add --cid-version=1`)
+ *   hash the bytes directly
+ * - `dag-pb` CIDs (CIDv0 "Qm..." and CIDv1 "bafybei...") hash a UnixFS file
+ *   node wrapping the bytes, which is what `ipfs add` produces for files up to
+ *   one chunk (256 KiB)
+ * - `json` and `dag-json` CIDs hash the document bytes
+ *
+ * Spec: https://github.com/multiformats/cid
+ */
+
+import { createHash } from "node:crypto";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Decoded CID
+ */
+export interface Cid {
+    version: 0 | 1;
+    codec: number; // Multicodec code, e.g. 0x70 dag-pb, 0x55 raw
+    hashCode: number; // Multihash function code, e.g. 0x12 sha2-256
+    digest: Uint8Array;
+}
+
+/**
+ * Outcome of checking content against a CID
+ */
+export type CidCheck =
+    | { status: "match"; cid: string; codec: string }
+    | { status: "mismatch"; cid: string; codec: string }
+    | { status: "unsupported"; cid: string; reason: string };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CODEC_NAMES: Record<number, string> = {
+    0x55: "raw",
+    0x70: "dag-pb",
+    0x0129: "dag-json",
+    0x0200: "json",
+};
+
+const SHA2_256 = 0x12;
+const IDENTITY = 0x00;
+
+/** UnixFS chunk size used by `ipfs add`; larger files span several blocks */
+const CHUNK_SIZE = 256 * 1024;
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Extracts the CID and path from an `ipfs://` URI
+ *
+ * Accepts the non-standard `ipfs://ipfs/<cid>` form like the resolver does.
+ *
+ * @returns The CID string and the path after it ("" if none), or null for other URIs
+ */
+export function parseIpfsUri(uri: string): { cid: string; path: string } | null {
+    const match = uri.match(/^ipfs:\/\/(?:ipfs\/)?([^/?#]+)([^?#]*)/);
+    if (!match) return null;
+    return { cid: match[1], path: match[2].replace(/\/+$/, "") };
+}
+
+/**
+ * Decodes a CIDv0 or a base32/base58btc CIDv1 string
+ *
+ * @returns The decoded CID, or null if the string isn't a valid CID
+ */
+export function decodeCid(value: string): Cid | null {
+    try {
+        if (value.length === 46 && value.startsWith("Qm")) {
+            const multihash = readMultihash(decodeBase58(value), 0);
+            return multihash && multihash.end === 34 ? { version: 0, codec: 0x70, ...multihash.hash } : null;
+        }
+
+        let bytes: Uint8Array;
+        if (value.startsWith("b")) bytes = decodeBase32(value.slice(1));
+        else if (value.startsWith("z")) bytes = decodeBase58(value.slice(1));
+        else return null;
+
+        const version = readVarint(bytes, 0);
+        if (version.value !== 1) return null;
+        const codec = readVarint(bytes, version.end);
+        const multihash = readMultihash(bytes, codec.end);
+        if (!multihash || multihash.end !== bytes.length) return null;
+        return { version: 1, codec: codec.value, ...multihash.hash };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks whether content is what a CID names
+ *
+ * @param cid - CID string from the URI
+ * @param content - The fetched bytes
+ */
+export function verifyCid(cid: string, content: Uint8Array): CidCheck {
+    const decoded = decodeCid(cid);
+    if (!decoded) return { status: "unsupported", cid, reason: "Not a valid CID" };
+
+    const codec = CODEC_NAMES[decoded.codec];
+    if (!codec) {
+        return { status: "unsupported", cid, reason: `Codec 0x${decoded.codec.toString(16)} is not supported` };
+    }
+    if (decoded.hashCode !== SHA2_256 && decoded.hashCode !== IDENTITY) {
+        return {
+            status: "unsupported",
+            cid,
+            reason: `Hash function 0x${decoded.hashCode.toString(16)} is not supported`,
+        };
+    }
+    if (codec === "dag-pb" && content.length > CHUNK_SIZE) {
+        return { status: "unsupported", cid, reason: "Files larger than one chunk span several blocks" };
+    }
+
+    const block = codec === "dag-pb" ? encodeUnixFsFile(content) : content;
+    const digest = decoded.hashCode === IDENTITY ? block : createHash("sha256").update(block).digest();
+
+    return equalBytes(digest, decoded.digest) ? { status: "match", cid, codec } : { status: "mismatch", cid, codec };
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Encodes a single-block UnixFS file as a dag-pb node
+ *
+ * PBNode { Data: UnixFS { Type: File, Data: content, filesize } }, with no
+ * links, serialized as protobuf.
+ */
+function encodeUnixFsFile(content: Uint8Array): Uint8Array {
+    const unixfs = concatBytes([
+        Uint8Array.of(0x08, 0x02), // Type = File
+        ...(content.length > 0 ? [Uint8Array.of(0x12), encodeVarint(content.length), content] : []),
+        Uint8Array.of(0x18),
+        encodeVarint(content.length), // filesize
+    ]);
+    return concatBytes([Uint8Array.of(0x0a), encodeVarint(unixfs.length), unixfs]);
+}
+
+function encodeVarint(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value & 0x7f) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Uint8Array.from(bytes);
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+function readVarint(bytes: Uint8Array, offset: number): { value: number; end: number } {
+    let value = 0;
+    let shift = 0;
+    for (let i = offset; i < bytes.length && i < offset + 8; i++) {
+        value += (bytes[i] & 0x7f) * 2 ** shift;
+        if (bytes[i] < 0x80) return { value, end: i + 1 };
+        shift += 7;
+    }
+    throw new RangeError("Truncated varint");
+}
+
+function readMultihash(
+    bytes: Uint8Array,
+    offset: number
+): { hash: { hashCode: number; digest: Uint8Array }; end: number } | null {
+    const code = readVarint(bytes, offset);
+    const length = readVarint(bytes, code.end);
+    const end = length.end + length.value;
+    if (end > bytes.length) return null;
+    return { hash: { hashCode: code.value, digest: bytes.slice(length.end, end) }, end };
+}
+
+function decodeBase58(value: string): Uint8Array {
+    let number = BigInt(0);
+    for (const char of value) {
+        const digit = BASE58_ALPHABET.indexOf(char);
+        if (digit < 0) throw new RangeError(`Invalid base58 character: ${char}`);
+        number = number * BigInt(58) + BigInt(digit);
+    }
+
+    const bytes: number[] = [];
+    while (number > BigInt(0)) {
+        bytes.unshift(Number(number % BigInt(256)));
+        number /= BigInt(256);
+    }
+    // Leading "1"s encode leading zero bytes
+    for (let i = 0; i < value.length && value[i] === "1"; i++) bytes.unshift(0);
+    return Uint8Array.from(bytes);
+}
+
+function decodeBase32(value: string): Uint8Array {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of value.toLowerCase()) {
+        const digit = BASE32_ALPHABET.indexOf(char);
+        if (digit < 0) throw new RangeError(`Invalid base32 character: ${char}`);
+        buffer = (buffer << 5) | digit;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    }
+    return Uint8Array.from(bytes);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,63 @@
+/**
+ * Agent comparison selection
+ *
+ * Agents are picked for comparison on the listing, where the selection is
+ * kept in the `compare` URL param (so it survives paging, filtering and
+ * sorting), and compared on `/compare?ids=...`. Both params hold a
+ * comma-separated list of agent IDs.
+ */
+
+import { parseAgentId } from "./chains";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Fewest agents the compare page compares */
+export const MIN_COMPARE_AGENTS = 2;
+
+/** Most agents that fit side by side */
+export const MAX_COMPARE_AGENTS = 4;
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Parses a comma-separated list of agent IDs
+ *
+ * Malformed IDs and duplicates are dropped, and only the first
+ * `MAX_COMPARE_AGENTS` IDs are kept.
+ */
+export function parseCompareIds(value: string | undefined): string[] {
+    const ids = (value ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter((id) => parseAgentId(id) !== null);
+    return [...new Set(ids)].slice(0, MAX_COMPARE_AGENTS);
+}
+
+/**
+ * Adds an agent to the selection, or removes it if it is already selected
+ *
+ * @returns The new selection (unchanged if it is full)
+ */
+export function toggleCompareId(ids: string[], id: string): string[] {
+    if (ids.includes(id)) return ids.filter((selected) => selected !== id);
+    return ids.length < MAX_COMPARE_AGENTS ? [...ids, id] : ids;
+}
+
+/**
+ * Formats a selection as a URL param value (undefined when empty, so buildUrl leaves it out)
+ */
+export function formatCompareIds(ids: string[]): string | undefined {
+    return ids.length > 0 ? ids.join(",") : undefined;
+}
+
+/**
+ * Builds the compare page URL for a selection
+ */
+export function buildCompareUrl(ids: string[]): string {
+    const value = formatCompareIds(ids);
+    return value ? `/compare?ids=${value}` : "/compare";
+}
@@ -0,0 +1,56 @@
+/**
+ * Opaque pagination cursors for the agent listing
+ *
+ * A cursor marks a position in the listing's sort order by the sort key of the
+ * agent at the page boundary, plus the direction to read in. The sort itself
+ * isn't part of the cursor: changing it drops the cursor (see `buildUrl`). It is serialized
+ * as base64url JSON so it can travel in a URL without callers depending on
+ * its shape.
+ */
+
+/**
+ * Position of an agent in the listing's sort order
+ */
+export interface CursorKey {
+    value: string; // The agent's value of the sort field (e.g. createdAt)
+    id: string;
+}
+
+/**
+ * Decoded pagination cursor
+ *
+ * "after" reads the page that follows the key (Next), "before" reads the page
+ * that precedes it (Previous).
+ */
+export interface AgentCursor {
+    key: CursorKey;
+    direction: "after" | "before";
+}
+
+/**
+ * Serializes a cursor for use in a URL
+ */
+export function encodeCursor(cursor: AgentCursor): string {
+    const payload = { v: cursor.key.value, i: cursor.key.id, d: cursor.direction === "after" ? "a" : "b" };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Parses a cursor from a URL parameter
+ *
+ * @returns The cursor, or null if the value is missing or malformed
+ */
+export function decodeCursor(value: string | undefined): AgentCursor | null {
+    if (!value) return null;
+    try {
+        const payload = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+        if (typeof payload.v !== "string" || typeof payload.i !== "string") return null;
+        if (payload.d !== "a" && payload.d !== "b") return null;
+        return {
+            key: { value: payload.v, id: payload.i },
+            direction: payload.d === "a" ? "after" : "before",
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Agent data source selection
+ *
+ * Pages read agent data through the `AgentDataSource` interface instead of
+ * importing the subgraph client directly, so the backend can be swapped:
+ *
+ * - "subgraph" (default): live queries against The Graph (see `subgraph.ts`)
+ * - "fixtures": local JSON fixtures for offline development and demos
+ *   (see `fixtures.ts`)
+ *
+ * Choose with the `AGENT_DATA_SOURCE` environment variable.
+ */
+
+import type { RegistryData } from "./analytics";
+import type { ChainSelection } from "./chains";
+import { fixtureDataSource } from "./fixtures";
+import type { AgentFilters, AgentSort } from "./query";
+import type {
+    Agent,
+    AgentCount,
+    AgentHistory,
+    Feedback,
+    FeedbackQuery,
+    GlobalStats,
+    PagePosition,
+    ReviewerFeedback,
+    Validation,
+} from "./subgraph";
+import { subgraphDataSource } from "./subgraph";
+
+/**
+ * Operations the pages need from an agent backend
+ *
+ * Implementations must share filter, ordering and pagination semantics so
+ * the UI behaves the same on either backend.
+ */
+export interface AgentDataSource {
+    /** Lists agents in the given order, newest first by default (see `fetchAgents` in subgraph.ts) */
+    fetchAgents(
+        first?: number,
+        position?: PagePosition,
+        filters?: AgentFilters,
+        chain?: ChainSelection,
+        sort?: AgentSort
+    ): Promise<Agent[]>;
+
+    /**
+     * Loads every agent a wallet owns on the enabled chains, newest first;
+     * unindexed metadata is resolved only for the first `resolveFirst`
+     */
+    fetchOwnerAgents(owner: string, resolveFirst: number): Promise<Agent[]>;
+
+    /** Loads one agent by "chainId:tokenId" with a page of its feedback (default: latest 50 non-revoked) */
+    fetchAgentWithFeedback(
+        agentId: string,
+        feedbackQuery?: FeedbackQuery
+    ): Promise<{ agent: Agent | null; feedback: Feedback[] }>;
+
+    /** Loads every non-revoked feedback entry of an agent, for aggregates */
+    fetchAgentFeedback(agentId: string): Promise<Feedback[]>;
+
+    /** Loads every feedback entry a wallet has given (including revoked), newest first */
+    fetchReviewerFeedback(address: string): Promise<ReviewerFeedback[]>;
+
+    /** Loads the URI updates, ownership transfers and feedback of an agent, oldest first */
+    fetchAgentHistory(agentId: string): Promise<AgentHistory>;
+
+    /** Loads the Validation Registry entries of an agent, newest first (null if not indexed) */
+    fetchAgentValidations(agentId: string): Promise<Validation[] | null>;
+
+    /** Counts agents matching the filters */
+    fetchAgentCount(filters?: AgentFilters, chain?: ChainSelection): Promise<AgentCount>;
+
+    /** Returns registry-wide totals */
+    fetchGlobalStats(chain?: ChainSelection): Promise<GlobalStats>;
+
+    /** Loads every agent and feedback entry in compact form, for registry analytics */
+    fetchRegistryData(chain?: ChainSelection): Promise<RegistryData>;
+}
+
+/**
+ * Names of the available data sources
+ */
+export type DataSourceName = "subgraph" | "fixtures";
+
+/**
+ * Returns the data source selected by `AGENT_DATA_SOURCE`
+ *
+ * Unknown values fall back to the subgraph.
+ */
+export function getDataSource(): AgentDataSource {
+    return getDataSourceName() === "fixtures" ? fixtureDataSource : subgraphDataSource;
+}
+
+/**
+ * Returns the name of the data source selected by `AGENT_DATA_SOURCE`
+ */
+export function getDataSourceName(): DataSourceName {
+    return process.env.AGENT_DATA_SOURCE === "fixtures" ? "fixtures" : "subgraph";
+}
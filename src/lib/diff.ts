@@ -0,0 +1,183 @@
+/**
+ * Line diff for side-by-side views
+ *
+ * Compares two texts line by line (longest common subsequence) and lays the
+ * result out as rows with an old and a new side. Runs of unchanged lines far
+ * from any change are folded so long files stay readable.
+ */
+
+/**
+ * One side of a diff row
+ */
+export interface DiffCell {
+    line: number; // 1-based line number in its text
+    text: string;
+}
+
+/**
+ * A row of a side-by-side diff
+ *
+ * - "same": the line is in both texts
+ * - "removed" / "added": the line is only in the old / new text
+ * - "changed": an old line replaced by a new one
+ * - "skip": `count` unchanged lines folded away
+ */
+export type DiffRow =
+    | { type: "same" | "changed"; left: DiffCell; right: DiffCell }
+    | { type: "removed"; left: DiffCell; right: null }
+    | { type: "added"; left: null; right: DiffCell }
+    | { type: "skip"; count: number };
+
+/** Unchanged lines kept around each change */
+const CONTEXT_LINES = 3;
+
+/**
+ * Largest table the LCS may fill (old lines × new lines). Bigger inputs are
+ * shown as a whole-file replacement rather than spending seconds on a diff.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diffs two texts into side-by-side rows
+ *
+ * Consecutive removals and additions are paired into "changed" rows; the
+ * leftovers of an uneven run stay "removed" or "added".
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+    const oldLines = oldText.split("\n");
+    const newLines = newText.split("\n");
+    return foldUnchanged(pairChanges(lineOperations(oldLines, newLines), oldLines, newLines));
+}
+
+/**
+ * Checks whether a diff has any change
+ */
+export function hasChanges(rows: DiffRow[]): boolean {
+    return rows.some((row) => row.type !== "same" && row.type !== "skip");
+}
+
+/** An edit step: keep, delete or insert one line */
+type Operation =
+    | { op: "same"; oldIndex: number; newIndex: number }
+    | { op: "removed"; oldIndex: number }
+    | { op: "added"; newIndex: number };
+
+/** Edit steps turning `a` into `b`, in order */
+function lineOperations(a: string[], b: string[]): Operation[] {
+    // Unchanged head and tail are common in small edits and shrink the table
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const head: Operation[] = [];
+    for (let i = 0; i < start; i++) head.push({ op: "same", oldIndex: i, newIndex: i });
+    const tail: Operation[] = [];
+    for (let i = 0; i < a.length - endA; i++) {
+        tail.push({ op: "same", oldIndex: endA + i, newIndex: endB + i });
+    }
+
+    const rows = endA - start;
+    const cols = endB - start;
+    const middle: Operation[] = [];
+
+    if (rows * cols > MAX_LCS_CELLS) {
+        for (let i = start; i < endA; i++) middle.push({ op: "removed", oldIndex: i });
+        for (let j = start; j < endB; j++) middle.push({ op: "added", newIndex: j });
+        return [...head, ...middle, ...tail];
+    }
+
+    // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[start + i] === b[start + j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+        if (i < rows && j < cols && a[start + i] === b[start + j]) {
+            middle.push({ op: "same", oldIndex: start + i++, newIndex: start + j++ });
+        } else if (j < cols && (i === rows || lengths[i][j + 1] >= lengths[i + 1][j])) {
+            middle.push({ op: "added", newIndex: start + j++ });
+        } else {
+            middle.push({ op: "removed", oldIndex: start + i++ });
+        }
+    }
+
+    return [...head, ...middle, ...tail];
+}
+
+/** Turns edit steps into rows, pairing each run of removals with the additions next to it */
+function pairChanges(operations: Operation[], oldLines: string[], newLines: string[]): DiffRow[] {
+    const cell = (lines: string[], index: number): DiffCell => ({ line: index + 1, text: lines[index] });
+    const rows: DiffRow[] = [];
+
+    let k = 0;
+    while (k < operations.length) {
+        const operation = operations[k];
+        if (operation.op === "same") {
+            rows.push({
+                type: "same",
+                left: cell(oldLines, operation.oldIndex),
+                right: cell(newLines, operation.newIndex),
+            });
+            k++;
+            continue;
+        }
+
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (k < operations.length && operations[k].op !== "same") {
+            const change = operations[k++];
+            if (change.op === "removed") removed.push(change.oldIndex);
+            else if (change.op === "added") added.push(change.newIndex);
+        }
+
+        for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+            if (n < removed.length && n < added.length) {
+                rows.push({ type: "changed", left: cell(oldLines, removed[n]), right: cell(newLines, added[n]) });
+            } else if (n < removed.length) {
+                rows.push({ type: "removed", left: cell(oldLines, removed[n]), right: null });
+            } else {
+                rows.push({ type: "added", left: null, right: cell(newLines, added[n]) });
+            }
+        }
+    }
+
+    return rows;
+}
+
+/** Replaces unchanged runs more than `CONTEXT_LINES` away from a change with "skip" rows */
+function foldUnchanged(rows: DiffRow[]): DiffRow[] {
+    const keep = rows.map(() => false);
+    rows.forEach((row, index) => {
+        if (row.type === "same") return;
+        const last = Math.min(rows.length - 1, index + CONTEXT_LINES);
+        for (let k = Math.max(0, index - CONTEXT_LINES); k <= last; k++) keep[k] = true;
+    });
+
+    const folded: DiffRow[] = [];
+    let skipped = 0;
+    rows.forEach((row, index) => {
+        if (keep[index]) {
+            if (skipped > 0) folded.push({ type: "skip", count: skipped });
+            skipped = 0;
+            folded.push(row);
+        } else {
+            skipped++;
+        }
+    });
+    if (skipped > 0) folded.push({ type: "skip", count: skipped });
+
+    return folded;
+}
@@ -0,0 +1,249 @@
+/**
+ * ENS name resolution
+ *
+ * Addresses (owners, reviewers, responders) are shown by their ENS primary
+ * name when they have one, and the listing search accepts ENS names. Lookups
+ * go through the `EnsResolver` interface so the backend can be swapped:
+ *
+ * - fixtures (`AGENT_DATA_SOURCE=fixtures`): a static address → name map from
+ *   the fixture file's `ensNames`, so names work offline and in tests
+ * - RPC: `eth_call`s against the ENS registry on Ethereum mainnet, through
+ *   the JSON-RPC endpoint in `ENS_RPC_URL`
+ * - otherwise lookups are off and addresses are shown as they are
+ *
+ * Reverse records can claim any name, so a primary name is only used when the
+ * name resolves back to the same address (forward verification). Results,
+ * including failures, are cached per address.
+ *
+ * Configuration (all optional):
+ * - `ENS_RPC_URL`: Ethereum mainnet JSON-RPC endpoint
+ * - `ENS_TIMEOUT_MS`: per-request timeout (default: 3000)
+ *
+ * Spec: https://docs.ens.domains/resolution/
+ */
+
+import { createTtlCache } from "./cache";
+import { getDataSourceName } from "./dataSource";
+import { loadFixtureRegistry } from "./fixtures";
+import { keccak256 } from "./keccak";
+import { isAddress } from "./registration";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Resolves between addresses and ENS names
+ */
+export interface EnsResolver {
+    /** Returns the verified primary name of an address, or null */
+    lookupAddress(address: string): Promise<string | null>;
+
+    /** Returns the address a name resolves to, or null */
+    resolveName(name: string): Promise<string | null>;
+}
+
+/**
+ * Primary names by lowercase address
+ */
+export type EnsNames = Map<string, string>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** ENS registry, at the same address on mainnet and testnets */
+const ENS_REGISTRY = "0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e";
+
+/** Function selectors of the registry and resolver calls used */
+const SELECTORS = {
+    resolver: "0x0178b8bf", // resolver(bytes32)
+    addr: "0x3b3b57de", // addr(bytes32)
+    name: "0x691f3431", // name(bytes32)
+};
+
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+/** How long a lookup result stays cached */
+const SUCCESS_TTL_MS = 60 * 60 * 1000;
+
+/** How long a failed lookup is remembered before the address is tried again */
+const FAILURE_TTL_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Looks up the primary names of a set of addresses
+ *
+ * Failed lookups are left out, so callers can fall back to the address.
+ *
+ * @returns Names by lowercase address, for the addresses that have one
+ */
+export async function lookupEnsNames(addresses: string[]): Promise<EnsNames> {
+    const resolver = getEnsResolver();
+    const unique = [...new Set(addresses.map((address) => address.toLowerCase()))].filter(isAddress);
+
+    const entries = await Promise.all(
+        unique.map(async (address) => [address, await resolver.lookupAddress(address).catch(() => null)] as const)
+    );
+    return new Map(entries.filter((entry): entry is readonly [string, string] => entry[1] !== null));
+}
+
+/**
+ * Resolves an ENS name to an address, or null if it doesn't resolve
+ */
+export async function resolveEnsName(name: string): Promise<string | null> {
+    return getEnsResolver()
+        .resolveName(normalizeName(name))
+        .catch(() => null);
+}
+
+/**
+ * Checks whether a value looks like an ENS name ("name.eth", "sub.name.xyz", ...)
+ */
+export function isEnsName(value: string): boolean {
+    return /^(?:[^\s./:]+\.)+[a-z]{2,}$/i.test(value.trim());
+}
+
+/**
+ * Returns the resolver selected by the environment (see the module comment)
+ */
+export function getEnsResolver(): EnsResolver {
+    if (getDataSourceName() === "fixtures") {
+        return createStaticEnsResolver(loadFixtureRegistry().ensNames ?? {});
+    }
+    const rpcUrl = process.env.ENS_RPC_URL;
+    if (rpcUrl) {
+        return createRpcEnsResolver(rpcUrl, parseInt(process.env.ENS_TIMEOUT_MS || "") || 3000);
+    }
+    return { lookupAddress: async () => null, resolveName: async () => null };
+}
+
+/**
+ * Creates a resolver over a fixed address → name map
+ */
+export function createStaticEnsResolver(names: Record<string, string>): EnsResolver {
+    const byAddress = new Map(Object.entries(names).map(([address, name]) => [address.toLowerCase(), name]));
+    const byName = new Map([...byAddress].map(([address, name]) => [normalizeName(name), address]));
+
+    return {
+        lookupAddress: async (address) => byAddress.get(address.toLowerCase()) ?? null,
+        resolveName: async (name) => byName.get(normalizeName(name)) ?? null,
+    };
+}
+
+/**
+ * Creates a resolver that reads the ENS registry through a JSON-RPC endpoint
+ *
+ * @param rpcUrl - Ethereum JSON-RPC endpoint (mainnet for .eth names)
+ * @param timeoutMs - Timeout per `eth_call`
+ */
+export function createRpcEnsResolver(rpcUrl: string, timeoutMs: number = 3000): EnsResolver {
+    const call = async (to: string, data: string): Promise<string> => {
+        const response = await fetch(rpcUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_call", params: [{ to, data }, "latest"] }),
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!response.ok) throw new Error(`ENS lookup failed: HTTP ${response.status}`);
+        const body = (await response.json()) as { result?: string; error?: { message: string } };
+        if (body.error) throw new Error(`ENS lookup failed: ${body.error.message}`);
+        return body.result ?? "0x";
+    };
+
+    /** Reads the resolver of a node from the registry, then a record from the resolver */
+    const readRecord = async (node: string, selector: string): Promise<string | null> => {
+        const resolver = decodeAddress(await call(ENS_REGISTRY, `${SELECTORS.resolver}${node.slice(2)}`));
+        if (!resolver) return null;
+        return call(resolver, `${selector}${node.slice(2)}`);
+    };
+
+    const resolveName = async (name: string): Promise<string | null> => {
+        const result = await readRecord(namehash(normalizeName(name)), SELECTORS.addr);
+        return result ? decodeAddress(result) : null;
+    };
+
+    const lookupAddress = async (address: string): Promise<string | null> => {
+        const reverseNode = namehash(`${address.slice(2).toLowerCase()}.addr.reverse`);
+        const result = await readRecord(reverseNode, SELECTORS.name);
+        const name = result ? decodeString(result) : null;
+        if (!name) return null;
+
+        // Only trust the reverse record if the name points back to the address
+        const forward = await resolveName(name);
+        return forward?.toLowerCase() === address.toLowerCase() ? name : null;
+    };
+
+    return {
+        lookupAddress: (address) => cached(`${rpcUrl}|address|${address.toLowerCase()}`, () => lookupAddress(address)),
+        resolveName: (name) => cached(`${rpcUrl}|name|${normalizeName(name)}`, () => resolveName(name)),
+    };
+}
+
+/**
+ * Computes the ENS namehash of a name
+ *
+ * @returns The node as 0x-prefixed hex
+ */
+export function namehash(name: string): string {
+    let node: Uint8Array = new Uint8Array(32);
+    if (name) {
+        const encoder = new TextEncoder();
+        for (const label of name.split(".").reverse()) {
+            const combined = new Uint8Array(64);
+            combined.set(node);
+            combined.set(keccak256(encoder.encode(label)), 32);
+            node = keccak256(combined);
+        }
+    }
+    return `0x${Buffer.from(node).toString("hex")}`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const lookupCache = createTtlCache<Promise<string | null>>(SUCCESS_TTL_MS);
+
+/** Shares concurrent lookups and remembers failures for a shorter time than results */
+function cached(key: string, load: () => Promise<string | null>): Promise<string | null> {
+    const hit = lookupCache.get(key);
+    if (hit) return hit;
+
+    const promise = load().catch((error: unknown) => {
+        lookupCache.set(key, Promise.resolve(null), FAILURE_TTL_MS);
+        throw error;
+    });
+    lookupCache.set(key, promise);
+    return promise;
+}
+
+/**
+ * Normalizes a name for lookups
+ *
+ * Full ENS normalization (UTS-46) isn't implemented; lowercasing covers the
+ * ASCII names that make up nearly all primary names.
+ */
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+/** Decodes an ABI-encoded address return value; the zero address is null */
+function decodeAddress(result: string): string | null {
+    if (result.length < 66) return null;
+    const address = `0x${result.slice(26, 66)}`;
+    return address === ZERO_ADDRESS ? null : address;
+}
+
+/** Decodes an ABI-encoded string return value */
+function decodeString(result: string): string | null {
+    const hex = result.slice(2);
+    if (hex.length < 128) return null;
+    const offset = parseInt(hex.slice(0, 64), 16) * 2;
+    const length = parseInt(hex.slice(offset, offset + 64), 16) * 2;
+    const bytes = Buffer.from(hex.slice(offset + 64, offset + 64 + length), "hex");
+    return bytes.length > 0 ? bytes.toString("utf8") : null;
+}
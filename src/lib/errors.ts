@@ -0,0 +1,134 @@
+/**
+ * Typed errors for subgraph requests
+ *
+ * `querySubgraph` classifies every failure into one of these classes so callers
+ * (and the retry loop) can tell transient problems from permanent ones.
+ *
+ * Next.js strips error messages before sending server errors to the browser,
+ * but keeps `digest`. Each class sets a stable digest ("subgraph:<kind>") so
+ * the error boundaries can explain what went wrong.
+ */
+
+/**
+ * Kinds of subgraph failure, as exposed through `digest`
+ */
+export type SubgraphErrorKind = "rate-limited" | "indexer-behind" | "validation" | "network" | "unknown";
+
+/** Prefix of the digest set on subgraph errors */
+export const SUBGRAPH_DIGEST_PREFIX = "subgraph:";
+
+/**
+ * Base class for failed subgraph requests
+ */
+export class SubgraphError extends Error {
+    readonly kind: SubgraphErrorKind;
+    /** Whether repeating the same request may succeed */
+    readonly retryable: boolean;
+    /** Stable identifier that survives Next.js' production error redaction */
+    readonly digest: string;
+
+    constructor(kind: SubgraphErrorKind, message: string, retryable: boolean) {
+        super(message);
+        this.name = "SubgraphError";
+        this.kind = kind;
+        this.retryable = retryable;
+        this.digest = `${SUBGRAPH_DIGEST_PREFIX}${kind}`;
+    }
+}
+
+/**
+ * The gateway rejected the request because of its rate limit (HTTP 429)
+ */
+export class RateLimitedError extends SubgraphError {
+    /** Delay requested by the gateway's Retry-After header, if any */
+    readonly retryAfterMs: number | null;
+
+    constructor(message: string, retryAfterMs: number | null) {
+        super("rate-limited", message, true);
+        this.name = "RateLimitedError";
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * No indexer could serve the query, usually because it hasn't caught up with the chain
+ */
+export class IndexerBehindError extends SubgraphError {
+    constructor(message: string) {
+        super("indexer-behind", message, true);
+        this.name = "IndexerBehindError";
+    }
+}
+
+/**
+ * The subgraph rejected the query itself (unknown field, bad variable, ...)
+ *
+ * Retrying won't help; this usually means the app and the subgraph schema
+ * disagree.
+ */
+export class GraphQLValidationError extends SubgraphError {
+    constructor(message: string) {
+        super("validation", message, false);
+        this.name = "GraphQLValidationError";
+    }
+}
+
+/**
+ * The gateway couldn't be reached, timed out, or returned a server error
+ */
+export class NetworkError extends SubgraphError {
+    /** HTTP status, when the gateway responded at all */
+    readonly status: number | null;
+
+    constructor(message: string, status: number | null = null) {
+        super("network", message, true);
+        this.name = "NetworkError";
+        this.status = status;
+    }
+}
+
+/**
+ * Reads the subgraph error kind from an error's digest
+ *
+ * @returns The kind, or null if the error didn't come from a subgraph request
+ */
+export function getSubgraphErrorKind(error: { digest?: string }): SubgraphErrorKind | null {
+    if (!error.digest?.startsWith(SUBGRAPH_DIGEST_PREFIX)) return null;
+    return error.digest.slice(SUBGRAPH_DIGEST_PREFIX.length) as SubgraphErrorKind;
+}
+
+/**
+ * Classifies a GraphQL error message returned with HTTP 200
+ *
+ * The Graph's gateway reports indexer availability and rate limiting as
+ * GraphQL errors, so these are recognized by their wording. Schema errors are
+ * checked first: the gateway wraps them as "bad indexers: ...", and they must
+ * not be retried as indexer availability errors. Only graph-node's schema
+ * wording counts, since transient indexer failures ("unexpected EOF") are
+ * wrapped the same way.
+ */
+export function classifyGraphQLError(message: string): SubgraphError {
+    const text = message.toLowerCase();
+
+    if (
+        text.includes("has no field") ||
+        text.includes("unknown argument") ||
+        text.includes('variable "$') ||
+        text.includes("invalid value provided for argument") ||
+        text.includes("query parse error")
+    ) {
+        return new GraphQLValidationError(`GraphQL error: ${message}`);
+    }
+    if (text.includes("rate limit") || text.includes("too many requests")) {
+        return new RateLimitedError(`GraphQL error: ${message}`, null);
+    }
+    if (
+        text.includes("indexer") ||
+        text.includes("has only indexed up to") ||
+        text.includes("not yet indexed") ||
+        text.includes("behind")
+    ) {
+        return new IndexerBehindError(`GraphQL error: ${message}`);
+    }
+    return new SubgraphError("unknown", `GraphQL error: ${message}`, false);
+}
@@ -0,0 +1,416 @@
+/**
+ * Fixture-backed agent data source
+ *
+ * Serves agents and feedback from a local JSON file instead of The Graph, for
+ * offline development, demos and tests. Filters, ordering and cursors use the
+ * same where inputs as the subgraph client (built by `query.ts`, evaluated by
+ * `where.ts`), so results match what the live backend would return for the
+ * same data.
+ *
+ * The bundled fixtures live in `src/fixtures/registry.json`. Point
+ * `AGENT_FIXTURES_PATH` at another file with the same shape to use your own.
+ */
+
+import { readFileSync } from "node:fs";
+import bundledRegistry from "../fixtures/registry.json";
+import { ChainSelection, resolveChains } from "./chains";
+import type { AgentDataSource } from "./dataSource";
+import {
+    AGENT_SORT_ORDER,
+    AgentFilters,
+    AgentWhere,
+    buildAgentWhere,
+    buildCursorWhere,
+    buildFeedbackWhere,
+    combineWhere,
+    FEEDBACK_SORT_ORDER,
+    isRankedSort,
+} from "./query";
+import { parseRegistrationFile, RegistrationFile, SubgraphRegistrationFile } from "./registration";
+import { computeAgentScores, rankAgentsByScore } from "./scores";
+import { rankAgentsByRelevance } from "./search";
+import {
+    AgentCount,
+    Feedback,
+    FeedbackResponse,
+    GlobalStats,
+    MAX_RESPONSES_PER_FEEDBACK,
+    MAX_SKIP,
+    OwnershipTransfer,
+    SubgraphAgent,
+    UriUpdate,
+    Validation,
+    withMetadata,
+} from "./subgraph";
+import { matchesWhere, orderEntities } from "./where";
+
+// =============================================================================
+// Fixture Format
+// =============================================================================
+
+/**
+ * An agent as written in the fixture file
+ *
+ * `registration` is the raw registration file. Unless `agentURI` is given,
+ * it is served as a data: URI so metadata resolution works offline. With
+ * `indexed: true` the file is also exposed as if the subgraph had indexed it;
+ * otherwise the explorer resolves it, like an HTTP-hosted file.
+ */
+interface FixtureAgent {
+    id: string;
+    chainId: string;
+    agentId: string;
+    owner: string;
+    createdAt: string;
+    updatedAt: string;
+    agentURI?: string;
+    indexed?: boolean;
+    registration?: Record<string, unknown>;
+}
+
+/**
+ * A feedback entry as written in the fixture file
+ */
+interface FixtureFeedback extends Feedback {
+    agent: string; // Agent ID, like the subgraph's relation field
+    revokedAt?: string; // Unix timestamp, for revoked entries
+}
+
+/**
+ * A response to a feedback entry as written in the fixture file
+ */
+interface FixtureResponse extends FeedbackResponse {
+    feedback: string; // Feedback ID
+}
+
+/**
+ * A Validation Registry entry as written in the fixture file
+ */
+interface FixtureValidation extends Validation {
+    agent: string; // Agent ID, like the subgraph's relation field
+}
+
+/**
+ * A registry event as written in the fixture file
+ *
+ * For URI updates, the old registration file can be given inline as
+ * `previousRegistration` (served as a data: URI); `newURI` defaults to the
+ * agent's current URI.
+ */
+type FixtureEvent =
+    | {
+          kind: "uri-updated";
+          agent: string;
+          timestamp: string;
+          updatedBy: string;
+          previousURI?: string;
+          previousRegistration?: Record<string, unknown>;
+          newURI?: string;
+      }
+    | { kind: "transferred"; agent: string; timestamp: string; from: string; to: string };
+
+/**
+ * Shape of a fixture file
+ */
+export interface FixtureRegistry {
+    agents: FixtureAgent[];
+    feedback: FixtureFeedback[];
+    events?: FixtureEvent[];
+    validations?: FixtureValidation[];
+    responses?: FixtureResponse[];
+    ensNames?: Record<string, string>; // ENS primary names by address, served by the offline ENS resolver
+}
+
+// =============================================================================
+// Data Source
+// =============================================================================
+
+/**
+ * Creates a data source over the given fixture registry
+ */
+export function createFixtureDataSource(registry: FixtureRegistry): AgentDataSource {
+    const feedback = registry.feedback;
+    const validations = registry.validations ?? [];
+    const responses = registry.responses ?? [];
+    const agents = registry.agents.map((agent) => toStoredAgent(agent, feedback));
+    // Like the subgraph, only indexed registration files provide a name to feedback queries
+    const agentNames = new Map(agents.map((agent) => [agent.id, agent.registrationFile?.name ?? null]));
+    const scores = computeAgentScores(feedback.map((f) => ({ ...f, agentId: f.agent })));
+
+    /** Agents on the selected chains, matching the where input */
+    const select = (chain: ChainSelection, where: AgentWhere | undefined) => {
+        const chainIds = new Set(resolveChains(chain).map((c) => String(c.id)));
+        return agents.filter(
+            (agent) =>
+                chainIds.has(agent.chainId) &&
+                // Validations are a derived relation in the subgraph, so they are joined in only for matching
+                matchesWhere({ ...agent, validations: validations.filter((v) => v.agent === agent.id) }, where)
+        );
+    };
+
+    return {
+        async fetchAgents(first = 24, position = { skip: 0 }, filters, chain = "all", sort = "newest") {
+            const cursor = "cursor" in position ? position.cursor : null;
+            const skip = "skip" in position ? position.skip : 0;
+            if (skip > MAX_SKIP) {
+                throw new RangeError(`Cannot skip more than ${MAX_SKIP} agents; use a cursor instead`);
+            }
+
+            if (isRankedSort(sort)) {
+                if (cursor) {
+                    throw new RangeError(`Cursors aren't supported for the "${sort}" sort; use an offset instead`);
+                }
+                const matching = select(chain, buildAgentWhere(filters, scores));
+                const page =
+                    sort === "score"
+                        ? rankAgentsByScore(matching, scores)
+                        : rankAgentsByRelevance(matching, filters?.searchMatches);
+                return Promise.all(page.slice(skip, skip + first).map((agent) => withMetadata(agent)));
+            }
+
+            const filterWhere = buildAgentWhere(filters, scores);
+            const where = cursor
+                ? combineWhere<AgentWhere>([...(filterWhere ? [filterWhere] : []), buildCursorWhere(cursor, sort)])
+                : filterWhere;
+            const reversed = cursor?.direction === "before";
+            const { orderBy, orderDirection } = AGENT_SORT_ORDER[sort];
+            const direction = reversed ? (orderDirection === "asc" ? "desc" : "asc") : orderDirection;
+
+            const page = orderEntities(select(chain, where), orderBy, direction).slice(skip, skip + first);
+            const resolved = await Promise.all(page.map((agent) => withMetadata(agent)));
+            return reversed ? resolved.reverse() : resolved;
+        },
+
+        async fetchOwnerAgents(owner, resolveFirst) {
+            const { orderBy, orderDirection } = AGENT_SORT_ORDER.newest;
+            const owned = orderEntities(select("all", buildAgentWhere({ owner })), orderBy, orderDirection);
+            return Promise.all(owned.map((agent, i) => withMetadata(agent, { resolve: i < resolveFirst })));
+        },
+
+        async fetchAgentWithFeedback(agentId, feedbackQuery = {}) {
+            const agent = agents.find((a) => a.id === agentId);
+            if (!agent) return { agent: null, feedback: [] };
+
+            const { first = 50, skip = 0, filters, sort = "newest" } = feedbackQuery;
+            if (skip > MAX_SKIP) {
+                throw new RangeError(`Cannot skip more than ${MAX_SKIP} feedback entries`);
+            }
+
+            const where = buildFeedbackWhere(filters);
+            const { orderBy, orderDirection } = FEEDBACK_SORT_ORDER[sort];
+            const agentFeedback = orderEntities(
+                feedback.filter((f) => f.agent === agentId && matchesWhere(f, where)),
+                orderBy,
+                orderDirection
+            ).slice(skip, skip + first);
+
+            return {
+                agent: await withMetadata(agent, { complete: true }),
+                feedback: agentFeedback.map((entry) => ({
+                    ...stripAgent(entry),
+                    responses: orderEntities(
+                        responses.filter((r) => r.feedback === entry.id),
+                        "createdAt",
+                        "asc"
+                    )
+                        .slice(0, MAX_RESPONSES_PER_FEEDBACK)
+                        .map(({ id, responder, responseUri, responseHash, createdAt }) => ({
+                            id,
+                            responder,
+                            responseUri,
+                            responseHash,
+                            createdAt,
+                        })),
+                })),
+            };
+        },
+
+        async fetchAgentFeedback(agentId) {
+            const agentFeedback = feedback.filter((f) => f.agent === agentId && !f.isRevoked);
+            return orderEntities(agentFeedback, "id", "asc").map(stripAgent);
+        },
+
+        async fetchReviewerFeedback(address) {
+            const given = feedback.filter((f) => matchesWhere(f, { clientAddress: address }));
+            return orderEntities(given, "createdAt", "desc").map((entry) => ({
+                ...stripAgent(entry),
+                agent: { id: entry.agent, name: agentNames.get(entry.agent) ?? null },
+            }));
+        },
+
+        async fetchAgentHistory(agentId) {
+            const agent = agents.find((a) => a.id === agentId);
+            const events = (registry.events ?? []).filter((e) => e.agent === agentId);
+            const byTime = <T extends { timestamp: string }>(list: T[]) =>
+                orderEntities(list, "timestamp", "asc");
+
+            const uriUpdates: UriUpdate[] = [];
+            const transfers: OwnershipTransfer[] = [];
+            events.forEach((event, index) => {
+                const id = `${agentId}:${index}`;
+                if (event.kind === "uri-updated") {
+                    const { timestamp, updatedBy, previousURI, previousRegistration, newURI } = event;
+                    uriUpdates.push({
+                        id,
+                        previousURI: previousURI ?? (previousRegistration ? toDataUri(previousRegistration) : null),
+                        newURI: newURI ?? agent?.agentURI ?? "",
+                        updatedBy,
+                        timestamp,
+                    });
+                } else {
+                    const { timestamp, from, to } = event;
+                    transfers.push({ id, from, to, timestamp });
+                }
+            });
+
+            const revokedFeedback = orderEntities(
+                feedback.filter((f) => f.agent === agentId && f.isRevoked),
+                "createdAt",
+                "asc"
+            ).map(({ id, score, clientAddress, createdAt, isRevoked, revokedAt }) => ({
+                id,
+                score,
+                clientAddress,
+                createdAt,
+                isRevoked,
+                revokedAt: revokedAt ?? null,
+            }));
+
+            return {
+                uriUpdates: byTime(uriUpdates),
+                transfers: byTime(transfers),
+                revokedFeedback,
+                complete: true,
+            };
+        },
+
+        async fetchAgentValidations(agentId) {
+            const agentValidations = validations.filter((v) => v.agent === agentId);
+            return orderEntities(agentValidations, "createdAt", "desc").map((entry) => {
+                const copy: Partial<FixtureValidation> = { ...entry };
+                delete copy.agent;
+                return copy as Validation;
+            });
+        },
+
+        async fetchAgentCount(filters?: AgentFilters, chain: ChainSelection = "all"): Promise<AgentCount> {
+            return { total: select(chain, buildAgentWhere(filters, scores)).length, exact: true };
+        },
+
+        async fetchGlobalStats(chain: ChainSelection = "all"): Promise<GlobalStats> {
+            const selected = select(chain, undefined);
+            return {
+                totalAgents: String(selected.length),
+                totalFeedback: String(selected.reduce((sum, a) => sum + parseInt(a.totalFeedback), 0)),
+            };
+        },
+
+        async fetchRegistryData(chain: ChainSelection = "all") {
+            const selected = select(chain, undefined);
+            const ids = new Set(selected.map((agent) => agent.id));
+            return {
+                agents: selected.map(({ id, createdAt, totalFeedback, registrationFile }) => ({
+                    id,
+                    createdAt,
+                    totalFeedback,
+                    registrationFile: registrationFile && {
+                        name: registrationFile.name,
+                        mcpEndpoint: registrationFile.mcpEndpoint,
+                        a2aEndpoint: registrationFile.a2aEndpoint,
+                        supportedTrusts: registrationFile.supportedTrusts,
+                    },
+                })),
+                feedback: feedback
+                    .filter((f) => ids.has(f.agent))
+                    .map(({ id, agent, clientAddress, score, createdAt, isRevoked }) => ({
+                        id,
+                        agentId: agent,
+                        clientAddress,
+                        score,
+                        createdAt,
+                        isRevoked,
+                    })),
+            };
+        },
+    };
+}
+
+/**
+ * Loads the fixture registry from `AGENT_FIXTURES_PATH`, or the bundled one
+ */
+export function loadFixtureRegistry(): FixtureRegistry {
+    const path = process.env.AGENT_FIXTURES_PATH;
+    if (path) {
+        return JSON.parse(readFileSync(path, "utf8")) as FixtureRegistry;
+    }
+    return bundledRegistry as FixtureRegistry;
+}
+
+let defaultSource: AgentDataSource | null = null;
+
+/**
+ * Fixture data source over `loadFixtureRegistry()`, loaded on first use
+ */
+export const fixtureDataSource: AgentDataSource = {
+    fetchAgents: (...args) => getDefaultSource().fetchAgents(...args),
+    fetchOwnerAgents: (...args) => getDefaultSource().fetchOwnerAgents(...args),
+    fetchAgentWithFeedback: (...args) => getDefaultSource().fetchAgentWithFeedback(...args),
+    fetchAgentFeedback: (...args) => getDefaultSource().fetchAgentFeedback(...args),
+    fetchReviewerFeedback: (...args) => getDefaultSource().fetchReviewerFeedback(...args),
+    fetchAgentHistory: (...args) => getDefaultSource().fetchAgentHistory(...args),
+    fetchAgentValidations: (...args) => getDefaultSource().fetchAgentValidations(...args),
+    fetchAgentCount: (...args) => getDefaultSource().fetchAgentCount(...args),
+    fetchGlobalStats: (...args) => getDefaultSource().fetchGlobalStats(...args),
+    fetchRegistryData: (...args) => getDefaultSource().fetchRegistryData(...args),
+};
+
+function getDefaultSource(): AgentDataSource {
+    defaultSource ??= createFixtureDataSource(loadFixtureRegistry());
+    return defaultSource;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Converts a fixture agent into the subgraph entity shape, so where inputs
+ * apply to it unchanged
+ */
+function toStoredAgent(agent: FixtureAgent, feedback: FixtureFeedback[]): SubgraphAgent {
+    const { registration, indexed, agentURI, ...fields } = agent;
+
+    const uri = agentURI ?? (registration ? toDataUri(registration) : "");
+
+    let registrationFile: SubgraphRegistrationFile | null = null;
+    if (indexed && registration) {
+        const parsed: Partial<RegistrationFile> | null = parseRegistrationFile(registration);
+        if (parsed) {
+            // The subgraph doesn't index these, so the fixture shouldn't either
+            delete parsed.type;
+            delete parsed.endpoints;
+            delete parsed.registrations;
+            registrationFile = parsed as SubgraphRegistrationFile;
+        }
+    }
+
+    return {
+        ...fields,
+        agentURI: uri,
+        registrationFile,
+        totalFeedback: String(feedback.filter((f) => f.agent === agent.id).length),
+    };
+}
+
+/** Serves a registration file as a base64 data: URI */
+function toDataUri(registration: Record<string, unknown>): string {
+    return `data:application/json;base64,${Buffer.from(JSON.stringify(registration)).toString("base64")}`;
+}
+
+/** Removes the fixture-only fields from a feedback entry */
+function stripAgent(entry: FixtureFeedback): Feedback {
+    const copy: Partial<FixtureFeedback> = { ...entry };
+    delete copy.agent;
+    delete copy.revokedAt;
+    return copy as Feedback;
+}
@@ -0,0 +1,239 @@
+/**
+ * Raw metadata inspection
+ *
+ * When an agent shows up without a name or description, the cause can be
+ * anywhere between its URI and the rendered page: an unsupported scheme, a
+ * gateway failure, a document that isn't JSON, a file that doesn't follow the
+ * registration file spec, or a gateway serving the wrong content. This module
+ * gathers everything needed to tell these apart: the URI and its scheme, the
+ * raw document, where the displayed data came from, schema issues and, for
+ * IPFS, whether the content matches its CID.
+ *
+ * Documents are fetched through the metadata resolver (see `metadata.ts`), so
+ * the inspector sees exactly what the rest of the app sees.
+ *
+ * Spec: https://eips.ethereum.org/EIPS/eip-8004#identity-registry
+ */
+
+import { type CidCheck, parseIpfsUri, verifyCid } from "./cid";
+import { fetchMetadataDocument } from "./metadata";
+import { parseCaip10 } from "./registration";
+import type { Agent, MetadataSource } from "./subgraph";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * URI scheme of an agent's metadata URI
+ */
+export type MetadataScheme = "ipfs" | "ar" | "http" | "https" | "data" | "none" | "unknown";
+
+/**
+ * A problem found while validating a registration file
+ */
+export interface SchemaIssue {
+    path: string; // JSON path of the offending value, e.g. "endpoints[1].endpoint"
+    message: string;
+    severity: "error" | "warning"; // Errors break the spec; warnings are legacy or missing optional data
+}
+
+/**
+ * Everything known about an agent's metadata document
+ */
+export interface MetadataInspection {
+    uri: string;
+    scheme: MetadataScheme;
+    source: MetadataSource | null; // Where the displayed registration file came from
+    fetch: { ok: true; url: string | null } | { ok: false; error: string } | null; // null when there is no URI
+    raw: string | null; // The document as fetched
+    json: string | null; // Pretty-printed document, when it parses
+    parseError: string | null;
+    issues: SchemaIssue[];
+    cid: CidCheck | null; // Only for ipfs:// URIs that were fetched
+}
+
+/** `type` value of registration files following the current spec */
+export const REGISTRATION_FILE_TYPE = "https://eips.ethereum.org/EIPS/eip-8004#registration-v1";
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Fetches and checks an agent's metadata document
+ */
+export async function inspectMetadata(agent: Agent): Promise<MetadataInspection> {
+    const uri = agent.metadataUri;
+    const inspection: MetadataInspection = {
+        uri,
+        scheme: getMetadataScheme(uri),
+        source: agent.metadataSource,
+        fetch: null,
+        raw: null,
+        json: null,
+        parseError: null,
+        issues: [],
+        cid: null,
+    };
+    if (!uri) return inspection;
+
+    const document = await fetchMetadataDocument(uri);
+    if (!document.ok) return { ...inspection, fetch: { ok: false, error: document.error } };
+
+    inspection.fetch = { ok: true, url: document.url };
+    inspection.raw = document.text;
+
+    const ipfs = parseIpfsUri(uri);
+    if (ipfs) {
+        // Paths resolve through a directory node, which can't be checked from the file alone
+        inspection.cid = ipfs.path
+            ? { status: "unsupported", cid: ipfs.cid, reason: "URIs with a path point into a directory" }
+            : verifyCid(ipfs.cid, document.bytes);
+    }
+
+    try {
+        const parsed: unknown = JSON.parse(document.text);
+        inspection.json = JSON.stringify(parsed, null, 2);
+        inspection.issues = validateRegistrationFile(parsed, agent);
+    } catch (error) {
+        inspection.parseError = error instanceof Error ? error.message : "Invalid JSON";
+    }
+
+    return inspection;
+}
+
+/**
+ * Returns the scheme of a metadata URI
+ */
+export function getMetadataScheme(uri: string): MetadataScheme {
+    if (!uri) return "none";
+    const scheme = uri.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+    if (scheme === "ipfs" || scheme === "ar" || scheme === "http" || scheme === "https" || scheme === "data") {
+        return scheme;
+    }
+    return "unknown";
+}
+
+/**
+ * Validates a parsed document against the registration file spec
+ *
+ * Legacy spellings that `parseRegistrationFile` still accepts are reported as
+ * warnings rather than errors.
+ *
+ * @param value - The parsed JSON document
+ * @param agent - The agent the file belongs to, to check its `registrations` entry
+ */
+export function validateRegistrationFile(value: unknown, agent: Pick<Agent, "chainId" | "agentId">): SchemaIssue[] {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [{ path: "", message: "The document must be a JSON object", severity: "error" }];
+    }
+    const file = value as Record<string, unknown>;
+    const issues: SchemaIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ path, message, severity: "error" });
+    const warning = (path: string, message: string) => issues.push({ path, message, severity: "warning" });
+
+    if (file.type === undefined) error("type", `Missing "type"`);
+    else if (file.type !== REGISTRATION_FILE_TYPE) error("type", `Expected "${REGISTRATION_FILE_TYPE}"`);
+
+    for (const field of ["name", "description"]) {
+        if (file[field] === undefined) error(field, `Missing "${field}"`);
+        else if (!isNonEmptyString(file[field])) error(field, "Must be a non-empty string");
+    }
+    if (file.image === undefined) warning("image", `Missing "image"`);
+    else if (!isNonEmptyString(file.image)) error("image", "Must be a URI string");
+
+    if (file.endpoints !== undefined) {
+        validateEndpoints(file.endpoints, error);
+    } else if (file.services !== undefined) {
+        warning("services", `Legacy field; use "endpoints"`);
+        validateEndpoints(file.services, error, "services");
+    } else {
+        error("endpoints", `Missing "endpoints"`);
+    }
+    for (const field of ["mcpEndpoint", "a2aEndpoint"]) {
+        if (file[field] !== undefined) warning(field, `Legacy field; list it in "endpoints"`);
+    }
+
+    if (file.registrations === undefined) {
+        warning("registrations", `Missing "registrations"`);
+    } else if (!Array.isArray(file.registrations)) {
+        error("registrations", "Must be an array");
+    } else {
+        validateRegistrations(file.registrations, agent, error, warning);
+    }
+
+    if (file.supportedTrust !== undefined) {
+        if (!isStringArray(file.supportedTrust)) error("supportedTrust", "Must be an array of strings");
+    } else if (file.supportedTrusts !== undefined) {
+        warning("supportedTrusts", `Legacy field; use "supportedTrust"`);
+    }
+
+    for (const field of ["active", "x402support"]) {
+        if (file[field] !== undefined && typeof file[field] !== "boolean") error(field, "Must be true or false");
+    }
+
+    return issues;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+type Report = (path: string, message: string) => void;
+
+function validateEndpoints(value: unknown, error: Report, field = "endpoints") {
+    if (!Array.isArray(value)) {
+        error(field, "Must be an array");
+        return;
+    }
+    value.forEach((entry, i) => {
+        const path = `${field}[${i}]`;
+        if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+            error(path, "Must be an object");
+            return;
+        }
+        const { name, endpoint, version } = entry as Record<string, unknown>;
+        if (!isNonEmptyString(name)) error(`${path}.name`, `Missing "name"`);
+        if (!isNonEmptyString(endpoint)) error(`${path}.endpoint`, `Missing "endpoint"`);
+        if (version !== undefined && typeof version !== "string") error(`${path}.version`, "Must be a string");
+    });
+}
+
+function validateRegistrations(
+    value: unknown[],
+    agent: Pick<Agent, "chainId" | "agentId">,
+    error: Report,
+    warning: Report
+) {
+    let listed = false;
+    value.forEach((entry, i) => {
+        const path = `registrations[${i}]`;
+        if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+            error(path, "Must be an object");
+            return;
+        }
+        const { agentId, agentRegistry } = entry as Record<string, unknown>;
+        const registry = typeof agentRegistry === "string" ? parseCaip10(agentRegistry) : null;
+
+        if (typeof agentId !== "number" && !(typeof agentId === "string" && /^\d+$/.test(agentId))) {
+            error(`${path}.agentId`, "Must be a token ID");
+        }
+        if (!registry || !registry.chainId) {
+            error(`${path}.agentRegistry`, `Must be "eip155:<chainId>:<address>"`);
+        }
+        if (registry?.chainId === agent.chainId && String(agentId) === agent.agentId) listed = true;
+    });
+
+    if (!listed) {
+        warning("registrations", `No entry for agent ${agent.agentId} on chain ${agent.chainId}`);
+    }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
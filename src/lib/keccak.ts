@@ -0,0 +1,132 @@
+/**
+ * Keccak-256 hashing
+ *
+ * Ethereum hashes with the original Keccak padding, which differs from the
+ * standardized SHA3-256 that Node's crypto module offers. This is a small
+ * BigInt implementation for the few hashes the explorer computes itself (ENS
+ * name hashes); it favors clarity over speed and isn't meant for bulk data.
+ *
+ * Spec: https://keccak.team/keccak_specs_summary.html
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Bytes absorbed per permutation for a 256-bit output */
+const RATE = 136;
+
+const MASK = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+const ROUND_CONSTANTS = [
+    "0x0000000000000001",
+    "0x0000000000008082",
+    "0x800000000000808a",
+    "0x8000000080008000",
+    "0x000000000000808b",
+    "0x0000000080000001",
+    "0x8000000080008081",
+    "0x8000000000008009",
+    "0x000000000000008a",
+    "0x0000000000000088",
+    "0x0000000080008009",
+    "0x000000008000000a",
+    "0x000000008000808b",
+    "0x800000000000008b",
+    "0x8000000000008089",
+    "0x8000000000008003",
+    "0x8000000000008002",
+    "0x8000000000000080",
+    "0x000000000000800a",
+    "0x800000008000000a",
+    "0x8000000080008081",
+    "0x8000000000008080",
+    "0x0000000080000001",
+    "0x8000000080008008",
+].map((value) => BigInt(value));
+
+/** Rotation offset of each lane, indexed by x + 5y */
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Hashes bytes with Keccak-256
+ *
+ * @returns The 32-byte digest
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+    // Pad with 0x01 ... 0x80 up to a multiple of the rate
+    const padded = new Uint8Array(Math.floor(data.length / RATE) * RATE + RATE);
+    padded.set(data);
+    padded[data.length] ^= 0x01;
+    padded[padded.length - 1] ^= 0x80;
+
+    const state: bigint[] = new Array(25).fill(BigInt(0));
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let lane = 0; lane < RATE / 8; lane++) {
+            state[lane] ^= readLane(padded, offset + lane * 8);
+        }
+        permute(state);
+    }
+
+    const digest = new Uint8Array(32);
+    for (let lane = 0; lane < 4; lane++) {
+        let value = state[lane];
+        for (let i = 0; i < 8; i++) {
+            digest[lane * 8 + i] = Number(value & BigInt(0xff));
+            value >>= BigInt(8);
+        }
+    }
+    return digest;
+}
+
+// =============================================================================
+// Permutation
+// =============================================================================
+
+/** Keccak-f[1600], in place */
+function permute(state: bigint[]) {
+    for (const roundConstant of ROUND_CONSTANTS) {
+        // θ: mix each column's parity into its neighbours
+        const parity = [0, 1, 2, 3, 4].map((x) => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+        for (let x = 0; x < 5; x++) {
+            const d = parity[(x + 4) % 5] ^ rotate(parity[(x + 1) % 5], 1);
+            for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+        }
+
+        // ρ and π: rotate each lane and move it to its new position
+        const moved: bigint[] = new Array(25);
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+            }
+        }
+
+        // χ: combine each lane with the next two in its row
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = moved[x + y] ^ (~moved[((x + 1) % 5) + y] & MASK & moved[((x + 2) % 5) + y]);
+            }
+        }
+
+        // ι
+        state[0] ^= roundConstant;
+    }
+}
+
+function rotate(value: bigint, bits: number): bigint {
+    if (bits === 0) return value;
+    return ((value << BigInt(bits)) | (value >> BigInt(64 - bits))) & MASK;
+}
+
+/** Reads 8 bytes as a little-endian lane */
+function readLane(bytes: Uint8Array, offset: number): bigint {
+    let value = BigInt(0);
+    for (let i = 7; i >= 0; i--) {
+        value = (value << BigInt(8)) | BigInt(bytes[offset + i]);
+    }
+    return value;
+}
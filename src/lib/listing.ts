@@ -0,0 +1,280 @@
+/**
+ * URL, filter and pagination helpers for the agent listing page
+ *
+ * Kept out of `app/page.tsx` so client components (page size, chain and sort
+ * selectors) and tests can share them.
+ */
+
+import type { AgentFilters, AgentProtocol, AgentSort } from "./query";
+import { DEFAULT_AGENT_SORT } from "./query";
+import { isAddress } from "./registration";
+
+// =============================================================================
+// Page Sizes and Sorts
+// =============================================================================
+
+/** Available page size options (multiples of 3 for grid layout) */
+export const PAGE_SIZES = [12, 24, 48, 99];
+
+/** Default page size */
+export const DEFAULT_PAGE_SIZE = 24;
+
+/** Listing sorts, in the order they are offered ("relevance" only while searching) */
+export const AGENT_SORTS: { value: AgentSort; label: string }[] = [
+    { value: "relevance", label: "Relevance" },
+    { value: "newest", label: "Newest" },
+    { value: "oldest", label: "Oldest" },
+    { value: "reviews", label: "Most reviews" },
+    { value: "updated", label: "Recently updated" },
+    { value: "name", label: "Name" },
+    { value: "score", label: "Average score" },
+];
+
+/**
+ * Parses the listing sort from the `sort` URL param, falling back to the default
+ *
+ * @param searching - Whether a search is active (which makes "relevance" valid, and the default)
+ */
+export function parseAgentSort(value: string | undefined, searching: boolean = false): AgentSort {
+    const sort = AGENT_SORTS.find((s) => s.value === value && (searching || s.value !== "relevance"));
+    return sort?.value ?? getDefaultAgentSort(searching);
+}
+
+/**
+ * Returns the listing sort used when the URL has none: search results are ranked by relevance
+ */
+export function getDefaultAgentSort(searching: boolean): AgentSort {
+    return searching ? "relevance" : DEFAULT_AGENT_SORT;
+}
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/** Trust models the listing can filter by */
+export const TRUST_MODELS: { value: string; label: string }[] = [
+    { value: "reputation", label: "Reputation" },
+    { value: "crypto-economic", label: "Crypto-economic" },
+    { value: "tee-attestation", label: "TEE attestation" },
+];
+
+/** Endpoint protocols the listing can filter by */
+export const PROTOCOLS: { value: AgentProtocol; label: string }[] = [
+    { value: "mcp", label: "MCP" },
+    { value: "a2a", label: "A2A" },
+];
+
+/** URL params of the listing filters, in the order their chips are shown */
+export const LISTING_FILTER_PARAMS = [
+    "search",
+    "hasReviews",
+    "hasEndpoint",
+    "hasValidations",
+    "protocol",
+    "trust",
+    "owner",
+    "from",
+    "to",
+    "minReviews",
+    "minScore",
+] as const;
+
+export type ListingFilterParams = Partial<Record<(typeof LISTING_FILTER_PARAMS)[number], string>>;
+
+/**
+ * Parsed listing filters
+ */
+export interface ListingFilterState {
+    /** Filters for the data source (without `searchAddress`, which needs an ENS lookup) */
+    filters: AgentFilters;
+    /** The valid filter params, normalized, for building URLs */
+    params: ListingFilterParams;
+}
+
+/**
+ * Reads the listing filters from URL params
+ *
+ * Like the review filters, invalid values (unknown trust models, malformed
+ * addresses, dates or numbers) are ignored so a hand-edited URL still renders.
+ */
+export function parseListingFilters(params: ListingFilterParams): ListingFilterState {
+    const search = params.search?.trim() || undefined;
+    const owner = params.owner && isAddress(params.owner.trim()) ? params.owner.trim().toLowerCase() : undefined;
+    const protocol = PROTOCOLS.find((p) => p.value === params.protocol)?.value;
+    const trust = TRUST_MODELS.find((t) => t.value === params.trust)?.value;
+    const from = parseDate(params.from, false) ? params.from : undefined;
+    const to = parseDate(params.to, true) ? params.to : undefined;
+    const minReviews = parseCount(params.minReviews);
+    const minScore = parseScore(params.minScore);
+
+    const flag = (value: string | undefined) => (value === "true" ? true : undefined);
+
+    return {
+        filters: removeUndefined({
+            search,
+            hasReviews: flag(params.hasReviews),
+            hasEndpoint: flag(params.hasEndpoint),
+            hasValidations: flag(params.hasValidations),
+            protocol,
+            trustModel: trust,
+            owner,
+            createdFrom: parseDate(from, false),
+            createdTo: parseDate(to, true),
+            minReviews,
+            minScore,
+        }),
+        params: removeUndefined({
+            search,
+            hasReviews: flag(params.hasReviews) && "true",
+            hasEndpoint: flag(params.hasEndpoint) && "true",
+            hasValidations: flag(params.hasValidations) && "true",
+            protocol,
+            trust,
+            owner,
+            from,
+            to,
+            minReviews: minReviews?.toString(),
+            minScore: minScore?.toString(),
+        }),
+    };
+}
+
+/**
+ * An active filter, shown as a removable chip
+ */
+export interface FilterChip {
+    param: (typeof LISTING_FILTER_PARAMS)[number];
+    label: string;
+}
+
+/**
+ * Describes the active filters as chips (the search has its own indicator)
+ *
+ * @param ownerName - ENS name of the owner filter's address, if any
+ */
+export function getFilterChips(params: ListingFilterParams, ownerName?: string): FilterChip[] {
+    const labels: Record<Exclude<(typeof LISTING_FILTER_PARAMS)[number], "search">, (value: string) => string> = {
+        hasReviews: () => "Has reviews",
+        hasEndpoint: () => "Has API endpoint",
+        hasValidations: () => "Has validations",
+        protocol: (value) => `${PROTOCOLS.find((p) => p.value === value)?.label ?? value} endpoint`,
+        trust: (value) => `Trust: ${TRUST_MODELS.find((t) => t.value === value)?.label ?? value}`,
+        owner: (value) => `Owner: ${ownerName ?? `${value.slice(0, 6)}...${value.slice(-4)}`}`,
+        from: (value) => `Created from ${value}`,
+        to: (value) => `Created until ${value}`,
+        minReviews: (value) => `At least ${value} ${value === "1" ? "review" : "reviews"}`,
+        minScore: (value) => `Average score ≥ ${value}`,
+    };
+
+    return LISTING_FILTER_PARAMS.flatMap((param) => {
+        const value = params[param];
+        return param !== "search" && value ? [{ param, label: labels[param](value) }] : [];
+    });
+}
+
+/** Parses a 0-100 score */
+export function parseScore(value: string | undefined): number | undefined {
+    if (!value || !/^\d+$/.test(value.trim())) return undefined;
+    const score = parseInt(value);
+    return score <= 100 ? score : undefined;
+}
+
+/**
+ * Parses a "YYYY-MM-DD" date (as sent by date inputs) into a Unix timestamp
+ *
+ * @param endOfDay - Return the last second of the day, for inclusive upper bounds
+ */
+export function parseDate(value: string | undefined, endOfDay: boolean): string | undefined {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return undefined;
+    const start = Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) / 1000;
+    if (Number.isNaN(start)) return undefined;
+    return String(endOfDay ? start + 24 * 60 * 60 - 1 : start);
+}
+
+/** Parses a non-negative count; 0 is no filter */
+function parseCount(value: string | undefined): number | undefined {
+    if (!value || !/^\d+$/.test(value.trim())) return undefined;
+    return parseInt(value) || undefined;
+}
+
+function removeUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// =============================================================================
+// URLs and Pagination
+// =============================================================================
+
+/** URL params that don't change the result set; changing anything else invalidates the cursor */
+const PAGING_PARAMS = ["page", "cursor", "compare"];
+
+/**
+ * Builds URL with current params, updating specified values
+ *
+ * A cursor only makes sense for the filters, sort and page size it was
+ * created with, so it is dropped whenever an update touches any other param.
+ *
+ * @param path - Page the URL points to (default: the listing)
+ */
+export function buildUrl(
+    params: Record<string, string | undefined>,
+    updates: Record<string, string | undefined>,
+    path: string = "/"
+): string {
+    const changesFilters = Object.keys(updates).some((key) => !PAGING_PARAMS.includes(key));
+    const merged: Record<string, string | undefined> = {
+        ...params,
+        ...(changesFilters ? { cursor: undefined } : {}),
+        ...updates,
+    };
+    const searchParams = new URLSearchParams();
+
+    Object.entries(merged).forEach(([key, value]) => {
+        // Leave defaults out of the URL
+        const isDefault =
+            (key === "page" && value === "1") ||
+            (key === "perPage" && value === String(DEFAULT_PAGE_SIZE)) ||
+            (key === "sort" && value === getDefaultAgentSort(Boolean(merged.search)));
+        if (value && !isDefault) {
+            searchParams.set(key, value);
+        }
+    });
+
+    const query = searchParams.toString();
+    return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Pagination state for the listing footer
+ */
+export interface Pagination {
+    /** Known page count; a lower bound unless `exact` */
+    totalPages: number;
+    /** Whether the total is final */
+    exact: boolean;
+    hasNextPage: boolean;
+}
+
+/**
+ * Works out page count and whether a Next link is needed
+ *
+ * @param page - Current page number (1-based)
+ * @param pageSize - Agents per page
+ * @param total - Known number of matching agents, or null if unknown
+ * @param exact - Whether `total` is final (false while a count is in progress)
+ * @param pageLength - Number of agents on the current page
+ */
+export function getPagination(
+    page: number,
+    pageSize: number,
+    total: number | null,
+    exact: boolean,
+    pageLength: number
+): Pagination {
+    const isExact = total !== null && exact;
+    const totalPages = total !== null ? Math.ceil(total / pageSize) : page;
+    // Without an exact total, a full page suggests there may be more
+    const hasNextPage = page < totalPages || (!isExact && pageLength === pageSize);
+    return { totalPages, exact: isExact, hasNextPage };
+}
@@ -0,0 +1,599 @@
+/**
+ * Live inspection of MCP endpoints
+ *
+ * Connects to an agent's MCP endpoint over the Streamable HTTP transport,
+ * runs the initialize handshake and lists the tools, resources and prompts
+ * the server advertises. The detail page shows the result next to what the
+ * registration file claims.
+ *
+ * Probes are built like metadata resolution (see `metadata.ts`):
+ * - every request has a timeout, and the whole probe a time budget
+ * - responses are read up to a maximum size
+ * - results are cached per endpoint, failures for a shorter time
+ * - private and loopback hosts are refused unless explicitly allowed, and
+ *   redirects aren't followed
+ *
+ * Configuration (all optional):
+ * - `MCP_PROBE_TIMEOUT_MS`: per-request timeout (default: 4000)
+ * - `MCP_PROBE_BUDGET_MS`: time budget for the whole probe (default: 10000)
+ * - `MCP_PROBE_MAX_BYTES`: maximum response size (default: 524288)
+ * - `MCP_PROBE_ALLOW_PRIVATE`: set to "true" to probe private hosts (local development)
+ */
+
+import { createTtlCache } from "./cache";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Protocol revision requested in the handshake; servers may answer with another */
+const PROTOCOL_VERSION = "2025-06-18";
+
+const CLIENT_INFO = { name: "8004-agent-explorer", version: "0.1.0" };
+
+/** Pages read from each list method before giving up on the rest */
+const MAX_LIST_PAGES = 5;
+
+/** How long a successful probe stays cached */
+const SUCCESS_TTL_MS = 5 * 60 * 1000;
+
+/** How long a failed probe is remembered before the endpoint is tried again */
+const FAILURE_TTL_MS = 60 * 1000;
+
+/** Minimum age of a result before a manual re-check replaces it */
+const RECHECK_COOLDOWN_MS = 10 * 1000;
+
+/**
+ * Probe settings, read from the environment on each call so tests and
+ * deployments can change them without code changes
+ */
+function getConfig() {
+    return {
+        timeoutMs: parseInt(process.env.MCP_PROBE_TIMEOUT_MS || "") || 4000,
+        budgetMs: parseInt(process.env.MCP_PROBE_BUDGET_MS || "") || 10000,
+        maxBytes: parseInt(process.env.MCP_PROBE_MAX_BYTES || "") || 512 * 1024,
+        allowPrivate: process.env.MCP_PROBE_ALLOW_PRIVATE === "true",
+    };
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A tool advertised by an MCP server
+ */
+export interface McpTool {
+    name: string;
+    title: string | null;
+    description: string | null;
+    inputSchema: Record<string, unknown> | null; // JSON Schema of the arguments
+}
+
+/**
+ * A resource advertised by an MCP server
+ */
+export interface McpResource {
+    uri: string;
+    name: string;
+    description: string | null;
+    mimeType: string | null;
+}
+
+/**
+ * A prompt advertised by an MCP server
+ */
+export interface McpPrompt {
+    name: string;
+    description: string | null;
+    arguments: { name: string; description: string | null; required: boolean }[];
+}
+
+/**
+ * Outcome of probing an MCP endpoint
+ *
+ * Lists are null when the server doesn't advertise the capability or listing
+ * failed (see `errors`). `latencyMs` is the round trip of the initialize
+ * request.
+ */
+export type McpProbeResult =
+    | {
+          ok: true;
+          endpoint: string;
+          checkedAt: number; // Unix time in milliseconds
+          latencyMs: number;
+          protocolVersion: string;
+          serverInfo: { name: string; title: string | null; version: string | null } | null;
+          instructions: string | null;
+          capabilities: string[];
+          tools: McpTool[] | null;
+          resources: McpResource[] | null;
+          prompts: McpPrompt[] | null;
+          errors: string[]; // Failed list requests; the server is still reachable
+      }
+    | {
+          ok: false;
+          endpoint: string;
+          checkedAt: number;
+          latencyMs: number | null; // Set if the handshake answered but a later step failed
+          error: string;
+      };
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+const probeCache = createTtlCache<Promise<McpProbeResult>>(SUCCESS_TTL_MS, 500);
+
+/**
+ * Probes an MCP endpoint, using the cache
+ *
+ * Concurrent calls for the same endpoint share one probe. Never throws;
+ * failures are part of the result.
+ *
+ * @param endpoint - HTTP(S) URL of the MCP server
+ */
+export function probeMcpEndpoint(endpoint: string): Promise<McpProbeResult> {
+    const cached = probeCache.get(endpoint);
+    if (cached) return cached;
+
+    const promise = runProbe(endpoint).then((result) => {
+        probeCache.set(endpoint, Promise.resolve(result), result.ok ? SUCCESS_TTL_MS : FAILURE_TTL_MS);
+        return result;
+    });
+
+    probeCache.set(endpoint, promise);
+    return promise;
+}
+
+/**
+ * Drops the cached probe of an endpoint so the next call probes it again
+ *
+ * Results younger than a few seconds are kept, so repeated re-checks can't
+ * be used to flood an endpoint.
+ *
+ * @returns Whether the cached result was dropped
+ */
+export async function invalidateMcpProbe(endpoint: string): Promise<boolean> {
+    const cached = probeCache.get(endpoint);
+    if (!cached) return true;
+
+    const result = await cached;
+    if (Date.now() - result.checkedAt < RECHECK_COOLDOWN_MS) return false;
+
+    probeCache.delete(endpoint);
+    return true;
+}
+
+// =============================================================================
+// Probe
+// =============================================================================
+
+/**
+ * A failed probe step, with a message fit for display
+ */
+class McpProbeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "McpProbeError";
+    }
+}
+
+/** Result of the initialize request (fields we read) */
+interface InitializeResult {
+    protocolVersion?: unknown;
+    capabilities?: Record<string, unknown>;
+    serverInfo?: { name?: unknown; title?: unknown; version?: unknown };
+    instructions?: unknown;
+}
+
+/**
+ * Runs the handshake and list requests against an endpoint
+ */
+async function runProbe(endpoint: string): Promise<McpProbeResult> {
+    const config = getConfig();
+    const checkedAt = Date.now();
+
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return { ok: false, endpoint, checkedAt, latencyMs: null, error: "Not a valid URL" };
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return { ok: false, endpoint, checkedAt, latencyMs: null, error: "Only HTTP(S) endpoints can be probed" };
+    }
+    if (!config.allowPrivate && isPrivateHost(url.hostname)) {
+        return { ok: false, endpoint, checkedAt, latencyMs: null, error: "Private and loopback hosts aren't probed" };
+    }
+
+    const session = createSession(endpoint, config);
+    let latencyMs: number | null = null;
+
+    try {
+        const started = Date.now();
+        const init = await session.request<InitializeResult>("initialize", {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: CLIENT_INFO,
+        });
+        latencyMs = Date.now() - started;
+
+        const protocolVersion = typeof init.protocolVersion === "string" ? init.protocolVersion : PROTOCOL_VERSION;
+        session.setProtocolVersion(protocolVersion);
+        await session.notify("notifications/initialized");
+
+        const capabilities = init.capabilities && typeof init.capabilities === "object" ? init.capabilities : {};
+        const errors: string[] = [];
+
+        /** Lists one kind of item if the server advertises it, recording failures */
+        const list = async <T>(
+            capability: string,
+            method: string,
+            key: string,
+            normalize: (item: unknown) => T | null
+        ) => {
+            if (!(capability in capabilities)) return null;
+            try {
+                return await listAll(session, method, key, normalize);
+            } catch (error) {
+                errors.push((error as Error).message);
+                return null;
+            }
+        };
+
+        const tools = await list("tools", "tools/list", "tools", normalizeTool);
+        const resources = await list("resources", "resources/list", "resources", normalizeResource);
+        const prompts = await list("prompts", "prompts/list", "prompts", normalizePrompt);
+
+        return {
+            ok: true,
+            endpoint,
+            checkedAt,
+            latencyMs,
+            protocolVersion,
+            serverInfo:
+                typeof init.serverInfo?.name === "string"
+                    ? {
+                          name: init.serverInfo.name,
+                          title: asString(init.serverInfo.title),
+                          version: asString(init.serverInfo.version),
+                      }
+                    : null,
+            instructions: asString(init.instructions),
+            capabilities: Object.keys(capabilities).sort(),
+            tools,
+            resources,
+            prompts,
+            errors,
+        };
+    } catch (error) {
+        return { ok: false, endpoint, checkedAt, latencyMs, error: (error as Error).message };
+    } finally {
+        session.close();
+    }
+}
+
+/**
+ * Reads every page of a list method, following `nextCursor`
+ */
+async function listAll<T>(
+    session: McpSession,
+    method: string,
+    key: string,
+    normalize: (item: unknown) => T | null
+): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+        const result = await session.request<Record<string, unknown>>(method, cursor ? { cursor } : {});
+        const pageItems = Array.isArray(result[key]) ? (result[key] as unknown[]) : [];
+        for (const item of pageItems) {
+            const normalized = normalize(item);
+            if (normalized) items.push(normalized);
+        }
+        if (typeof result.nextCursor !== "string" || !result.nextCursor) break;
+        cursor = result.nextCursor;
+    }
+
+    return items;
+}
+
+// =============================================================================
+// Transport
+// =============================================================================
+
+/** A JSON-RPC response message */
+interface JsonRpcResponse {
+    id: number | string | null;
+    result?: unknown;
+    error?: { code?: number; message?: string };
+}
+
+/**
+ * A Streamable HTTP session with one MCP server
+ */
+interface McpSession {
+    request<T>(method: string, params?: Record<string, unknown>): Promise<T>;
+    notify(method: string): Promise<void>;
+    setProtocolVersion(version: string): void;
+    /** Ends the session on the server, without waiting for the answer */
+    close(): void;
+}
+
+/**
+ * Opens a session: tracks the session ID and protocol version headers and
+ * enforces the per-request timeout and the probe's time budget
+ */
+function createSession(endpoint: string, config: ReturnType<typeof getConfig>): McpSession {
+    const budget = AbortSignal.timeout(config.budgetMs);
+    let nextId = 1;
+    let sessionId: string | null = null;
+    let protocolVersion: string | null = null;
+
+    const headers = () => ({
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        ...(protocolVersion ? { "MCP-Protocol-Version": protocolVersion } : {}),
+    });
+
+    /** Sends one message; `read` consumes the response while the timeouts still apply */
+    const send = async <T>(method: string, message: object, read: (response: Response) => Promise<T>) => {
+        const timeout = AbortSignal.timeout(config.timeoutMs);
+        const signal = AbortSignal.any([budget, timeout]);
+        try {
+            // Following a redirect would replay the request to a host that wasn't checked
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: headers(),
+                body: JSON.stringify(message),
+                redirect: "manual",
+                signal,
+            });
+            if (response.status >= 300 && response.status < 400) {
+                await response.body?.cancel();
+                const status = response.status;
+                throw new McpProbeError(`${method} failed: redirected (HTTP ${status}), which probes don't follow`);
+            }
+            if (!response.ok) {
+                await response.body?.cancel();
+                throw new McpProbeError(`${method} failed: HTTP ${response.status}`);
+            }
+            sessionId = response.headers.get("mcp-session-id") ?? sessionId;
+            return await read(response);
+        } catch (error) {
+            if (error instanceof McpProbeError) throw error;
+            if (budget.aborted) throw new McpProbeError(`Probe took longer than ${config.budgetMs}ms`);
+            if (timeout.aborted) throw new McpProbeError(`${method} timed out after ${config.timeoutMs}ms`);
+            throw new McpProbeError(`${method} failed: ${(error as Error).message}`);
+        }
+    };
+
+    return {
+        async request<T>(method: string, params?: Record<string, unknown>) {
+            const id = nextId++;
+            const message = await send(method, { jsonrpc: "2.0", id, method, params }, (response) =>
+                readResponse(response, id, config.maxBytes)
+            );
+            if (message.error) {
+                throw new McpProbeError(`${method} failed: ${message.error.message ?? `error ${message.error.code}`}`);
+            }
+            if (!message.result || typeof message.result !== "object") {
+                throw new McpProbeError(`${method} returned no result`);
+            }
+            return message.result as T;
+        },
+        async notify(method: string) {
+            await send(method, { jsonrpc: "2.0", method }, async (response) => {
+                await response.body?.cancel();
+            });
+        },
+        setProtocolVersion(version: string) {
+            protocolVersion = version;
+        },
+        close() {
+            if (!sessionId) return;
+            fetch(endpoint, {
+                method: "DELETE",
+                headers: headers(),
+                redirect: "manual",
+                signal: AbortSignal.timeout(config.timeoutMs),
+            }).catch(() => {
+                // Servers may not support explicit termination; the session expires on its own
+            });
+        },
+    };
+}
+
+/**
+ * Reads the response to request `id` from a JSON or event-stream body
+ *
+ * Event streams are read only until the response arrives, since servers may
+ * keep them open. Other messages on the stream (server requests and
+ * notifications) are skipped.
+ */
+async function readResponse(response: Response, id: number, maxBytes: number): Promise<JsonRpcResponse> {
+    if (!response.body) throw new McpProbeError("Empty response");
+
+    const isStream = (response.headers.get("content-type") ?? "").includes("text/event-stream");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    let size = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (value) {
+            size += value.byteLength;
+            if (size > maxBytes) {
+                await reader.cancel();
+                throw new McpProbeError(`Response exceeds ${maxBytes} bytes`);
+            }
+            text += decoder.decode(value, { stream: true });
+        }
+
+        if (isStream) {
+            const message = findStreamResponse(text, id, done);
+            if (message) {
+                await reader.cancel();
+                return message;
+            }
+            if (done) throw new McpProbeError("Event stream ended without a response");
+        } else if (done) {
+            return parseJsonResponse(text, id);
+        }
+    }
+}
+
+/** Parses a JSON body holding one response or a batch */
+function parseJsonResponse(text: string, id: number): JsonRpcResponse {
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        throw new McpProbeError("Response is not JSON");
+    }
+    const message = (Array.isArray(body) ? body : [body]).find((m) => isResponseTo(m, id));
+    if (!message) throw new McpProbeError("Response doesn't answer the request");
+    return message;
+}
+
+/**
+ * Looks for the response to `id` among the complete events of a stream
+ *
+ * @param ended - Whether the stream is over (the last event may lack its blank line)
+ */
+function findStreamResponse(text: string, id: number, ended: boolean): JsonRpcResponse | null {
+    const events = text.split(/\r?\n\r?\n/);
+    if (!ended) events.pop(); // Possibly incomplete
+
+    for (const event of events) {
+        const data = event
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).replace(/^ /, ""))
+            .join("\n");
+        if (!data) continue;
+        try {
+            const message: unknown = JSON.parse(data);
+            if (isResponseTo(message, id)) return message;
+        } catch {
+            // Not JSON; ignore the event
+        }
+    }
+    return null;
+}
+
+function isResponseTo(message: unknown, id: number): message is JsonRpcResponse {
+    if (!message || typeof message !== "object") return false;
+    const m = message as Record<string, unknown>;
+    return m.id === id && ("result" in m || "error" in m);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Checks whether a hostname is loopback, link-local or in a private range
+ *
+ * Only literal addresses and localhost names are recognized; names that
+ * resolve to private addresses aren't. IPv6 addresses that embed an IPv4
+ * address are checked by that address.
+ */
+export function isPrivateHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    if (host === "localhost" || host.endsWith(".localhost")) return true;
+
+    const ipv4 = parseIpv4Prefix(host) ?? parseEmbeddedIpv4Prefix(host);
+    if (ipv4) {
+        const [a, b] = ipv4;
+        return (
+            a === 0 ||
+            a === 10 ||
+            (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+            a === 127 ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168)
+        );
+    }
+
+    if (host.includes(":")) {
+        return host === "::" || host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+    }
+    return false;
+}
+
+/** Reads the first two octets of a dotted IPv4 address */
+function parseIpv4Prefix(host: string): [number, number] | null {
+    const match = host.match(/^(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/);
+    return match ? [parseInt(match[1]), parseInt(match[2])] : null;
+}
+
+/**
+ * Reads the first two octets of the IPv4 address inside an IPv4-mapped
+ * (::ffff:a.b.c.d), IPv4-translated (::ffff:0:a.b.c.d), IPv4-compatible
+ * (::a.b.c.d) or NAT64 (64:ff9b::a.b.c.d) IPv6 address
+ *
+ * The URL parser writes the IPv4 part as two hex groups, e.g.
+ * `[::ffff:127.0.0.1]` becomes `[::ffff:7f00:1]`.
+ */
+function parseEmbeddedIpv4Prefix(host: string): [number, number] | null {
+    const match = host.match(
+        /^(?:::(?:ffff:(?:0:)?)?|64:ff9b::)(?:(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})|([0-9a-f]{1,4}):[0-9a-f]{1,4})$/
+    );
+    if (!match) return null;
+    if (match[1]) return parseIpv4Prefix(match[1]);
+    const high = parseInt(match[2], 16);
+    return [high >> 8, high & 0xff];
+}
+
+function normalizeTool(item: unknown): McpTool | null {
+    if (!item || typeof item !== "object") return null;
+    const tool = item as Record<string, unknown>;
+    if (typeof tool.name !== "string") return null;
+    const inputSchema = tool.inputSchema && typeof tool.inputSchema === "object" ? tool.inputSchema : null;
+    return {
+        name: tool.name,
+        title: asString(tool.title),
+        description: asString(tool.description),
+        inputSchema: inputSchema as Record<string, unknown> | null,
+    };
+}
+
+function normalizeResource(item: unknown): McpResource | null {
+    if (!item || typeof item !== "object") return null;
+    const resource = item as Record<string, unknown>;
+    if (typeof resource.uri !== "string") return null;
+    return {
+        uri: resource.uri,
+        name: asString(resource.name) ?? resource.uri,
+        description: asString(resource.description),
+        mimeType: asString(resource.mimeType),
+    };
+}
+
+function normalizePrompt(item: unknown): McpPrompt | null {
+    if (!item || typeof item !== "object") return null;
+    const prompt = item as Record<string, unknown>;
+    if (typeof prompt.name !== "string") return null;
+    const args = (Array.isArray(prompt.arguments) ? prompt.arguments : []) as Record<string, unknown>[];
+    return {
+        name: prompt.name,
+        description: asString(prompt.description),
+        arguments: args
+            .filter((arg) => arg && typeof arg === "object" && typeof arg.name === "string")
+            .map((arg) => ({
+                name: arg.name as string,
+                description: asString(arg.description),
+                required: arg.required === true,
+            })),
+    };
+}
+
+function asString(value: unknown): string | null {
+    return typeof value === "string" && value !== "" ? value : null;
+}
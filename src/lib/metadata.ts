@@ -0,0 +1,352 @@
+/**
+ * Metadata resolver for agent registration files
+ *
+ * The subgraph only decodes IPFS metadata. For everything else (HTTP URLs,
+ * base64 data URIs, Arweave, or IPFS files the indexer couldn't fetch) the
+ * explorer resolves the agent URI itself.
+ *
+ * Resolution is built to never stall a page:
+ * - IPFS and Arweave URIs are tried against an ordered list of gateways
+ * - every request has a timeout and a maximum payload size
+ * - results are cached by URI, including failures (negative caching), in
+ *   memory and optionally on disk
+ *
+ * Configuration (all optional):
+ * - `IPFS_GATEWAYS` / `ARWEAVE_GATEWAYS`: comma-separated gateway base URLs
+ * - `METADATA_TIMEOUT_MS`: per-request timeout (default: 4000)
+ * - `METADATA_MAX_BYTES`: maximum payload size (default: 262144)
+ * - `METADATA_CACHE_DIR`: directory for the on-disk cache (disabled when unset)
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createTtlCache } from "./cache";
+import { parseRegistrationFile, RegistrationFile } from "./registration";
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_IPFS_GATEWAYS = ["https://ipfs.io/ipfs/", "https://dweb.link/ipfs/", "https://gateway.pinata.cloud/ipfs/"];
+
+const DEFAULT_ARWEAVE_GATEWAYS = ["https://arweave.net/"];
+
+/** How long a successfully resolved document stays cached */
+const SUCCESS_TTL_MS = 60 * 60 * 1000;
+
+/** How long a failure is remembered before the URI is tried again */
+const FAILURE_TTL_MS = 5 * 60 * 1000;
+
+/** Redirects followed before a fetch gives up */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Resolver settings, read from the environment on each call so tests and
+ * deployments can change them without code changes
+ */
+function getConfig() {
+    return {
+        ipfsGateways: parseList(process.env.IPFS_GATEWAYS) ?? DEFAULT_IPFS_GATEWAYS,
+        arweaveGateways: parseList(process.env.ARWEAVE_GATEWAYS) ?? DEFAULT_ARWEAVE_GATEWAYS,
+        timeoutMs: parseInt(process.env.METADATA_TIMEOUT_MS || "") || 4000,
+        maxBytes: parseInt(process.env.METADATA_MAX_BYTES || "") || 256 * 1024,
+        cacheDir: process.env.METADATA_CACHE_DIR || null,
+    };
+}
+
+/** Splits a comma-separated env value, ensuring each entry ends with "/" */
+function parseList(value: string | undefined): string[] | null {
+    if (!value) return null;
+    const items = value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => (item.endsWith("/") ? item : `${item}/`));
+    return items.length > 0 ? items : null;
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Outcome of fetching a metadata document
+ *
+ * `text` is the body decoded as UTF-8 (without a byte order mark); `bytes` is
+ * the body as served, for checks that need the exact content (CIDs). Failures
+ * are values rather than exceptions so they can be cached.
+ */
+export type ResolvedDocument =
+    | { ok: true; text: string; bytes: Uint8Array; url: string | null } // url is null for data: URIs
+    | { ok: false; error: string };
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+const documentCache = createTtlCache<Promise<ResolvedDocument>>(SUCCESS_TTL_MS);
+
+/**
+ * Resolves and parses the registration file behind an agent URI
+ *
+ * @param uri - The metadata URI (ipfs://, ar://, http://, https://, or data:)
+ * @returns Parsed registration file, or null if it can't be fetched or parsed
+ */
+export async function resolveMetadata(uri: string): Promise<RegistrationFile | null> {
+    const document = await fetchMetadataDocument(uri);
+    if (!document.ok) return null;
+
+    try {
+        return parseRegistrationFile(JSON.parse(document.text));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Fetches the raw document behind a metadata URI, using the cache
+ *
+ * Concurrent calls for the same URI share one request.
+ */
+export function fetchMetadataDocument(uri: string): Promise<ResolvedDocument> {
+    const cached = documentCache.get(uri);
+    if (cached) return cached;
+
+    const promise = loadDocument(uri).then((document) => {
+        // Remember failures for a shorter time than successes
+        documentCache.set(uri, Promise.resolve(document), document.ok ? SUCCESS_TTL_MS : FAILURE_TTL_MS);
+        return document;
+    });
+
+    documentCache.set(uri, promise);
+    return promise;
+}
+
+/**
+ * Fetches an HTTP(S) URL with the resolver's timeout and size limit, bypassing the caches
+ *
+ * For documents from untrusted hosts: each redirect target is checked with
+ * `isAllowed` before it is requested, so a redirect can't reach a host the
+ * caller refuses.
+ */
+export function fetchHttpDocument(url: string, isAllowed: (url: URL) => boolean): Promise<ResolvedDocument> {
+    const { timeoutMs, maxBytes } = getConfig();
+    return fetchWithLimits(url, timeoutMs, maxBytes, isAllowed);
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Loads a document from the disk cache or the network
+ */
+async function loadDocument(uri: string): Promise<ResolvedDocument> {
+    const { cacheDir } = getConfig();
+
+    if (cacheDir) {
+        const stored = await readDiskCache(cacheDir, uri);
+        if (stored) return stored;
+    }
+
+    const document = await fetchDocument(uri);
+
+    if (cacheDir) {
+        await writeDiskCache(cacheDir, uri, document);
+    }
+
+    return document;
+}
+
+/**
+ * Fetches a document by URI scheme, trying each gateway in order
+ */
+async function fetchDocument(uri: string): Promise<ResolvedDocument> {
+    const config = getConfig();
+
+    if (uri.startsWith("data:")) {
+        return decodeDataUri(uri, config.maxBytes);
+    }
+
+    const urls = getCandidateUrls(uri, config);
+    if (urls.length === 0) {
+        return { ok: false, error: `Unsupported URI scheme: ${uri.split(":")[0]}` };
+    }
+
+    const errors: string[] = [];
+    for (const url of urls) {
+        const result = await fetchWithLimits(url, config.timeoutMs, config.maxBytes);
+        if (result.ok) return result;
+        errors.push(result.error);
+    }
+
+    return { ok: false, error: errors.join("; ") };
+}
+
+/**
+ * Lists the HTTP URLs to try for a URI, in order of preference
+ */
+export function getCandidateUrls(uri: string, config = getConfig()): string[] {
+    if (uri.startsWith("http://") || uri.startsWith("https://")) {
+        return [uri];
+    }
+    if (uri.startsWith("ipfs://")) {
+        // Accept both ipfs://<cid> and the non-standard ipfs://ipfs/<cid>
+        const resource = uri.replace(/^ipfs:\/\/(ipfs\/)?/, "");
+        return config.ipfsGateways.map((gateway) => `${gateway}${resource}`);
+    }
+    if (uri.startsWith("ar://")) {
+        const resource = uri.replace("ar://", "");
+        return config.arweaveGateways.map((gateway) => `${gateway}${resource}`);
+    }
+    return [];
+}
+
+/**
+ * Decodes a data URI (base64 or percent-encoded)
+ */
+function decodeDataUri(uri: string, maxBytes: number): ResolvedDocument {
+    // data:application/json;base64,eyJuYW1lIjoi... or data:application/json,{"name":...}
+    const match = uri.match(/^data:([^,]*?)(;base64)?,([\s\S]*)$/);
+    if (!match) return { ok: false, error: "Malformed data URI" };
+
+    try {
+        const payload = match[3];
+        const bytes = match[2] ? Buffer.from(payload, "base64") : new TextEncoder().encode(decodeURIComponent(payload));
+        if (bytes.byteLength > maxBytes) {
+            return { ok: false, error: `Payload exceeds ${maxBytes} bytes` };
+        }
+        return { ok: true, text: new TextDecoder().decode(bytes), bytes, url: null };
+    } catch {
+        return { ok: false, error: "Malformed data URI" };
+    }
+}
+
+/**
+ * Fetches a URL with a timeout, reading at most `maxBytes` of the body
+ *
+ * Redirects are followed here rather than by `fetch`, so every target can be
+ * checked with `isAllowed` (any HTTP(S) URL by default).
+ */
+async function fetchWithLimits(
+    url: string,
+    timeoutMs: number,
+    maxBytes: number,
+    isAllowed: (url: URL) => boolean = () => true
+): Promise<ResolvedDocument> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        let target = url;
+        let response = await fetch(target, { signal: controller.signal, redirect: "manual" });
+        for (let redirects = 0; response.status >= 300 && response.status < 400; redirects++) {
+            const location = response.headers.get("location");
+            await response.body?.cancel();
+            if (!location) break;
+            if (redirects === MAX_REDIRECTS) {
+                return { ok: false, error: `${url} redirected more than ${MAX_REDIRECTS} times` };
+            }
+            const next = new URL(location, target);
+            if ((next.protocol !== "http:" && next.protocol !== "https:") || !isAllowed(next)) {
+                return { ok: false, error: `${url} redirected to a refused URL (${next.origin})` };
+            }
+            target = next.toString();
+            response = await fetch(target, { signal: controller.signal, redirect: "manual" });
+        }
+        if (!response.ok) {
+            return { ok: false, error: `${url} responded ${response.status}` };
+        }
+
+        const declaredLength = parseInt(response.headers.get("content-length") || "");
+        if (declaredLength > maxBytes) {
+            controller.abort();
+            return { ok: false, error: `${url} payload exceeds ${maxBytes} bytes` };
+        }
+
+        const body = await readLimited(response, maxBytes);
+        if (body === null) {
+            controller.abort();
+            return { ok: false, error: `${url} payload exceeds ${maxBytes} bytes` };
+        }
+
+        return { ok: true, text: new TextDecoder().decode(body), bytes: body, url };
+    } catch (error) {
+        const reason = controller.signal.aborted ? `timed out after ${timeoutMs}ms` : (error as Error).message;
+        return { ok: false, error: `${url} ${reason}` };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Reads a response body, giving up once it grows past `maxBytes`
+ *
+ * @returns The body bytes, or null if the limit was exceeded
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+    if (!response.body) return new Uint8Array();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return body;
+}
+
+// =============================================================================
+// Disk Cache
+// =============================================================================
+
+/** Stored form of a cached document, with the body bytes in base64 */
+interface DiskEntry {
+    document: { ok: true; text: string; bytes: string; url: string | null } | { ok: false; error: string };
+    expiresAt: number;
+}
+
+/** File path for a URI's cache entry (URIs can be long, so hash them) */
+function diskCachePath(cacheDir: string, uri: string): string {
+    const hash = createHash("sha256").update(uri).digest("hex");
+    return path.join(cacheDir, `${hash}.json`);
+}
+
+async function readDiskCache(cacheDir: string, uri: string): Promise<ResolvedDocument | null> {
+    try {
+        const { document, expiresAt } = JSON.parse(await readFile(diskCachePath(cacheDir, uri), "utf8")) as DiskEntry;
+        if (expiresAt <= Date.now()) return null;
+        return document.ok ? { ...document, bytes: Buffer.from(document.bytes, "base64") } : document;
+    } catch {
+        return null;
+    }
+}
+
+async function writeDiskCache(cacheDir: string, uri: string, document: ResolvedDocument): Promise<void> {
+    const entry: DiskEntry = {
+        document: document.ok ? { ...document, bytes: Buffer.from(document.bytes).toString("base64") } : document,
+        expiresAt: Date.now() + (document.ok ? SUCCESS_TTL_MS : FAILURE_TTL_MS),
+    };
+    try {
+        await mkdir(cacheDir, { recursive: true });
+        await writeFile(diskCachePath(cacheDir, uri), JSON.stringify(entry));
+    } catch {
+        // The disk cache is best-effort; the in-memory cache still applies
+    }
+}
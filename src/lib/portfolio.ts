@@ -0,0 +1,63 @@
+/**
+ * Owner portfolio aggregation
+ *
+ * Summarizes the agents a wallet owns: how much feedback they have received
+ * and which kinds of endpoints they expose. Used by the owner page.
+ */
+
+import type { Agent } from "./subgraph";
+
+/**
+ * Number of agents exposing one kind of endpoint
+ */
+export interface EndpointCoverage {
+    name: string; // Endpoint type, as in the registration file ("MCP", "A2A", ...)
+    count: number;
+}
+
+/**
+ * Aggregates over an owner's agents
+ */
+export interface PortfolioSummary {
+    agents: number;
+    totalFeedback: number;
+    reviewedAgents: number; // Agents with at least one review
+    activeAgents: number; // Agents whose registration file says `active: true`
+    withEndpoint: number; // Agents with at least one endpoint of any kind
+    endpointCoverage: EndpointCoverage[]; // Most common first
+    chains: { chainId: string; count: number }[];
+}
+
+/** Endpoint types always listed in the coverage, even when no agent has them */
+const CORE_ENDPOINTS = ["MCP", "A2A", "ENS", "DID", "agentWallet"];
+
+/**
+ * Computes portfolio aggregates for a list of agents
+ */
+export function summarizePortfolio(agents: Agent[]): PortfolioSummary {
+    const coverage = new Map<string, number>(CORE_ENDPOINTS.map((name) => [name, 0]));
+    const chains = new Map<string, number>();
+
+    for (const agent of agents) {
+        // Count each endpoint type once per agent, matching names case-insensitively
+        const names = new Set(
+            (agent.registrationFile?.endpoints ?? []).map(
+                (e) => CORE_ENDPOINTS.find((core) => core.toLowerCase() === e.name.toLowerCase()) ?? e.name
+            )
+        );
+        names.forEach((name) => coverage.set(name, (coverage.get(name) ?? 0) + 1));
+        chains.set(agent.chainId, (chains.get(agent.chainId) ?? 0) + 1);
+    }
+
+    return {
+        agents: agents.length,
+        totalFeedback: agents.reduce((sum, a) => sum + parseInt(a.totalFeedback), 0),
+        reviewedAgents: agents.filter((a) => parseInt(a.totalFeedback) > 0).length,
+        activeAgents: agents.filter((a) => a.registrationFile?.active === true).length,
+        withEndpoint: agents.filter((a) => (a.registrationFile?.endpoints.length ?? 0) > 0).length,
+        endpointCoverage: [...coverage.entries()]
+            .map(([name, count]) => ({ name, count }))
+            .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+        chains: [...chains.entries()].map(([chainId, count]) => ({ chainId, count })),
+    };
+}
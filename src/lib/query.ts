@@ -0,0 +1,418 @@
+/**
+ * Typed query builder for subgraph filters
+ *
+ * Turns the app-level filter objects into The Graph `where` inputs. The result
+ * is sent as a GraphQL variable (never interpolated into the query string), so
+ * user-supplied values such as the search text can't break or alter a query.
+ *
+ * To add a new listing filter, extend `AgentFilters` and add one condition to
+ * `buildAgentWhere` — every query that lists or counts agents picks it up.
+ * Listing orders are declared in `AGENT_SORT_ORDER`.
+ */
+
+import type { AgentCursor } from "./cursor";
+import { isAddress } from "./registration";
+import type { AgentScores } from "./scores";
+
+// =============================================================================
+// Filter Types
+// =============================================================================
+
+/**
+ * Filter options for fetching agents
+ */
+export interface AgentFilters {
+    search?: string; // Search by agent name, ENS name, or owner or agent wallet address
+    searchAddress?: string; // Address the search text resolves to as an ENS name
+    searchMatches?: string[]; // Agent IDs the search index matched, most relevant first (see `search.ts`)
+    hasReviews?: boolean; // Only agents with reviews
+    hasEndpoint?: boolean; // Only agents with MCP or A2A endpoint
+    protocol?: AgentProtocol; // Only agents with an endpoint for this protocol
+    trustModel?: string; // Only agents declaring this trust model (e.g. "tee-attestation")
+    hasValidations?: boolean; // Only agents with at least one validator response
+    owner?: string; // Only agents owned by this address
+    createdFrom?: string; // Unix timestamp, inclusive
+    createdTo?: string; // Unix timestamp, inclusive
+    minReviews?: number; // Feedback count (the subgraph's, which includes revoked entries)
+    minScore?: number; // Average score of non-revoked feedback, 0-100; needs the score aggregate
+}
+
+/**
+ * Agent endpoint protocols the listing can filter by
+ */
+export type AgentProtocol = "mcp" | "a2a";
+
+/**
+ * Orderings for the agent listing
+ *
+ * "score" orders by average feedback score, which the subgraph doesn't store;
+ * it is served from a precomputed aggregate (see `scores.ts`). "relevance"
+ * orders search results by the search index's ranking (see `search.ts`).
+ */
+export type AgentSort = "newest" | "oldest" | "reviews" | "updated" | "name" | "score" | "relevance";
+
+/**
+ * Listing sorts the subgraph can't order by, ranked by the app instead
+ */
+export type RankedAgentSort = "score" | "relevance";
+
+/**
+ * Whether a sort is ranked by the app rather than ordered by the subgraph
+ */
+export function isRankedSort(sort: AgentSort): sort is RankedAgentSort {
+    return sort === "score" || sort === "relevance";
+}
+
+/** Default listing sort */
+export const DEFAULT_AGENT_SORT: AgentSort = "newest";
+
+/**
+ * Agent fields a listing cursor can be keyed on
+ *
+ * Only direct numeric fields qualify: the nested name sorts agents without an
+ * indexed registration file last, which a cursor condition can't express.
+ */
+export type CursorField = "createdAt" | "updatedAt" | "totalFeedback";
+
+/**
+ * Subgraph `orderBy`/`orderDirection` arguments for the agent listing
+ */
+export interface AgentOrder {
+    orderBy: CursorField | "registrationFile__name";
+    orderDirection: "asc" | "desc";
+}
+
+/**
+ * Subgraph ordering for each listing sort that the subgraph can order by
+ *
+ * Ties are broken by ID in the same direction.
+ */
+export const AGENT_SORT_ORDER: Record<Exclude<AgentSort, RankedAgentSort>, AgentOrder> = {
+    newest: { orderBy: "createdAt", orderDirection: "desc" },
+    oldest: { orderBy: "createdAt", orderDirection: "asc" },
+    reviews: { orderBy: "totalFeedback", orderDirection: "desc" },
+    updated: { orderBy: "updatedAt", orderDirection: "desc" },
+    name: { orderBy: "registrationFile__name", orderDirection: "asc" },
+};
+
+/**
+ * Returns the field cursors are keyed on for a sort, or null if the sort is
+ * only paged by offset
+ */
+export function getCursorField(sort: AgentSort): CursorField | null {
+    if (isRankedSort(sort)) return null;
+    const { orderBy } = AGENT_SORT_ORDER[sort];
+    return orderBy === "registrationFile__name" ? null : orderBy;
+}
+
+/**
+ * Filter options for an agent's feedback list
+ */
+export interface FeedbackFilters {
+    minScore?: number; // Inclusive, 0-100
+    maxScore?: number; // Inclusive, 0-100
+    tag1?: string;
+    tag2?: string;
+    capability?: string; // From the feedback file
+    skill?: string; // From the feedback file
+    reviewer?: string; // Client address
+    from?: string; // Unix timestamp, inclusive
+    to?: string; // Unix timestamp, inclusive
+    includeRevoked?: boolean; // Revoked feedback is hidden unless set
+}
+
+/**
+ * Orderings for an agent's feedback list
+ */
+export type FeedbackSort = "newest" | "highest" | "lowest";
+
+/**
+ * Subgraph `orderBy`/`orderDirection` arguments for a feedback list
+ */
+export interface FeedbackOrder {
+    orderBy: "createdAt" | "score";
+    orderDirection: "asc" | "desc";
+}
+
+/**
+ * Subgraph ordering for each feedback sort
+ */
+export const FEEDBACK_SORT_ORDER: Record<FeedbackSort, FeedbackOrder> = {
+    newest: { orderBy: "createdAt", orderDirection: "desc" },
+    highest: { orderBy: "score", orderDirection: "desc" },
+    lowest: { orderBy: "score", orderDirection: "asc" },
+};
+
+// =============================================================================
+// Where Input Types
+// =============================================================================
+
+/**
+ * Subset of the subgraph's `AgentRegistrationFile_filter` input used by the app
+ */
+export interface RegistrationFileWhere {
+    name_contains_nocase?: string;
+    ens_contains_nocase?: string;
+    agentWallet_contains_nocase?: string;
+    supportedTrusts_contains?: string[];
+    mcpEndpoint_not?: null;
+    a2aEndpoint_not?: null;
+}
+
+/**
+ * Subset of the subgraph's `Validation_filter` input used by the app
+ */
+export interface ValidationWhere {
+    response_not?: null;
+}
+
+/**
+ * Subset of the subgraph's `Agent_filter` input used by the app
+ *
+ * BigInt fields take string values, matching how the subgraph returns them.
+ */
+export interface AgentWhere {
+    and?: AgentWhere[];
+    or?: AgentWhere[];
+    id_gt?: string;
+    id_lt?: string;
+    id_in?: string[];
+    createdAt?: string;
+    createdAt_gt?: string;
+    createdAt_lt?: string;
+    createdAt_gte?: string;
+    createdAt_lte?: string;
+    updatedAt?: string;
+    updatedAt_gt?: string;
+    updatedAt_lt?: string;
+    totalFeedback?: string;
+    totalFeedback_gt?: string;
+    totalFeedback_lt?: string;
+    totalFeedback_gte?: string;
+    owner?: string;
+    registrationFile_?: RegistrationFileWhere;
+    validations_?: ValidationWhere;
+}
+
+/**
+ * Subset of the subgraph's `FeedbackFile_filter` input used by the app
+ */
+export interface FeedbackFileWhere {
+    capability?: string;
+    skill?: string;
+}
+
+/**
+ * Subset of the subgraph's `Feedback_filter` input used by the app
+ */
+export interface FeedbackWhere {
+    and?: FeedbackWhere[];
+    or?: FeedbackWhere[];
+    id_gt?: string;
+    agent?: string; // Agent ID
+    isRevoked?: boolean;
+    score_gte?: number;
+    score_lte?: number;
+    tag1?: string;
+    tag2?: string;
+    clientAddress?: string;
+    createdAt_gte?: string;
+    createdAt_lte?: string;
+    feedbackFile_?: FeedbackFileWhere;
+}
+
+/**
+ * Subset of the `AgentURIUpdate_filter` and `AgentTransfer_filter` inputs used by the app
+ */
+export interface AgentEventWhere {
+    and?: AgentEventWhere[];
+    id_gt?: string;
+    agent?: string; // Agent ID
+}
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+/**
+ * Combines conditions into a single where input
+ *
+ * The Graph doesn't allow mixing 'or' with other filters at the same level,
+ * so each condition stays in its own object and multiple conditions are
+ * joined with 'and'.
+ *
+ * @returns The combined input, or undefined when there are no conditions
+ */
+export function combineWhere<T extends { and?: T[] }>(conditions: T[]): T | undefined {
+    if (conditions.length === 0) return undefined;
+    if (conditions.length === 1) return conditions[0];
+    return { and: conditions } as T;
+}
+
+/**
+ * Builds the `Agent_filter` where input for the given filters
+ *
+ * The subgraph has no average score field, so `minScore` becomes an `id_in`
+ * list of the agents whose precomputed average is high enough.
+ *
+ * @param filters - Optional listing filters
+ * @param scores - Average score aggregate of the queried agents, required with `minScore`
+ * @returns Where input to pass as the `$where` variable, or undefined for no filtering
+ */
+export function buildAgentWhere(filters?: AgentFilters, scores?: AgentScores): AgentWhere | undefined {
+    const conditions: AgentWhere[] = [];
+
+    if (filters?.search) {
+        const search = filters.search;
+        const terms: AgentWhere[] = [
+            { registrationFile_: { name_contains_nocase: search } },
+            { registrationFile_: { ens_contains_nocase: search } },
+        ];
+        // Agents the search index matched (by description, skills and so on, with typos)
+        if (filters.searchMatches) {
+            terms.push({ id_in: [...filters.searchMatches].sort() });
+        }
+        // Address searches (typed, or resolved from an ENS name) match the owner or the agent's wallet
+        const address = isAddress(search) ? search : filters.searchAddress;
+        if (address) {
+            terms.push(
+                { owner: address.toLowerCase() },
+                // Wallets keep the case of the registration file; a full address only contains itself
+                { registrationFile_: { agentWallet_contains_nocase: address } }
+            );
+        }
+        conditions.push({ or: terms });
+    }
+
+    if (filters?.hasReviews) {
+        conditions.push({ totalFeedback_gt: "0" });
+    }
+
+    if (filters?.hasEndpoint) {
+        // Agents that have either an MCP or an A2A endpoint
+        conditions.push({
+            or: [{ registrationFile_: { mcpEndpoint_not: null } }, { registrationFile_: { a2aEndpoint_not: null } }],
+        });
+    }
+
+    if (filters?.protocol) {
+        conditions.push({
+            registrationFile_: filters.protocol === "mcp" ? { mcpEndpoint_not: null } : { a2aEndpoint_not: null },
+        });
+    }
+
+    if (filters?.trustModel) {
+        conditions.push({ registrationFile_: { supportedTrusts_contains: [filters.trustModel] } });
+    }
+
+    if (filters?.hasValidations) {
+        // Pending requests aren't evidence yet; a validator must have responded
+        conditions.push({ validations_: { response_not: null } });
+    }
+
+    if (filters?.owner) {
+        // Addresses are stored lowercase
+        conditions.push({ owner: filters.owner.toLowerCase() });
+    }
+
+    if (filters?.createdFrom) {
+        conditions.push({ createdAt_gte: filters.createdFrom });
+    }
+
+    if (filters?.createdTo) {
+        conditions.push({ createdAt_lte: filters.createdTo });
+    }
+
+    if (filters?.minReviews !== undefined) {
+        conditions.push({ totalFeedback_gte: String(filters.minReviews) });
+    }
+
+    if (filters?.minScore !== undefined) {
+        if (!scores) {
+            throw new Error("The minScore filter needs the average score aggregate");
+        }
+        const minScore = filters.minScore;
+        const ids = [...scores].filter(([, score]) => score.average >= minScore).map(([id]) => id);
+        conditions.push({ id_in: ids.sort() });
+    }
+
+    return combineWhere(conditions);
+}
+
+/**
+ * Builds the where condition selecting agents past a cursor
+ *
+ * Matches the listing order (the sort field, then id). For the default
+ * newest-first order, that is strictly older agents, or agents created in the
+ * same second with a lower ID. "before" cursors and ascending sorts flip both
+ * comparisons.
+ *
+ * @param sort - Listing sort the cursor was created for (default: newest first)
+ */
+export function buildCursorWhere(cursor: AgentCursor, sort: AgentSort = DEFAULT_AGENT_SORT): AgentWhere {
+    const field = getCursorField(sort);
+    if (!field) {
+        throw new RangeError(`Cursors aren't supported for the "${sort}" sort`);
+    }
+
+    const { value, id } = cursor.key;
+    const descending = AGENT_SORT_ORDER[sort as Exclude<AgentSort, RankedAgentSort>].orderDirection === "desc";
+    const op = (cursor.direction === "after") === descending ? "lt" : "gt";
+    return { or: [{ [`${field}_${op}`]: value }, { [field]: value, [`id_${op}`]: id }] };
+}
+
+/**
+ * Builds the `Feedback_filter` where input for an agent's feedback list
+ *
+ * The agent itself isn't part of the input: the list is selected through the
+ * agent's `feedback` field, which already scopes it.
+ *
+ * @param filters - Optional feedback filters
+ * @returns Where input, or undefined for no filtering
+ */
+export function buildFeedbackWhere(filters?: FeedbackFilters): FeedbackWhere | undefined {
+    const conditions: FeedbackWhere[] = [];
+
+    if (!filters?.includeRevoked) {
+        conditions.push({ isRevoked: false });
+    }
+
+    if (filters?.minScore !== undefined) {
+        conditions.push({ score_gte: filters.minScore });
+    }
+
+    if (filters?.maxScore !== undefined) {
+        conditions.push({ score_lte: filters.maxScore });
+    }
+
+    if (filters?.tag1) {
+        conditions.push({ tag1: filters.tag1 });
+    }
+
+    if (filters?.tag2) {
+        conditions.push({ tag2: filters.tag2 });
+    }
+
+    if (filters?.capability) {
+        conditions.push({ feedbackFile_: { capability: filters.capability } });
+    }
+
+    if (filters?.skill) {
+        conditions.push({ feedbackFile_: { skill: filters.skill } });
+    }
+
+    if (filters?.reviewer) {
+        // Addresses are stored lowercase
+        conditions.push({ clientAddress: filters.reviewer.toLowerCase() });
+    }
+
+    if (filters?.from) {
+        conditions.push({ createdAt_gte: filters.from });
+    }
+
+    if (filters?.to) {
+        conditions.push({ createdAt_lte: filters.to });
+    }
+
+    return combineWhere(conditions);
+}
@@ -0,0 +1,260 @@
+/**
+ * ERC-8004 registration file model
+ *
+ * An agent's URI points to a registration file describing the agent: its
+ * name and description, an `endpoints` array (MCP, A2A, ENS, DID, agentWallet,
+ * OASF, ...), the registries it is registered in across chains, and the trust
+ * models it supports.
+ *
+ * The same data reaches us in two shapes: the raw JSON file (resolved by the
+ * explorer) and the subgraph's flattened `AgentRegistrationFile` entity. This
+ * module normalizes both into `RegistrationFile`.
+ *
+ * Spec: https://eips.ethereum.org/EIPS/eip-8004#identity-registry
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single entry of the registration file's `endpoints` array
+ */
+export interface AgentEndpoint {
+    name: string; // e.g. "MCP", "A2A", "ENS", "DID", "agentWallet", "OASF"
+    endpoint: string; // URL, name, DID or CAIP-10 account depending on the type
+    version: string | null;
+}
+
+/**
+ * A registration of the same agent in an identity registry (possibly on another chain)
+ */
+export interface AgentRegistration {
+    agentId: string; // Token ID in that registry
+    agentRegistry: string; // CAIP-10 style "eip155:<chainId>:<registryAddress>"
+}
+
+/**
+ * Normalized registration file
+ *
+ * The flat endpoint fields (mcpEndpoint, ens, ...) mirror the subgraph entity
+ * and are derived from `endpoints` when parsing a raw file, so callers can use
+ * whichever is more convenient.
+ */
+export interface RegistrationFile {
+    type: string | null; // Registration file schema identifier
+    name: string | null;
+    description: string | null;
+    image: string | null;
+    active: boolean | null;
+    x402support: boolean | null;
+    supportedTrusts: string[] | null;
+    endpoints: AgentEndpoint[];
+    registrations: AgentRegistration[];
+    mcpEndpoint: string | null;
+    mcpVersion: string | null;
+    mcpTools: string[] | null;
+    mcpPrompts: string[] | null;
+    mcpResources: string[] | null;
+    a2aEndpoint: string | null;
+    a2aVersion: string | null;
+    a2aSkills: string[] | null;
+    ens: string | null;
+    did: string | null;
+    agentWallet: string | null; // Wallet address
+    agentWalletChainId: string | null;
+}
+
+/**
+ * Registration file fields as selected from the subgraph
+ */
+export type SubgraphRegistrationFile = Omit<RegistrationFile, "type" | "endpoints" | "registrations">;
+
+/**
+ * GraphQL selection set for the subgraph's `AgentRegistrationFile` entity
+ *
+ * Kept next to `SubgraphRegistrationFile` so the two stay in sync.
+ */
+export const REGISTRATION_FILE_FIELDS = `
+          name
+          description
+          image
+          active
+          x402support
+          supportedTrusts
+          mcpEndpoint
+          mcpVersion
+          mcpTools
+          mcpPrompts
+          mcpResources
+          a2aEndpoint
+          a2aVersion
+          a2aSkills
+          ens
+          did
+          agentWallet
+          agentWalletChainId`;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Maps a parsed registration JSON document to our RegistrationFile structure
+ *
+ * Accepts the current spec (`endpoints`, `supportedTrust`) as well as older
+ * or alternative spellings seen in the wild (`services`, `supportedTrusts`,
+ * top-level `mcpEndpoint`/`a2aEndpoint`).
+ */
+export function parseRegistrationFile(metadata: unknown): RegistrationFile | null {
+    if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return null;
+    const raw = metadata as Record<string, unknown>;
+
+    const rawEndpoints = Array.isArray(raw.endpoints) ? raw.endpoints : Array.isArray(raw.services) ? raw.services : [];
+    const entries = rawEndpoints.filter((e): e is Record<string, unknown> => !!e && typeof e === "object");
+    const endpoints = entries
+        .map((e) => ({ name: asString(e.name), endpoint: asString(e.endpoint), version: asString(e.version) }))
+        .filter((e): e is AgentEndpoint => e.name !== null && e.endpoint !== null);
+
+    const mcp = findEntry(entries, "MCP");
+    const a2a = findEntry(entries, "A2A");
+    const wallet = parseCaip10(asString(findEntry(entries, "agentWallet")?.endpoint));
+
+    const file: RegistrationFile = {
+        type: asString(raw.type),
+        name: asString(raw.name),
+        description: asString(raw.description),
+        image: asString(raw.image),
+        active: typeof raw.active === "boolean" ? raw.active : null,
+        x402support: typeof raw.x402support === "boolean" ? raw.x402support : null,
+        supportedTrusts: asStringArray(raw.supportedTrust ?? raw.supportedTrusts),
+        endpoints,
+        registrations: parseRegistrations(raw.registrations),
+        mcpEndpoint: asString(mcp?.endpoint) ?? asString(raw.mcpEndpoint),
+        mcpVersion: asString(mcp?.version),
+        mcpTools: asStringArray(mcp?.mcpTools),
+        mcpPrompts: asStringArray(mcp?.mcpPrompts),
+        mcpResources: asStringArray(mcp?.mcpResources),
+        a2aEndpoint: asString(a2a?.endpoint) ?? asString(raw.a2aEndpoint),
+        a2aVersion: asString(a2a?.version),
+        a2aSkills: asStringArray(a2a?.a2aSkills),
+        ens: asString(findEntry(entries, "ENS")?.endpoint),
+        did: asString(findEntry(entries, "DID")?.endpoint),
+        agentWallet: wallet?.address ?? null,
+        agentWalletChainId: wallet?.chainId ?? null,
+    };
+
+    // Files that only use the legacy top-level fields still get an endpoints list
+    if (endpoints.length === 0) {
+        file.endpoints = buildEndpoints(file);
+    }
+
+    return file;
+}
+
+/**
+ * Normalizes the subgraph's flattened registration file entity
+ *
+ * The subgraph doesn't index the `endpoints` array or `registrations`, so the
+ * endpoints list is rebuilt from the flat fields and registrations are left
+ * empty (use `mergeRegistrationFiles` with the resolved file to fill them).
+ */
+export function fromSubgraphRegistrationFile(file: SubgraphRegistrationFile): RegistrationFile {
+    const normalized: RegistrationFile = { ...file, type: null, endpoints: [], registrations: [] };
+    normalized.endpoints = buildEndpoints(normalized);
+    return normalized;
+}
+
+/**
+ * Combines the subgraph's view of a registration file with the raw file
+ *
+ * Subgraph values win where both have one (they are what the rest of the app
+ * filters on); the raw file contributes what the subgraph doesn't index, such
+ * as registrations and endpoint types beyond MCP/A2A/ENS/DID/wallet.
+ */
+export function mergeRegistrationFiles(indexed: RegistrationFile, resolved: RegistrationFile | null): RegistrationFile {
+    if (!resolved) return indexed;
+
+    const merged = { ...resolved } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(indexed)) {
+        if (value !== null && key !== "endpoints" && key !== "registrations") merged[key] = value;
+    }
+
+    const seen = new Set(indexed.endpoints.map((e) => `${e.name.toLowerCase()}|${e.endpoint}`));
+    const extraEndpoints = resolved.endpoints.filter((e) => !seen.has(`${e.name.toLowerCase()}|${e.endpoint}`));
+
+    return {
+        ...(merged as unknown as RegistrationFile),
+        endpoints: [...indexed.endpoints, ...extraEndpoints],
+        registrations: indexed.registrations.length > 0 ? indexed.registrations : resolved.registrations,
+    };
+}
+
+/**
+ * Parses a CAIP-10 style "eip155:<chainId>:<address>" identifier
+ *
+ * @returns The parts, or null if the value isn't in that format
+ */
+export function parseCaip10(value: string | null): { chainId: string; address: string } | null {
+    if (!value) return null;
+    const match = value.match(/^eip155:(\d+):(0x[0-9a-fA-F]{40})$/);
+    if (match) return { chainId: match[1], address: match[2] };
+    // Plain addresses are accepted too, with no chain
+    if (isAddress(value)) return { chainId: "", address: value };
+    return null;
+}
+
+/**
+ * Checks whether a value is a 0x-prefixed 20-byte hex address (any case)
+ */
+export function isAddress(value: string): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Rebuilds the endpoints list from the flat endpoint fields */
+function buildEndpoints(file: RegistrationFile): AgentEndpoint[] {
+    const endpoints: AgentEndpoint[] = [];
+    if (file.mcpEndpoint) endpoints.push({ name: "MCP", endpoint: file.mcpEndpoint, version: file.mcpVersion });
+    if (file.a2aEndpoint) endpoints.push({ name: "A2A", endpoint: file.a2aEndpoint, version: file.a2aVersion });
+    if (file.ens) endpoints.push({ name: "ENS", endpoint: file.ens, version: null });
+    if (file.did) endpoints.push({ name: "DID", endpoint: file.did, version: null });
+    if (file.agentWallet) {
+        const endpoint = file.agentWalletChainId
+            ? `eip155:${file.agentWalletChainId}:${file.agentWallet}`
+            : file.agentWallet;
+        endpoints.push({ name: "agentWallet", endpoint, version: null });
+    }
+    return endpoints;
+}
+
+/** Finds an endpoints entry by type name (case-insensitive) */
+function findEntry(entries: Record<string, unknown>[], name: string): Record<string, unknown> | undefined {
+    return entries.find((e) => typeof e.name === "string" && e.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Parses the `registrations` array, skipping malformed entries */
+function parseRegistrations(value: unknown): AgentRegistration[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((r): r is Record<string, unknown> => !!r && typeof r === "object")
+        .map((r) => ({
+            agentId: typeof r.agentId === "number" ? String(r.agentId) : asString(r.agentId),
+            agentRegistry: asString(r.agentRegistry),
+        }))
+        .filter((r): r is AgentRegistration => r.agentId !== null && r.agentRegistry !== null);
+}
+
+/** Returns the value if it is a non-empty string, otherwise null */
+function asString(value: unknown): string | null {
+    return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/** Returns the string items of an array, or null if the value isn't an array */
+function asStringArray(value: unknown): string[] | null {
+    if (!Array.isArray(value)) return null;
+    return value.filter((item): item is string => typeof item === "string");
+}
@@ -0,0 +1,293 @@
+/**
+ * Reputation aggregation for agents and reviewers
+ *
+ * Summarizes all of an agent's non-revoked feedback: mean and median score,
+ * a score histogram, a trend over time and a breakdown by tag. The detail
+ * page used to average only the latest 50 reviews, which disagreed with the
+ * agent's `totalFeedback` on busy agents; these aggregates cover every entry.
+ *
+ * Reviewer profiles get a smaller summary of the feedback a wallet has given.
+ */
+
+import { createTtlCache } from "./cache";
+import { getDataSource } from "./dataSource";
+import type { Feedback } from "./subgraph";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Number of reviews whose score falls in [min, max]
+ */
+export interface ScoreBucket {
+    min: number;
+    max: number;
+    count: number;
+}
+
+/**
+ * Reviews received in one period of the trend
+ */
+export interface TrendPoint {
+    start: number; // Unix timestamp of the period start (UTC)
+    count: number;
+    mean: number;
+}
+
+/**
+ * Reviews carrying one tag
+ */
+export interface TagStat {
+    tag: string;
+    count: number;
+    mean: number;
+}
+
+/** Length of each trend period, chosen from the span of the feedback */
+export type TrendInterval = "day" | "week" | "month";
+
+/**
+ * Aggregated reputation of an agent
+ */
+export interface ReputationSummary {
+    count: number;
+    mean: number | null; // null when there is no feedback
+    median: number | null;
+    histogram: ScoreBucket[];
+    trendInterval: TrendInterval;
+    trend: TrendPoint[];
+    tag1: TagStat[]; // Most used first
+    tag2: TagStat[];
+}
+
+/**
+ * Aggregates over the feedback a reviewer has given
+ */
+export interface ReviewerSummary {
+    count: number; // Including revoked
+    revoked: number;
+    mean: number | null; // Average score given, over non-revoked feedback
+    agentsReviewed: number;
+    firstReviewAt: string | null; // Unix timestamp
+    lastReviewAt: string | null;
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/** How long a computed summary stays cached */
+const REPUTATION_TTL_MS = 5 * 60 * 1000;
+
+const feedbackCache = createTtlCache<Promise<Feedback[]>>(REPUTATION_TTL_MS);
+const reputationCache = createTtlCache<Promise<ReputationSummary>>(REPUTATION_TTL_MS);
+
+/**
+ * Loads all non-revoked feedback of an agent
+ *
+ * Shared by reputation summaries and the activity timeline, so the detail
+ * page walks an agent's feedback once. Cached like summaries.
+ *
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ */
+export function fetchActiveFeedback(agentId: string): Promise<Feedback[]> {
+    const cached = feedbackCache.get(agentId);
+    if (cached) return cached;
+
+    const promise = getDataSource()
+        .fetchAgentFeedback(agentId)
+        .catch((error) => {
+            feedbackCache.delete(agentId);
+            throw error;
+        });
+
+    feedbackCache.set(agentId, promise);
+    return promise;
+}
+
+/**
+ * Loads all feedback of an agent and summarizes it
+ *
+ * Summaries are cached per agent; concurrent requests share one load.
+ * Failed loads aren't cached.
+ *
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ */
+export function fetchReputation(agentId: string): Promise<ReputationSummary> {
+    const cached = reputationCache.get(agentId);
+    if (cached) return cached;
+
+    const promise = fetchActiveFeedback(agentId)
+        .then((feedback) => summarizeReputation(feedback))
+        .catch((error) => {
+            reputationCache.delete(agentId);
+            throw error;
+        });
+
+    reputationCache.set(agentId, promise);
+    return promise;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/** Width of each histogram bucket; the last bucket also holds 100 */
+const HISTOGRAM_BUCKET_SIZE = 10;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Computes reputation aggregates from a list of feedback entries
+ *
+ * Callers are expected to pass non-revoked feedback only. Scores outside
+ * 0-100 are clamped.
+ */
+export function summarizeReputation(feedback: Feedback[]): ReputationSummary {
+    const scores = feedback.map((f) => clampScore(parseInt(f.score)));
+    const trendInterval = chooseTrendInterval(feedback);
+
+    return {
+        count: feedback.length,
+        mean: scores.length > 0 ? average(scores) : null,
+        median: scores.length > 0 ? median(scores) : null,
+        histogram: buildHistogram(scores),
+        trendInterval,
+        trend: buildTrend(feedback, trendInterval),
+        tag1: buildTagStats(feedback, (f) => f.tag1),
+        tag2: buildTagStats(feedback, (f) => f.tag2),
+    };
+}
+
+/**
+ * Computes reviewer aggregates from every feedback entry a wallet has given
+ *
+ * Revocations are counted separately and left out of the average, matching
+ * how agent reputation ignores revoked feedback.
+ */
+export function summarizeReviewer(feedback: (Feedback & { agent: { id: string } })[]): ReviewerSummary {
+    const active = feedback.filter((f) => !f.isRevoked);
+    const range = feedback.length > 0 ? getTimeRange(feedback) : null;
+
+    return {
+        count: feedback.length,
+        revoked: feedback.length - active.length,
+        mean: active.length > 0 ? average(active.map((f) => clampScore(parseInt(f.score)))) : null,
+        agentsReviewed: new Set(feedback.map((f) => f.agent.id)).size,
+        firstReviewAt: range ? String(range.first) : null,
+        lastReviewAt: range ? String(range.last) : null,
+    };
+}
+
+/**
+ * Checks if a string contains readable text (not garbled bytes)
+ * Some tags in the subgraph contain binary data that displays as garbage
+ */
+export function isReadableText(str: string | null): boolean {
+    if (!str) return false;
+    const nonReadable = str.split("").filter((c) => c.charCodeAt(0) < 32 || c.charCodeAt(0) > 126).length;
+    return nonReadable / str.length < 0.3;
+}
+
+/** Counts scores per bucket: 0-9, 10-19, ..., 90-100 */
+export function buildHistogram(scores: number[]): ScoreBucket[] {
+    const buckets: ScoreBucket[] = [];
+    for (let min = 0; min < 100; min += HISTOGRAM_BUCKET_SIZE) {
+        const max = min + HISTOGRAM_BUCKET_SIZE >= 100 ? 100 : min + HISTOGRAM_BUCKET_SIZE - 1;
+        buckets.push({ min, max, count: 0 });
+    }
+    for (const score of scores) {
+        const index = Math.min(Math.floor(score / HISTOGRAM_BUCKET_SIZE), buckets.length - 1);
+        buckets[index].count++;
+    }
+    return buckets;
+}
+
+/**
+ * Picks a period length giving a readable number of trend points
+ *
+ * Daily for feedback spanning up to a month, weekly up to half a year,
+ * monthly beyond that.
+ */
+function chooseTrendInterval(feedback: Feedback[]): TrendInterval {
+    if (feedback.length === 0) return "month";
+    const { first, last } = getTimeRange(feedback);
+    const span = last - first;
+    if (span <= 31 * DAY_SECONDS) return "day";
+    if (span <= 26 * 7 * DAY_SECONDS) return "week";
+    return "month";
+}
+
+/** Groups feedback into periods, oldest first; empty periods are omitted */
+function buildTrend(feedback: Feedback[], interval: TrendInterval): TrendPoint[] {
+    const periods = new Map<number, number[]>();
+    for (const f of feedback) {
+        const start = periodStart(parseInt(f.createdAt), interval);
+        const scores = periods.get(start) ?? [];
+        scores.push(clampScore(parseInt(f.score)));
+        periods.set(start, scores);
+    }
+    return [...periods.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([start, scores]) => ({ start, count: scores.length, mean: average(scores) }));
+}
+
+/** Start of the UTC day, week (Monday) or month containing a timestamp */
+export function periodStart(timestamp: number, interval: TrendInterval): number {
+    const date = new Date(timestamp * 1000);
+    if (interval === "month") {
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+    }
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+    if (interval === "day") return day;
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return day - daysSinceMonday * DAY_SECONDS;
+}
+
+/** Counts and averages feedback per tag value, skipping missing and garbled tags */
+function buildTagStats(feedback: Feedback[], getTag: (f: Feedback) => string | null): TagStat[] {
+    const tags = new Map<string, number[]>();
+    for (const f of feedback) {
+        const tag = getTag(f);
+        if (!tag || !isReadableText(tag)) continue;
+        const scores = tags.get(tag) ?? [];
+        scores.push(clampScore(parseInt(f.score)));
+        tags.set(tag, scores);
+    }
+    return [...tags.entries()]
+        .map(([tag, scores]) => ({ tag, count: scores.length, mean: average(scores) }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/** Clamps a parsed score to 0-100 (unparseable scores count as 0) */
+export function clampScore(score: number): number {
+    return Number.isNaN(score) ? 0 : Math.min(100, Math.max(0, score));
+}
+
+/**
+ * Earliest and latest creation time of a non-empty list of entries
+ *
+ * A loop rather than `Math.min(...times)`, which overflows the call stack
+ * for very long histories.
+ */
+function getTimeRange(entries: { createdAt: string }[]): { first: number; last: number } {
+    let first = Infinity;
+    let last = -Infinity;
+    for (const entry of entries) {
+        const time = parseInt(entry.createdAt);
+        if (time < first) first = time;
+        if (time > last) last = time;
+    }
+    return { first, last };
+}
+
+function average(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,110 @@
+/**
+ * Feedback response threads
+ *
+ * Responses to feedback only carry a URI on-chain; the text lives in the
+ * document behind it. This module resolves those documents (through the
+ * metadata resolver, so they share its limits and cache) and labels each
+ * reply with the responder's role: the agent's owner, the original reviewer,
+ * or neither.
+ */
+
+import { fetchMetadataDocument } from "./metadata";
+import { isReadableText } from "./reputation";
+import type { Feedback, FeedbackResponse } from "./subgraph";
+
+/**
+ * Who wrote a reply, relative to the feedback it answers
+ */
+export type ResponderRole = "owner" | "reviewer" | null;
+
+/**
+ * A response with its resolved text
+ */
+export interface ResponseReply {
+    response: FeedbackResponse;
+    role: ResponderRole;
+    text: string | null; // null when the document can't be read
+    error: string | null;
+}
+
+/** Longest reply text shown; longer documents are cut */
+const MAX_TEXT_LENGTH = 2000;
+
+/** Fields of a JSON response document that may hold the text, in order of preference */
+const TEXT_FIELDS = ["text", "response", "content", "message"];
+
+/** Response documents fetched at a time for one page of feedback */
+const FETCH_CONCURRENCY = 6;
+
+/**
+ * Resolves the replies to a page of feedback
+ *
+ * Documents are fetched `FETCH_CONCURRENCY` at a time, so a page full of
+ * replies doesn't hit the gateways all at once.
+ *
+ * @param feedback - Feedback entries loaded with their responses
+ * @param owner - Address of the agent's owner
+ * @returns Replies per feedback ID, oldest first; entries without responses are left out
+ */
+export async function loadResponseThreads(feedback: Feedback[], owner: string): Promise<Map<string, ResponseReply[]>> {
+    const pending = feedback.flatMap((f) => (f.responses ?? []).map((response) => ({ feedback: f, response })));
+    const texts: { text: string | null; error: string | null }[] = new Array(pending.length);
+
+    // Each worker takes the next unresolved response until none are left
+    let next = 0;
+    const worker = async () => {
+        while (next < pending.length) {
+            const index = next++;
+            texts[index] = await resolveResponseText(pending[index].response.responseUri);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, pending.length) }, worker));
+
+    const threads = new Map<string, ResponseReply[]>();
+    pending.forEach(({ feedback: f, response }, index) => {
+        const reply = { response, role: getResponderRole(response.responder, owner, f.clientAddress), ...texts[index] };
+        threads.set(f.id, [...(threads.get(f.id) ?? []), reply]);
+    });
+    return threads;
+}
+
+/**
+ * Reads the text of a response document
+ *
+ * JSON documents are searched for a text field; anything else is shown as
+ * plain text if it is readable.
+ */
+export async function resolveResponseText(uri: string | null): Promise<{ text: string | null; error: string | null }> {
+    if (!uri) return { text: null, error: "No response document" };
+
+    const document = await fetchMetadataDocument(uri);
+    if (!document.ok) return { text: null, error: document.error };
+
+    let text: string | null = document.text.trim();
+    try {
+        const parsed: unknown = JSON.parse(document.text);
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+            const fields = parsed as Record<string, unknown>;
+            const key = TEXT_FIELDS.find((field) => typeof fields[field] === "string");
+            text = key ? (fields[key] as string).trim() : null;
+        } else {
+            text = typeof parsed === "string" ? parsed.trim() : null;
+        }
+    } catch {
+        // Not JSON: plain text
+    }
+
+    if (!text || !isReadableText(text)) {
+        return { text: null, error: "The response document has no readable text" };
+    }
+    return {
+        text: text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}...` : text,
+        error: null,
+    };
+}
+
+function getResponderRole(responder: string, owner: string, reviewer: string): ResponderRole {
+    if (responder.toLowerCase() === owner.toLowerCase()) return "owner";
+    if (responder.toLowerCase() === reviewer.toLowerCase()) return "reviewer";
+    return null;
+}
@@ -0,0 +1,89 @@
+/**
+ * URL helpers for the review list on the agent detail page
+ *
+ * Filters, sort and page live in the URL so every view of the list can be
+ * linked and is rendered on the server. This module turns those params into
+ * the `FeedbackFilters` understood by the data sources.
+ */
+
+import { parseDate, parseScore } from "./listing";
+import type { FeedbackFilters, FeedbackSort } from "./query";
+import { isAddress } from "./registration";
+import { MAX_SKIP } from "./subgraph";
+
+/** Reviews shown per page */
+export const REVIEWS_PER_PAGE = 10;
+
+/** Deepest page reachable with `skip`-based pagination */
+export const MAX_REVIEW_PAGE = Math.floor(MAX_SKIP / REVIEWS_PER_PAGE) + 1;
+
+/** Sort options, in display order; the first is the default */
+export const REVIEW_SORTS: { value: FeedbackSort; label: string }[] = [
+    { value: "newest", label: "Newest" },
+    { value: "highest", label: "Highest score" },
+    { value: "lowest", label: "Lowest score" },
+];
+
+/** URL params of the review list */
+export const REVIEW_PARAMS = [
+    "minScore",
+    "maxScore",
+    "tag1",
+    "tag2",
+    "capability",
+    "skill",
+    "reviewer",
+    "from",
+    "to",
+    "revoked",
+    "sort",
+    "page",
+] as const;
+
+export type ReviewParams = Partial<Record<(typeof REVIEW_PARAMS)[number], string>>;
+
+/**
+ * Parsed review list state
+ */
+export interface ReviewListState {
+    filters: FeedbackFilters;
+    sort: FeedbackSort;
+    page: number;
+}
+
+/**
+ * Reads the review list state from URL params
+ *
+ * Invalid values (out-of-range scores, malformed addresses or dates) are
+ * ignored rather than rejected, so a hand-edited URL still renders.
+ */
+export function parseReviewParams(params: ReviewParams): ReviewListState {
+    const filters: FeedbackFilters = {
+        minScore: parseScore(params.minScore),
+        maxScore: parseScore(params.maxScore),
+        tag1: params.tag1?.trim() || undefined,
+        tag2: params.tag2?.trim() || undefined,
+        capability: params.capability?.trim() || undefined,
+        skill: params.skill?.trim() || undefined,
+        reviewer: isAddress(params.reviewer?.trim() ?? "") ? params.reviewer?.trim() : undefined,
+        from: parseDate(params.from, false),
+        to: parseDate(params.to, true),
+        includeRevoked: params.revoked === "true" || undefined,
+    };
+
+    const sort = REVIEW_SORTS.find((s) => s.value === params.sort)?.value ?? REVIEW_SORTS[0].value;
+    const page = Math.min(MAX_REVIEW_PAGE, Math.max(1, parseInt(params.page || "1") || 1));
+
+    return { filters: removeUndefined(filters), sort, page };
+}
+
+/**
+ * Checks whether any review filter is set
+ */
+export function hasReviewFilters(filters: FeedbackFilters): boolean {
+    return Object.values(filters).some((value) => value !== undefined);
+}
+
+function removeUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,102 @@
+/**
+ * Average score aggregate for the agent listing
+ *
+ * The subgraph stores each agent's feedback count but not its average score,
+ * so it can't order agents by score. Instead, the average over each agent's
+ * non-revoked feedback is precomputed from the feedback entries (cached by the
+ * data source), and the listing is ranked here.
+ *
+ * Ranking: agents with a score come first, highest average first; equal
+ * averages go to the agent with more reviews, then the newest. Agents without
+ * a score (no feedback, or only revoked feedback) follow, newest first.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An agent's average feedback score
+ */
+export interface AgentScore {
+    average: number; // 0-100
+    count: number; // Non-revoked feedback entries
+}
+
+/**
+ * Average scores by agent ID; agents without non-revoked feedback are absent
+ */
+export type AgentScores = Map<string, AgentScore>;
+
+/**
+ * The fields of an agent that ranking needs
+ */
+export interface RankableAgent {
+    id: string;
+    createdAt: string;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Computes the average score of every agent from its feedback
+ *
+ * @param feedback - Feedback entries with the ID of the agent they are about;
+ *   revoked entries are skipped
+ */
+export function computeAgentScores(
+    feedback: { agentId: string; score: string; isRevoked: boolean }[]
+): AgentScores {
+    const totals = new Map<string, { sum: number; count: number }>();
+    for (const entry of feedback) {
+        const score = parseInt(entry.score);
+        if (entry.isRevoked || Number.isNaN(score)) continue;
+        const total = totals.get(entry.agentId) ?? { sum: 0, count: 0 };
+        total.sum += score;
+        total.count += 1;
+        totals.set(entry.agentId, total);
+    }
+
+    const scores: AgentScores = new Map();
+    totals.forEach(({ sum, count }, agentId) => scores.set(agentId, { average: sum / count, count }));
+    return scores;
+}
+
+/**
+ * Merges the scores of several chains (agent IDs are chain-prefixed, so they can't collide)
+ */
+export function mergeAgentScores(perChain: AgentScores[]): AgentScores {
+    return new Map(perChain.flatMap((scores) => [...scores]));
+}
+
+// =============================================================================
+// Ranking
+// =============================================================================
+
+/**
+ * Orders agents by average score (see the module comment)
+ *
+ * @returns A sorted copy of `agents`
+ */
+export function rankAgentsByScore<T extends RankableAgent>(agents: T[], scores: AgentScores): T[] {
+    return [...agents].sort((a, b) => {
+        const as = scores.get(a.id);
+        const bs = scores.get(b.id);
+        if (as && bs) {
+            const diff = bs.average - as.average || bs.count - as.count;
+            if (diff !== 0) return diff;
+        } else if (as || bs) {
+            return as ? -1 : 1;
+        }
+        return compareNewestFirst(a, b);
+    });
+}
+
+/** Orders agents by creation time (newest first), breaking ties by ID */
+export function compareNewestFirst(a: RankableAgent, b: RankableAgent): number {
+    const diff = parseInt(b.createdAt) - parseInt(a.createdAt);
+    if (diff !== 0) return diff;
+    return b.id < a.id ? -1 : b.id > a.id ? 1 : 0;
+}
@@ -0,0 +1,335 @@
+/**
+ * Full-text agent search
+ *
+ * The subgraph only offers substring filters (and The Graph's fulltext
+ * search isn't available on every deployment), so the listing search runs on
+ * an in-memory index built from agents' registration files instead. The
+ * index covers the name, description, trust models, endpoint hosts and MCP
+ * tools/prompts and A2A skills; see `searchSource.ts` for where the files
+ * come from.
+ *
+ * Matching: the query is split into terms, and an agent matches when every
+ * term matches one of its words exactly, as a prefix, or with a typo or two
+ * (one edit for terms of 4+ letters, two for 8+).
+ *
+ * Ranking: BM25 over the indexed words, with words weighted by field (name
+ * highest, description lowest) and inexact matches discounted. Equal scores
+ * are ordered by agent ID.
+ */
+
+import { AgentEndpoint, RegistrationFile } from "./registration";
+import { compareNewestFirst, RankableAgent } from "./scores";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The searchable text of one agent
+ */
+export interface SearchDocument {
+    id: string; // Agent ID ("chainId:tokenId")
+    name: string | null;
+    description: string | null;
+    trusts: string[];
+    hosts: string[]; // Endpoint hostnames
+    skills: string[]; // MCP tools and prompts, A2A skills
+}
+
+/**
+ * The registration file fields a search document is built from
+ *
+ * Matches both the parsed raw file and the subgraph's indexed entity (which
+ * has no `endpoints` list).
+ */
+export type SearchableFile = Pick<
+    RegistrationFile,
+    "name" | "description" | "supportedTrusts" | "mcpEndpoint" | "a2aEndpoint" | "mcpTools" | "mcpPrompts" | "a2aSkills"
+> & { endpoints?: AgentEndpoint[] };
+
+/**
+ * An agent matching a search
+ */
+export interface SearchHit {
+    id: string;
+    score: number; // Relevance; only comparable between hits of the same search
+    terms: string[]; // Indexed words that matched, for highlighting (see `highlightText`)
+}
+
+/**
+ * Inverted index over search documents
+ */
+export interface SearchIndex {
+    /** Number of indexed documents */
+    size: number;
+    /** Agent IDs by document number */
+    ids: string[];
+    /** Word count of each document */
+    lengths: number[];
+    averageLength: number;
+    /** Weighted word frequencies by word, then document number */
+    postings: Map<string, Map<number, number>>;
+}
+
+/**
+ * A piece of text, marked if it is a matched search term
+ */
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How much a word counts towards relevance, by the field it appears in */
+const FIELD_WEIGHTS = {
+    name: 3,
+    skills: 2,
+    trusts: 1.5,
+    hosts: 1.5,
+    description: 1,
+};
+
+/** Relevance discount for a query term matching the start of a longer word */
+const PREFIX_WEIGHT = 0.75;
+
+/** Relevance discount for a query term matching a word with typos, by edit count */
+const FUZZY_WEIGHTS = [1, 0.6, 0.4];
+
+/** BM25 term frequency saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Most hits a search returns */
+export const MAX_SEARCH_RESULTS = 1000;
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+/**
+ * Builds a search document from an agent's registration file
+ *
+ * @returns The document, or null if the agent has no registration file
+ */
+export function toSearchDocument(id: string, file: SearchableFile | null): SearchDocument | null {
+    if (!file) return null;
+
+    const urls = [file.mcpEndpoint, file.a2aEndpoint, ...(file.endpoints ?? []).map((e) => e.endpoint)];
+    const hosts = new Set(urls.map(getHost).filter((host): host is string => host !== null));
+
+    return {
+        id,
+        name: file.name,
+        description: file.description,
+        trusts: file.supportedTrusts ?? [],
+        hosts: [...hosts],
+        skills: [...(file.mcpTools ?? []), ...(file.mcpPrompts ?? []), ...(file.a2aSkills ?? [])],
+    };
+}
+
+/**
+ * Builds the inverted index over a set of documents
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+    const postings = new Map<string, Map<number, number>>();
+    const lengths: number[] = [];
+
+    documents.forEach((doc, index) => {
+        const fields: [keyof typeof FIELD_WEIGHTS, string[]][] = [
+            ["name", tokenize(doc.name ?? "")],
+            ["description", tokenize(doc.description ?? "")],
+            ["trusts", doc.trusts.flatMap(tokenize)],
+            ["hosts", doc.hosts.flatMap(tokenize)],
+            ["skills", doc.skills.flatMap(tokenize)],
+        ];
+
+        let length = 0;
+        for (const [field, words] of fields) {
+            length += words.length;
+            for (const word of words) {
+                const docs = postings.get(word) ?? new Map<number, number>();
+                docs.set(index, (docs.get(index) ?? 0) + FIELD_WEIGHTS[field]);
+                postings.set(word, docs);
+            }
+        }
+        lengths.push(length);
+    });
+
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    return {
+        size: documents.length,
+        ids: documents.map((doc) => doc.id),
+        lengths,
+        averageLength: documents.length > 0 ? total / documents.length : 0,
+        postings,
+    };
+}
+
+// =============================================================================
+// Searching
+// =============================================================================
+
+/**
+ * Finds the agents matching a query, most relevant first (see the module comment)
+ *
+ * @param limit - Most hits to return (default: `MAX_SEARCH_RESULTS`)
+ */
+export function searchIndex(index: SearchIndex, query: string, limit: number = MAX_SEARCH_RESULTS): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || index.size === 0) return [];
+
+    // Per document: summed relevance, number of query terms matched, and the words that matched
+    const matches = new Map<number, { score: number; matched: number; words: Set<string> }>();
+
+    for (const term of queryTerms) {
+        const words = expandTerm(index, term);
+        const best = new Map<number, number>();
+
+        // Rarity of the term in any of its forms, so a rare typo or longer word doesn't outrank an exact match
+        const matching = new Set([...words.keys()].flatMap((word) => [...index.postings.get(word)!.keys()]));
+        const idf = Math.log(1 + (index.size - matching.size + 0.5) / (matching.size + 0.5));
+
+        for (const [word, weight] of words) {
+            const docs = index.postings.get(word)!;
+            docs.forEach((frequency, doc) => {
+                const norm = 1 - BM25_B + (BM25_B * index.lengths[doc]) / (index.averageLength || 1);
+                const score = weight * idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm));
+                best.set(doc, Math.max(best.get(doc) ?? 0, score));
+
+                const match = matches.get(doc) ?? { score: 0, matched: 0, words: new Set<string>() };
+                match.words.add(word);
+                matches.set(doc, match);
+            });
+        }
+
+        best.forEach((score, doc) => {
+            const match = matches.get(doc)!;
+            match.score += score;
+            match.matched += 1;
+        });
+    }
+
+    const hits: SearchHit[] = [];
+    matches.forEach((match, doc) => {
+        if (match.matched === queryTerms.length) {
+            hits.push({ id: index.ids[doc], score: match.score, terms: [...match.words].sort() });
+        }
+    });
+
+    return hits.sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)).slice(0, limit);
+}
+
+/**
+ * Orders agents by search relevance
+ *
+ * Agents the search index matched come first, in hit order; agents matched
+ * some other way (ENS name or address) follow, newest first.
+ *
+ * @param matches - Matched agent IDs, most relevant first
+ * @returns A sorted copy of `agents`
+ */
+export function rankAgentsByRelevance<T extends RankableAgent>(agents: T[], matches: string[] | undefined): T[] {
+    const rank = new Map((matches ?? []).map((id, index) => [id, index]));
+    return [...agents].sort((a, b) => {
+        const ar = rank.get(a.id);
+        const br = rank.get(b.id);
+        if (ar !== undefined && br !== undefined) return ar - br;
+        if (ar !== undefined || br !== undefined) return ar !== undefined ? -1 : 1;
+        return compareNewestFirst(a, b);
+    });
+}
+
+/**
+ * Splits text into the words of a search hit's `terms`, marking the matched ones
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+    const wanted = new Set(terms);
+    const segments: HighlightSegment[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(/[A-Za-z0-9\u00C0-\u024F]+/g)) {
+        const start = match.index ?? 0;
+        const word = match[0];
+        if (!tokenize(word).some((token) => wanted.has(token))) continue;
+        if (start > last) segments.push({ text: text.slice(last, start), match: false });
+        segments.push({ text: word, match: true });
+        last = start + word.length;
+    }
+
+    if (last < text.length) segments.push({ text: text.slice(last), match: false });
+    return segments;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Lowercases text, strips accents and splits it into words
+ */
+export function tokenize(text: string): string[] {
+    return (
+        text
+            .normalize("NFKD")
+            .replace(/[\u0300-\u036f]/g, "")
+            .toLowerCase()
+            .match(/[a-z0-9]+/g) ?? []
+    );
+}
+
+/**
+ * Finds the indexed words a query term matches, with the weight of each match
+ */
+function expandTerm(index: SearchIndex, term: string): Map<string, number> {
+    const words = new Map<string, number>();
+    const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    for (const word of index.postings.keys()) {
+        if (word === term) {
+            words.set(word, 1);
+        } else if (term.length >= 2 && word.startsWith(term)) {
+            words.set(word, PREFIX_WEIGHT);
+        } else if (maxEdits > 0) {
+            const edits = editDistance(term, word, maxEdits);
+            if (edits <= maxEdits) words.set(word, FUZZY_WEIGHTS[edits]);
+        }
+    }
+
+    return words;
+}
+
+/**
+ * Levenshtein distance between two words, or `max + 1` once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        // Every later row is at least this row's minimum
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+
+    return Math.min(previous[b.length], max + 1);
+}
+
+/** Hostname of an endpoint URL, or null for names, DIDs and other non-URLs */
+function getHost(url: string | null): string | null {
+    if (!url || !/^https?:\/\//i.test(url)) return null;
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Search index source
+ *
+ * The listing search (see `search.ts`) runs on an index built from agents'
+ * registration files. Where the files come from depends on the environment:
+ *
+ * - `SEARCH_SNAPSHOT_PATH`: a local snapshot of the registry, in the fixture
+ *   file format (an `agents` array, each agent with its raw `registration`).
+ *   The index then needs no subgraph queries, and covers agents whose files
+ *   the subgraph couldn't index.
+ * - fixtures (`AGENT_DATA_SOURCE=fixtures`): the fixture registry, which is
+ *   itself such a snapshot
+ * - otherwise: the registration files indexed by the subgraphs of the
+ *   enabled chains
+ *
+ * The index is cached and rebuilt at most every `SEARCH_INDEX_TTL_MS`.
+ *
+ * Configuration (all optional):
+ * - `SEARCH_SNAPSHOT_PATH`: registry snapshot to index
+ */
+
+import { readFileSync } from "node:fs";
+import { createTtlCache } from "./cache";
+import { getDataSourceName } from "./dataSource";
+import { loadFixtureRegistry } from "./fixtures";
+import { parseRegistrationFile } from "./registration";
+import { buildSearchIndex, SearchDocument, SearchHit, SearchIndex, searchIndex, toSearchDocument } from "./search";
+import { fetchSearchDocuments } from "./subgraph";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A local snapshot of the registry (a fixture file has this shape too)
+ */
+export interface RegistrySnapshot {
+    agents: { id: string; registration?: Record<string, unknown> | null }[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How long a built index is used before it is rebuilt */
+const SEARCH_INDEX_TTL_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Searches the agents of the configured index, most relevant first
+ */
+export async function searchAgents(query: string): Promise<SearchHit[]> {
+    return searchIndex(await getSearchIndex(), query);
+}
+
+/**
+ * Returns the search index selected by the environment (see the module comment)
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+    const path = process.env.SEARCH_SNAPSHOT_PATH;
+    const key = path ? `snapshot:${path}` : getDataSourceName();
+
+    const hit = indexCache.get(key);
+    if (hit) return hit;
+
+    // Failures aren't cached, so the next search tries again
+    const promise = loadSearchDocuments(path)
+        .then(buildSearchIndex)
+        .catch((error: unknown) => {
+            indexCache.delete(key);
+            throw error;
+        });
+    indexCache.set(key, promise);
+    return promise;
+}
+
+/**
+ * Builds search documents from a registry snapshot's raw registration files
+ */
+export function getSnapshotDocuments(snapshot: RegistrySnapshot): SearchDocument[] {
+    return snapshot.agents
+        .map((agent) => toSearchDocument(agent.id, parseRegistrationFile(agent.registration)))
+        .filter((doc): doc is SearchDocument => doc !== null);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const indexCache = createTtlCache<Promise<SearchIndex>>(SEARCH_INDEX_TTL_MS);
+
+async function loadSearchDocuments(snapshotPath: string | undefined): Promise<SearchDocument[]> {
+    if (snapshotPath) {
+        return getSnapshotDocuments(JSON.parse(readFileSync(snapshotPath, "utf8")) as RegistrySnapshot);
+    }
+    if (getDataSourceName() === "fixtures") {
+        return getSnapshotDocuments(loadFixtureRegistry());
+    }
+    return fetchSearchDocuments();
+}
@@ -1,16 +1,52 @@
 /**
  * Subgraph client for querying ERC-8004 agents from The Graph
  *
- * This module provides functions to fetch agent data from the Agent0 subgraph
- * deployed on Ethereum Sepolia. The subgraph indexes all ERC-8004 agent
- * registrations, their metadata, and feedback/reviews.
+ * This module provides functions to fetch agent data from the Agent0 subgraphs.
+ * Each supported chain has its own deployment (see `chains.ts`); the subgraphs
+ * index all ERC-8004 agent registrations, their metadata, and feedback/reviews.
  *
- * Subgraph URL: https://thegraph.com/explorer/subgraphs/6wQRC7geo9XYAhckfmfo8kbMRLeWU8KQd3XsJqFKmZLT
+ * Listing functions accept a chain selection and merge results when querying
+ * every chain. Single-agent lookups are routed by the chain prefix of the ID.
  */
 
-// Agent0's public subgraph endpoint for Ethereum Sepolia
-const SUBGRAPH_URL =
-    "https://gateway.thegraph.com/api/00a452ad3cd1900273ea62c1bf283f93/subgraphs/id/6wQRC7geo9XYAhckfmfo8kbMRLeWU8KQd3XsJqFKmZLT";
+import type { RegistryAgent, RegistryData, RegistryFeedback } from "./analytics";
+import { ChainConfig, ChainSelection, getChain, parseAgentId, resolveChains } from "./chains";
+import { createTtlCache, TtlCache } from "./cache";
+import type { AgentDataSource } from "./dataSource";
+import { classifyGraphQLError, GraphQLValidationError, NetworkError, RateLimitedError, SubgraphError } from "./errors";
+import { AgentCursor } from "./cursor";
+import { resolveMetadata } from "./metadata";
+import {
+    fromSubgraphRegistrationFile,
+    mergeRegistrationFiles,
+    RegistrationFile,
+    REGISTRATION_FILE_FIELDS,
+    SubgraphRegistrationFile,
+} from "./registration";
+import {
+    AGENT_SORT_ORDER,
+    AgentFilters,
+    AgentEventWhere,
+    AgentSort,
+    AgentWhere,
+    buildAgentWhere,
+    buildCursorWhere,
+    buildFeedbackWhere,
+    combineWhere,
+    DEFAULT_AGENT_SORT,
+    FEEDBACK_SORT_ORDER,
+    FeedbackFilters,
+    FeedbackSort,
+    FeedbackWhere,
+    isRankedSort,
+    RankedAgentSort,
+} from "./query";
+import { AgentScores, computeAgentScores, mergeAgentScores, RankableAgent, rankAgentsByScore } from "./scores";
+import { rankAgentsByRelevance, SearchableFile, SearchDocument, toSearchDocument } from "./search";
+import { orderEntities } from "./where";
+
+export type { AgentFilters, AgentSort, FeedbackFilters, FeedbackSort } from "./query";
+export type { AgentEndpoint, AgentRegistration, RegistrationFile } from "./registration";
 
 /**
  * Agent entity from the subgraph
@@ -24,16 +60,16 @@ export interface Agent {
     createdAt: string; // Unix timestamp
     updatedAt: string;
     totalFeedback: string;
-    registrationFile: {
-        name: string | null;
-        description: string | null;
-        image: string | null;
-        mcpEndpoint: string | null;
-        a2aEndpoint: string | null;
-        supportedTrusts: string[] | null;
-    } | null;
+    registrationFile: RegistrationFile | null;
+    // Where registrationFile came from: indexed by the subgraph, or resolved by the explorer
+    metadataSource: MetadataSource | null;
 }
 
+/**
+ * Origin of an agent's registration file data
+ */
+export type MetadataSource = "subgraph" | "explorer";
+
 /**
  * Feedback/review entity from the subgraph
  */
@@ -50,66 +86,179 @@ export interface Feedback {
         capability: string | null;
         skill: string | null;
     } | null;
+    // Oldest replies (up to MAX_RESPONSES_PER_FEEDBACK); only loaded with an agent's page of feedback
+    responses?: FeedbackResponse[];
+}
+
+/**
+ * A response appended to a feedback entry in the reputation registry
+ *
+ * Anyone can respond: usually the agent's owner, sometimes the reviewer or a third party.
+ */
+export interface FeedbackResponse {
+    id: string;
+    responder: string; // Wallet address
+    responseUri: string | null; // Document with the response text
+    responseHash: string | null;
+    createdAt: string; // Unix timestamp
 }
 
 /**
- * Filter options for fetching agents
+ * Registry-wide totals
  */
-export interface AgentFilters {
-    search?: string; // Search by agent name
-    hasReviews?: boolean; // Only agents with reviews
-    hasEndpoint?: boolean; // Only agents with MCP or A2A endpoint
+export interface GlobalStats {
+    totalAgents: string;
+    totalFeedback: string;
 }
 
+/**
+ * Where a page of agents starts: an offset, or a cursor from a neighbouring page
+ */
+export type PagePosition = { skip: number } | { cursor: AgentCursor };
+
+/** Largest `skip` The Graph accepts; deeper pages must be reached by cursor */
+export const MAX_SKIP = 5000;
+
+/** Replies loaded per feedback entry (the oldest), so one busy thread can't crowd out the others */
+export const MAX_RESPONSES_PER_FEEDBACK = 10;
+
 /**
  * Fetches a paginated list of agents from the subgraph
  *
+ * Agents are ordered by the given sort (newest first by default), with ties
+ * broken by ID. Pages can be addressed by offset (`skip`, limited to
+ * `MAX_SKIP`) or, for sorts on a numeric field, by a cursor from the
+ * previous/next page, which stays fast however deep it goes.
+ *
+ * When several chains are selected, each subgraph is asked for enough agents
+ * to fill the page and the merged list is sorted and sliced, so the page
+ * matches what a single combined registry would return.
+ *
+ * The "score" and "relevance" sorts aren't subgraph orderings: they rank the
+ * matching agents by the cached average score aggregate, or by the search
+ * index's ranking in `filters.searchMatches` (see `fetchRankedAgents`).
+ *
  * @param first - Number of agents to fetch (default: 24)
- * @param skip - Number of agents to skip for pagination (default: 0)
- * @param filters - Optional filters (search, hasReviews, hasEndpoint)
- * @returns Array of Agent objects
+ * @param position - Offset or cursor to start from (default: first page)
+ * @param filters - Optional listing filters (see `AgentFilters`)
+ * @param chain - Chain ID to query, or "all" for every enabled chain (default: "all")
+ * @param sort - Listing order (default: "newest")
+ * @returns Array of Agent objects, in listing order
  */
-export async function fetchAgents(first: number = 24, skip: number = 0, filters?: AgentFilters): Promise<Agent[]> {
-    // Build where conditions array
-    // Note: The Graph doesn't allow mixing 'or' with other filters at the same level,
-    // so we use 'and' to properly combine conditions when needed
-    const conditions: string[] = [];
+export async function fetchAgents(
+    first: number = 24,
+    position: PagePosition = { skip: 0 },
+    filters?: AgentFilters,
+    chain: ChainSelection = "all",
+    sort: AgentSort = DEFAULT_AGENT_SORT
+): Promise<Agent[]> {
+    const chains = resolveChains(chain);
+
+    if ("cursor" in position) {
+        const { cursor } = position;
+        if (isRankedSort(sort)) {
+            throw new RangeError(`Cursors aren't supported for the "${sort}" sort; use an offset instead`);
+        }
+        const perChain = await Promise.all(chains.map((c) => fetchChainAgents(c, first, 0, filters, sort, cursor)));
 
-    if (filters?.search) {
-        conditions.push(`{ registrationFile_: { name_contains_nocase: "${filters.search}" } }`);
+        // "before" pages end at the cursor, so take the last agents in listing order
+        const merged = sortAgents(perChain.flat(), sort);
+        return cursor.direction === "after" ? merged.slice(0, first) : merged.slice(-first);
     }
 
-    if (filters?.hasReviews) {
-        conditions.push(`{ totalFeedback_gt: 0 }`);
+    const { skip } = position;
+    if (skip > MAX_SKIP) {
+        throw new RangeError(`Cannot skip more than ${MAX_SKIP} agents; use a cursor instead`);
     }
 
-    if (filters?.hasEndpoint) {
-        // Filter for agents that have either MCP or A2A endpoint
-        // Wrap in its own object since 'or' can't be mixed with other conditions
-        conditions.push(`{ or: [
-            { registrationFile_: { mcpEndpoint_not: null } },
-            { registrationFile_: { a2aEndpoint_not: null } }
-        ] }`);
+    if (sort === "score") {
+        return fetchRankedAgents(chains, first, skip, filters, async (agents) => {
+            const scores = await Promise.all(chains.map((c) => getChainScores(c)));
+            return rankAgentsByScore(agents, mergeAgentScores(scores));
+        });
     }
 
-    // Use 'and' to combine multiple conditions properly
-    let whereClause = "";
-    if (conditions.length === 1) {
-        // Single condition - unwrap from array
-        whereClause = `where: ${conditions[0]}`;
-    } else if (conditions.length > 1) {
-        whereClause = `where: { and: [${conditions.join(", ")}] }`;
+    if (sort === "relevance") {
+        return fetchRankedAgents(chains, first, skip, filters, (agents) =>
+            rankAgentsByRelevance(agents, filters?.searchMatches)
+        );
     }
 
+    if (chains.length === 1) {
+        return fetchChainAgents(chains[0], first, skip, filters, sort);
+    }
+
+    const perChain = await Promise.all(chains.map((c) => fetchChainAgents(c, skip + first, 0, filters, sort)));
+
+    return sortAgents(perChain.flat(), sort).slice(skip, skip + first);
+}
+
+/**
+ * Sorts agents merged from several chains like the subgraph orders them
+ */
+function sortAgents(agents: Agent[], sort: Exclude<AgentSort, RankedAgentSort>): Agent[] {
+    const { orderBy, orderDirection } = AGENT_SORT_ORDER[sort];
+    return orderEntities(agents, orderBy, orderDirection);
+}
+
+/**
+ * Fetches a page of agents from a single chain's subgraph
+ *
+ * With a "before" cursor the subgraph is read in the opposite direction (so the
+ * page nearest the cursor comes back) and the result is reversed to listing order.
+ */
+async function fetchChainAgents(
+    chain: ChainConfig,
+    first: number,
+    skip: number,
+    filters: AgentFilters | undefined,
+    sort: Exclude<AgentSort, RankedAgentSort>,
+    cursor?: AgentCursor
+): Promise<Agent[]> {
+    const filterWhere = await buildChainAgentWhere(chain, filters);
+    const where = cursor
+        ? combineWhere<AgentWhere>([...(filterWhere ? [filterWhere] : []), buildCursorWhere(cursor, sort)])
+        : filterWhere;
+    const reversed = cursor?.direction === "before";
+    const { orderBy, orderDirection } = AGENT_SORT_ORDER[sort];
+
     const query = `
-    {
+    query Agents(
+      $first: Int!
+      $skip: Int!
+      $orderBy: Agent_orderBy!
+      $orderDirection: OrderDirection!
+      $where: Agent_filter
+    ) {
       agents(
-        first: ${first}
-        skip: ${skip}
-        orderBy: createdAt
-        orderDirection: desc
-        ${whereClause}
-      ) {
+        first: $first
+        skip: $skip
+        orderBy: $orderBy
+        orderDirection: $orderDirection
+        where: $where
+      ) {${AGENT_FIELDS}
+      }
+    }
+  `;
+
+    const data = (await querySubgraph(chain, query, {
+        first,
+        skip,
+        orderBy,
+        orderDirection: reversed ? (orderDirection === "asc" ? "desc" : "asc") : orderDirection,
+        where,
+    })) as { agents: SubgraphAgent[] };
+
+    // Map agentURI to metadataUri and resolve missing metadata
+    const agents = await Promise.all(data.agents.map((agent) => withMetadata(agent)));
+
+    return reversed ? agents.reverse() : agents;
+}
+
+/**
+ * GraphQL selection set for the subgraph's `Agent` entity, matching `SubgraphAgent`
+ */
+const AGENT_FIELDS = `
         id
         chainId
         agentId
@@ -118,50 +267,257 @@ export async function fetchAgents(first: number = 24, skip: number = 0, filters?
         createdAt
         updatedAt
         totalFeedback
-        registrationFile {
-          name
-          description
-          image
-          mcpEndpoint
-          a2aEndpoint
-          supportedTrusts
-        }
+        registrationFile {${REGISTRATION_FILE_FIELDS}
+        }`;
+
+/** How long the average score aggregate and rankable agent lists stay cached */
+const SCORE_TTL_MS = 5 * 60 * 1000;
+
+const scoreCache = createTtlCache<Promise<AgentScores>>(SCORE_TTL_MS);
+const rankableCache = createTtlCache<Promise<RankableAgent[]>>(SCORE_TTL_MS);
+
+/**
+ * Fetches a page of agents in an order the subgraph can't produce
+ *
+ * Every matching agent's ID and creation time is read (cached per filter set,
+ * like counts) and ranked by `rank`, and only the agents on the requested
+ * page are loaded in full.
+ *
+ * @param rank - Sorts the matching agents into listing order
+ */
+async function fetchRankedAgents(
+    chains: ChainConfig[],
+    first: number,
+    skip: number,
+    filters: AgentFilters | undefined,
+    rank: (agents: RankableAgent[]) => RankableAgent[] | Promise<RankableAgent[]>
+): Promise<Agent[]> {
+    const matching = await Promise.all(
+        chains.map(async (c) => {
+            const where = await buildChainAgentWhere(c, filters);
+            const key = `${c.id}:${JSON.stringify(where ?? {})}`;
+            return cachedPromise(rankableCache, key, () => walkRankableAgents(c, where));
+        })
+    );
+
+    const page = (await rank(matching.flat())).slice(skip, skip + first);
+    const order = new Map(page.map((agent, index) => [agent.id, index]));
+
+    // Load the page's agents from each chain, then put them back in rank order
+    const perChain = await Promise.all(
+        chains.map((c) =>
+            fetchChainAgentsById(
+                c,
+                page.filter((agent) => parseAgentId(agent.id)?.chainId === c.id).map((agent) => agent.id)
+            )
+        )
+    );
+    const agents = perChain.flat().sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    return Promise.all(agents.map((agent) => withMetadata(agent)));
+}
+
+/**
+ * Loads agents by ID from a single chain's subgraph, in no particular order
+ */
+async function fetchChainAgentsById(chain: ChainConfig, ids: string[]): Promise<SubgraphAgent[]> {
+    if (ids.length === 0) return [];
+
+    const query = `
+    query AgentsById($first: Int!, $where: Agent_filter) {
+      agents(first: $first, where: $where) {${AGENT_FIELDS}
       }
     }
   `;
 
-    const data = (await querySubgraph(query)) as { agents: (Agent & { agentURI: string })[] };
+    const where: AgentWhere = { id_in: ids };
+    const data = (await querySubgraph(chain, query, { first: ids.length, where })) as { agents: SubgraphAgent[] };
+    return data.agents;
+}
 
-    // Map agentURI to metadataUri and resolve missing metadata
-    const agents = await Promise.all(
-        data.agents.map(async (agent) => {
-            // If registrationFile is null but we have a URI, try to fetch it
-            let registrationFile = agent.registrationFile;
-            if (!registrationFile && agent.agentURI) {
-                registrationFile = await resolveMetadata(agent.agentURI);
-            }
+/**
+ * Reads the ID and creation time of every agent matching a where input on one chain
+ */
+function walkRankableAgents(chain: ChainConfig, where: AgentWhere | undefined): Promise<RankableAgent[]> {
+    return walkAgents<RankableAgent>(
+        chain,
+        "RankableAgents",
+        where,
+        `
+        id
+        createdAt`
+    );
+}
 
-            return {
-                ...agent,
-                metadataUri: agent.agentURI,
-                registrationFile,
-            };
-        })
+/**
+ * Reads every agent matching a where input on one chain
+ *
+ * Pages by ID like `countChainAgents`.
+ *
+ * @param operation - GraphQL operation name
+ * @param selection - Fields to select for each agent (must include `id`)
+ */
+async function walkAgents<T extends { id: string }>(
+    chain: ChainConfig,
+    operation: string,
+    where: AgentWhere | undefined,
+    selection: string
+): Promise<T[]> {
+    const query = `
+    query ${operation}($first: Int!, $where: Agent_filter) {
+      agents(first: $first, orderBy: id, orderDirection: asc, where: $where) {${selection}
+      }
+    }
+  `;
+
+    const agents: T[] = [];
+    let lastId: string | null = null;
+
+    for (;;) {
+        const pageWhere = lastId ? combineWhere<AgentWhere>([...(where ? [where] : []), { id_gt: lastId }]) : where;
+        const data = (await querySubgraph(chain, query, { first: MAX_PAGE_SIZE, where: pageWhere })) as {
+            agents: T[];
+        };
+
+        agents.push(...data.agents);
+        if (data.agents.length < MAX_PAGE_SIZE) return agents;
+        lastId = data.agents[data.agents.length - 1].id;
+    }
+}
+
+/**
+ * Builds the where input for one chain, loading the chain's score aggregate when a filter needs it
+ */
+async function buildChainAgentWhere(chain: ChainConfig, filters?: AgentFilters): Promise<AgentWhere | undefined> {
+    const scores = filters?.minScore !== undefined ? await getChainScores(chain) : undefined;
+    return buildAgentWhere(filters, scores);
+}
+
+/**
+ * Returns the cached average score aggregate of one chain, computing it if needed
+ */
+function getChainScores(chain: ChainConfig): Promise<AgentScores> {
+    return cachedPromise(scoreCache, String(chain.id), () => fetchChainScores(chain));
+}
+
+/**
+ * Computes the average score aggregate of one chain from all of its non-revoked feedback
+ */
+async function fetchChainScores(chain: ChainConfig): Promise<AgentScores> {
+    const feedback = await walkFeedback<{ id: string; score: string; agent: { id: string } }>(
+        chain,
+        { isRevoked: false },
+        `
+          id
+          score
+          agent {
+            id
+          }`
     );
+    return computeAgentScores(feedback.map((f) => ({ agentId: f.agent.id, score: f.score, isRevoked: false })));
+}
+
+/**
+ * Returns a cached promise, starting the load if needed; failures aren't cached
+ */
+function cachedPromise<T>(cache: TtlCache<Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    const hit = cache.get(key);
+    if (hit) return hit;
+
+    const promise = load().catch((error) => {
+        cache.delete(key);
+        throw error;
+    });
+    cache.set(key, promise);
+    return promise;
+}
+
+/**
+ * GraphQL selection set for the subgraph's `Feedback` entity, matching `Feedback`
+ */
+const FEEDBACK_FIELDS = `
+          id
+          score
+          tag1
+          tag2
+          clientAddress
+          createdAt
+          isRevoked
+          feedbackFile {
+            text
+            capability
+            skill
+          }`;
+
+/**
+ * Which page of an agent's feedback to load along with the agent
+ */
+export interface FeedbackQuery {
+    first?: number; // Default: 50
+    skip?: number; // Default: 0, at most MAX_SKIP
+    filters?: FeedbackFilters; // Default: non-revoked feedback only
+    sort?: FeedbackSort; // Default: "newest"
+}
 
-    return agents;
+/**
+ * Fetches every agent a wallet owns, newest first
+ *
+ * Unlike a listing page this has no size limit, so owner aggregates cover
+ * the whole portfolio. Registration files the subgraph hasn't indexed are
+ * only resolved for the newest `resolveFirst` agents (the ones a page shows);
+ * the rest keep what the subgraph has, so a large portfolio doesn't fan out
+ * into one gateway fetch per agent.
+ *
+ * @param owner - Owner address (any case)
+ * @param resolveFirst - How many of the newest agents get their metadata resolved
+ */
+export async function fetchOwnerAgents(owner: string, resolveFirst: number): Promise<Agent[]> {
+    const where = buildAgentWhere({ owner });
+    const perChain = await Promise.all(
+        resolveChains("all").map((c) => walkAgents<SubgraphAgent>(c, "OwnerAgents", where, AGENT_FIELDS))
+    );
+    const { orderBy, orderDirection } = AGENT_SORT_ORDER.newest;
+    const owned = orderEntities(perChain.flat(), orderBy, orderDirection);
+    return Promise.all(owned.map((agent, i) => withMetadata(agent, { resolve: i < resolveFirst })));
 }
 
 /**
- * Fetches a single agent with its feedback/reviews
+ * Fetches a single agent with a page of its feedback/reviews
+ *
+ * The query is sent to the subgraph of the chain named in the ID prefix.
+ * IDs for unknown or unconfigured chains resolve to no agent. Each feedback
+ * entry comes with its responses, when the subgraph indexes them.
  *
  * @param agentId - Agent ID in format "chainId:tokenId"
+ * @param feedbackQuery - Page, filters and order of the feedback (default: latest 50 non-revoked)
  * @returns Object containing the agent and its feedback array
  */
-export async function fetchAgentWithFeedback(agentId: string): Promise<{ agent: Agent | null; feedback: Feedback[] }> {
+export async function fetchAgentWithFeedback(
+    agentId: string,
+    feedbackQuery: FeedbackQuery = {}
+): Promise<{ agent: Agent | null; feedback: Feedback[] }> {
+    const parsed = parseAgentId(agentId);
+    const chain = parsed ? getChain(parsed.chainId) : null;
+
+    if (!chain) {
+        return { agent: null, feedback: [] };
+    }
+
+    const { first = 50, skip = 0, filters, sort = "newest" } = feedbackQuery;
+    if (skip > MAX_SKIP) {
+        throw new RangeError(`Cannot skip more than ${MAX_SKIP} feedback entries`);
+    }
+
     const query = `
-    {
-      agent(id: "${agentId}") {
+    query AgentWithFeedback(
+      $id: ID!
+      $first: Int!
+      $skip: Int!
+      $orderBy: Feedback_orderBy!
+      $orderDirection: OrderDirection!
+      $feedbackWhere: Feedback_filter
+    ) {
+      agent(id: $id) {
         id
         chainId
         agentId
@@ -170,41 +526,28 @@ export async function fetchAgentWithFeedback(agentId: string): Promise<{ agent:
         createdAt
         updatedAt
         totalFeedback
-        registrationFile {
-          name
-          description
-          image
-          mcpEndpoint
-          a2aEndpoint
-          supportedTrusts
-          ens
-          agentWallet
+        registrationFile {${REGISTRATION_FILE_FIELDS}
         }
         feedback(
-          first: 50
-          orderBy: createdAt
-          orderDirection: desc
-          where: { isRevoked: false }
-        ) {
-          id
-          score
-          tag1
-          tag2
-          clientAddress
-          createdAt
-          isRevoked
-          feedbackFile {
-            text
-            capability
-            skill
-          }
+          first: $first
+          skip: $skip
+          orderBy: $orderBy
+          orderDirection: $orderDirection
+          where: $feedbackWhere
+        ) {${FEEDBACK_FIELDS}
         }
       }
     }
   `;
 
-    const data = (await querySubgraph(query)) as {
-        agent: (Agent & { agentURI: string; feedback: Feedback[] }) | null;
+    const data = (await querySubgraph(chain, query, {
+        id: agentId,
+        first,
+        skip,
+        ...FEEDBACK_SORT_ORDER[sort],
+        feedbackWhere: buildFeedbackWhere(filters),
+    })) as {
+        agent: (SubgraphAgent & { feedback: Feedback[] }) | null;
     };
 
     const agent = data.agent;
@@ -213,79 +556,567 @@ export async function fetchAgentWithFeedback(agentId: string): Promise<{ agent:
         return { agent: null, feedback: [] };
     }
 
-    // If registrationFile is null but we have a URI, try to fetch it
-    let registrationFile = agent.registrationFile;
-    if (!registrationFile && agent.agentURI) {
-        registrationFile = await resolveMetadata(agent.agentURI);
+    const { feedback, ...agentFields } = agent;
+
+    const [normalized, responses] = await Promise.all([
+        withMetadata(agentFields, { complete: true }),
+        fetchFeedbackResponses(chain, (feedback || []).map((f) => f.id)),
+    ]);
+
+    return {
+        agent: normalized,
+        feedback: (feedback || []).map((f) => (responses ? { ...f, responses: responses.get(f.id) ?? [] } : f)),
+    };
+}
+
+/**
+ * Loads the responses to a set of feedback entries, grouped by feedback ID
+ *
+ * Each entry gets its own field in the query, capped at
+ * `MAX_RESPONSES_PER_FEEDBACK`. Responses are a separate entity that older
+ * subgraph deployments don't have; if the subgraph rejects the query, null is
+ * returned and the feedback is shown without replies.
+ */
+async function fetchFeedbackResponses(
+    chain: ChainConfig,
+    feedbackIds: string[]
+): Promise<Map<string, FeedbackResponse[]> | null> {
+    if (feedbackIds.length === 0) return new Map();
+
+    const fields = feedbackIds.map(
+        (_, i) => `
+      f${i}: feedbackResponses(first: $first, orderBy: createdAt, orderDirection: asc, where: { feedback: $f${i} }) {
+        id
+        responder
+        responseUri
+        responseHash
+        createdAt
+      }`
+    );
+    const query = `
+    query FeedbackResponses($first: Int!, ${feedbackIds.map((_, i) => `$f${i}: String!`).join(", ")}) {${fields.join("")}
+    }
+  `;
+    const variables = Object.fromEntries(feedbackIds.map((id, i) => [`f${i}`, id]));
+
+    let data: Record<string, FeedbackResponse[]>;
+    try {
+        data = (await querySubgraph(chain, query, { ...variables, first: MAX_RESPONSES_PER_FEEDBACK })) as typeof data;
+    } catch (error) {
+        if (error instanceof GraphQLValidationError) return null;
+        throw error;
+    }
+
+    return new Map(feedbackIds.map((id, i) => [id, data[`f${i}`] ?? []]));
+}
+
+/**
+ * Fetches every non-revoked feedback entry of an agent
+ *
+ * Walks all pages (see `walkFeedback`), so aggregates computed from the result
+ * cover the agent's whole history rather than its latest reviews. Entries are
+ * returned in ID order.
+ *
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ * @returns All feedback, or an empty array for unknown chains
+ */
+export async function fetchAgentFeedback(agentId: string): Promise<Feedback[]> {
+    const parsed = parseAgentId(agentId);
+    const chain = parsed ? getChain(parsed.chainId) : null;
+
+    if (!chain) {
+        return [];
     }
 
+    return walkFeedback<Feedback>(chain, { agent: agentId, isRevoked: false }, FEEDBACK_FIELDS);
+}
+
+/**
+ * Feedback given by a reviewer, with the agent it was given to
+ */
+export interface ReviewerFeedback extends Feedback {
+    agent: {
+        id: string; // Format: "chainId:tokenId"
+        name: string | null; // From the indexed registration file, if any
+    };
+}
+
+/**
+ * Fetches every feedback entry a wallet has given, on every enabled chain
+ *
+ * Revoked entries are included (and flagged) so reviewer profiles can show
+ * revocations. Entries are returned newest first.
+ *
+ * @param address - Reviewer (client) address
+ */
+export async function fetchReviewerFeedback(address: string): Promise<ReviewerFeedback[]> {
+    const selection = `${FEEDBACK_FIELDS}
+          agent {
+            id
+            registrationFile {
+              name
+            }
+          }`;
+    const where: FeedbackWhere = { clientAddress: address.toLowerCase() };
+
+    type Entry = Feedback & { agent: { id: string; registrationFile: { name: string | null } | null } };
+    const perChain = await Promise.all(
+        resolveChains("all").map((chain) => walkFeedback<Entry>(chain, where, selection))
+    );
+
+    return perChain
+        .flat()
+        .map(({ agent, ...feedback }) => ({
+            ...feedback,
+            agent: { id: agent.id, name: agent.registrationFile?.name ?? null },
+        }))
+        .sort((a, b) => parseInt(b.createdAt) - parseInt(a.createdAt) || b.id.localeCompare(a.id));
+}
+
+/**
+ * A change of an agent's URI, from the identity registry's URI update events
+ */
+export interface UriUpdate {
+    id: string;
+    previousURI: string | null; // null if the indexer didn't record the old value
+    newURI: string;
+    updatedBy: string;
+    timestamp: string;
+}
+
+/**
+ * A change of an agent's owner, from the registry's ERC-721 transfers (mints excluded)
+ */
+export interface OwnershipTransfer {
+    id: string;
+    from: string;
+    to: string;
+    timestamp: string;
+}
+
+/**
+ * A feedback entry as shown in an agent's history
+ */
+export type FeedbackActivity = Pick<Feedback, "id" | "score" | "clientAddress" | "createdAt" | "isRevoked"> & {
+    revokedAt: string | null; // Unix timestamp; null if not revoked or not recorded
+};
+
+/**
+ * What happened to an agent after registration, oldest first
+ *
+ * Only revoked feedback is included; active feedback is the same list
+ * reputation summaries load (see `fetchActiveFeedback` in reputation.ts).
+ * `complete` is false when the subgraph doesn't index URI updates and
+ * transfers; revoked feedback is still listed then, without revocation times.
+ */
+export interface AgentHistory {
+    uriUpdates: UriUpdate[];
+    transfers: OwnershipTransfer[];
+    revokedFeedback: FeedbackActivity[];
+    complete: boolean;
+}
+
+/** Feedback fields needed for the history (revocation times are selected separately) */
+const FEEDBACK_ACTIVITY_FIELDS = `
+          id
+          score
+          clientAddress
+          createdAt
+          isRevoked`;
+
+const URI_UPDATE_FIELDS = `
+          id
+          previousURI
+          newURI
+          updatedBy
+          timestamp`;
+
+const TRANSFER_FIELDS = `
+          id
+          from
+          to
+          timestamp`;
+
+/** Sender of ERC-721 mints, which the registration itself already covers */
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Fetches the event history of an agent
+ *
+ * URI updates, ownership transfers and revocation times come from event
+ * entities and fields that older subgraph deployments don't have. If the
+ * subgraph rejects those queries, the history is returned without them and
+ * flagged as incomplete instead of failing the page. Every list is walked in
+ * full, so agents with more than 1000 events keep their latest ones.
+ *
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ * @returns The history, or an empty complete history for unknown chains
+ */
+export async function fetchAgentHistory(agentId: string): Promise<AgentHistory> {
+    const parsed = parseAgentId(agentId);
+    const chain = parsed ? getChain(parsed.chainId) : null;
+
+    if (!chain) {
+        return { uriUpdates: [], transfers: [], revokedFeedback: [], complete: true };
+    }
+
+    const where: AgentEventWhere = { agent: agentId };
+    const revokedWhere: FeedbackWhere = { agent: agentId, isRevoked: true };
+
+    const loadEvents = async () => {
+        try {
+            return await Promise.all([
+                walkEntities<UriUpdate, AgentEventWhere>(
+                    chain,
+                    { operation: "AgentURIUpdatePage", collection: "agentURIUpdates", filter: "AgentURIUpdate_filter" },
+                    where,
+                    URI_UPDATE_FIELDS
+                ),
+                walkEntities<OwnershipTransfer, AgentEventWhere>(
+                    chain,
+                    { operation: "AgentTransferPage", collection: "agentTransfers", filter: "AgentTransfer_filter" },
+                    where,
+                    TRANSFER_FIELDS
+                ),
+                walkFeedback<FeedbackActivity>(chain, revokedWhere, `${FEEDBACK_ACTIVITY_FIELDS}\n          revokedAt`),
+            ]);
+        } catch (error) {
+            if (error instanceof GraphQLValidationError) return null;
+            throw error;
+        }
+    };
+
+    const loadRevokedWithoutTimes = async (): Promise<FeedbackActivity[]> => {
+        const revoked = await walkFeedback<Omit<FeedbackActivity, "revokedAt">>(
+            chain,
+            revokedWhere,
+            FEEDBACK_ACTIVITY_FIELDS
+        );
+        return revoked.map((f) => ({ ...f, revokedAt: null }));
+    };
+
+    const events = await loadEvents();
+    const [uriUpdates, transfers, revoked] = events ?? [[], [], await loadRevokedWithoutTimes()];
+
+    // Walks come back in ID order
+    const byTime = <T extends { id: string }>(time: (entry: T) => string) => (a: T, b: T) =>
+        parseInt(time(a)) - parseInt(time(b)) || a.id.localeCompare(b.id);
+
     return {
-        agent: { ...agent, metadataUri: agent.agentURI, registrationFile },
-        feedback: agent.feedback || [],
+        uriUpdates: uriUpdates.sort(byTime((u) => u.timestamp)),
+        transfers: transfers.filter((t) => t.from.toLowerCase() !== ZERO_ADDRESS).sort(byTime((t) => t.timestamp)),
+        revokedFeedback: revoked.sort(byTime((f) => f.createdAt)),
+        complete: events !== null,
     };
 }
 
 /**
- * Counts agents matching the given filters
+ * Reads every feedback entry matching a where input on one chain
+ *
+ * @param selection - Fields to select for each entry (must include `id`)
+ */
+function walkFeedback<T extends { id: string }>(
+    chain: ChainConfig,
+    where: FeedbackWhere,
+    selection: string
+): Promise<T[]> {
+    return walkEntities<T, FeedbackWhere>(
+        chain,
+        { operation: "FeedbackPage", collection: "feedbacks", filter: "Feedback_filter" },
+        where,
+        selection
+    );
+}
+
+/**
+ * Reads every entity of a collection matching a where input on one chain
+ *
+ * Pages through 1000 entities at a time keyed by ID (like `countChainAgents`),
+ * since `skip` is capped by The Graph.
+ *
+ * @param source - GraphQL operation name, collection field and where input type
+ * @param selection - Fields to select for each entity (must include `id`)
+ */
+async function walkEntities<T extends { id: string }, W extends { and?: W[]; id_gt?: string }>(
+    chain: ChainConfig,
+    source: { operation: string; collection: string; filter: string },
+    where: W,
+    selection: string
+): Promise<T[]> {
+    const { operation, collection, filter } = source;
+    const query = `
+    query ${operation}($first: Int!, $where: ${filter}) {
+      ${collection}(first: $first, orderBy: id, orderDirection: asc, where: $where) {${selection}
+      }
+    }
+  `;
+
+    const entities: T[] = [];
+    let lastId: string | null = null;
+
+    for (;;) {
+        const pageWhere = lastId ? combineWhere<W>([where, { id_gt: lastId } as W]) : where;
+        const data = await querySubgraph(chain, query, { first: MAX_PAGE_SIZE, where: pageWhere });
+        const page = (data as Record<string, T[]>)[collection];
+
+        entities.push(...page);
+        if (page.length < MAX_PAGE_SIZE) return entities;
+        lastId = page[page.length - 1].id;
+    }
+}
+
+/**
+ * A validation request for an agent in the Validation Registry, with the validator's response if any
+ */
+export interface Validation {
+    id: string;
+    validatorAddress: string;
+    requestUri: string | null;
+    requestHash: string;
+    response: string | null; // 0-100; null while the validator hasn't responded
+    responseUri: string | null;
+    responseHash: string | null;
+    tag: string | null;
+    createdAt: string; // Unix timestamp of the request
+    updatedAt: string; // Unix timestamp of the latest response (the request time while pending)
+}
+
+/**
+ * GraphQL selection set for the subgraph's `Validation` entity, matching `Validation`
+ */
+const VALIDATION_FIELDS = `
+          id
+          validatorAddress
+          requestUri
+          requestHash
+          response
+          responseUri
+          responseHash
+          tag
+          createdAt
+          updatedAt`;
+
+/**
+ * Fetches the validations of an agent, newest request first
  *
- * Since The Graph doesn't provide a direct count query, we fetch only agent IDs
- * with a high limit and count the results. This is efficient because we only
- * request the id field.
+ * Older subgraph deployments don't index the Validation Registry; if the
+ * subgraph rejects the query, null is returned instead of failing the page.
  *
- * @param filters - Optional filters (search, hasReviews, hasEndpoint)
- * @returns Number of agents matching the filters
+ * @param agentId - Agent ID in format "chainId:tokenId"
+ * @returns The latest 1000 validations, or null if the subgraph has none indexed
  */
-export async function fetchAgentCount(filters?: AgentFilters): Promise<number> {
-    // Build where clause using the same logic as fetchAgents
-    const conditions: string[] = [];
+export async function fetchAgentValidations(agentId: string): Promise<Validation[] | null> {
+    const parsed = parseAgentId(agentId);
+    const chain = parsed ? getChain(parsed.chainId) : null;
 
-    if (filters?.search) {
-        conditions.push(`{ registrationFile_: { name_contains_nocase: "${filters.search}" } }`);
+    if (!chain) {
+        return [];
     }
 
-    if (filters?.hasReviews) {
-        conditions.push(`{ totalFeedback_gt: 0 }`);
+    const query = `
+    query AgentValidations($agent: String!, $first: Int!) {
+      validations(first: $first, orderBy: createdAt, orderDirection: desc, where: { agent: $agent }) {${VALIDATION_FIELDS}
+      }
     }
+  `;
 
-    if (filters?.hasEndpoint) {
-        conditions.push(`{ or: [
-            { registrationFile_: { mcpEndpoint_not: null } },
-            { registrationFile_: { a2aEndpoint_not: null } }
-        ] }`);
+    try {
+        const data = (await querySubgraph(chain, query, { agent: agentId, first: MAX_PAGE_SIZE })) as {
+            validations: Validation[];
+        };
+        return data.validations;
+    } catch (error) {
+        if (error instanceof GraphQLValidationError) return null;
+        throw error;
     }
+}
+
+/**
+ * Agent entity as returned by the subgraph, before normalization
+ */
+export type SubgraphAgent = Omit<Agent, "metadataUri" | "metadataSource" | "registrationFile"> & {
+    agentURI: string;
+    registrationFile: SubgraphRegistrationFile | null;
+};
 
-    let whereClause = "";
-    if (conditions.length === 1) {
-        whereClause = `where: ${conditions[0]}`;
-    } else if (conditions.length > 1) {
-        whereClause = `where: { and: [${conditions.join(", ")}] }`;
+/**
+ * Maps a raw subgraph agent to our Agent shape
+ *
+ * Renames agentURI to metadataUri and, if the subgraph has no registration
+ * file for the agent, resolves it from the URI (see `metadata.ts`).
+ *
+ * With `complete`, indexed files are also merged with the resolved file to
+ * pick up what the subgraph doesn't index (registrations, extra endpoints).
+ * The resolver caches by URI, so this is cheap after the first request.
+ * With `resolve: false` nothing is fetched and a missing file stays null.
+ */
+export async function withMetadata(
+    agent: SubgraphAgent,
+    options?: { complete?: boolean; resolve?: boolean }
+): Promise<Agent> {
+    const { agentURI, registrationFile: indexedFile, ...fields } = agent;
+
+    if (indexedFile) {
+        let registrationFile = fromSubgraphRegistrationFile(indexedFile);
+        if (options?.complete && agentURI) {
+            registrationFile = mergeRegistrationFiles(registrationFile, await resolveMetadata(agentURI));
+        }
+        return { ...fields, metadataUri: agentURI, registrationFile, metadataSource: "subgraph" };
     }
 
-    // Fetch only IDs with a high limit (lightweight query)
+    // If registrationFile is null but we have a URI, try to fetch it
+    const registrationFile = agentURI && options?.resolve !== false ? await resolveMetadata(agentURI) : null;
+
+    return {
+        ...fields,
+        metadataUri: agentURI,
+        registrationFile,
+        metadataSource: registrationFile ? "explorer" : null,
+    };
+}
+
+/**
+ * Result of counting agents
+ *
+ * `exact` is false while the count is still being computed in the background;
+ * `total` is then a lower bound (the number of agents counted so far).
+ */
+export interface AgentCount {
+    total: number;
+    exact: boolean;
+}
+
+/** Maximum page size The Graph allows for a single query */
+const MAX_PAGE_SIZE = 1000;
+
+/** How long a request waits for a count before showing a partial result */
+const COUNT_TIME_BUDGET_MS = 3000;
+
+/** How long a completed count stays cached */
+const COUNT_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Count progress for one chain and filter set
+ *
+ * Kept in the cache while counting so later requests reuse the same walk
+ * instead of starting another one.
+ */
+interface CountProgress {
+    counted: number;
+    done: boolean;
+    promise: Promise<number>;
+}
+
+const countCache = createTtlCache<CountProgress>(COUNT_TTL_MS);
+
+/**
+ * Counts agents matching the given filters
+ *
+ * Since The Graph doesn't provide a direct count query, we walk every page of
+ * matching agent IDs (1000 at a time, keyed by ID) and count them. Results are
+ * cached per chain and filter set. If a walk takes longer than the request's
+ * time budget, the partial count is returned with `exact: false` and the walk
+ * keeps running so a later request can show the exact number.
+ *
+ * @param filters - Optional listing filters (see `AgentFilters`)
+ * @param chain - Chain ID to query, or "all" to sum across enabled chains (default: "all")
+ * @returns Number of agents matching the filters and whether it is exact
+ */
+export async function fetchAgentCount(filters?: AgentFilters, chain: ChainSelection = "all"): Promise<AgentCount> {
+    const chains = resolveChains(chain);
+    const wheres = await Promise.all(chains.map((c) => buildChainAgentWhere(c, filters)));
+    const progress = chains.map((c, i) => getCountProgress(c, wheres[i]));
+
+    // Wait for every walk to finish, or for the time budget to run out
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const budget = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, COUNT_TIME_BUDGET_MS);
+    });
+    await Promise.race([Promise.all(progress.map((p) => p.promise)), budget]);
+    clearTimeout(timer);
+
+    return {
+        total: progress.reduce((sum, p) => sum + p.counted, 0),
+        exact: progress.every((p) => p.done),
+    };
+}
+
+/**
+ * Returns the cached or in-flight count for a chain, starting a walk if needed
+ */
+function getCountProgress(chain: ChainConfig, where: AgentWhere | undefined): CountProgress {
+    const key = `${chain.id}:${JSON.stringify(where ?? {})}`;
+
+    const cached = countCache.get(key);
+    if (cached) return cached;
+
+    const progress: CountProgress = { counted: 0, done: false, promise: Promise.resolve(0) };
+    progress.promise = countChainAgents(chain, where, progress)
+        .then((total) => {
+            progress.done = true;
+            // Restart the TTL now that the count is complete
+            countCache.set(key, progress);
+            return total;
+        })
+        .catch((error) => {
+            // Don't cache failures; the next request starts a fresh walk
+            countCache.delete(key);
+            throw error;
+        });
+
+    countCache.set(key, progress);
+    return progress;
+}
+
+/**
+ * Walks every page of matching agent IDs on a single chain
+ *
+ * Uses `id_gt` on the last seen ID instead of `skip`, which The Graph caps.
+ * `progress.counted` is updated after each page so callers can read partial
+ * results while the walk is running.
+ */
+async function countChainAgents(chain: ChainConfig, where: AgentWhere | undefined, progress: CountProgress) {
     const query = `
-    {
-      agents(
-        first: 1000
-        ${whereClause}
-      ) {
+    query AgentIds($first: Int!, $where: Agent_filter) {
+      agents(first: $first, orderBy: id, orderDirection: asc, where: $where) {
         id
       }
     }
   `;
 
-    const data = (await querySubgraph(query)) as { agents: { id: string }[] };
-    return data.agents.length;
+    let lastId: string | null = null;
+
+    for (;;) {
+        const pageWhere = lastId ? combineWhere<AgentWhere>([...(where ? [where] : []), { id_gt: lastId }]) : where;
+        const data = (await querySubgraph(chain, query, { first: MAX_PAGE_SIZE, where: pageWhere })) as {
+            agents: { id: string }[];
+        };
+
+        progress.counted += data.agents.length;
+        if (data.agents.length < MAX_PAGE_SIZE) return progress.counted;
+        lastId = data.agents[data.agents.length - 1].id;
+    }
 }
 
 /**
  * Fetches global statistics from the subgraph
  *
+ * @param chain - Chain ID to query, or "all" to sum across enabled chains (default: "all")
  * @returns Object with totalAgents and totalFeedback counts
  */
-export async function fetchGlobalStats(): Promise<{
-    totalAgents: string;
-    totalFeedback: string;
-}> {
+export async function fetchGlobalStats(chain: ChainSelection = "all"): Promise<GlobalStats> {
+    const stats = await Promise.all(resolveChains(chain).map((c) => fetchChainGlobalStats(c)));
+
+    return {
+        totalAgents: String(stats.reduce((sum, s) => sum + parseInt(s.totalAgents), 0)),
+        totalFeedback: String(stats.reduce((sum, s) => sum + parseInt(s.totalFeedback), 0)),
+    };
+}
+
+/**
+ * Fetches global statistics from a single chain's subgraph
+ */
+async function fetchChainGlobalStats(chain: ChainConfig): Promise<GlobalStats> {
     const query = `
     {
       globalStats(id: "global") {
@@ -295,84 +1126,230 @@ export async function fetchGlobalStats(): Promise<{
     }
   `;
 
-    const data = (await querySubgraph(query)) as {
-        globalStats: { totalAgents: string; totalFeedback: string };
+    const data = (await querySubgraph(chain, query)) as {
+        globalStats: GlobalStats | null;
     };
-    return data.globalStats;
+    // A freshly deployed subgraph has no stats entity until the first registration
+    return data.globalStats ?? { totalAgents: "0", totalFeedback: "0" };
 }
 
 /**
- * Resolves and fetches metadata from a URI
+ * Fetches every agent and feedback entry of the selected chains, for registry analytics
  *
- * The subgraph only decodes IPFS metadata. For HTTP URLs and base64 data URIs,
- * we need to fetch and decode the metadata ourselves.
+ * Walks the whole registry (like the score aggregate), so callers should cache
+ * the result (see `analytics.ts`).
  *
- * @param uri - The metadata URI (ipfs://, http://, https://, or data:)
- * @returns Parsed metadata object or null if fetch fails
+ * @param chain - Chain ID to read, or "all" for every enabled chain (default: "all")
  */
-async function resolveMetadata(uri: string): Promise<Agent["registrationFile"]> {
-    try {
-        let jsonData: string;
-
-        if (uri.startsWith("data:")) {
-            // Base64 data URI: data:application/json;base64,eyJuYW1lIjoi...
-            const base64Match = uri.match(/^data:[^;]+;base64,(.+)$/);
-            if (!base64Match) return null;
-            jsonData = atob(base64Match[1]);
-        } else if (uri.startsWith("http://") || uri.startsWith("https://")) {
-            // HTTP URL: fetch directly
-            const response = await fetch(uri);
-            if (!response.ok) return null;
-            jsonData = await response.text();
-        } else if (uri.startsWith("ipfs://")) {
-            // IPFS: use a public gateway
-            const hash = uri.replace("ipfs://", "");
-            const response = await fetch(`https://ipfs.io/ipfs/${hash}`);
-            if (!response.ok) return null;
-            jsonData = await response.text();
-        } else {
-            return null;
-        }
+export async function fetchRegistryData(chain: ChainSelection = "all"): Promise<RegistryData> {
+    const perChain = await Promise.all(
+        resolveChains(chain).map((c) =>
+            Promise.all([
+                walkAgents<RegistryAgent>(
+                    c,
+                    "RegistryAgents",
+                    undefined,
+                    `
+        id
+        createdAt
+        totalFeedback
+        registrationFile {
+          name
+          mcpEndpoint
+          a2aEndpoint
+          supportedTrusts
+        }`
+                ),
+                walkFeedback<Omit<RegistryFeedback, "agentId"> & { agent: { id: string } }>(
+                    c,
+                    {},
+                    `
+          id
+          clientAddress
+          score
+          createdAt
+          isRevoked
+          agent {
+            id
+          }`
+                ),
+            ])
+        )
+    );
 
-        const metadata = JSON.parse(jsonData);
+    return {
+        agents: perChain.flatMap(([agents]) => agents),
+        feedback: perChain.flatMap(([, feedback]) =>
+            feedback.map(({ agent, ...entry }) => ({ ...entry, agentId: agent.id }))
+        ),
+    };
+}
 
-        // Map to our registrationFile structure
-        return {
-            name: metadata.name || null,
-            description: metadata.description || null,
-            image: metadata.image || null,
-            mcpEndpoint: metadata.mcpEndpoint || null,
-            a2aEndpoint: metadata.a2aEndpoint || null,
-            supportedTrusts: metadata.supportedTrusts || null,
-        };
-    } catch {
-        return null;
-    }
+/**
+ * Fetches the search documents of every agent with an indexed registration file
+ *
+ * Used to build the search index when no local snapshot is configured (see
+ * `searchSource.ts`). Agents whose file the subgraph couldn't index aren't
+ * searchable this way.
+ *
+ * @param chain - Chain ID to read, or "all" for every enabled chain (default: "all")
+ */
+export async function fetchSearchDocuments(chain: ChainSelection = "all"): Promise<SearchDocument[]> {
+    const perChain = await Promise.all(
+        resolveChains(chain).map((c) =>
+            walkAgents<{ id: string; registrationFile: SearchableFile | null }>(
+                c,
+                "SearchDocuments",
+                undefined,
+                `
+        id
+        registrationFile {
+          name
+          description
+          supportedTrusts
+          mcpEndpoint
+          a2aEndpoint
+          mcpTools
+          mcpPrompts
+          a2aSkills
+        }`
+            )
+        )
+    );
+
+    return perChain
+        .flat()
+        .map((agent) => toSearchDocument(agent.id, agent.registrationFile))
+        .filter((doc): doc is SearchDocument => doc !== null);
 }
 
 /**
- * Helper function to execute GraphQL queries against the subgraph
+ * Data source backed by the live subgraphs
+ */
+export const subgraphDataSource: AgentDataSource = {
+    fetchAgents,
+    fetchOwnerAgents,
+    fetchAgentWithFeedback,
+    fetchAgentFeedback,
+    fetchReviewerFeedback,
+    fetchAgentHistory,
+    fetchAgentValidations,
+    fetchAgentCount,
+    fetchGlobalStats,
+    fetchRegistryData,
+};
+
+/** Attempts per query, including the first one */
+const MAX_ATTEMPTS = 3;
+
+/** Base delay for exponential backoff between attempts */
+const RETRY_BASE_DELAY_MS = 300;
+
+/** Longest we'll wait between attempts, even if the gateway asks for more */
+const MAX_RETRY_DELAY_MS = 5000;
+
+/** Timeout for a single subgraph request */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Helper function to execute GraphQL queries against a chain's subgraph
+ *
+ * User-supplied values must be passed through `variables` rather than
+ * interpolated into the query string.
+ *
+ * Transient failures (network errors, timeouts, 5xx, rate limiting, indexers
+ * behind) are retried with exponential backoff; validation errors are not.
  *
+ * @param chain - Chain whose subgraph should answer the query
  * @param query - GraphQL query string
+ * @param variables - Values for the query's declared variables
  * @returns Parsed JSON response data
- * @throws Error if the request fails or returns GraphQL errors
+ * @throws SubgraphError (or a subclass) describing the last failure
  */
-async function querySubgraph(query: string): Promise<Record<string, unknown>> {
-    const response = await fetch(SUBGRAPH_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query }),
-    });
+async function querySubgraph(
+    chain: ChainConfig,
+    query: string,
+    variables?: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await querySubgraphOnce(chain, query, variables);
+        } catch (error) {
+            if (!(error instanceof SubgraphError) || !error.retryable || attempt >= MAX_ATTEMPTS) {
+                throw error;
+            }
+            await sleep(getRetryDelay(error, attempt));
+        }
+    }
+}
+
+/**
+ * Sends one GraphQL request and classifies any failure
+ */
+async function querySubgraphOnce(
+    chain: ChainConfig,
+    query: string,
+    variables?: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+    if (!chain.subgraphUrl) {
+        throw new SubgraphError("unknown", `No subgraph configured for chain ${chain.id}`, false);
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(chain.subgraphUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ query, variables }),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+    } catch (error) {
+        const reason = (error as Error).name === "TimeoutError" ? "timed out" : (error as Error).message;
+        throw new NetworkError(`Subgraph request failed on ${chain.name}: ${reason}`);
+    }
+
+    if (response.status === 429) {
+        const retryAfter = parseInt(response.headers.get("retry-after") || "");
+        throw new RateLimitedError(
+            `Subgraph rate limit reached on ${chain.name}`,
+            Number.isNaN(retryAfter) ? null : retryAfter * 1000
+        );
+    }
 
-    if (!response.ok) {
-        throw new Error(`Subgraph request failed: ${response.status}`);
+    if (response.status >= 500) {
+        throw new NetworkError(`Subgraph request failed on ${chain.name}: ${response.status}`, response.status);
     }
 
-    const result = await response.json();
+    let result: { data?: Record<string, unknown>; errors?: { message: string }[] };
+    try {
+        result = await response.json();
+    } catch {
+        throw new NetworkError(`Subgraph returned an invalid response on ${chain.name}`, response.status);
+    }
 
-    if (result.errors) {
-        throw new Error(`GraphQL error: ${result.errors[0].message}`);
+    if (result.errors?.length) {
+        throw classifyGraphQLError(result.errors[0].message);
+    }
+
+    if (!response.ok || !result.data) {
+        throw new SubgraphError("unknown", `Subgraph request failed on ${chain.name}: ${response.status}`, false);
     }
 
     return result.data;
 }
+
+/**
+ * Delay before the next attempt: the gateway's Retry-After if given,
+ * otherwise exponential backoff with jitter
+ */
+function getRetryDelay(error: SubgraphError, attempt: number): number {
+    if (error instanceof RateLimitedError && error.retryAfterMs !== null) {
+        return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+    const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    return Math.min(backoff + Math.random() * RETRY_BASE_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,84 @@
+/**
+ * Validation Registry evidence for an agent's trust models
+ *
+ * Registration files list the trust models an agent supports
+ * (`supportedTrust`), but the list is only a claim. This module matches each
+ * model with what backs it on-chain: feedback for "reputation", validator
+ * responses for the validation-based models ("crypto-economic",
+ * "tee-attestation", ...).
+ *
+ * Validators may tag a response with the trust model it attests to. Tagged
+ * responses count for that model only; untagged ones count for every
+ * validation-based model.
+ */
+
+import type { Validation } from "./subgraph";
+
+/**
+ * What backs one supported trust model
+ */
+export interface TrustEvidence {
+    trust: string;
+    source: "feedback" | "validations";
+    count: number | null; // Feedback entries or validator responses; null if validations aren't indexed
+    mean: number | null; // Average score or response; null when there is none
+}
+
+/**
+ * Counts of an agent's validations by state
+ */
+export interface ValidationSummary {
+    total: number;
+    responded: number;
+    pending: number;
+    mean: number | null; // Average response over responded validations
+    validators: number; // Distinct validator addresses
+}
+
+/** Trust model evidenced by feedback rather than validations */
+const REPUTATION_TRUST = "reputation";
+
+/**
+ * Matches each supported trust model with its evidence
+ *
+ * @param trusts - The registration file's `supportedTrusts`
+ * @param validations - The agent's validations, or null if the subgraph doesn't index them
+ * @param reputation - Count and mean score of the agent's non-revoked feedback
+ */
+export function getTrustEvidence(
+    trusts: string[],
+    validations: Validation[] | null,
+    reputation: { count: number; mean: number | null }
+): TrustEvidence[] {
+    const responded = (validations ?? []).filter((v) => v.response !== null);
+
+    return trusts.map((trust) => {
+        if (trust.toLowerCase() === REPUTATION_TRUST) {
+            return { trust, source: "feedback", count: reputation.count, mean: reputation.mean };
+        }
+        if (validations === null) {
+            return { trust, source: "validations", count: null, mean: null };
+        }
+        const matching = responded.filter((v) => !v.tag || v.tag.toLowerCase() === trust.toLowerCase());
+        return { trust, source: "validations", count: matching.length, mean: meanResponse(matching) };
+    });
+}
+
+/**
+ * Summarizes an agent's validations
+ */
+export function summarizeValidations(validations: Validation[]): ValidationSummary {
+    const responded = validations.filter((v) => v.response !== null);
+    return {
+        total: validations.length,
+        responded: responded.length,
+        pending: validations.length - responded.length,
+        mean: meanResponse(responded),
+        validators: new Set(validations.map((v) => v.validatorAddress.toLowerCase())).size,
+    };
+}
+
+function meanResponse(validations: Validation[]): number | null {
+    if (validations.length === 0) return null;
+    return validations.reduce((sum, v) => sum + parseInt(v.response ?? "0"), 0) / validations.length;
+}
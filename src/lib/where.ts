@@ -0,0 +1,176 @@
+/**
+ * In-memory evaluation of The Graph filter inputs
+ *
+ * Lets local data (fixtures, snapshots) be filtered and ordered with the same
+ * `where` inputs that `query.ts` builds for the subgraph, so both backends
+ * share one definition of every filter.
+ *
+ * Supported: `and`/`or`, equality, the `_not`, `_gt`, `_gte`, `_lt`, `_lte`,
+ * `_in`, `_not_in`, `_contains`, `_contains_nocase`, `_not_contains`,
+ * `_starts_with`, `_starts_with_nocase` and `_ends_with` suffixes, and nested
+ * entity filters (`field_: { ... }`), which match if any related entity does.
+ */
+
+/** Operator suffixes, longest first so e.g. "_not_in" wins over "_in" */
+const OPERATORS = [
+    "_contains_nocase",
+    "_starts_with_nocase",
+    "_not_contains",
+    "_starts_with",
+    "_ends_with",
+    "_contains",
+    "_not_in",
+    "_gte",
+    "_lte",
+    "_not",
+    "_gt",
+    "_lt",
+    "_in",
+] as const;
+
+type Operator = (typeof OPERATORS)[number] | "";
+
+/**
+ * Checks whether an entity satisfies a where input
+ *
+ * @param entity - Plain object shaped like the subgraph entity
+ * @param where - Filter input (undefined matches everything)
+ */
+export function matchesWhere(entity: object, where: object | undefined): boolean {
+    if (!where) return true;
+    const fields = entity as Record<string, unknown>;
+
+    return Object.entries(where).every(([key, condition]) => {
+        if (condition === undefined) return true;
+
+        if (key === "and") {
+            return (condition as object[]).every((c) => matchesWhere(entity, c));
+        }
+        if (key === "or") {
+            return (condition as object[]).some((c) => matchesWhere(entity, c));
+        }
+
+        // Nested entity filter, e.g. registrationFile_: { name_contains_nocase: "x" }
+        if (key.endsWith("_")) {
+            const related = fields[key.slice(0, -1)];
+            const items = Array.isArray(related) ? related : related ? [related] : [];
+            return items.some((item) => matchesWhere(item as object, condition as object));
+        }
+
+        const operator = OPERATORS.find((op) => key.endsWith(op)) ?? "";
+        const field = key.slice(0, key.length - operator.length);
+        return compare(fields[field], operator, condition);
+    });
+}
+
+/**
+ * Sorts entities like The Graph's `orderBy`/`orderDirection`, breaking ties by ID
+ *
+ * `orderBy` may name a nested field with the subgraph's double underscore
+ * syntax, e.g. "registrationFile__name". Entities missing the field sort last.
+ */
+export function orderEntities<T extends object>(
+    entities: T[],
+    orderBy: string,
+    direction: "asc" | "desc"
+): T[] {
+    const sign = direction === "asc" ? 1 : -1;
+    const path = orderBy.split("__");
+
+    return [...entities].sort((a, b) => {
+        const av = readPath(a, path);
+        const bv = readPath(b, path);
+        if (av === null || av === undefined) return bv === null || bv === undefined ? 0 : 1;
+        if (bv === null || bv === undefined) return -1;
+        const diff = compareValues(av, bv);
+        if (diff !== 0) return diff * sign;
+        return compareValues(readPath(a, ["id"]), readPath(b, ["id"])) * sign;
+    });
+}
+
+/** Reads a nested value following a field path */
+function readPath(entity: object, path: string[]): unknown {
+    let value: unknown = entity;
+    for (const segment of path) {
+        if (!value || typeof value !== "object") return undefined;
+        value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+}
+
+/** Applies one operator to a field value */
+function compare(value: unknown, operator: Operator, expected: unknown): boolean {
+    switch (operator) {
+        case "":
+            return equals(value, expected);
+        case "_not":
+            return !equals(value, expected);
+        case "_gt":
+            return value !== null && value !== undefined && compareValues(value, expected) > 0;
+        case "_gte":
+            return value !== null && value !== undefined && compareValues(value, expected) >= 0;
+        case "_lt":
+            return value !== null && value !== undefined && compareValues(value, expected) < 0;
+        case "_lte":
+            return value !== null && value !== undefined && compareValues(value, expected) <= 0;
+        case "_in":
+            return (expected as unknown[]).some((e) => equals(value, e));
+        case "_not_in":
+            return !(expected as unknown[]).some((e) => equals(value, e));
+        case "_contains":
+            return contains(value, expected, false);
+        case "_contains_nocase":
+            return contains(value, expected, true);
+        case "_not_contains":
+            return !contains(value, expected, false);
+        case "_starts_with":
+            return typeof value === "string" && value.startsWith(String(expected));
+        case "_starts_with_nocase":
+            return typeof value === "string" && value.toLowerCase().startsWith(String(expected).toLowerCase());
+        case "_ends_with":
+            return typeof value === "string" && value.endsWith(String(expected));
+    }
+}
+
+/** Equality with the subgraph's conventions (case-insensitive hex addresses, null) */
+function equals(value: unknown, expected: unknown): boolean {
+    if (expected === null) return value === null || value === undefined;
+    if (value === null || value === undefined) return false;
+    if (typeof value === "string" && typeof expected === "string" && /^0x/i.test(value) && /^0x/i.test(expected)) {
+        return value.toLowerCase() === expected.toLowerCase();
+    }
+    return compareValues(value, expected) === 0;
+}
+
+/** `_contains` on strings is substring match; on arrays, every expected item must be present */
+function contains(value: unknown, expected: unknown, nocase: boolean): boolean {
+    if (typeof value === "string") {
+        return nocase
+            ? value.toLowerCase().includes(String(expected).toLowerCase())
+            : value.includes(String(expected));
+    }
+    if (Array.isArray(value)) {
+        const wanted = Array.isArray(expected) ? expected : [expected];
+        return wanted.every((w) => value.some((v) => equals(v, w)));
+    }
+    return false;
+}
+
+/**
+ * Orders two values; integer strings (BigInt fields) compare numerically
+ */
+function compareValues(a: unknown, b: unknown): number {
+    if (typeof a === "boolean" || typeof b === "boolean") {
+        return Number(a) - Number(b);
+    }
+    const as = String(a);
+    const bs = String(b);
+    if (/^-?\d+$/.test(as) && /^-?\d+$/.test(bs)) {
+        const diff = BigInt(as) - BigInt(bs);
+        return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    }
+    if (/^-?\d+(\.\d+)?$/.test(as) && /^-?\d+(\.\d+)?$/.test(bs)) {
+        return Number(as) - Number(bs);
+    }
+    return as < bs ? -1 : as > bs ? 1 : 0;
+}
@@ -0,0 +1,198 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { A2aCardView } from "@/components/A2aCardPanel";
+import { compareWithRegistration, fetchAgentCard, getAgentCardUrls, parseAgentCard } from "@/lib/a2a";
+import { parseRegistrationFile, RegistrationFile } from "@/lib/registration";
+import { MetadataServer, startMetadataServer } from "./helpers/metadataServer";
+
+const card = {
+    name: "Ledger Scout",
+    description: "Summarizes wallets",
+    url: "https://scout.example/a2a",
+    version: "1.4.0",
+    protocolVersion: "0.3.0",
+    provider: { organization: "Scout Labs", url: "https://scoutlabs.example" },
+    capabilities: { streaming: true },
+    defaultInputModes: ["text/plain"],
+    defaultOutputModes: ["text/plain", "application/json"],
+    skills: [
+        { id: "wallet-summary", name: "Wallet summary", description: "Summarizes a wallet", tags: ["wallet"] },
+        { id: "tx-explain", name: "Explain transaction", description: "Explains a transaction", tags: ["tx"] },
+    ],
+    securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        oauth: { type: "oauth2", flows: { clientCredentials: {} } },
+    },
+    security: [{ apiKey: [] }, { oauth: ["read"] }],
+};
+
+/** A registration file whose A2A endpoint is the given URL */
+function registration(endpoint: string, overrides: Record<string, unknown> = {}): RegistrationFile {
+    return parseRegistrationFile({
+        name: "Ledger Scout",
+        endpoints: [{ name: "A2A", endpoint, version: "0.3.0", a2aSkills: ["wallet-summary", "tx-explain"] }],
+        ...overrides,
+    })!;
+}
+
+let server: MetadataServer;
+
+beforeAll(async () => {
+    server = await startMetadataServer({
+        "/.well-known/agent.json": { body: JSON.stringify(card) },
+        "/cards/partial.json": { body: JSON.stringify({ name: "Partial", skills: [{ id: "x" }] }) },
+        "/cards/list.json": { body: "[]" },
+        "/moved/card.json": { status: 301, body: "", headers: { Location: "/cards/partial.json" } },
+    });
+    process.env.A2A_CARD_ALLOW_PRIVATE = "true";
+});
+
+afterAll(() => {
+    delete process.env.A2A_CARD_ALLOW_PRIVATE;
+    return server.close();
+});
+
+describe("getAgentCardUrls", () => {
+    it("tries the well-known paths on the endpoint's origin", () => {
+        expect(getAgentCardUrls("https://scout.example/a2a/v1")).toEqual([
+            "https://scout.example/.well-known/agent-card.json",
+            "https://scout.example/.well-known/agent.json",
+        ]);
+    });
+
+    it("uses endpoints that point at a JSON file as is", () => {
+        expect(getAgentCardUrls("https://scout.example/.well-known/agent-card.json")).toEqual([
+            "https://scout.example/.well-known/agent-card.json",
+        ]);
+        expect(getAgentCardUrls("ipfs://bafycid")).toEqual([]);
+    });
+});
+
+describe("fetchAgentCard", () => {
+    it("falls back to the legacy well-known path", async () => {
+        const result = await fetchAgentCard(registration(`${server.url}/a2a`));
+
+        expect(result).toMatchObject({ ok: true, url: `${server.url}/.well-known/agent.json`, issues: [] });
+        if (!result?.ok) return;
+        expect(result.card.capabilities).toEqual({
+            streaming: true,
+            pushNotifications: false,
+            stateTransitionHistory: false,
+        });
+        expect(result.card.securitySchemes).toEqual([
+            { name: "apiKey", type: "apiKey", detail: "header X-API-Key", description: null },
+            { name: "oauth", type: "oauth2", detail: "clientCredentials", description: null },
+        ]);
+        expect(result.card.security).toEqual([["apiKey"], ["oauth"]]);
+        // The card's service URL is on scout.example, the endpoint on the test server
+        expect(result.mismatches.map((m) => m.field)).toEqual(["url"]);
+    });
+
+    it("reports missing required fields but keeps the card", async () => {
+        const result = await fetchAgentCard(registration(`${server.url}/cards/partial.json`));
+
+        expect(result?.ok).toBe(true);
+        if (!result?.ok) return;
+        expect(result.issues).toContain(`Missing "version"`);
+        expect(result.issues).toContain(`"defaultInputModes" must be a list of media types`);
+        expect(result.issues).toContain(`Skill 1 is missing "description"`);
+    });
+
+    it("fails when no candidate returns a JSON object", async () => {
+        expect(await fetchAgentCard(registration(`${server.url}/cards/list.json`))).toMatchObject({ ok: false });
+        expect(await fetchAgentCard(registration(`${server.url}/cards/missing.json`))).toMatchObject({ ok: false });
+        expect(await fetchAgentCard(registration("", { endpoints: [] }))).toBeNull();
+    });
+
+    it("follows redirects to allowed hosts", async () => {
+        const result = await fetchAgentCard(registration(`${server.url}/moved/card.json`));
+
+        expect(result).toMatchObject({ ok: true, url: `${server.url}/moved/card.json` });
+    });
+
+    it("refuses private hosts unless allowed", async () => {
+        delete process.env.A2A_CARD_ALLOW_PRIVATE;
+        try {
+            const result = await fetchAgentCard(registration(`${server.url}/cards/partial.json`));
+            expect(result).toEqual({
+                ok: false,
+                url: `${server.url}/cards/partial.json`,
+                error: "Private and loopback hosts aren't fetched",
+            });
+            expect(await fetchAgentCard(registration("http://10.0.0.5/a2a"))).toMatchObject({ ok: false });
+            expect(await fetchAgentCard(registration("http://[::ffff:a9fe:a9fe]/a2a"))).toMatchObject({ ok: false });
+        } finally {
+            process.env.A2A_CARD_ALLOW_PRIVATE = "true";
+        }
+    });
+});
+
+describe("compareWithRegistration", () => {
+    it("flags name, protocol version and skill differences", () => {
+        const { card: parsed } = parseAgentCard({ ...card, name: "Scout", protocolVersion: "0.2.5" })!;
+        const file = registration("https://scout.example/a2a", {
+            endpoints: [
+                {
+                    name: "A2A",
+                    endpoint: "https://scout.example/a2a",
+                    version: "v0.3",
+                    a2aSkills: ["Wallet-Summary", "nft-appraisal"],
+                },
+            ],
+        });
+
+        expect(compareWithRegistration(parsed, file)).toEqual([
+            { field: "name", message: `The card names the agent "Scout"; the registration file says "Ledger Scout"` },
+            { field: "version", message: "The card uses A2A 0.2.5; the registration file says v0.3" },
+            { field: "skills", message: "Skills in the registration file but not on the card: nft-appraisal" },
+            { field: "skills", message: "Skills on the card but not in the registration file: tx-explain" },
+        ]);
+    });
+
+    it("treats equivalent versions and skill names as matching", () => {
+        const { card: parsed } = parseAgentCard({ ...card, protocolVersion: "v0.3" })!;
+        const file = registration("https://scout.example/a2a", {
+            endpoints: [
+                {
+                    name: "A2A",
+                    endpoint: "https://scout.example/",
+                    version: "0.3.0",
+                    a2aSkills: ["wallet summary", "tx-explain"],
+                },
+            ],
+        });
+
+        expect(compareWithRegistration(parsed, file)).toEqual([]);
+    });
+
+    it("reads the legacy authentication list", () => {
+        const legacy = { ...card, securitySchemes: undefined, authentication: { schemes: ["bearer"] } };
+        const { card: parsed } = parseAgentCard(legacy)!;
+
+        expect(parsed.securitySchemes).toEqual([{ name: "bearer", type: "bearer", detail: null, description: null }]);
+    });
+});
+
+describe("A2aCardView", () => {
+    it("renders the card and its mismatches", () => {
+        const { card: parsed } = parseAgentCard({ ...card, name: "Scout" })!;
+        const html = renderToStaticMarkup(
+            A2aCardView({
+                result: {
+                    ok: true,
+                    url: "https://scout.example/.well-known/agent-card.json",
+                    card: parsed,
+                    issues: [],
+                    mismatches: compareWithRegistration(parsed, registration("https://scout.example/a2a")),
+                },
+            })
+        );
+
+        expect(html).toContain("Wallet summary");
+        expect(html).toContain("application/json");
+        expect(html).toContain("Push notifications");
+        expect(html).toContain("Requires apiKey or oauth");
+        expect(html).toContain("Differs from the registration file");
+        expect(html).toContain("Scout Labs");
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { buildTimeline, diffRegistrationFiles, TIMELINE_LIMIT } from "@/lib/activity";
+import { Agent, AgentHistory } from "@/lib/subgraph";
+
+const agent: Agent = {
+    id: "11155111:4",
+    chainId: "11155111",
+    agentId: "4",
+    owner: "0x2222222222222222222222222222222222222222",
+    metadataUri: "ipfs://current",
+    createdAt: "100",
+    updatedAt: "300",
+    totalFeedback: "1",
+    registrationFile: null,
+    metadataSource: null,
+};
+
+const emptyHistory: AgentHistory = { uriUpdates: [], transfers: [], revokedFeedback: [], complete: true };
+
+function dataUri(document: object): string {
+    return `data:application/json;base64,${Buffer.from(JSON.stringify(document)).toString("base64")}`;
+}
+
+describe("buildTimeline", () => {
+    it("starts with the registration under the original owner and URI", () => {
+        const history: AgentHistory = {
+            ...emptyHistory,
+            uriUpdates: [
+                { id: "u", previousURI: "ipfs://first", newURI: "ipfs://current", updatedBy: "0x1", timestamp: "200" },
+            ],
+            transfers: [
+                { id: "t", from: "0x1111111111111111111111111111111111111111", to: agent.owner, timestamp: "300" },
+            ],
+        };
+
+        const activity = buildTimeline(agent, history, []);
+
+        expect(activity.events.map((e) => e.kind)).toEqual(["transferred", "uri-updated", "registered"]);
+        expect(activity.events[2]).toEqual({
+            kind: "registered",
+            timestamp: "100",
+            owner: "0x1111111111111111111111111111111111111111",
+            uri: "ipfs://first",
+        });
+    });
+
+    it("lists revocations separately when their time is known", () => {
+        const given = { id: "f1", score: "20", clientAddress: "0x3", createdAt: "150", isRevoked: true };
+        const revoked = (revokedAt: string | null): AgentHistory => ({
+            ...emptyHistory,
+            revokedFeedback: [{ ...given, revokedAt }],
+        });
+        const withTime = buildTimeline(agent, revoked("250"), []);
+        const withoutTime = buildTimeline(agent, revoked(null), []);
+
+        expect(withTime.events.map((e) => e.kind)).toEqual(["feedback-revoked", "feedback-given", "registered"]);
+        expect(withoutTime.events.map((e) => e.kind)).toEqual(["feedback-given", "registered"]);
+    });
+
+    it("merges active feedback with the revoked feedback of the history", () => {
+        const active = { id: "f2", score: "90", clientAddress: "0x4", createdAt: "200", isRevoked: false };
+        const history: AgentHistory = {
+            ...emptyHistory,
+            revokedFeedback: [
+                { id: "f1", score: "20", clientAddress: "0x3", createdAt: "150", isRevoked: true, revokedAt: "250" },
+            ],
+        };
+
+        const activity = buildTimeline(agent, history, [active]);
+
+        expect(activity.events.map((e) => e.kind)).toEqual([
+            "feedback-revoked",
+            "feedback-given",
+            "feedback-given",
+            "registered",
+        ]);
+        expect(activity.events.slice(0, 3)).toMatchObject([
+            { feedback: { id: "f1" } },
+            { feedback: { id: "f2" } },
+            { feedback: { id: "f1" } },
+        ]);
+    });
+
+    it("keeps the latest events when there are too many", () => {
+        const feedback = Array.from({ length: TIMELINE_LIMIT + 5 }, (_, i) => ({
+            id: `f${i}`,
+            score: "80",
+            clientAddress: "0x3",
+            createdAt: String(200 + i),
+            isRevoked: false,
+        }));
+
+        const activity = buildTimeline(agent, emptyHistory, feedback);
+
+        expect(activity.total).toBe(TIMELINE_LIMIT + 6);
+        expect(activity.events).toHaveLength(TIMELINE_LIMIT);
+        expect(activity.events[0]).toMatchObject({
+            kind: "feedback-given",
+            timestamp: String(200 + TIMELINE_LIMIT + 4),
+        });
+    });
+});
+
+describe("diffRegistrationFiles", () => {
+    it("diffs the pretty-printed registration files", async () => {
+        const diff = await diffRegistrationFiles(
+            dataUri({ name: "Sentinel", active: false }),
+            dataUri({ name: "Sentinel", active: true })
+        );
+
+        expect(diff.status).toBe("ok");
+        if (diff.status !== "ok") return;
+        expect(diff.changed).toBe(true);
+        expect(diff.rows).toContainEqual({
+            type: "changed",
+            left: { line: 3, text: '  "active": false' },
+            right: { line: 3, text: '  "active": true' },
+        });
+    });
+
+    it("explains when files can't be compared", async () => {
+        expect(await diffRegistrationFiles(null, "ipfs://b")).toEqual({ status: "unknown-previous" });
+        expect(await diffRegistrationFiles("ipfs://b", "ipfs://b")).toEqual({ status: "same-uri" });
+    });
+});
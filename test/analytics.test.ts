@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { RegistryAgent, RegistryFeedback, summarizeRegistry } from "@/lib/analytics";
+
+const DAY = 24 * 60 * 60;
+const MONDAY = Date.UTC(2025, 8, 1) / 1000; // 2025-09-01
+
+function agent(
+    id: string,
+    createdAt: number,
+    totalFeedback: number,
+    file: Partial<NonNullable<RegistryAgent["registrationFile"]>> | null = {}
+): RegistryAgent {
+    return {
+        id,
+        createdAt: String(createdAt),
+        totalFeedback: String(totalFeedback),
+        registrationFile: file && {
+            name: `Agent ${id}`,
+            mcpEndpoint: null,
+            a2aEndpoint: null,
+            supportedTrusts: null,
+            ...file,
+        },
+    };
+}
+
+function feedback(
+    id: string,
+    agentId: string,
+    clientAddress: string,
+    score: number,
+    createdAt: number,
+    isRevoked = false
+): RegistryFeedback {
+    return { id, agentId, clientAddress, score: String(score), createdAt: String(createdAt), isRevoked };
+}
+
+const data = {
+    agents: [
+        agent("1:1", MONDAY, 3, { mcpEndpoint: "https://a.example/mcp", supportedTrusts: ["reputation"] }),
+        agent("1:2", MONDAY + DAY, 1, {
+            mcpEndpoint: "https://b.example/mcp",
+            a2aEndpoint: "https://b.example/a2a",
+            supportedTrusts: ["reputation", "tee-attestation"],
+        }),
+        agent("1:3", MONDAY + 15 * DAY, 0, null),
+    ],
+    feedback: [
+        feedback("f1", "1:1", "0xAAAA000000000000000000000000000000000001", 90, MONDAY + DAY),
+        feedback("f2", "1:1", "0xaaaa000000000000000000000000000000000001", 70, MONDAY + 2 * DAY),
+        feedback("f3", "1:1", "0xbbbb000000000000000000000000000000000002", 10, MONDAY + 2 * DAY, true),
+        feedback("f4", "1:2", "0xaaaa000000000000000000000000000000000001", 100, MONDAY + 8 * DAY),
+    ],
+};
+
+describe("summarizeRegistry", () => {
+    it("computes totals and fills empty periods in the time series", () => {
+        const analytics = summarizeRegistry(data, "week");
+
+        expect(analytics).toMatchObject({ agents: 3, feedback: 4, revokedFeedback: 1, reviewers: 2 });
+        expect(analytics.meanScore).toBeCloseTo(260 / 3);
+        expect(analytics.registrations).toEqual([
+            { start: MONDAY, count: 2 },
+            { start: MONDAY + 7 * DAY, count: 0 },
+            { start: MONDAY + 14 * DAY, count: 1 },
+        ]);
+        expect(summarizeRegistry(data, "day").feedbackVolume.map((p) => p.count)).toEqual([1, 2, 0, 0, 0, 0, 0, 1]);
+        // Revoked feedback counts towards volume but not the score distribution
+        expect(analytics.scoreHistogram.reduce((sum, b) => sum + b.count, 0)).toBe(3);
+    });
+
+    it("counts endpoints and trust models over agents with an indexed file", () => {
+        const analytics = summarizeRegistry(data, "week");
+
+        expect(analytics.endpoints).toEqual({ described: 2, mcp: 2, a2a: 1, both: 1 });
+        expect(analytics.trustModels).toEqual([
+            { trust: "reputation", count: 2 },
+            { trust: "tee-attestation", count: 1 },
+        ]);
+    });
+
+    it("ranks agents and reviewers", () => {
+        const analytics = summarizeRegistry(data, "week");
+
+        expect(analytics.topByReviews.map((a) => a.id)).toEqual(["1:1", "1:2"]);
+        expect(analytics.topByReviews[0]).toEqual({ id: "1:1", name: "Agent 1:1", reviews: 3, average: 80 });
+        // 1:2 has a perfect score but only one review
+        expect(analytics.topByScore.map((a) => a.id)).toEqual(["1:1"]);
+        expect(analytics.topReviewers).toEqual([
+            { address: "0xaaaa000000000000000000000000000000000001", reviews: 3, agents: 2, mean: 260 / 3 },
+            { address: "0xbbbb000000000000000000000000000000000002", reviews: 1, agents: 1, mean: null },
+        ]);
+    });
+
+    it("handles an empty registry", () => {
+        const analytics = summarizeRegistry({ agents: [], feedback: [] }, "day");
+
+        expect(analytics.registrations).toEqual([]);
+        expect(analytics.meanScore).toBeNull();
+        expect(analytics.topReviewers).toEqual([]);
+    });
+});
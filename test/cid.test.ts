@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { decodeCid, parseIpfsUri, verifyCid } from "@/lib/cid";
+
+// CIDs produced by `ipfs add` for the same content
+const HELLO = new TextEncoder().encode("hello world\n");
+const HELLO_CID_V0 = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+const EMPTY_CID_V0 = "QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH";
+const EMPTY_CID_RAW = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+describe("parseIpfsUri", () => {
+    it("splits the CID from the path", () => {
+        expect(parseIpfsUri(`ipfs://${HELLO_CID_V0}`)).toEqual({ cid: HELLO_CID_V0, path: "" });
+        expect(parseIpfsUri(`ipfs://ipfs/${HELLO_CID_V0}/agent.json`)).toEqual({
+            cid: HELLO_CID_V0,
+            path: "/agent.json",
+        });
+        expect(parseIpfsUri("https://example.com/agent.json")).toBeNull();
+    });
+});
+
+describe("decodeCid", () => {
+    it("decodes CIDv0 and base32 CIDv1", () => {
+        expect(decodeCid(HELLO_CID_V0)).toMatchObject({ version: 0, codec: 0x70, hashCode: 0x12 });
+        expect(decodeCid(EMPTY_CID_RAW)).toMatchObject({ version: 1, codec: 0x55, hashCode: 0x12 });
+    });
+
+    it("rejects malformed CIDs", () => {
+        expect(decodeCid("Qm0000")).toBeNull();
+        expect(decodeCid(`${EMPTY_CID_RAW.slice(0, -4)}`)).toBeNull();
+        expect(decodeCid("not-a-cid")).toBeNull();
+    });
+});
+
+describe("verifyCid", () => {
+    it("matches content against dag-pb and raw CIDs", () => {
+        expect(verifyCid(HELLO_CID_V0, HELLO)).toEqual({ status: "match", cid: HELLO_CID_V0, codec: "dag-pb" });
+        expect(verifyCid(EMPTY_CID_V0, new Uint8Array()).status).toBe("match");
+        expect(verifyCid(EMPTY_CID_RAW, new Uint8Array())).toEqual({ status: "match", cid: EMPTY_CID_RAW, codec: "raw" });
+    });
+
+    it("detects content that doesn't match", () => {
+        expect(verifyCid(HELLO_CID_V0, new TextEncoder().encode("hello world!\n")).status).toBe("mismatch");
+        expect(verifyCid(EMPTY_CID_RAW, HELLO).status).toBe("mismatch");
+    });
+
+    it("reports what it can't check", () => {
+        expect(verifyCid("not-a-cid", HELLO)).toMatchObject({ status: "unsupported", reason: "Not a valid CID" });
+        expect(verifyCid(HELLO_CID_V0, new Uint8Array(256 * 1024 + 1))).toMatchObject({ status: "unsupported" });
+    });
+});
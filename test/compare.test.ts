@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildCompareUrl, formatCompareIds, parseCompareIds, toggleCompareId } from "@/lib/compare";
+
+describe("parseCompareIds", () => {
+    it("drops malformed and duplicate IDs", () => {
+        expect(parseCompareIds("1:1, 1:2,,nope,1:1,1:x")).toEqual(["1:1", "1:2"]);
+        expect(parseCompareIds(undefined)).toEqual([]);
+    });
+
+    it("keeps at most four agents", () => {
+        expect(parseCompareIds("1:1,1:2,1:3,1:4,1:5")).toEqual(["1:1", "1:2", "1:3", "1:4"]);
+    });
+});
+
+describe("toggleCompareId", () => {
+    it("adds and removes agents", () => {
+        expect(toggleCompareId(["1:1"], "1:2")).toEqual(["1:1", "1:2"]);
+        expect(toggleCompareId(["1:1", "1:2"], "1:1")).toEqual(["1:2"]);
+    });
+
+    it("leaves a full selection unchanged", () => {
+        const full = ["1:1", "1:2", "1:3", "1:4"];
+
+        expect(toggleCompareId(full, "1:5")).toEqual(full);
+        expect(toggleCompareId(full, "1:4")).toEqual(["1:1", "1:2", "1:3"]);
+    });
+});
+
+describe("buildCompareUrl", () => {
+    it("lists the selected IDs", () => {
+        expect(buildCompareUrl(["1:1", "1:2"])).toBe("/compare?ids=1:1,1:2");
+        expect(formatCompareIds([])).toBeUndefined();
+    });
+});
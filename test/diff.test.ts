@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, hasChanges } from "@/lib/diff";
+
+describe("diffLines", () => {
+    it("pairs replaced lines and keeps line numbers per side", () => {
+        const rows = diffLines("a\nb\nc", "a\nB\nc\nd");
+
+        expect(rows).toEqual([
+            { type: "same", left: { line: 1, text: "a" }, right: { line: 1, text: "a" } },
+            { type: "changed", left: { line: 2, text: "b" }, right: { line: 2, text: "B" } },
+            { type: "same", left: { line: 3, text: "c" }, right: { line: 3, text: "c" } },
+            { type: "added", left: null, right: { line: 4, text: "d" } },
+        ]);
+        expect(hasChanges(rows)).toBe(true);
+    });
+
+    it("reports removals on the old side only", () => {
+        expect(diffLines("a\nb\nc", "a\nc")).toContainEqual({
+            type: "removed",
+            left: { line: 2, text: "b" },
+            right: null,
+        });
+    });
+
+    it("folds unchanged lines far from any change", () => {
+        const before = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+        const after = [...before];
+        after[10] = "changed";
+
+        const rows = diffLines(before.join("\n"), after.join("\n"));
+
+        expect(rows[0]).toEqual({ type: "skip", count: 7 });
+        expect(rows[rows.length - 1]).toEqual({ type: "skip", count: 6 });
+        expect(rows.filter((r) => r.type === "same")).toHaveLength(6);
+    });
+
+    it("folds identical texts into a single skip", () => {
+        const rows = diffLines("a\nb", "a\nb");
+
+        expect(rows).toEqual([{ type: "skip", count: 2 }]);
+        expect(hasChanges(rows)).toBe(false);
+    });
+});
@@ -0,0 +1,106 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+    createRpcEnsResolver,
+    createStaticEnsResolver,
+    isEnsName,
+    lookupEnsNames,
+    namehash,
+    resolveEnsName,
+} from "@/lib/ens";
+import { EnsRpcServer, startEnsRpcServer } from "./helpers/ensRpcServer";
+
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const MALLORY = "0x00000000000000000000000000000000000000b2";
+
+let server: EnsRpcServer;
+
+beforeAll(async () => {
+    server = await startEnsRpcServer({
+        // Mallory's reverse record claims Alice's name, which doesn't point back
+        reverse: { [ALICE]: "alice.eth", [MALLORY]: "alice.eth" },
+        forward: { "alice.eth": ALICE },
+    });
+});
+
+afterEach(() => {
+    delete process.env.AGENT_DATA_SOURCE;
+    delete process.env.ENS_RPC_URL;
+});
+
+afterAll(() => server.close());
+
+describe("namehash", () => {
+    it("hashes names label by label", () => {
+        expect(namehash("")).toBe(`0x${"0".repeat(64)}`);
+        expect(namehash("eth")).toBe("0x93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae");
+        expect(namehash("foo.eth")).toBe("0xde9b09fd7c5f901e23a3f19fecc54828e9c848539801e86591bd9801b019f84f");
+    });
+});
+
+describe("isEnsName", () => {
+    it("recognizes dotted names but not addresses or free text", () => {
+        expect(isEnsName("vitalik.eth")).toBe(true);
+        expect(isEnsName("agents.example.xyz")).toBe(true);
+        expect(isEnsName(ALICE)).toBe(false);
+        expect(isEnsName("weather bot")).toBe(false);
+        expect(isEnsName("https://agent.example")).toBe(false);
+    });
+});
+
+describe("createRpcEnsResolver", () => {
+    it("returns primary names that resolve back to the address", async () => {
+        const resolver = createRpcEnsResolver(server.url);
+
+        expect(await resolver.lookupAddress(ALICE.toUpperCase().replace("0X", "0x"))).toBe("alice.eth");
+        expect(await resolver.lookupAddress(MALLORY)).toBeNull();
+        expect(await resolver.resolveName("Alice.ETH")).toBe(ALICE);
+        expect(await resolver.resolveName("nobody.eth")).toBeNull();
+    });
+
+    it("caches lookups", async () => {
+        const resolver = createRpcEnsResolver(server.url);
+        await resolver.lookupAddress(ALICE);
+        const calls = server.calls.length;
+
+        expect(await resolver.lookupAddress(ALICE)).toBe("alice.eth");
+        expect(server.calls.length).toBe(calls);
+    });
+
+    it("fails lookups when the node is unavailable", async () => {
+        const failing = await startEnsRpcServer({ reverse: {}, forward: {} }, 503);
+        try {
+            await expect(createRpcEnsResolver(failing.url).resolveName("alice.eth")).rejects.toThrow("HTTP 503");
+        } finally {
+            await failing.close();
+        }
+    });
+});
+
+describe("lookupEnsNames", () => {
+    it("uses the fixture names offline", async () => {
+        process.env.AGENT_DATA_SOURCE = "fixtures";
+
+        const names = await lookupEnsNames([
+            "0x95256875151043ABDCAFDD26FD390C650D6311E1",
+            "0x95256875151043abdcafdd26fd390c650d6311e1",
+            ALICE,
+        ]);
+
+        expect([...names]).toEqual([["0x95256875151043abdcafdd26fd390c650d6311e1", "nimbuslabs.eth"]]);
+        expect(await resolveEnsName("Sentinel.eth")).toBe("0x7547397dc9faf1b05fe014dda1f2bc279b00dd1d");
+    });
+
+    it("goes through the RPC resolver when configured, and is off otherwise", async () => {
+        expect((await lookupEnsNames([ALICE])).size).toBe(0);
+
+        process.env.ENS_RPC_URL = server.url;
+        expect(await lookupEnsNames([ALICE, MALLORY, "not-an-address"])).toEqual(new Map([[ALICE, "alice.eth"]]));
+    });
+
+    it("maps addresses case-insensitively in static resolvers", async () => {
+        const resolver = createStaticEnsResolver({ [ALICE.toUpperCase().replace("0X", "0x")]: "alice.eth" });
+
+        expect(await resolver.lookupAddress(ALICE)).toBe("alice.eth");
+        expect(await resolver.resolveName("ALICE.eth")).toBe(ALICE);
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * Local Ethereum JSON-RPC stand-in for ENS tests
+ *
+ * Answers the `eth_call`s the RPC ENS resolver makes (registry `resolver`,
+ * resolver `name` and `addr`) from in-memory reverse and forward records, so
+ * lookups can be tested without a mainnet node.
+ */
+
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { namehash } from "@/lib/ens";
+
+/** Resolver contract every record of the stub lives in */
+export const STUB_RESOLVER = "0x4976fb03c32e5b8cfe2b6ccb31c09ba78ebaba41";
+
+export interface EnsRecords {
+    reverse: Record<string, string>; // Address → claimed primary name
+    forward: Record<string, string>; // Name → address
+}
+
+export interface EnsRpcServer {
+    url: string;
+    calls: { to: string; data: string }[];
+    close(): Promise<void>;
+}
+
+/**
+ * Starts an ENS JSON-RPC stub server
+ *
+ * @param failWith - HTTP status to answer every request with, to test failures
+ */
+export async function startEnsRpcServer(records: EnsRecords, failWith?: number): Promise<EnsRpcServer> {
+    const calls: { to: string; data: string }[] = [];
+
+    // Nodes are matched by namehash, like the real registry
+    const names = new Map<string, string>();
+    const addresses = new Map<string, string>();
+    for (const [address, name] of Object.entries(records.reverse)) {
+        names.set(namehash(`${address.slice(2).toLowerCase()}.addr.reverse`), name);
+    }
+    for (const [name, address] of Object.entries(records.forward)) {
+        addresses.set(namehash(name), address.toLowerCase());
+    }
+
+    const answer = (to: string, data: string): string => {
+        const selector = data.slice(0, 10);
+        const node = `0x${data.slice(10, 74)}`;
+        if (selector === "0x0178b8bf") {
+            return names.has(node) || addresses.has(node) ? encodeAddress(STUB_RESOLVER) : encodeAddress(null);
+        }
+        if (to !== STUB_RESOLVER) return "0x";
+        if (selector === "0x691f3431") return encodeString(names.get(node) ?? "");
+        if (selector === "0x3b3b57de") return encodeAddress(addresses.get(node) ?? null);
+        return "0x";
+    };
+
+    const server = createServer(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        const { to, data } = body.params[0] as { to: string; data: string };
+        calls.push({ to, data });
+
+        if (failWith) {
+            res.writeHead(failWith);
+            res.end();
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: answer(to.toLowerCase(), data) }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        calls,
+        close: () => new Promise((resolve) => server.close(() => resolve())),
+    };
+}
+
+function encodeAddress(address: string | null): string {
+    return `0x${(address ?? "0x").slice(2).padStart(64, "0")}`;
+}
+
+function encodeString(value: string): string {
+    const hex = Buffer.from(value, "utf8").toString("hex");
+    const padded = hex.padEnd(Math.ceil(hex.length / 64) * 64, "0");
+    return `0x${(32).toString(16).padStart(64, "0")}${(hex.length / 2).toString(16).padStart(64, "0")}${padded}`;
+}
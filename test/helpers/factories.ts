@@ -0,0 +1,62 @@
+/**
+ * Builders for subgraph-shaped test data
+ */
+
+let nextFeedbackId = 1;
+
+/** An agent as the subgraph returns it (before the client normalizes it) */
+export function makeSubgraphAgent(overrides: Record<string, unknown> = {}) {
+    const agentId = String(overrides.agentId ?? "1");
+    const chainId = String(overrides.chainId ?? "11155111");
+    return {
+        id: `${chainId}:${agentId}`,
+        chainId,
+        agentId,
+        owner: "0x1111111111111111111111111111111111111111",
+        agentURI: "",
+        createdAt: "1757000000",
+        updatedAt: "1757000000",
+        totalFeedback: "0",
+        registrationFile: {
+            name: `Agent ${agentId}`,
+            description: null,
+            image: null,
+            active: null,
+            x402support: null,
+            supportedTrusts: null,
+            mcpEndpoint: null,
+            mcpVersion: null,
+            mcpTools: null,
+            mcpPrompts: null,
+            mcpResources: null,
+            a2aEndpoint: null,
+            a2aVersion: null,
+            a2aSkills: null,
+            ens: null,
+            did: null,
+            agentWallet: null,
+            agentWalletChainId: null,
+        },
+        ...overrides,
+    };
+}
+
+/** A feedback entry as the subgraph returns it */
+export function makeFeedback(overrides: Record<string, unknown> = {}) {
+    return {
+        id: `feedback-${nextFeedbackId++}`,
+        score: "80",
+        tag1: null,
+        tag2: null,
+        clientAddress: "0x2222222222222222222222222222222222222222",
+        createdAt: "1757100000",
+        isRevoked: false,
+        feedbackFile: null,
+        ...overrides,
+    };
+}
+
+/** Encodes a JSON value as a base64 data: URI */
+export function toDataUri(value: unknown): string {
+    return `data:application/json;base64,${Buffer.from(JSON.stringify(value)).toString("base64")}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Local GraphQL stand-in for subgraph tests
+ *
+ * Starts an HTTP server on a random port that records every request and
+ * answers with whatever the test's handler returns. Point a chain at it with
+ * `SUBGRAPH_URL_<chainId>`.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+/** A GraphQL request as received by the stub */
+export interface GraphQLRequest {
+    operationName: string | null; // Parsed from "query <Name>(...)"
+    query: string;
+    variables: Record<string, unknown>;
+}
+
+/** What a handler can answer with: GraphQL data, or a raw HTTP response */
+export type GraphQLReply =
+    | { data: Record<string, unknown> }
+    | { errors: { message: string }[] }
+    | { status: number; body?: unknown; headers?: Record<string, string> };
+
+export type GraphQLHandler = (request: GraphQLRequest) => GraphQLReply | Promise<GraphQLReply>;
+
+export interface GraphQLServer {
+    url: string;
+    requests: GraphQLRequest[];
+    /** Replaces the handler for subsequent requests */
+    setHandler(handler: GraphQLHandler): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Starts a GraphQL stub server
+ */
+export async function startGraphQLServer(handler: GraphQLHandler): Promise<GraphQLServer> {
+    const requests: GraphQLRequest[] = [];
+    let current = handler;
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+
+        const request: GraphQLRequest = {
+            operationName: (body.query as string)?.match(/query\s+(\w+)/)?.[1] ?? null,
+            query: body.query,
+            variables: body.variables ?? {},
+        };
+        requests.push(request);
+
+        const reply = await current(request);
+        if ("status" in reply) {
+            res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+            res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}/graphql`,
+        requests,
+        setHandler(next) {
+            current = next;
+        },
+        close: () => new Promise((resolve) => server.close(() => resolve())),
+    };
+}
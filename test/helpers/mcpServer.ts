@@ -0,0 +1,140 @@
+/**
+ * Local MCP server for probe tests
+ *
+ * Speaks enough of the Streamable HTTP transport for `probeMcpEndpoint`:
+ * initialize (issuing a session ID), the initialized notification and the
+ * list methods, answering with JSON or an event stream. Tests change the
+ * behaviour per path through `setOptions`.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+
+export interface McpServerOptions {
+    /** Answer requests as an event stream instead of a JSON body */
+    stream?: boolean;
+    /** Delay before answering each request */
+    delayMs?: number;
+    /** Capabilities returned by initialize (default: tools, resources, prompts) */
+    capabilities?: Record<string, unknown>;
+    /** Tools, served two per page to exercise cursors */
+    tools?: unknown[];
+    resources?: unknown[];
+    prompts?: unknown[];
+    /** JSON-RPC error returned for a method */
+    failMethod?: string;
+    /** Answer every POST with a 307 redirect to this URL */
+    redirectTo?: string;
+}
+
+/** A request received by the stub */
+export interface McpRequest {
+    method: string; // JSON-RPC method, or the HTTP method for non-POST requests
+    sessionId: string | null;
+    protocolVersion: string | null;
+}
+
+export interface McpServer {
+    url: string;
+    requests: McpRequest[];
+    setOptions(options: McpServerOptions): void;
+    close(): Promise<void>;
+}
+
+const SESSION_ID = "session-1";
+
+/**
+ * Starts an MCP stub server
+ */
+export async function startMcpServer(initial: McpServerOptions = {}): Promise<McpServer> {
+    const requests: McpRequest[] = [];
+    let options = initial;
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const message = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+
+        requests.push({
+            method: req.method === "POST" ? message.method : req.method!,
+            sessionId: (req.headers["mcp-session-id"] as string) ?? null,
+            protocolVersion: (req.headers["mcp-protocol-version"] as string) ?? null,
+        });
+
+        if (options.delayMs) await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+
+        if (req.method !== "POST") {
+            res.writeHead(req.method === "DELETE" ? 200 : 405).end();
+            return;
+        }
+        if (options.redirectTo) {
+            res.writeHead(307, { Location: options.redirectTo }).end();
+            return;
+        }
+        if (message.id === undefined) {
+            res.writeHead(202).end();
+            return;
+        }
+
+        const reply = { jsonrpc: "2.0", id: message.id, ...answer(message.method, message.params ?? {}) };
+        const headers: Record<string, string> = message.method === "initialize" ? { "Mcp-Session-Id": SESSION_ID } : {};
+
+        if (options.stream) {
+            res.writeHead(200, { "Content-Type": "text/event-stream", ...headers });
+            // A server notification first, which the client must skip
+            const notification = { jsonrpc: "2.0", method: "notifications/message" };
+            res.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+            res.write(`event: message\ndata: ${JSON.stringify(reply)}\n\n`);
+            // Keep the stream open, as servers may; the client stops reading once answered
+            setTimeout(() => res.end(), 2000).unref();
+            return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json", ...headers });
+        res.end(JSON.stringify(reply));
+    });
+
+    function answer(method: string, params: { cursor?: string }) {
+        if (method === options.failMethod) {
+            return { error: { code: -32603, message: "Internal error" } };
+        }
+        switch (method) {
+            case "initialize":
+                return {
+                    result: {
+                        protocolVersion: "2025-06-18",
+                        capabilities: options.capabilities ?? { tools: {}, resources: {}, prompts: {} },
+                        serverInfo: { name: "stub-mcp", version: "1.2.3" },
+                        instructions: "Use scan_contract first.",
+                    },
+                };
+            case "tools/list": {
+                const start = parseInt(params.cursor ?? "0");
+                const tools = options.tools ?? [];
+                const next = start + 2 < tools.length ? String(start + 2) : undefined;
+                return { result: { tools: tools.slice(start, start + 2), nextCursor: next } };
+            }
+            case "resources/list":
+                return { result: { resources: options.resources ?? [] } };
+            case "prompts/list":
+                return { result: { prompts: options.prompts ?? [] } };
+            default:
+                return { error: { code: -32601, message: "Method not found" } };
+        }
+    }
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        setOptions(next) {
+            options = next;
+        },
+        close: () =>
+            new Promise((resolve) => {
+                server.closeAllConnections();
+                server.close(() => resolve());
+            }),
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * Local HTTP server for metadata resolution tests
+ *
+ * Serves fixed responses by path, optionally delayed, and counts hits so
+ * tests can assert on caching. Also usable as an IPFS/Arweave gateway by
+ * registering "/ipfs/<cid>" paths.
+ */
+
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+
+/** A canned response */
+export interface MetadataRoute {
+    status?: number;
+    body: string | Buffer;
+    headers?: Record<string, string>;
+    /** Wait this long before responding (to exercise timeouts) */
+    delayMs?: number;
+}
+
+export interface MetadataServer {
+    url: string;
+    /** Request count per path */
+    hits: Record<string, number>;
+    close(): Promise<void>;
+}
+
+/**
+ * Starts a metadata server with the given routes; unknown paths return 404
+ */
+export async function startMetadataServer(routes: Record<string, MetadataRoute>): Promise<MetadataServer> {
+    const hits: Record<string, number> = {};
+
+    const server = createServer((req, res) => {
+        const path = req.url ?? "/";
+        hits[path] = (hits[path] ?? 0) + 1;
+
+        const route = routes[path];
+        if (!route) {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+
+        const respond = () => {
+            if (res.destroyed) return;
+            res.writeHead(route.status ?? 200, { "Content-Type": "application/json", ...route.headers });
+            res.end(route.body);
+        };
+        if (route.delayMs) setTimeout(respond, route.delayMs);
+        else respond();
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        hits,
+        close: () =>
+            new Promise((resolve) => {
+                server.closeAllConnections();
+                server.close(() => resolve());
+            }),
+    };
+}
@@ -0,0 +1,143 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { getMetadataScheme, inspectMetadata, REGISTRATION_FILE_TYPE, validateRegistrationFile } from "@/lib/inspector";
+import type { Agent } from "@/lib/subgraph";
+import { toDataUri } from "./helpers/factories";
+import { MetadataServer, startMetadataServer } from "./helpers/metadataServer";
+
+// `ipfs add` CID of "hello world\n"
+const HELLO_CID = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+const TAMPERED_CID = "QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH";
+// Raw-leaf CID of "hello world\n" with a UTF-8 byte order mark
+const BOM_CID = "bafkreibh54co2ynrybowhuvczt5un6akobo62ijeeljo64dgjzfekdchza";
+
+const validFile = {
+    type: REGISTRATION_FILE_TYPE,
+    name: "Ledger Scout",
+    description: "Summarizes wallets",
+    image: "https://scout.example/logo.png",
+    endpoints: [{ name: "MCP", endpoint: "https://scout.example/mcp", version: "2025-06-18" }],
+    registrations: [{ agentId: 7, agentRegistry: "eip155:11155111:0x8004a6090cd10a7288092483047b097295fb8847" }],
+    supportedTrust: ["reputation"],
+    active: true,
+};
+
+function makeAgent(metadataUri: string): Agent {
+    return {
+        id: "11155111:7",
+        chainId: "11155111",
+        agentId: "7",
+        owner: "0x1111111111111111111111111111111111111111",
+        metadataUri,
+        createdAt: "1757000000",
+        updatedAt: "1757000000",
+        totalFeedback: "0",
+        registrationFile: null,
+        metadataSource: null,
+    };
+}
+
+let server: MetadataServer;
+
+beforeAll(async () => {
+    server = await startMetadataServer({
+        [`/ipfs/${HELLO_CID}`]: { body: "hello world\n" },
+        [`/ipfs/${TAMPERED_CID}`]: { body: "hello world\n" },
+        [`/ipfs/${BOM_CID}`]: { body: Buffer.from("\ufeffhello world\n") },
+    });
+});
+
+afterEach(() => {
+    delete process.env.IPFS_GATEWAYS;
+});
+
+afterAll(() => server.close());
+
+describe("validateRegistrationFile", () => {
+    it("accepts a file following the spec", () => {
+        expect(validateRegistrationFile(validFile, makeAgent(""))).toEqual([]);
+    });
+
+    it("reports missing fields, wrong types and legacy spellings", () => {
+        const issues = validateRegistrationFile(
+            {
+                type: "agent",
+                name: "",
+                services: [{ name: "MCP" }],
+                mcpEndpoint: "https://scout.example/mcp",
+                registrations: [{ agentId: "x", agentRegistry: "0x8004a6090cd10a7288092483047b097295fb8847" }],
+                active: "yes",
+            },
+            makeAgent("")
+        );
+
+        expect(issues.map((issue) => [issue.severity, issue.path])).toEqual([
+            ["error", "type"],
+            ["error", "name"],
+            ["error", "description"],
+            ["warning", "image"],
+            ["warning", "services"],
+            ["error", "services[0].endpoint"],
+            ["warning", "mcpEndpoint"],
+            ["error", "registrations[0].agentId"],
+            ["error", "registrations[0].agentRegistry"],
+            ["warning", "registrations"],
+            ["error", "active"],
+        ]);
+    });
+
+    it("rejects documents that aren't objects", () => {
+        expect(validateRegistrationFile([], makeAgent(""))).toEqual([
+            { path: "", message: "The document must be a JSON object", severity: "error" },
+        ]);
+    });
+});
+
+describe("getMetadataScheme", () => {
+    it("classifies metadata URIs", () => {
+        expect(getMetadataScheme(`ipfs://${HELLO_CID}`)).toBe("ipfs");
+        expect(getMetadataScheme("HTTPS://scout.example/agent.json")).toBe("https");
+        expect(getMetadataScheme("data:application/json,{}")).toBe("data");
+        expect(getMetadataScheme("ftp://scout.example")).toBe("unknown");
+        expect(getMetadataScheme("")).toBe("none");
+    });
+});
+
+describe("inspectMetadata", () => {
+    it("pretty-prints and validates inline documents", async () => {
+        const inspection = await inspectMetadata(makeAgent(toDataUri(validFile)));
+
+        expect(inspection).toMatchObject({ scheme: "data", fetch: { ok: true, url: null }, issues: [], cid: null });
+        expect(inspection.json).toBe(JSON.stringify(validFile, null, 2));
+    });
+
+    it("checks IPFS content against its CID", async () => {
+        process.env.IPFS_GATEWAYS = `${server.url}/ipfs`;
+
+        const genuine = await inspectMetadata(makeAgent(`ipfs://${HELLO_CID}`));
+        const tampered = await inspectMetadata(makeAgent(`ipfs://${TAMPERED_CID}`));
+
+        expect(genuine.cid).toMatchObject({ status: "match" });
+        expect(genuine.fetch).toEqual({ ok: true, url: `${server.url}/ipfs/${HELLO_CID}` });
+        expect(tampered.cid).toMatchObject({ status: "mismatch" });
+        expect(genuine.parseError).toBeTruthy();
+        expect(genuine.raw).toBe("hello world\n");
+    });
+
+    it("hashes the bytes as served, not the decoded text", async () => {
+        process.env.IPFS_GATEWAYS = `${server.url}/ipfs`;
+
+        const inspection = await inspectMetadata(makeAgent(`ipfs://${BOM_CID}`));
+
+        // Decoding drops the byte order mark, which is part of the content
+        expect(inspection.raw).toBe("hello world\n");
+        expect(inspection.cid).toMatchObject({ status: "match" });
+    });
+
+    it("reports fetch failures and missing URIs", async () => {
+        expect((await inspectMetadata(makeAgent("ftp://scout.example/agent.json"))).fetch).toEqual({
+            ok: false,
+            error: "Unsupported URI scheme: ftp",
+        });
+        expect(await inspectMetadata(makeAgent(""))).toMatchObject({ scheme: "none", fetch: null, raw: null });
+    });
+});
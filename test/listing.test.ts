@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { buildUrl, getFilterChips, getPagination, parseAgentSort, parseListingFilters } from "@/lib/listing";
+
+describe("buildUrl", () => {
+    it("omits defaults and empty values", () => {
+        expect(buildUrl({}, { search: "", page: "1", perPage: "24" })).toBe("/");
+        expect(buildUrl({ search: "weather" }, { page: "2" })).toBe("/?search=weather&page=2");
+    });
+
+    it("keeps non-paging params equal to 1", () => {
+        expect(buildUrl({}, { minScore: "1", page: "1" }, "/agent/1%3A2")).toBe("/agent/1%3A2?minScore=1");
+    });
+
+    it("drops the cursor when a filter changes", () => {
+        expect(buildUrl({ cursor: "abc", page: "3" }, { hasReviews: "true" })).toBe("/?page=3&hasReviews=true");
+    });
+
+    it("keeps the cursor when only paging changes", () => {
+        expect(buildUrl({ cursor: "abc", search: "x" }, { page: "2" })).toBe("/?cursor=abc&search=x&page=2");
+    });
+
+    it("keeps the cursor when the comparison selection changes", () => {
+        expect(buildUrl({ cursor: "abc", page: "2" }, { compare: "1:1" })).toBe("/?cursor=abc&page=2&compare=1%3A1");
+    });
+
+    it("carries the sort, dropping the cursor when it changes", () => {
+        expect(buildUrl({ sort: "reviews" }, { page: "2" })).toBe("/?sort=reviews&page=2");
+        expect(buildUrl({ cursor: "abc", sort: "reviews" }, { sort: "newest" })).toBe("/");
+    });
+
+    it("treats relevance as the default sort of searches", () => {
+        expect(buildUrl({ search: "x" }, { sort: "relevance" })).toBe("/?search=x");
+        expect(buildUrl({ search: "x" }, { sort: "newest" })).toBe("/?search=x&sort=newest");
+    });
+});
+
+describe("parseAgentSort", () => {
+    it("falls back to newest for missing or unknown sorts", () => {
+        expect(parseAgentSort("score")).toBe("score");
+        expect(parseAgentSort(undefined)).toBe("newest");
+        expect(parseAgentSort("random")).toBe("newest");
+    });
+
+    it("only accepts relevance while searching, where it is the default", () => {
+        expect(parseAgentSort("relevance")).toBe("newest");
+        expect(parseAgentSort(undefined, true)).toBe("relevance");
+        expect(parseAgentSort("name", true)).toBe("name");
+    });
+});
+
+describe("parseListingFilters", () => {
+    it("parses valid filters and drops invalid ones", () => {
+        const { filters, params } = parseListingFilters({
+            hasReviews: "true",
+            hasEndpoint: "yes",
+            protocol: "mcp",
+            trust: "magic",
+            owner: "0xABCDEF0000000000000000000000000000000001",
+            from: "2025-09-01",
+            to: "September",
+            minReviews: "0",
+            minScore: "75",
+        });
+
+        expect(filters).toEqual({
+            hasReviews: true,
+            protocol: "mcp",
+            owner: "0xabcdef0000000000000000000000000000000001",
+            createdFrom: String(Date.UTC(2025, 8, 1) / 1000),
+            minScore: 75,
+        });
+        expect(params).toEqual({
+            hasReviews: "true",
+            protocol: "mcp",
+            owner: "0xabcdef0000000000000000000000000000000001",
+            from: "2025-09-01",
+            minScore: "75",
+        });
+    });
+});
+
+describe("getFilterChips", () => {
+    it("labels every active filter except the search", () => {
+        const chips = getFilterChips(
+            {
+                search: "bot",
+                trust: "tee-attestation",
+                owner: "0xabcdef0000000000000000000000000000000001",
+                minReviews: "1",
+            },
+            "owner.eth"
+        );
+
+        expect(chips).toEqual([
+            { param: "trust", label: "Trust: TEE attestation" },
+            { param: "owner", label: "Owner: owner.eth" },
+            { param: "minReviews", label: "At least 1 review" },
+        ]);
+    });
+});
+
+describe("getPagination", () => {
+    it("derives the page count from an exact total", () => {
+        expect(getPagination(2, 24, 50, true, 24)).toEqual({ totalPages: 3, exact: true, hasNextPage: true });
+        expect(getPagination(3, 24, 50, true, 2)).toEqual({ totalPages: 3, exact: true, hasNextPage: false });
+    });
+
+    it("falls back to the page length without a total", () => {
+        expect(getPagination(1, 24, null, false, 24).hasNextPage).toBe(true);
+        expect(getPagination(1, 24, null, false, 10).hasNextPage).toBe(false);
+    });
+});
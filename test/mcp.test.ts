@@ -0,0 +1,205 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { McpInspector } from "@/components/McpInspector";
+import { invalidateMcpProbe, isPrivateHost, probeMcpEndpoint } from "@/lib/mcp";
+import { McpServer, startMcpServer } from "./helpers/mcpServer";
+
+const tools = [
+    {
+        name: "scan_contract",
+        description: "Scans a contract",
+        inputSchema: { type: "object", properties: { address: { type: "string" } }, required: ["address"] },
+    },
+    { name: "explain_finding", inputSchema: { type: "object" } },
+    { name: "list_rules" },
+    { description: "No name, skipped" },
+];
+
+let server: McpServer;
+
+beforeAll(async () => {
+    server = await startMcpServer();
+    process.env.MCP_PROBE_ALLOW_PRIVATE = "true";
+});
+
+afterEach(() => {
+    server.requests.length = 0;
+    server.setOptions({});
+    delete process.env.MCP_PROBE_TIMEOUT_MS;
+});
+
+afterAll(async () => {
+    delete process.env.MCP_PROBE_ALLOW_PRIVATE;
+    await server.close();
+});
+
+describe("probeMcpEndpoint", () => {
+    it("runs the handshake and lists every page of tools", async () => {
+        server.setOptions({
+            tools,
+            resources: [{ uri: "file:///rules.md", name: "Rules", mimeType: "text/markdown" }],
+            prompts: [{ name: "audit", arguments: [{ name: "address", required: true }] }],
+        });
+
+        const result = await probeMcpEndpoint(`${server.url}/json`);
+
+        expect(result).toMatchObject({
+            ok: true,
+            protocolVersion: "2025-06-18",
+            serverInfo: { name: "stub-mcp", version: "1.2.3" },
+            instructions: "Use scan_contract first.",
+            capabilities: ["prompts", "resources", "tools"],
+            errors: [],
+        });
+        if (!result.ok) return;
+        expect(result.tools?.map((t) => t.name)).toEqual(["scan_contract", "explain_finding", "list_rules"]);
+        expect(result.tools?.[0].inputSchema).toEqual(tools[0].inputSchema);
+        expect(result.resources).toEqual([
+            { uri: "file:///rules.md", name: "Rules", description: null, mimeType: "text/markdown" },
+        ]);
+        expect(result.prompts?.[0].arguments).toEqual([{ name: "address", description: null, required: true }]);
+
+        // The session ID and negotiated version are sent after initialize; the
+        // session is closed without waiting
+        await vi.waitFor(() => expect(server.requests.map((r) => r.method)).toContain("DELETE"));
+        expect(server.requests.map((r) => r.method)).toEqual([
+            "initialize",
+            "notifications/initialized",
+            "tools/list",
+            "tools/list",
+            "resources/list",
+            "prompts/list",
+            "DELETE",
+        ]);
+        expect(server.requests[0]).toMatchObject({ sessionId: null, protocolVersion: null });
+        expect(server.requests[2]).toMatchObject({ sessionId: "session-1", protocolVersion: "2025-06-18" });
+    });
+
+    it("reads responses from event streams without waiting for them to close", async () => {
+        server.setOptions({ stream: true, tools, capabilities: { tools: {} } });
+
+        const started = Date.now();
+        const result = await probeMcpEndpoint(`${server.url}/stream`);
+
+        expect(result.ok).toBe(true);
+        expect(Date.now() - started).toBeLessThan(1500);
+        if (!result.ok) return;
+        expect(result.tools).toHaveLength(3);
+        expect(result.resources).toBeNull();
+    });
+
+    it("keeps the server reachable when a list request fails", async () => {
+        server.setOptions({ failMethod: "prompts/list" });
+
+        const result = await probeMcpEndpoint(`${server.url}/partial`);
+
+        expect(result).toMatchObject({ ok: true, prompts: null, errors: ["prompts/list failed: Internal error"] });
+    });
+
+    it("times out slow servers", async () => {
+        process.env.MCP_PROBE_TIMEOUT_MS = "100";
+        server.setOptions({ delayMs: 500 });
+
+        const result = await probeMcpEndpoint(`${server.url}/slow`);
+
+        expect(result).toMatchObject({ ok: false, latencyMs: null, error: "initialize timed out after 100ms" });
+    });
+
+    it("caches results and rechecks only after a cooldown", async () => {
+        const endpoint = `${server.url}/cached`;
+        const first = await probeMcpEndpoint(endpoint);
+
+        expect(await probeMcpEndpoint(endpoint)).toBe(first);
+        expect(await invalidateMcpProbe(endpoint)).toBe(false);
+        expect(server.requests.filter((r) => r.method === "initialize")).toHaveLength(1);
+    });
+
+    it("refuses private hosts unless allowed", async () => {
+        delete process.env.MCP_PROBE_ALLOW_PRIVATE;
+        try {
+            const result = await probeMcpEndpoint(`${server.url}/private`);
+            expect(result).toMatchObject({ ok: false, error: "Private and loopback hosts aren't probed" });
+            // The same host written as an IPv4-mapped IPv6 address
+            const mapped = await probeMcpEndpoint(`${server.url.replace("127.0.0.1", "[::ffff:127.0.0.1]")}/mapped`);
+            expect(mapped).toMatchObject({ ok: false, error: "Private and loopback hosts aren't probed" });
+            expect(server.requests.filter((r) => r.method === "initialize")).toHaveLength(0);
+        } finally {
+            process.env.MCP_PROBE_ALLOW_PRIVATE = "true";
+        }
+    });
+
+    it("reports redirects instead of following them", async () => {
+        server.setOptions({ redirectTo: `${server.url}/elsewhere` });
+
+        const result = await probeMcpEndpoint(`${server.url}/redirect`);
+
+        expect(result).toMatchObject({
+            ok: false,
+            error: "initialize failed: redirected (HTTP 307), which probes don't follow",
+        });
+        // The redirect target was never asked
+        expect(server.requests.filter((r) => r.method === "initialize")).toHaveLength(1);
+    });
+});
+
+describe("McpInspector", () => {
+    it("shows reachability, server info and tool arguments", async () => {
+        server.setOptions({ tools, capabilities: { tools: {} } });
+
+        const html = renderToStaticMarkup(
+            await McpInspector({ endpoint: `${server.url}/inspector`, recheck: async () => {} })
+        );
+
+        expect(html).toContain("Reachable");
+        expect(html).toContain("stub-mcp 1.2.3");
+        expect(html).toContain("Tools (3)");
+        expect(html).toContain("scan_contract");
+        expect(html).toContain("required");
+        expect(html).toContain("Re-check");
+    });
+
+    it("shows why an endpoint is unreachable", async () => {
+        process.env.MCP_PROBE_TIMEOUT_MS = "100";
+        server.setOptions({ delayMs: 500 });
+
+        const html = renderToStaticMarkup(
+            await McpInspector({ endpoint: `${server.url}/down`, recheck: async () => {} })
+        );
+
+        expect(html).toContain("Unreachable");
+        expect(html).toContain("initialize timed out after 100ms");
+    });
+});
+
+describe("isPrivateHost", () => {
+    it("recognizes loopback, private and link-local addresses", () => {
+        const privateHosts = ["localhost", "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "[::1]"];
+        for (const host of privateHosts) {
+            expect(isPrivateHost(host)).toBe(true);
+        }
+        for (const host of ["example.com", "8.8.8.8", "172.32.0.1", "[2001:db8::1]"]) {
+            expect(isPrivateHost(host)).toBe(false);
+        }
+    });
+
+    it("checks IPv4 addresses embedded in IPv6 ones", () => {
+        const parsed = (host: string) => new URL(`http://${host}/`).hostname;
+        expect(parsed("[::ffff:127.0.0.1]")).toBe("[::ffff:7f00:1]");
+        const privateHosts = [
+            parsed("[::ffff:127.0.0.1]"),
+            parsed("[::ffff:169.254.169.254]"),
+            parsed("[::10.0.0.1]"),
+            parsed("[64:ff9b::192.168.0.1]"),
+            "::ffff:0:0:1",
+            "[::ffff:0.0.0.0]",
+            "100.64.0.1",
+            "100.127.255.255",
+        ];
+        for (const host of privateHosts) {
+            expect(isPrivateHost(host)).toBe(true);
+        }
+        for (const host of [parsed("[::ffff:8.8.8.8]"), "100.128.0.1"]) {
+            expect(isPrivateHost(host)).toBe(false);
+        }
+    });
+});
@@ -0,0 +1,155 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { fetchHttpDocument, fetchMetadataDocument, getCandidateUrls, resolveMetadata } from "@/lib/metadata";
+import { MetadataServer, startMetadataServer } from "./helpers/metadataServer";
+import { toDataUri } from "./helpers/factories";
+
+const registration = {
+    type: "https://eips.ethereum.org/EIPS/eip-8004#registration-v1",
+    name: "Weather Agent",
+    endpoints: [{ name: "MCP", endpoint: "https://weather.example/mcp", version: "2025-06-18" }],
+};
+
+let server: MetadataServer;
+
+beforeAll(async () => {
+    server = await startMetadataServer({
+        "/agent.json": { body: JSON.stringify(registration) },
+        "/flaky.json": { status: 500, body: "" },
+        "/slow.json": { body: JSON.stringify(registration), delayMs: 1000 },
+        "/large.json": { body: JSON.stringify({ name: "x".repeat(4096) }) },
+        "/missing.json": { status: 404, body: "" },
+        "/gateway-b/ipfs/bafycid": { body: JSON.stringify(registration) },
+        "/moved.json": { status: 302, body: "", headers: { Location: "/agent.json" } },
+        "/internal.json": { body: JSON.stringify(registration) },
+        "/to-internal.json": { status: 307, body: "", headers: { Location: "/internal.json" } },
+    });
+});
+
+afterEach(() => {
+    delete process.env.IPFS_GATEWAYS;
+    delete process.env.METADATA_TIMEOUT_MS;
+    delete process.env.METADATA_MAX_BYTES;
+});
+
+afterAll(() => server.close());
+
+describe("resolveMetadata", () => {
+    it("decodes base64 data URIs", async () => {
+        const file = await resolveMetadata(toDataUri(registration));
+
+        expect(file?.name).toBe("Weather Agent");
+        expect(file?.mcpEndpoint).toBe("https://weather.example/mcp");
+    });
+
+    it("decodes percent-encoded data URIs", async () => {
+        const file = await resolveMetadata(`data:application/json,${encodeURIComponent(JSON.stringify(registration))}`);
+
+        expect(file?.name).toBe("Weather Agent");
+    });
+
+    it("fetches HTTP URIs", async () => {
+        const file = await resolveMetadata(`${server.url}/agent.json`);
+
+        expect(file?.endpoints).toEqual([
+            { name: "MCP", endpoint: "https://weather.example/mcp", version: "2025-06-18" },
+        ]);
+    });
+
+    it("falls back to the next IPFS gateway", async () => {
+        process.env.IPFS_GATEWAYS = `${server.url}/gateway-a/ipfs,${server.url}/gateway-b/ipfs`;
+
+        const file = await resolveMetadata("ipfs://bafycid");
+
+        expect(file?.name).toBe("Weather Agent");
+        expect(server.hits["/gateway-a/ipfs/bafycid"]).toBe(1);
+        expect(server.hits["/gateway-b/ipfs/bafycid"]).toBe(1);
+    });
+
+    it("returns null for unparseable documents", async () => {
+        expect(await resolveMetadata("data:application/json,not-json")).toBeNull();
+    });
+});
+
+describe("fetchMetadataDocument", () => {
+    it("gives up on slow gateways", async () => {
+        process.env.METADATA_TIMEOUT_MS = "100";
+
+        const document = await fetchMetadataDocument(`${server.url}/slow.json`);
+
+        expect(document).toEqual({ ok: false, error: expect.stringContaining("timed out after 100ms") });
+    });
+
+    it("rejects documents over the size limit", async () => {
+        process.env.METADATA_MAX_BYTES = "1024";
+
+        const document = await fetchMetadataDocument(`${server.url}/large.json`);
+
+        expect(document).toEqual({ ok: false, error: expect.stringContaining("exceeds 1024 bytes") });
+    });
+
+    it("caches failures", async () => {
+        const uri = `${server.url}/flaky.json`;
+
+        const first = await fetchMetadataDocument(uri);
+        const second = await fetchMetadataDocument(uri);
+
+        expect(first.ok).toBe(false);
+        expect(second).toEqual(first);
+        expect(server.hits["/flaky.json"]).toBe(1);
+    });
+
+    it("shares one request between concurrent callers", async () => {
+        const uri = `${server.url}/missing.json`;
+
+        await Promise.all([fetchMetadataDocument(uri), fetchMetadataDocument(uri)]);
+
+        expect(server.hits["/missing.json"]).toBe(1);
+    });
+
+    it("reports unsupported schemes", async () => {
+        expect(await fetchMetadataDocument("ftp://example.com/agent.json")).toEqual({
+            ok: false,
+            error: "Unsupported URI scheme: ftp",
+        });
+    });
+});
+
+describe("fetchHttpDocument", () => {
+    it("follows redirects to allowed URLs", async () => {
+        const document = await fetchHttpDocument(`${server.url}/moved.json`, () => true);
+
+        expect(document).toMatchObject({ ok: true, url: `${server.url}/moved.json` });
+    });
+
+    it("refuses redirects before requesting the target", async () => {
+        const isAllowed = (url: URL) => url.pathname !== "/internal.json";
+        const document = await fetchHttpDocument(`${server.url}/to-internal.json`, isAllowed);
+
+        expect(document).toEqual({
+            ok: false,
+            error: `${server.url}/to-internal.json redirected to a refused URL (${server.url})`,
+        });
+        expect(server.hits["/internal.json"]).toBeUndefined();
+    });
+});
+
+describe("getCandidateUrls", () => {
+    const config = {
+        ipfsGateways: ["https://a.example/ipfs/", "https://b.example/ipfs/"],
+        arweaveGateways: ["https://arweave.example/"],
+        timeoutMs: 1000,
+        maxBytes: 1024,
+        cacheDir: null,
+    };
+
+    it("expands IPFS URIs, including the ipfs://ipfs/ form", () => {
+        expect(getCandidateUrls("ipfs://ipfs/bafy/agent.json", config)).toEqual([
+            "https://a.example/ipfs/bafy/agent.json",
+            "https://b.example/ipfs/bafy/agent.json",
+        ]);
+    });
+
+    it("expands Arweave URIs", () => {
+        expect(getCandidateUrls("ar://tx123", config)).toEqual(["https://arweave.example/tx123"]);
+    });
+});
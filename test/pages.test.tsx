@@ -0,0 +1,360 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import Home from "@/app/page";
+import AgentPage from "@/app/agent/[id]/page";
+import AnalyticsPage from "@/app/analytics/page";
+import ComparePage from "@/app/compare/page";
+import OwnerPage from "@/app/owner/[address]/page";
+import ReviewerPage from "@/app/reviewer/[address]/page";
+
+vi.mock("next/navigation", () => ({
+    useRouter: () => ({ push: vi.fn(), refresh: vi.fn() }),
+    notFound: () => {
+        throw new Error("NEXT_NOT_FOUND");
+    },
+}));
+
+// Render against the bundled fixtures so the pages work without a network
+beforeAll(() => {
+    process.env.AGENT_DATA_SOURCE = "fixtures";
+});
+
+afterAll(() => {
+    delete process.env.AGENT_DATA_SOURCE;
+});
+
+async function renderHome(searchParams: Record<string, string> = {}) {
+    return renderToStaticMarkup(await Home({ searchParams: Promise.resolve(searchParams) }));
+}
+
+async function renderAgent(id: string, searchParams: Record<string, string> = {}) {
+    return renderToStaticMarkup(
+        await AgentPage({ params: Promise.resolve({ id }), searchParams: Promise.resolve(searchParams) })
+    );
+}
+
+describe("agent listing page", () => {
+    it("lists agents newest first", async () => {
+        const html = await renderHome();
+
+        expect(html).toContain("12 registered agents");
+        expect(html.indexOf("Market Maker Lite")).toBeLessThan(html.indexOf("WeatherWise"));
+    });
+
+    it("filters by owner and links owners to their portfolio", async () => {
+        const html = await renderHome({ owner: "0x95256875151043ABDCAFDD26FD390C650D6311E1" });
+
+        expect(html).toContain("3 matching agents");
+        expect(html).toContain('href="/owner/0x95256875151043abdcafdd26fd390c650d6311e1"');
+    });
+
+    it("applies search filters", async () => {
+        const html = await renderHome({ search: "weather" });
+
+        expect(html).toContain('href="/agent/11155111%3A1"');
+        expect(html).toContain('href="/agent/11155111%3A11"');
+        expect(html).not.toContain('href="/agent/11155111%3A4"');
+        // Ranked by relevance: "Weather" in the name beats "weather" in the description
+        expect(html.indexOf('href="/agent/11155111%3A11"')).toBeLessThan(html.indexOf('href="/agent/11155111%3A1"'));
+        expect(html).toContain('<mark class="rounded-sm bg-amber-400/20 text-inherit">weather</mark>');
+    });
+
+    it("finds agents by description, skills and misspelled words", async () => {
+        const fridge = await renderHome({ search: "fridge" });
+        const forecast = await renderHome({ search: "forecast" });
+        const typo = await renderHome({ search: "solidty" });
+
+        expect(fridge).toContain("1 matching agents");
+        expect(fridge).toContain('href="/agent/11155111%3A5"');
+        expect(forecast).toContain('href="/agent/11155111%3A1"');
+        expect(typo).toContain("1 matching agents");
+        expect(typo).toContain('href="/agent/11155111%3A4"');
+    });
+
+    it("keeps an explicit sort while searching", async () => {
+        const html = await renderHome({ search: "weather", sort: "oldest" });
+
+        expect(html.indexOf('href="/agent/11155111%3A1"')).toBeLessThan(html.indexOf('href="/agent/11155111%3A11"'));
+        expect(html).toContain('<option value="relevance"');
+        expect(html).toContain('name="sort" value="oldest"');
+    });
+
+    it("searches by ENS name and shows owners by theirs", async () => {
+        // nimbuslabs.eth resolves to the owner of agents 1, 3 and 9
+        const owned = await renderHome({ search: "nimbuslabs.eth" });
+        // sentinel.eth is agent 4's own ENS name (and its wallet's)
+        const named = await renderHome({ search: "sentinel.eth" });
+
+        expect(owned).toContain("3 matching agents");
+        expect(owned).toContain(">nimbuslabs.eth<");
+        expect(named).toContain('href="/agent/11155111%3A4"');
+        expect(named).not.toContain('href="/agent/11155111%3A11"');
+    });
+
+    it("searches by agent wallet address", async () => {
+        const html = await renderHome({ search: "0x7547397DC9FAF1B05FE014DDA1F2BC279B00DD1D" });
+
+        expect(html).toContain("1 matching agents");
+        expect(html).toContain('href="/agent/11155111%3A4"');
+    });
+
+    it("sorts by the sort param and carries it to other pages", async () => {
+        const oldest = await renderHome({ sort: "oldest" });
+        const reviews = await renderHome({ sort: "reviews", perPage: "12" });
+
+        expect(oldest.indexOf("WeatherWise")).toBeLessThan(oldest.indexOf("Market Maker Lite"));
+        expect(oldest).toContain('href="/?sort=oldest&amp;hasReviews=true"');
+        // Agent 4 has the most reviews; Market Maker Lite, the newest, has one
+        expect(reviews.indexOf("Audit Sentinel")).toBeLessThan(reviews.indexOf("Market Maker Lite"));
+        expect(reviews).toContain('name="sort" value="reviews"');
+    });
+
+    it("sorts by average score, unreviewed agents last", async () => {
+        const html = await renderHome({ sort: "score", perPage: "12" });
+
+        expect(html.indexOf("Audit Sentinel")).toBeLessThan(html.indexOf("Code Reviewer"));
+        expect(html.indexOf("Code Reviewer")).toBeLessThan(html.indexOf("Paper Digest"));
+        expect(html.indexOf("Market Maker Lite")).toBeLessThan(html.indexOf("Recipe Muse"));
+    });
+
+    it("applies the advanced filters and shows them as removable chips", async () => {
+        const a2a = await renderHome({ protocol: "a2a" });
+        const trusted = await renderHome({ trust: "tee-attestation", sort: "reviews" });
+        const scored = await renderHome({ minScore: "80", from: "2025-09-01" });
+
+        expect(a2a).toContain("5 matching agents");
+        expect(a2a).toContain(">A2A endpoint<");
+        expect(trusted).toContain("1 matching agents");
+        expect(trusted).toContain('href="/agent/11155111%3A4"');
+        // Removing a chip keeps the other params
+        expect(trusted).toContain('href="/?sort=reviews" title="Remove filter"');
+        expect(scored).toContain("2 matching agents");
+        expect(scored).toContain('href="/agent/11155111%3A10"');
+        expect(scored).toContain(">Average score ≥ 80<");
+        expect(scored).toContain('href="/?minScore=80" title="Remove filter"');
+    });
+
+    it("filters agents with validator responses", async () => {
+        const html = await renderHome({ hasValidations: "true" });
+
+        expect(html).toContain("2 matching agents");
+        expect(html).toContain('href="/agent/11155111%3A4"');
+        expect(html).toContain('href="/agent/11155111%3A7"');
+        // Agent 2 only has a pending request
+        expect(html).not.toContain('href="/agent/11155111%3A2"');
+    });
+});
+
+describe("agent detail page", () => {
+    it("shows endpoints and cross-chain registrations", async () => {
+        const html = await renderAgent("11155111:4");
+
+        expect(html).toContain("Audit Sentinel");
+        expect(html).toContain("Registrations");
+        expect(html).toContain("Indexed by the subgraph");
+    });
+
+    it("shows the ENS name, the agent wallet and ENS names of addresses", async () => {
+        const html = await renderAgent("11155111:4");
+        const reviewed = await renderAgent("11155111:1");
+
+        expect(html).toContain("ENS name");
+        expect(html).toContain("Agent wallet");
+        expect(html).toContain(">sentinel-ops.eth<");
+        expect(html).not.toContain(">0x4472...2c76<");
+        expect(reviewed).toContain(">by mira.eth<");
+    });
+
+    it("summarizes reputation over non-revoked feedback", async () => {
+        const html = await renderAgent("11155111:4");
+
+        expect(html).toContain("Median score");
+        expect(html).toContain("(3 reviews)");
+    });
+
+    it("filters and sorts reviews from URL params", async () => {
+        const html = await renderAgent("11155111:10", { minScore: "90", sort: "lowest" });
+
+        expect(html).toContain("Caught a subtle race condition.");
+        expect(html).not.toContain("Too many nitpicks.");
+        expect(html.indexOf("Fast and precise.")).toBeLessThan(html.indexOf("Caught a subtle race condition."));
+    });
+
+    it("threads responses below reviews and labels the owner's", async () => {
+        const html = await renderAgent("11155111:1");
+
+        expect(html).toContain("We doubled capacity for the evening peak");
+        expect(html).toContain("Confirmed, much faster this week.");
+        expect(html).toContain("Agent owner");
+        expect(html).toContain('href="/owner/0x95256875151043abdcafdd26fd390c650d6311e1"');
+        expect(html.indexOf("Slow responses during peak hours.")).toBeLessThan(html.indexOf("We doubled capacity"));
+    });
+
+    it("marks revoked feedback when it is included", async () => {
+        const hidden = await renderAgent("11155111:4");
+        const shown = await renderAgent("11155111:4", { revoked: "true" });
+
+        expect(hidden).not.toContain("Spam review that was later revoked.");
+        expect(shown).toContain("Spam review that was later revoked.");
+        expect(shown).toContain("Revoked");
+    });
+
+    it("lists validations and backs trust models with them", async () => {
+        const html = await renderAgent("11155111:4");
+        const pending = await renderAgent("11155111:2");
+
+        expect(html).toContain("2 responded · 1 pending · 2 validators");
+        // One tagged response for each validation-based model, reviews for reputation
+        expect(html.match(/>1 validation</g)).toHaveLength(2);
+        expect(pending).toContain(">no validations<");
+        expect(pending).toMatch(/>\d+ reviews</);
+    });
+
+    it("streams in the MCP inspection for agents with an MCP endpoint", async () => {
+        expect(await renderAgent("11155111:4")).toContain("Connecting to the MCP server...");
+        expect(await renderAgent("11155111:2")).not.toContain("MCP server");
+    });
+
+    it("streams in the A2A agent card for agents with an A2A endpoint", async () => {
+        expect(await renderAgent("11155111:2")).toContain("Fetching the agent card...");
+        expect(await renderAgent("11155111:4")).not.toContain("A2A agent card");
+    });
+
+    it("replaces the overview with the metadata inspector on the metadata tab", async () => {
+        const html = await renderAgent("11155111:4", { tab: "metadata" });
+
+        expect(html).toContain("Fetching the metadata document...");
+        expect(html).not.toContain("Activity");
+        expect(html).not.toContain("Connecting to the MCP server...");
+        expect(await renderAgent("11155111:4")).toContain("?tab=metadata");
+    });
+
+    it("shows the activity timeline with a registration file diff", async () => {
+        const html = await renderAgent("11155111:4");
+
+        expect(html).toContain("Activity");
+        expect(html).toContain("URI updated by");
+        expect(html).toContain("Show registration file changes");
+        expect(html).toContain("Static analysis of Solidity contracts.");
+        expect(html).toContain("revoked by");
+    });
+
+    it("shows ownership transfers in the timeline", async () => {
+        const html = await renderAgent("11155111:2");
+
+        expect(html).toContain("Transferred from");
+        expect(html).toContain('href="/owner/0x7e5f4552091a69125d5dfcb7b8c2659029395bdf"');
+    });
+
+    it("returns not found for unknown agents", async () => {
+        await expect(renderAgent("11155111:999")).rejects.toThrow("NEXT_NOT_FOUND");
+    });
+});
+
+describe("reviewer page", () => {
+    async function renderReviewer(address: string) {
+        return renderToStaticMarkup(
+            await ReviewerPage({ params: Promise.resolve({ address }), searchParams: Promise.resolve({}) })
+        );
+    }
+
+    it("lists feedback given across agents with stats", async () => {
+        const html = await renderReviewer("0x5E07C4DF07FD84552032330CF06FD1CAC0BB5A82");
+
+        expect(html).toContain("Quotes were stale.");
+        expect(html).toContain("Spam review that was later revoked.");
+        expect(html).toContain('href="/agent/11155111%3A12"');
+        // Two reviews, one revoked: the average only counts the active one
+        expect(html).toMatch(/Reviews given<\/p><p[^>]*>2</);
+        expect(html).toMatch(/Average score given<\/p><p[^>]*>30</);
+        expect(html).toMatch(/Revoked<\/p><p[^>]*>1</);
+    });
+
+    it("links reviewers from the agent page", async () => {
+        const html = await renderAgent("11155111:12");
+
+        expect(html).toContain('href="/reviewer/0x5e07c4df07fd84552032330cf06fd1cac0bb5a82"');
+    });
+
+    it("returns not found for malformed addresses", async () => {
+        await expect(renderReviewer("not-an-address")).rejects.toThrow("NEXT_NOT_FOUND");
+    });
+});
+
+describe("owner page", () => {
+    it("lists the owner's agents with portfolio stats", async () => {
+        const html = renderToStaticMarkup(
+            await OwnerPage({ params: Promise.resolve({ address: "0x95256875151043abdcafdd26fd390c650d6311e1" }) })
+        );
+
+        expect(html).toContain("3 agents on Ethereum Sepolia");
+        expect(html).toContain("nimbuslabs.eth</h1>");
+        expect(html).toContain("WeatherWise");
+        expect(html).toContain("TranslateBot");
+        expect(html).toContain("Paper Digest");
+        expect(html).toMatch(/Total feedback<\/p><p[^>]*>5</);
+    });
+});
+
+describe("analytics page", () => {
+    async function renderAnalytics(searchParams: Record<string, string> = {}) {
+        return renderToStaticMarkup(await AnalyticsPage({ searchParams: Promise.resolve(searchParams) }));
+    }
+
+    it("charts the registry and ranks agents and reviewers", async () => {
+        const html = await renderAnalytics();
+
+        expect(html).toContain("Agents and feedback on Ethereum Sepolia");
+        expect(html).toMatch(/Agents<\/p><p[^>]*>12</);
+        expect(html).toContain('aria-label="Registrations per week"');
+        expect(html).toContain('aria-label="Agents by endpoint type"');
+        expect(html).toContain('href="/agent/11155111%3A4"');
+        expect(html).toContain('href="/reviewer/0x5e07c4df07fd84552032330cf06fd1cac0bb5a82"');
+    });
+
+    it("switches to daily periods", async () => {
+        const html = await renderAnalytics({ interval: "day" });
+
+        expect(html).toContain("Registrations per day");
+        expect(html).toContain('href="/analytics"');
+    });
+
+    it("is linked from the listing", async () => {
+        expect(await renderHome()).toContain('href="/analytics"');
+    });
+});
+
+describe("compare page", () => {
+    async function renderCompare(ids: string) {
+        return renderToStaticMarkup(await ComparePage({ searchParams: Promise.resolve({ ids }) }));
+    }
+
+    it("shows the selected agents side by side", async () => {
+        const html = await renderCompare("11155111:1,11155111:4");
+
+        expect(html).toContain("WeatherWise");
+        expect(html).toContain("Audit Sentinel");
+        expect(html).toContain("Score distribution");
+        expect(html).toContain('href="/owner/0x95256875151043abdcafdd26fd390c650d6311e1"');
+        // Removing one of two agents goes back to the listing with the other still selected
+        expect(html).toContain('href="/?compare=11155111%3A4"');
+    });
+
+    it("asks for more agents when fewer than two are found", async () => {
+        const html = await renderCompare("11155111:1,11155111:999");
+
+        expect(html).toContain("Not found: 11155111:999");
+        expect(html).toContain("Select at least 2 agents to compare");
+    });
+
+    it("is reached through the listing's compare checkboxes", async () => {
+        const html = await renderHome({ compare: "11155111:1" });
+
+        expect(html).toContain('aria-checked="true"');
+        expect(html).toContain('href="/?compare=11155111%3A1%2C11155111%3A12"');
+        expect(html).toContain("1 of 4 agents selected");
+
+        const ready = await renderHome({ compare: "11155111:1,11155111:4" });
+        expect(ready).toContain('href="/compare?ids=11155111:1,11155111:4"');
+    });
+});
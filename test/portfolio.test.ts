@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { summarizePortfolio } from "@/lib/portfolio";
+import { parseRegistrationFile } from "@/lib/registration";
+import { Agent } from "@/lib/subgraph";
+
+function agent(id: string, totalFeedback: string, registration: Record<string, unknown> | null): Agent {
+    const [chainId, agentId] = id.split(":");
+    return {
+        id,
+        chainId,
+        agentId,
+        owner: "0x1111111111111111111111111111111111111111",
+        metadataUri: "",
+        createdAt: "0",
+        updatedAt: "0",
+        totalFeedback,
+        registrationFile: registration ? parseRegistrationFile(registration) : null,
+        metadataSource: registration ? "explorer" : null,
+    };
+}
+
+describe("summarizePortfolio", () => {
+    it("aggregates feedback and endpoint coverage", () => {
+        const summary = summarizePortfolio([
+            agent("1:1", "3", {
+                active: true,
+                endpoints: [
+                    { name: "mcp", endpoint: "https://a.example/mcp" },
+                    { name: "OASF", endpoint: "ipfs://oasf" },
+                ],
+            }),
+            agent("1:2", "0", { endpoints: [{ name: "MCP", endpoint: "https://b.example/mcp" }] }),
+            agent("2:1", "2", null),
+        ]);
+
+        expect(summary).toMatchObject({
+            agents: 3,
+            totalFeedback: 5,
+            reviewedAgents: 2,
+            activeAgents: 1,
+            withEndpoint: 2,
+            chains: [
+                { chainId: "1", count: 2 },
+                { chainId: "2", count: 1 },
+            ],
+        });
+        expect(summary.endpointCoverage.slice(0, 2)).toEqual([
+            { name: "MCP", count: 2 },
+            { name: "OASF", count: 1 },
+        ]);
+        expect(summary.endpointCoverage.find((c) => c.name === "A2A")).toEqual({ name: "A2A", count: 0 });
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { buildAgentWhere, buildCursorWhere, buildFeedbackWhere, combineWhere } from "@/lib/query";
+import { matchesWhere } from "@/lib/where";
+
+describe("buildAgentWhere", () => {
+    it("returns undefined when no filters are set", () => {
+        expect(buildAgentWhere()).toBeUndefined();
+        expect(buildAgentWhere({})).toBeUndefined();
+    });
+
+    it("unwraps a single condition", () => {
+        expect(buildAgentWhere({ hasReviews: true })).toEqual({ totalFeedback_gt: "0" });
+    });
+
+    it("builds the protocol, trust model, date and review count filters", () => {
+        const where = buildAgentWhere({
+            protocol: "a2a",
+            trustModel: "tee-attestation",
+            createdFrom: "100",
+            createdTo: "200",
+            minReviews: 3,
+        });
+
+        expect(where).toEqual({
+            and: [
+                { registrationFile_: { a2aEndpoint_not: null } },
+                { registrationFile_: { supportedTrusts_contains: ["tee-attestation"] } },
+                { createdAt_gte: "100" },
+                { createdAt_lte: "200" },
+                { totalFeedback_gte: "3" },
+            ],
+        });
+    });
+
+    it("turns the minimum score into the ids of agents scoring high enough", () => {
+        const scores = new Map([
+            ["1:2", { average: 80, count: 1 }],
+            ["1:1", { average: 95, count: 2 }],
+            ["1:3", { average: 79.5, count: 2 }],
+        ]);
+
+        expect(buildAgentWhere({ minScore: 80 }, scores)).toEqual({ id_in: ["1:1", "1:2"] });
+        expect(() => buildAgentWhere({ minScore: 80 })).toThrow("score aggregate");
+    });
+
+    it("matches owners case-insensitively", () => {
+        const where = buildAgentWhere({ owner: "0xABCDEF0000000000000000000000000000000001" });
+
+        expect(where).toEqual({ owner: "0xabcdef0000000000000000000000000000000001" });
+    });
+
+    it("keeps the endpoint 'or' in its own object when combined with other filters", () => {
+        const where = buildAgentWhere({ search: "bot", hasReviews: true, hasEndpoint: true });
+
+        expect(where).toEqual({
+            and: [
+                {
+                    or: [
+                        { registrationFile_: { name_contains_nocase: "bot" } },
+                        { registrationFile_: { ens_contains_nocase: "bot" } },
+                    ],
+                },
+                { totalFeedback_gt: "0" },
+                {
+                    or: [
+                        { registrationFile_: { mcpEndpoint_not: null } },
+                        { registrationFile_: { a2aEndpoint_not: null } },
+                    ],
+                },
+            ],
+        });
+        // The Graph rejects 'or' next to other keys, so no object may mix them
+        const objects = JSON.stringify(where).match(/\{[^{}]*"or"[^{}]*\}/g) ?? [];
+        expect(objects.every((o) => o.startsWith('{"or"'))).toBe(true);
+    });
+
+    it("selects agents with a validator response through the derived relation", () => {
+        const where = buildAgentWhere({ hasValidations: true });
+
+        expect(where).toEqual({ validations_: { response_not: null } });
+        expect(matchesWhere({ validations: [{ response: null }, { response: "90" }] }, where)).toBe(true);
+        expect(matchesWhere({ validations: [{ response: null }] }, where)).toBe(false);
+        expect(matchesWhere({ validations: [] }, where)).toBe(false);
+    });
+
+    it("passes search text through untouched as a value", () => {
+        const search = 'evil" } ) { agents { id';
+        expect(buildAgentWhere({ search })).toEqual({
+            or: [
+                { registrationFile_: { name_contains_nocase: search } },
+                { registrationFile_: { ens_contains_nocase: search } },
+            ],
+        });
+    });
+
+    it("matches the agents found by the search index", () => {
+        expect(buildAgentWhere({ search: "wether", searchMatches: ["1:2", "1:10"] })).toEqual({
+            or: [
+                { registrationFile_: { name_contains_nocase: "wether" } },
+                { registrationFile_: { ens_contains_nocase: "wether" } },
+                { id_in: ["1:10", "1:2"] },
+            ],
+        });
+    });
+
+    it("matches address searches against the owner and the agent wallet", () => {
+        const wallet = "0x7547397DC9FAF1B05FE014DDA1F2BC279B00DD1D";
+        const where = buildAgentWhere({ search: "sentinel.eth", searchAddress: wallet });
+
+        expect(where).toEqual({
+            or: [
+                { registrationFile_: { name_contains_nocase: "sentinel.eth" } },
+                { registrationFile_: { ens_contains_nocase: "sentinel.eth" } },
+                { owner: wallet.toLowerCase() },
+                { registrationFile_: { agentWallet_contains_nocase: wallet } },
+            ],
+        });
+        expect(matchesWhere({ owner: "0x1", registrationFile: { agentWallet: wallet.toLowerCase() } }, where)).toBe(true);
+        // Typed addresses don't need resolving
+        expect(buildAgentWhere({ search: wallet })?.or?.slice(2)).toEqual(where?.or?.slice(2));
+    });
+});
+
+describe("combineWhere", () => {
+    it("joins several conditions with 'and'", () => {
+        expect(combineWhere([{ a: 1 }, { b: 2 }] as object[])).toEqual({ and: [{ a: 1 }, { b: 2 }] });
+        expect(combineWhere([])).toBeUndefined();
+    });
+});
+
+describe("buildCursorWhere", () => {
+    const agents = [
+        { id: "1:5", createdAt: "300" },
+        { id: "1:4", createdAt: "200" },
+        { id: "1:3", createdAt: "200" },
+        { id: "1:2", createdAt: "100" },
+    ];
+
+    it("selects agents after the cursor in newest-first order", () => {
+        const where = buildCursorWhere({ key: { value: "200", id: "1:4" }, direction: "after" });
+        expect(agents.filter((a) => matchesWhere(a, where)).map((a) => a.id)).toEqual(["1:3", "1:2"]);
+    });
+
+    it("selects agents before the cursor", () => {
+        const where = buildCursorWhere({ key: { value: "200", id: "1:3" }, direction: "before" });
+        expect(agents.filter((a) => matchesWhere(a, where)).map((a) => a.id)).toEqual(["1:5", "1:4"]);
+    });
+
+    it("follows ascending sorts and rejects sorts without a cursor field", () => {
+        const where = buildCursorWhere({ key: { value: "200", id: "1:3" }, direction: "after" }, "oldest");
+        expect(agents.filter((a) => matchesWhere(a, where)).map((a) => a.id)).toEqual(["1:5", "1:4"]);
+        expect(() => buildCursorWhere({ key: { value: "a", id: "1:3" }, direction: "after" }, "name")).toThrow(
+            RangeError
+        );
+    });
+});
+
+describe("buildFeedbackWhere", () => {
+    it("hides revoked feedback by default", () => {
+        expect(buildFeedbackWhere()).toEqual({ isRevoked: false });
+        expect(buildFeedbackWhere({ includeRevoked: true })).toBeUndefined();
+    });
+
+    it("lowercases the reviewer address", () => {
+        const where = buildFeedbackWhere({
+            reviewer: "0xABCDEF0000000000000000000000000000000001",
+            includeRevoked: true,
+        });
+
+        expect(where).toEqual({ clientAddress: "0xabcdef0000000000000000000000000000000001" });
+    });
+
+    it("combines score, date and feedback file conditions", () => {
+        const where = buildFeedbackWhere({ minScore: 50, maxScore: 90, capability: "quote", from: "100", to: "200" });
+        const feedback = { isRevoked: false, score: "70", createdAt: "150", feedbackFile: { capability: "quote" } };
+
+        expect(matchesWhere(feedback, where)).toBe(true);
+        expect(matchesWhere({ ...feedback, score: "95" }, where)).toBe(false);
+        expect(matchesWhere({ ...feedback, createdAt: "250" }, where)).toBe(false);
+        expect(matchesWhere({ ...feedback, feedbackFile: null }, where)).toBe(false);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { summarizeReputation, summarizeReviewer } from "@/lib/reputation";
+import { Feedback } from "@/lib/subgraph";
+import { makeFeedback } from "./helpers/factories";
+
+const DAY = 24 * 60 * 60;
+const START = Date.UTC(2025, 8, 1) / 1000; // Monday, Sep 1 2025
+
+function feedback(score: number, daysAfterStart: number, tag1: string | null = null, tag2: string | null = null) {
+    return makeFeedback({ score: String(score), createdAt: String(START + daysAfterStart * DAY), tag1, tag2 }) as Feedback;
+}
+
+describe("summarizeReputation", () => {
+    it("handles agents without feedback", () => {
+        const summary = summarizeReputation([]);
+
+        expect(summary).toMatchObject({ count: 0, mean: null, median: null, trend: [], tag1: [], tag2: [] });
+        expect(summary.histogram.every((b) => b.count === 0)).toBe(true);
+    });
+
+    it("computes mean and median over every entry", () => {
+        const summary = summarizeReputation([feedback(90, 0), feedback(40, 1), feedback(100, 2), feedback(70, 3)]);
+
+        expect(summary.count).toBe(4);
+        expect(summary.mean).toBe(75);
+        expect(summary.median).toBe(80);
+    });
+
+    it("buckets scores by tens, with 100 in the last bucket", () => {
+        const { histogram } = summarizeReputation([feedback(0, 0), feedback(9, 0), feedback(95, 0), feedback(100, 0)]);
+
+        expect(histogram).toHaveLength(10);
+        expect(histogram[0]).toEqual({ min: 0, max: 9, count: 2 });
+        expect(histogram[9]).toEqual({ min: 90, max: 100, count: 2 });
+    });
+
+    it("groups the trend by a period matching the span", () => {
+        const daily = summarizeReputation([feedback(80, 0), feedback(60, 0), feedback(100, 3)]);
+        expect(daily.trendInterval).toBe("day");
+        expect(daily.trend).toEqual([
+            { start: START, count: 2, mean: 70 },
+            { start: START + 3 * DAY, count: 1, mean: 100 },
+        ]);
+
+        const weekly = summarizeReputation([feedback(80, 2), feedback(60, 60)]);
+        expect(weekly.trendInterval).toBe("week");
+        expect(weekly.trend[0].start).toBe(START);
+
+        const monthly = summarizeReputation([feedback(80, 20), feedback(60, 400)]);
+        expect(monthly.trendInterval).toBe("month");
+        expect(monthly.trend[0].start).toBe(START);
+    });
+
+    it("handles histories too long to spread into function arguments", () => {
+        const history = Array.from({ length: 200_000 }, (_, i) => feedback(80, i % 20));
+
+        expect(summarizeReputation(history).trendInterval).toBe("day");
+    });
+
+    it("breaks scores down by tag, skipping garbled tags", () => {
+        const summary = summarizeReputation([
+            feedback(90, 0, "quality", "summary"),
+            feedback(70, 0, "quality"),
+            feedback(50, 0, "latency"),
+            feedback(50, 0, "\u0001\u0002\u0003"),
+        ]);
+
+        expect(summary.tag1).toEqual([
+            { tag: "quality", count: 2, mean: 80 },
+            { tag: "latency", count: 1, mean: 50 },
+        ]);
+        expect(summary.tag2).toEqual([{ tag: "summary", count: 1, mean: 90 }]);
+    });
+});
+
+describe("summarizeReviewer", () => {
+    it("counts revocations separately from the average", () => {
+        const given = [
+            { ...feedback(80, 0), agent: { id: "1:1" } },
+            { ...feedback(60, 5), agent: { id: "1:2" } },
+            { ...feedback(0, 9), isRevoked: true, agent: { id: "1:2" } },
+        ];
+
+        expect(summarizeReviewer(given)).toEqual({
+            count: 3,
+            revoked: 1,
+            mean: 70,
+            agentsReviewed: 2,
+            firstReviewAt: String(START),
+            lastReviewAt: String(START + 9 * DAY),
+        });
+    });
+
+    it("handles very active reviewers", () => {
+        const given = Array.from({ length: 200_000 }, (_, i) => ({ ...feedback(80, i % 20), agent: { id: "1:1" } }));
+
+        expect(summarizeReviewer(given)).toMatchObject({
+            count: 200_000,
+            firstReviewAt: String(START),
+            lastReviewAt: String(START + 19 * DAY),
+        });
+    });
+});
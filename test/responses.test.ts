@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { loadResponseThreads, resolveResponseText } from "@/lib/responses";
+import { makeFeedback, toDataUri } from "./helpers/factories";
+
+const OWNER = "0x00000000000000000000000000000000000000aa";
+const REVIEWER = "0x00000000000000000000000000000000000000bb";
+
+function makeResponse(id: string, responder: string, responseUri: string | null) {
+    return { id, responder, responseUri, responseHash: null, createdAt: "100" };
+}
+
+describe("resolveResponseText", () => {
+    it("reads the text field of JSON documents", async () => {
+        expect(await resolveResponseText(toDataUri({ text: " Thanks! " }))).toEqual({ text: "Thanks!", error: null });
+        expect(await resolveResponseText(toDataUri({ message: "Fixed" }))).toEqual({ text: "Fixed", error: null });
+    });
+
+    it("reads plain text documents", async () => {
+        const uri = `data:text/plain,${encodeURIComponent("We shipped a fix.")}`;
+
+        expect(await resolveResponseText(uri)).toEqual({ text: "We shipped a fix.", error: null });
+    });
+
+    it("reports documents without readable text", async () => {
+        expect((await resolveResponseText(toDataUri({ score: 1 }))).text).toBeNull();
+        expect((await resolveResponseText(null)).error).toBe("No response document");
+        expect((await resolveResponseText("ftp://example/response")).error).toContain("Unsupported URI scheme");
+    });
+});
+
+describe("loadResponseThreads", () => {
+    it("labels replies from the owner and the reviewer", async () => {
+        const feedback = [
+            makeFeedback({
+                id: "f1",
+                clientAddress: REVIEWER,
+                responses: [
+                    makeResponse("r1", "0x00000000000000000000000000000000000000AA", toDataUri({ text: "Sorry" })),
+                    makeResponse("r2", REVIEWER, toDataUri({ text: "Fixed now" })),
+                    makeResponse("r3", "0x00000000000000000000000000000000000000cc", null),
+                ],
+            }),
+            makeFeedback({ id: "f2", responses: [] }),
+        ];
+
+        const threads = await loadResponseThreads(feedback, OWNER);
+
+        expect([...threads.keys()]).toEqual(["f1"]);
+        expect(threads.get("f1")?.map((r) => [r.response.id, r.role, r.text])).toEqual([
+            ["r1", "owner", "Sorry"],
+            ["r2", "reviewer", "Fixed now"],
+            ["r3", null, null],
+        ]);
+    });
+
+    it("resolves more replies than are fetched at a time, in order", async () => {
+        const responses = Array.from({ length: 15 }, (_, i) =>
+            makeResponse(`r${i}`, OWNER, toDataUri({ text: `Reply ${i}` }))
+        );
+        const feedback = [
+            makeFeedback({ id: "f1", responses: responses.slice(0, 9) }),
+            makeFeedback({ id: "f2", responses: responses.slice(9) }),
+        ];
+
+        const threads = await loadResponseThreads(feedback, OWNER);
+
+        expect(threads.get("f1")?.map((r) => r.text)).toEqual(responses.slice(0, 9).map((_, i) => `Reply ${i}`));
+        expect(threads.get("f2")?.map((r) => r.text)).toEqual(responses.slice(9).map((_, i) => `Reply ${i + 9}`));
+    });
+});
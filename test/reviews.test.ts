@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { MAX_REVIEW_PAGE, parseReviewParams } from "@/lib/reviews";
+
+describe("parseReviewParams", () => {
+    it("defaults to the newest non-filtered first page", () => {
+        expect(parseReviewParams({})).toEqual({ filters: {}, sort: "newest", page: 1 });
+    });
+
+    it("reads filters, converting dates to inclusive day bounds", () => {
+        const { filters, sort } = parseReviewParams({
+            minScore: "40",
+            tag1: " quality ",
+            from: "2025-09-01",
+            to: "2025-09-01",
+            revoked: "true",
+            sort: "highest",
+        });
+
+        expect(filters).toEqual({
+            minScore: 40,
+            tag1: "quality",
+            from: "1756684800",
+            to: "1756771199",
+            includeRevoked: true,
+        });
+        expect(sort).toBe("highest");
+    });
+
+    it("ignores invalid values", () => {
+        const { filters, sort, page } = parseReviewParams({
+            minScore: "150",
+            maxScore: "-1",
+            reviewer: "0x123",
+            from: "yesterday",
+            sort: "random",
+            page: "999999",
+        });
+
+        expect(filters).toEqual({});
+        expect(sort).toBe("newest");
+        expect(page).toBe(MAX_REVIEW_PAGE);
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { computeAgentScores, mergeAgentScores, rankAgentsByScore } from "@/lib/scores";
+
+describe("computeAgentScores", () => {
+    it("averages non-revoked feedback per agent", () => {
+        const scores = computeAgentScores([
+            { agentId: "1:1", score: "80", isRevoked: false },
+            { agentId: "1:1", score: "90", isRevoked: false },
+            { agentId: "1:1", score: "0", isRevoked: true },
+            { agentId: "1:2", score: "10", isRevoked: true },
+        ]);
+
+        expect([...scores]).toEqual([["1:1", { average: 85, count: 2 }]]);
+    });
+});
+
+describe("rankAgentsByScore", () => {
+    it("puts higher averages first, then more reviews, then unscored agents newest first", () => {
+        const agents = [
+            { id: "1:1", createdAt: "100" },
+            { id: "1:2", createdAt: "200" },
+            { id: "1:3", createdAt: "300" },
+            { id: "1:4", createdAt: "400" },
+            { id: "2:1", createdAt: "500" },
+        ];
+        const scores = mergeAgentScores([
+            new Map([
+                ["1:1", { average: 70, count: 1 }],
+                ["1:2", { average: 90, count: 1 }],
+            ]),
+            new Map([["2:1", { average: 70, count: 4 }]]),
+        ]);
+
+        expect(rankAgentsByScore(agents, scores).map((a) => a.id)).toEqual(["1:2", "2:1", "1:1", "1:4", "1:3"]);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+    buildSearchIndex,
+    highlightText,
+    rankAgentsByRelevance,
+    SearchDocument,
+    searchIndex,
+    toSearchDocument,
+} from "@/lib/search";
+import { getSnapshotDocuments } from "@/lib/searchSource";
+import bundledRegistry from "@/fixtures/registry.json";
+
+function makeDocument(overrides: Partial<SearchDocument> & { id: string }): SearchDocument {
+    return { name: null, description: null, trusts: [], hosts: [], skills: [], ...overrides };
+}
+
+const index = buildSearchIndex([
+    makeDocument({ id: "1:1", name: "WeatherWise", description: "Severe-weather alerts", skills: ["get_forecast"] }),
+    makeDocument({ id: "1:2", name: "Weather Relay", description: "Relays station data" }),
+    makeDocument({ id: "1:3", name: "Audit Sentinel", description: "Static analysis of Solidity contracts" }),
+    makeDocument({ id: "1:4", name: "Scout", trusts: ["tee-attestation"], hosts: ["scout.example"] }),
+]);
+
+describe("toSearchDocument", () => {
+    it("collects endpoint hosts and skills from a registration file", () => {
+        const doc = toSearchDocument("1:1", {
+            name: "Agent",
+            description: null,
+            supportedTrusts: ["reputation"],
+            mcpEndpoint: "https://mcp.example/mcp",
+            a2aEndpoint: null,
+            mcpTools: ["get_forecast"],
+            mcpPrompts: null,
+            a2aSkills: ["summarize"],
+            endpoints: [
+                { name: "MCP", endpoint: "https://mcp.example/mcp", version: null },
+                { name: "ENS", endpoint: "agent.eth", version: null },
+            ],
+        });
+
+        expect(doc).toMatchObject({ hosts: ["mcp.example"], skills: ["get_forecast", "summarize"] });
+        expect(toSearchDocument("1:2", null)).toBeNull();
+    });
+});
+
+describe("searchIndex", () => {
+    it("ranks name matches above description and prefix matches", () => {
+        const hits = searchIndex(index, "weather");
+
+        expect(hits.map((hit) => hit.id)).toEqual(["1:2", "1:1"]);
+        expect(hits[1].terms).toEqual(["weather", "weatherwise"]);
+    });
+
+    it("matches skills, trust models and hosts, with typos", () => {
+        expect(searchIndex(index, "forecast").map((hit) => hit.id)).toEqual(["1:1"]);
+        expect(searchIndex(index, "attestation").map((hit) => hit.id)).toEqual(["1:4"]);
+        expect(searchIndex(index, "scout.example").map((hit) => hit.id)).toEqual(["1:4"]);
+        expect(searchIndex(index, "solidty contracs").map((hit) => hit.id)).toEqual(["1:3"]);
+    });
+
+    it("requires every term to match", () => {
+        expect(searchIndex(index, "weather solidity")).toEqual([]);
+        expect(searchIndex(index, "  ")).toEqual([]);
+    });
+
+    it("indexes a registry snapshot's raw registration files", () => {
+        const snapshotIndex = buildSearchIndex(getSnapshotDocuments(bundledRegistry));
+
+        // TranslateBot's file isn't indexed by the (fixture) subgraph, but it is in the snapshot
+        expect(searchIndex(snapshotIndex, "languages").map((hit) => hit.id)).toEqual(["11155111:3"]);
+    });
+});
+
+describe("rankAgentsByRelevance", () => {
+    it("follows the hit order, then puts other matches newest first", () => {
+        const agents = [
+            { id: "1:1", createdAt: "100" },
+            { id: "1:2", createdAt: "200" },
+            { id: "1:3", createdAt: "300" },
+            { id: "1:4", createdAt: "400" },
+        ];
+
+        expect(rankAgentsByRelevance(agents, ["1:2", "1:1"]).map((a) => a.id)).toEqual(["1:2", "1:1", "1:4", "1:3"]);
+    });
+});
+
+describe("highlightText", () => {
+    it("marks the words containing matched terms", () => {
+        expect(highlightText("Severe-weather alerts", ["weather"])).toEqual([
+            { text: "Severe-", match: false },
+            { text: "weather", match: true },
+            { text: " alerts", match: false },
+        ]);
+        expect(highlightText("Café", ["cafe"])).toEqual([{ text: "Café", match: true }]);
+    });
+});
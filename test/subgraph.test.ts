@@ -0,0 +1,635 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { GraphQLValidationError, IndexerBehindError, RateLimitedError } from "@/lib/errors";
+import {
+    fetchAgentCount,
+    fetchAgentFeedback,
+    fetchAgentHistory,
+    fetchAgents,
+    fetchAgentValidations,
+    fetchAgentWithFeedback,
+    fetchGlobalStats,
+    fetchOwnerAgents,
+    fetchRegistryData,
+    fetchReviewerFeedback,
+    fetchSearchDocuments,
+    MAX_RESPONSES_PER_FEEDBACK,
+} from "@/lib/subgraph";
+import { GraphQLServer, startGraphQLServer } from "./helpers/graphqlServer";
+import { makeFeedback, makeSubgraphAgent, toDataUri } from "./helpers/factories";
+
+const SEPOLIA = "SUBGRAPH_URL_11155111";
+const BASE_SEPOLIA = "SUBGRAPH_URL_84532";
+
+let sepolia: GraphQLServer;
+let baseSepolia: GraphQLServer;
+
+beforeAll(async () => {
+    sepolia = await startGraphQLServer(() => ({ data: {} }));
+    baseSepolia = await startGraphQLServer(() => ({ data: {} }));
+    process.env[SEPOLIA] = sepolia.url;
+});
+
+afterEach(() => {
+    sepolia.requests.length = 0;
+    baseSepolia.requests.length = 0;
+    delete process.env[BASE_SEPOLIA];
+});
+
+afterAll(async () => {
+    delete process.env[SEPOLIA];
+    await Promise.all([sepolia.close(), baseSepolia.close()]);
+});
+
+describe("fetchAgents", () => {
+    it("sends filters as variables and normalizes the result", async () => {
+        sepolia.setHandler(() => ({ data: { agents: [makeSubgraphAgent({ agentURI: "ipfs://cid" })] } }));
+
+        const agents = await fetchAgents(12, { skip: 24 }, { search: 'a"b', hasReviews: true }, 11155111);
+
+        expect(sepolia.requests).toHaveLength(1);
+        const [request] = sepolia.requests;
+        expect(request.operationName).toBe("Agents");
+        expect(request.query).not.toContain('a"b');
+        expect(request.variables).toEqual({
+            first: 12,
+            skip: 24,
+            orderBy: "createdAt",
+            orderDirection: "desc",
+            where: {
+                and: [
+                    {
+                        or: [
+                            { registrationFile_: { name_contains_nocase: 'a"b' } },
+                            { registrationFile_: { ens_contains_nocase: 'a"b' } },
+                        ],
+                    },
+                    { totalFeedback_gt: "0" },
+                ],
+            },
+        });
+        expect(agents[0]).toMatchObject({ id: "11155111:1", metadataUri: "ipfs://cid", metadataSource: "subgraph" });
+        expect(agents[0].registrationFile?.endpoints).toEqual([]);
+    });
+
+    it("merges chains newest first and slices the requested page", async () => {
+        process.env[BASE_SEPOLIA] = baseSepolia.url;
+        sepolia.setHandler(() => ({
+            data: {
+                agents: [
+                    makeSubgraphAgent({ agentId: "3", createdAt: "300" }),
+                    makeSubgraphAgent({ agentId: "1", createdAt: "100" }),
+                ],
+            },
+        }));
+        baseSepolia.setHandler(() => ({
+            data: { agents: [makeSubgraphAgent({ chainId: "84532", agentId: "7", createdAt: "200" })] },
+        }));
+
+        const agents = await fetchAgents(2, { skip: 1 }, undefined, "all");
+
+        // Each chain must return enough rows to cover skip + first
+        expect(sepolia.requests[0].variables).toMatchObject({ first: 3, skip: 0 });
+        expect(baseSepolia.requests[0].variables).toMatchObject({ first: 3, skip: 0 });
+        expect(agents.map((a) => a.id)).toEqual(["84532:7", "11155111:1"]);
+    });
+
+    it("reads 'before' cursors in ascending order and returns newest first", async () => {
+        sepolia.setHandler(() => ({
+            data: {
+                agents: [
+                    makeSubgraphAgent({ agentId: "4", createdAt: "400" }),
+                    makeSubgraphAgent({ agentId: "5", createdAt: "500" }),
+                ],
+            },
+        }));
+
+        const agents = await fetchAgents(
+            2,
+            { cursor: { key: { value: "300", id: "11155111:3" }, direction: "before" } },
+            { hasReviews: true },
+            11155111
+        );
+
+        expect(sepolia.requests[0].variables).toMatchObject({
+            orderDirection: "asc",
+            where: {
+                and: [
+                    { totalFeedback_gt: "0" },
+                    { or: [{ createdAt_gt: "300" }, { createdAt: "300", id_gt: "11155111:3" }] },
+                ],
+            },
+        });
+        expect(agents.map((a) => a.agentId)).toEqual(["5", "4"]);
+    });
+
+    it("orders by the sort field and keys cursors on it", async () => {
+        sepolia.setHandler(() => ({ data: { agents: [] } }));
+
+        await fetchAgents(
+            2,
+            { cursor: { key: { value: "5", id: "11155111:3" }, direction: "after" } },
+            undefined,
+            11155111,
+            "reviews"
+        );
+
+        expect(sepolia.requests[0].variables).toMatchObject({
+            orderBy: "totalFeedback",
+            orderDirection: "desc",
+            where: { or: [{ totalFeedback_lt: "5" }, { totalFeedback: "5", id_lt: "11155111:3" }] },
+        });
+    });
+
+    it("ranks agents by the average score aggregate", async () => {
+        const agents = [
+            makeSubgraphAgent({ agentId: "1", createdAt: "100" }),
+            makeSubgraphAgent({ agentId: "2", createdAt: "200" }),
+            makeSubgraphAgent({ agentId: "3", createdAt: "300" }),
+        ];
+        sepolia.setHandler(({ operationName, variables }) => {
+            if (operationName === "FeedbackPage") {
+                return {
+                    data: {
+                        feedbacks: [
+                            { id: "f1", score: "60", agent: { id: "11155111:1" } },
+                            { id: "f2", score: "90", agent: { id: "11155111:2" } },
+                            { id: "f3", score: "80", agent: { id: "11155111:2" } },
+                        ],
+                    },
+                };
+            }
+            if (operationName === "AgentsById") {
+                const ids = (variables.where as { id_in: string[] }).id_in;
+                return { data: { agents: agents.filter((a) => ids.includes(a.id)) } };
+            }
+            return { data: { agents: agents.map(({ id, createdAt }) => ({ id, createdAt })) } };
+        });
+
+        const page = await fetchAgents(2, { skip: 1 }, { search: "score-sort" }, 11155111, "score");
+
+        // Agent 2 (avg 85) and agent 1 (60) are scored; agent 3 has no reviews
+        expect(page.map((a) => a.agentId)).toEqual(["1", "3"]);
+        expect(sepolia.requests.map((r) => r.operationName).sort()).toEqual([
+            "AgentsById",
+            "FeedbackPage",
+            "RankableAgents",
+        ]);
+        await expect(
+            fetchAgents(2, { cursor: { key: { value: "1", id: "11155111:1" }, direction: "after" } }, {}, 11155111, "score")
+        ).rejects.toThrow(RangeError);
+    });
+
+    it("ranks search results in the order of the search index's matches", async () => {
+        const agents = [
+            makeSubgraphAgent({ agentId: "1", createdAt: "100" }),
+            makeSubgraphAgent({ agentId: "2", createdAt: "200" }),
+            makeSubgraphAgent({ agentId: "3", createdAt: "300" }),
+        ];
+        sepolia.setHandler(({ operationName, variables }) => {
+            if (operationName === "AgentsById") {
+                const ids = (variables.where as { id_in: string[] }).id_in;
+                return { data: { agents: agents.filter((a) => ids.includes(a.id)) } };
+            }
+            return { data: { agents: agents.map(({ id, createdAt }) => ({ id, createdAt })) } };
+        });
+
+        // Agent 3 matched some other way (e.g. its owner's ENS name), so it follows the index's matches
+        const filters = { search: "relevance-sort", searchMatches: ["11155111:1", "11155111:2"] };
+        const page = await fetchAgents(3, { skip: 0 }, filters, 11155111, "relevance");
+
+        expect(page.map((a) => a.agentId)).toEqual(["1", "2", "3"]);
+    });
+
+    it("rejects offsets past The Graph's skip limit", async () => {
+        await expect(fetchAgents(24, { skip: 6000 })).rejects.toThrow(RangeError);
+    });
+});
+
+describe("fetchAgentWithFeedback", () => {
+    it("routes by chain prefix and passes the id as a variable", async () => {
+        sepolia.setHandler(({ operationName }) => ({
+            data:
+                operationName === "FeedbackResponses"
+                    ? { f0: [] }
+                    : { agent: { ...makeSubgraphAgent({ agentId: "9" }), feedback: [makeFeedback()] } },
+        }));
+
+        const { agent, feedback } = await fetchAgentWithFeedback("11155111:9");
+
+        expect(sepolia.requests[0].variables).toEqual({
+            id: "11155111:9",
+            first: 50,
+            skip: 0,
+            orderBy: "createdAt",
+            orderDirection: "desc",
+            feedbackWhere: { isRevoked: false },
+        });
+        expect(agent?.id).toBe("11155111:9");
+        expect(feedback).toHaveLength(1);
+    });
+
+    it("attaches responses to each feedback entry", async () => {
+        const response = { id: "r1", responder: "0x2", responseUri: "ipfs://r1", responseHash: null, createdAt: "5" };
+        sepolia.setHandler(({ operationName }) => ({
+            data:
+                operationName === "FeedbackResponses"
+                    ? { f0: [response], f1: [] }
+                    : {
+                          agent: {
+                              ...makeSubgraphAgent(),
+                              feedback: [makeFeedback({ id: "f1" }), makeFeedback({ id: "f2" })],
+                          },
+                      },
+        }));
+
+        const { feedback } = await fetchAgentWithFeedback("11155111:1");
+
+        const request = sepolia.requests.find((r) => r.operationName === "FeedbackResponses");
+        // Each entry has its own capped list, so a spammed thread can't push out the others
+        expect(request?.variables).toEqual({ f0: "f1", f1: "f2", first: MAX_RESPONSES_PER_FEEDBACK });
+        expect(request?.query).toContain("f1: feedbackResponses(first: $first");
+        expect(feedback.map((f) => f.responses)).toEqual([[response], []]);
+    });
+
+    it("leaves responses out when the subgraph doesn't index them", async () => {
+        sepolia.setHandler(({ operationName }) =>
+            operationName === "FeedbackResponses"
+                ? { errors: [{ message: "Type `Query` has no field `feedbackResponses`" }] }
+                : { data: { agent: { ...makeSubgraphAgent(), feedback: [makeFeedback()] } } }
+        );
+
+        const { feedback } = await fetchAgentWithFeedback("11155111:1");
+
+        expect(feedback).toHaveLength(1);
+        expect(feedback[0].responses).toBeUndefined();
+    });
+
+    it("sends feedback filters, sort and page as variables", async () => {
+        sepolia.setHandler(() => ({ data: { agent: { ...makeSubgraphAgent(), feedback: [] } } }));
+
+        await fetchAgentWithFeedback("11155111:1", {
+            first: 11,
+            skip: 20,
+            filters: { minScore: 50, skill: "code-review", includeRevoked: true },
+            sort: "lowest",
+        });
+
+        expect(sepolia.requests[0].variables).toMatchObject({
+            first: 11,
+            skip: 20,
+            orderBy: "score",
+            orderDirection: "asc",
+            feedbackWhere: { and: [{ score_gte: 50 }, { feedbackFile_: { skill: "code-review" } }] },
+        });
+    });
+
+    it("returns no agent for unconfigured chains without querying", async () => {
+        expect(await fetchAgentWithFeedback("84532:1")).toEqual({ agent: null, feedback: [] });
+        expect(await fetchAgentWithFeedback("not-an-id")).toEqual({ agent: null, feedback: [] });
+        expect(sepolia.requests).toHaveLength(0);
+    });
+});
+
+describe("fetchAgentFeedback", () => {
+    it("pages through every non-revoked entry of the agent", async () => {
+        const ids = Array.from({ length: 1200 }, (_, i) => `11155111:9:${String(i).padStart(4, "0")}`);
+        sepolia.setHandler(({ variables }) => {
+            const where = variables.where as { and?: { id_gt?: string }[] };
+            const after = where.and?.find((c) => c.id_gt)?.id_gt;
+            const start = after ? ids.indexOf(after) + 1 : 0;
+            return { data: { feedbacks: ids.slice(start, start + 1000).map((id) => makeFeedback({ id })) } };
+        });
+
+        const feedback = await fetchAgentFeedback("11155111:9");
+
+        expect(feedback).toHaveLength(1200);
+        expect(sepolia.requests[0].operationName).toBe("FeedbackPage");
+        expect(sepolia.requests[0].variables.where).toEqual({ agent: "11155111:9", isRevoked: false });
+        expect(sepolia.requests[1].variables.where).toEqual({
+            and: [{ agent: "11155111:9", isRevoked: false }, { id_gt: ids[999] }],
+        });
+    });
+});
+
+describe("fetchReviewerFeedback", () => {
+    it("collects a reviewer's feedback from every chain, newest first", async () => {
+        process.env[BASE_SEPOLIA] = baseSepolia.url;
+        const agent = { id: "11155111:1", registrationFile: { name: "WeatherWise" } };
+        sepolia.setHandler(() => ({
+            data: { feedbacks: [makeFeedback({ id: "a", createdAt: "100", agent })] },
+        }));
+        baseSepolia.setHandler(() => ({
+            data: {
+                feedbacks: [
+                    makeFeedback({ id: "b", createdAt: "200", agent: { id: "84532:3", registrationFile: null } }),
+                ],
+            },
+        }));
+
+        const feedback = await fetchReviewerFeedback("0xABCDEF0000000000000000000000000000000001");
+
+        expect(sepolia.requests[0].variables.where).toEqual({
+            clientAddress: "0xabcdef0000000000000000000000000000000001",
+        });
+        expect(feedback.map((f) => [f.id, f.agent])).toEqual([
+            ["b", { id: "84532:3", name: null }],
+            ["a", { id: "11155111:1", name: "WeatherWise" }],
+        ]);
+    });
+});
+
+describe("fetchAgentHistory", () => {
+    it("merges URI updates, transfers and revoked feedback with revocation times", async () => {
+        const pages: Record<string, Record<string, unknown>> = {
+            AgentURIUpdatePage: {
+                agentURIUpdates: [
+                    { id: "u1", previousURI: "ipfs://a", newURI: "ipfs://b", updatedBy: "0x1", timestamp: "50" },
+                ],
+            },
+            AgentTransferPage: {
+                agentTransfers: [
+                    { id: "t0", from: "0x0000000000000000000000000000000000000000", to: "0x1", timestamp: "10" },
+                    { id: "t1", from: "0x1", to: "0x2", timestamp: "60" },
+                ],
+            },
+            FeedbackPage: {
+                feedbacks: [
+                    { ...makeFeedback({ id: "f2", createdAt: "80", isRevoked: true }), revokedAt: null },
+                    { ...makeFeedback({ id: "f1", createdAt: "70", isRevoked: true }), revokedAt: "90" },
+                ],
+            },
+        };
+        sepolia.setHandler(({ operationName }) => ({ data: pages[operationName ?? ""] }));
+
+        const history = await fetchAgentHistory("11155111:4");
+
+        expect(Object.fromEntries(sepolia.requests.map((r) => [r.operationName, r.variables.where]))).toEqual({
+            AgentURIUpdatePage: { agent: "11155111:4" },
+            AgentTransferPage: { agent: "11155111:4" },
+            // Active feedback is loaded once for the reputation summary, not again here
+            FeedbackPage: { agent: "11155111:4", isRevoked: true },
+        });
+        expect(history.complete).toBe(true);
+        expect(history.uriUpdates.map((u) => u.id)).toEqual(["u1"]);
+        expect(history.transfers.map((t) => t.id)).toEqual(["t1"]);
+        expect(history.revokedFeedback.map((f) => [f.id, f.revokedAt])).toEqual([
+            ["f1", "90"],
+            ["f2", null],
+        ]);
+    });
+
+    it("walks every page of events past the 1000-row cap, oldest first", async () => {
+        // IDs don't follow time order, so the newest update is on the first page
+        const updates = Array.from({ length: 1001 }, (_, i) => ({
+            id: `0x${String(i).padStart(4, "0")}`,
+            previousURI: null,
+            newURI: `ipfs://${i}`,
+            updatedBy: "0x1",
+            timestamp: String(i === 0 ? 5000 : i),
+        }));
+        sepolia.setHandler(({ operationName, variables }) => {
+            if (operationName !== "AgentURIUpdatePage") return { data: { agentTransfers: [], feedbacks: [] } };
+            const where = variables.where as { and?: { id_gt?: string }[] };
+            return { data: { agentURIUpdates: where.and ? updates.slice(1000) : updates.slice(0, 1000) } };
+        });
+
+        const history = await fetchAgentHistory("11155111:4");
+
+        expect(sepolia.requests.filter((r) => r.operationName === "AgentURIUpdatePage")).toHaveLength(2);
+        expect(history.uriUpdates).toHaveLength(1001);
+        expect(history.uriUpdates[1000].timestamp).toBe("5000");
+    });
+
+    it("falls back to revoked feedback only when the subgraph lacks event entities", async () => {
+        sepolia.setHandler(({ operationName, query }) =>
+            operationName !== "FeedbackPage"
+                ? { errors: [{ message: "Type `Query` has no field `agentURIUpdates`" }] }
+                : query.includes("revokedAt")
+                  ? { errors: [{ message: "Type `Feedback` has no field `revokedAt`" }] }
+                  : { data: { feedbacks: [makeFeedback({ id: "f1", isRevoked: true })] } }
+        );
+
+        const history = await fetchAgentHistory("11155111:4");
+
+        expect(history.complete).toBe(false);
+        expect(history.uriUpdates).toEqual([]);
+        expect(history.revokedFeedback).toMatchObject([{ id: "f1", isRevoked: true, revokedAt: null }]);
+    });
+});
+
+describe("fetchAgentValidations", () => {
+    it("queries the agent's validations newest first", async () => {
+        const validation = {
+            id: "0xv1",
+            validatorAddress: "0x1",
+            requestUri: "ipfs://request",
+            requestHash: "0xr",
+            response: "90",
+            responseUri: null,
+            responseHash: null,
+            tag: "tee-attestation",
+            createdAt: "10",
+            updatedAt: "20",
+        };
+        sepolia.setHandler(() => ({ data: { validations: [validation] } }));
+
+        const validations = await fetchAgentValidations("11155111:4");
+
+        expect(sepolia.requests[0].operationName).toBe("AgentValidations");
+        expect(sepolia.requests[0].variables).toEqual({ agent: "11155111:4", first: 1000 });
+        expect(validations).toEqual([validation]);
+    });
+
+    it("returns null when the subgraph doesn't index validations", async () => {
+        sepolia.setHandler(() => ({ errors: [{ message: "Type `Query` has no field `validations`" }] }));
+
+        expect(await fetchAgentValidations("11155111:4")).toBeNull();
+    });
+});
+
+describe("fetchAgentCount", () => {
+    it("walks every page of ids past the 1000-row cap", async () => {
+        const ids = Array.from({ length: 2500 }, (_, i) => `11155111:${String(i).padStart(5, "0")}`);
+        sepolia.setHandler(({ variables }) => {
+            const where = variables.where as { and?: { id_gt?: string }[] } | undefined;
+            const after = where?.and?.find((c) => c.id_gt)?.id_gt;
+            const start = after ? ids.indexOf(after) + 1 : 0;
+            return { data: { agents: ids.slice(start, start + 1000).map((id) => ({ id })) } };
+        });
+
+        const count = await fetchAgentCount({ search: "count-walk" }, 11155111);
+
+        expect(count).toEqual({ total: 2500, exact: true });
+        expect(sepolia.requests).toHaveLength(3);
+    });
+
+    it("caches counts per filter set", async () => {
+        sepolia.setHandler(() => ({ data: { agents: [{ id: "11155111:1" }] } }));
+
+        await fetchAgentCount({ search: "count-cache" }, 11155111);
+        await fetchAgentCount({ search: "count-cache" }, 11155111);
+
+        expect(sepolia.requests).toHaveLength(1);
+    });
+});
+
+describe("fetchSearchDocuments", () => {
+    it("builds documents from the indexed registration files", async () => {
+        const indexed = makeSubgraphAgent({ agentId: "1" });
+        sepolia.setHandler(() => ({
+            data: {
+                agents: [
+                    {
+                        id: indexed.id,
+                        registrationFile: { ...indexed.registrationFile, mcpEndpoint: "https://mcp.example/mcp" },
+                    },
+                    { id: "11155111:2", registrationFile: null },
+                ],
+            },
+        }));
+
+        const documents = await fetchSearchDocuments(11155111);
+
+        expect(documents).toEqual([
+            { id: "11155111:1", name: "Agent 1", description: null, trusts: [], hosts: ["mcp.example"], skills: [] },
+        ]);
+        expect(sepolia.requests[0].operationName).toBe("SearchDocuments");
+    });
+});
+
+describe("fetchOwnerAgents", () => {
+    it("walks every agent the owner has, newest first", async () => {
+        const owned = Array.from({ length: 1001 }, (_, i) =>
+            makeSubgraphAgent({ agentId: String(i + 1), createdAt: String(1000 + i) })
+        );
+        sepolia.setHandler(({ variables }) => {
+            const where = variables.where as { and?: { id_gt?: string }[] };
+            const after = where.and?.find((w) => w.id_gt)?.id_gt;
+            return { data: { agents: after ? owned.slice(1000) : owned.slice(0, 1000) } };
+        });
+
+        const agents = await fetchOwnerAgents("0x95256875151043abdcafdd26fd390c650d6311e1", 99);
+
+        expect(agents).toHaveLength(1001);
+        expect(agents[0].agentId).toBe("1001");
+        expect(sepolia.requests.map((r) => r.operationName)).toEqual(["OwnerAgents", "OwnerAgents"]);
+    });
+
+    it("resolves unindexed metadata only for the newest agents", async () => {
+        const owned = Array.from({ length: 3 }, (_, i) =>
+            makeSubgraphAgent({
+                agentId: String(i + 1),
+                createdAt: String(1000 + i),
+                agentURI: toDataUri({ name: `Resolved ${i + 1}` }),
+                registrationFile: null,
+            })
+        );
+        sepolia.setHandler(() => ({ data: { agents: owned } }));
+
+        const agents = await fetchOwnerAgents("0x95256875151043abdcafdd26fd390c650d6311e1", 2);
+
+        expect(agents.map((a) => a.registrationFile?.name ?? null)).toEqual(["Resolved 3", "Resolved 2", null]);
+        expect(agents.map((a) => a.metadataSource)).toEqual(["explorer", "explorer", null]);
+        expect(agents[2].metadataUri).toBe(owned[0].agentURI);
+    });
+});
+
+describe("fetchRegistryData", () => {
+    it("loads every agent and feedback entry of a chain", async () => {
+        sepolia.setHandler(({ operationName }) => {
+            if (operationName === "FeedbackPage") {
+                return {
+                    data: {
+                        feedbacks: [
+                            {
+                                id: "f1",
+                                clientAddress: "0xabc",
+                                score: "80",
+                                createdAt: "200",
+                                isRevoked: false,
+                                agent: { id: "11155111:1" },
+                            },
+                        ],
+                    },
+                };
+            }
+            return {
+                data: { agents: [{ id: "11155111:1", createdAt: "100", totalFeedback: "1", registrationFile: null }] },
+            };
+        });
+
+        const data = await fetchRegistryData(11155111);
+
+        expect(data.agents).toEqual([{ id: "11155111:1", createdAt: "100", totalFeedback: "1", registrationFile: null }]);
+        expect(data.feedback).toEqual([
+            { id: "f1", clientAddress: "0xabc", score: "80", createdAt: "200", isRevoked: false, agentId: "11155111:1" },
+        ]);
+        expect(sepolia.requests.map((r) => r.operationName).sort()).toEqual(["FeedbackPage", "RegistryAgents"]);
+    });
+});
+
+describe("fetchGlobalStats", () => {
+    it("sums stats across chains", async () => {
+        process.env[BASE_SEPOLIA] = baseSepolia.url;
+        sepolia.setHandler(() => ({ data: { globalStats: { totalAgents: "10", totalFeedback: "4" } } }));
+        baseSepolia.setHandler(() => ({ data: { globalStats: null } }));
+
+        expect(await fetchGlobalStats()).toEqual({ totalAgents: "10", totalFeedback: "4" });
+    });
+});
+
+describe("querySubgraph errors", () => {
+    it("retries transient failures", async () => {
+        let calls = 0;
+        sepolia.setHandler(() => {
+            calls++;
+            return calls === 1
+                ? { status: 503 }
+                : { data: { globalStats: { totalAgents: "1", totalFeedback: "0" } } };
+        });
+
+        expect(await fetchGlobalStats(11155111)).toEqual({ totalAgents: "1", totalFeedback: "0" });
+        expect(calls).toBe(2);
+    });
+
+    it("classifies rate limiting and respects Retry-After", async () => {
+        sepolia.setHandler(() => ({ status: 429, headers: { "Retry-After": "0" } }));
+
+        await expect(fetchGlobalStats(11155111)).rejects.toBeInstanceOf(RateLimitedError);
+        expect(sepolia.requests).toHaveLength(3);
+    });
+
+    it("classifies indexer availability errors", async () => {
+        sepolia.setHandler(() => ({ errors: [{ message: "bad indexers: all indexers are behind" }] }));
+
+        await expect(fetchGlobalStats(11155111)).rejects.toBeInstanceOf(IndexerBehindError);
+    });
+
+    it("does not retry validation errors", async () => {
+        sepolia.setHandler(() => ({ errors: [{ message: "Type `Agent` has no field `nope`" }] }));
+
+        const error = await fetchGlobalStats(11155111).catch((e) => e);
+
+        expect(error).toBeInstanceOf(GraphQLValidationError);
+        expect(error.digest).toBe("subgraph:validation");
+        expect(sepolia.requests).toHaveLength(1);
+    });
+
+    it("classifies schema errors wrapped by the gateway as validation errors", async () => {
+        sepolia.setHandler(() => ({
+            errors: [{ message: "bad indexers: {0x12: BadResponse(Type `Query` has no field `validations`)}" }],
+        }));
+
+        await expect(fetchGlobalStats(11155111)).rejects.toBeInstanceOf(GraphQLValidationError);
+        expect(sepolia.requests).toHaveLength(1);
+    });
+
+    it("retries transient indexer failures that mention unexpected input", async () => {
+        sepolia.setHandler(() => ({
+            errors: [{ message: "bad indexers: {0x12: BadResponse(unexpected EOF)}" }],
+        }));
+
+        await expect(fetchGlobalStats(11155111)).rejects.toBeInstanceOf(IndexerBehindError);
+        expect(sepolia.requests).toHaveLength(3);
+    });
+});
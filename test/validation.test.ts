@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { Validation } from "@/lib/subgraph";
+import { getTrustEvidence, summarizeValidations } from "@/lib/validation";
+
+function makeValidation(overrides: Partial<Validation> = {}): Validation {
+    return {
+        id: "0xv",
+        validatorAddress: "0x1",
+        requestUri: null,
+        requestHash: "0xr",
+        response: "80",
+        responseUri: null,
+        responseHash: null,
+        tag: null,
+        createdAt: "10",
+        updatedAt: "20",
+        ...overrides,
+    };
+}
+
+describe("getTrustEvidence", () => {
+    const reputation = { count: 4, mean: 70 };
+
+    it("backs reputation with feedback and other models with matching responses", () => {
+        const validations = [
+            makeValidation({ id: "a", tag: "TEE-Attestation", response: "100" }),
+            makeValidation({ id: "b", tag: "crypto-economic", response: "60" }),
+            makeValidation({ id: "c", tag: "tee-attestation", response: null }),
+        ];
+
+        expect(getTrustEvidence(["reputation", "tee-attestation", "zk"], validations, reputation)).toEqual([
+            { trust: "reputation", source: "feedback", count: 4, mean: 70 },
+            { trust: "tee-attestation", source: "validations", count: 1, mean: 100 },
+            { trust: "zk", source: "validations", count: 0, mean: null },
+        ]);
+    });
+
+    it("counts untagged responses for every validation-based model", () => {
+        const validations = [makeValidation({ response: "50" })];
+
+        expect(getTrustEvidence(["crypto-economic", "tee-attestation"], validations, reputation)).toMatchObject([
+            { count: 1, mean: 50 },
+            { count: 1, mean: 50 },
+        ]);
+    });
+
+    it("leaves the count unknown when validations aren't indexed", () => {
+        expect(getTrustEvidence(["crypto-economic"], null, reputation)).toEqual([
+            { trust: "crypto-economic", source: "validations", count: null, mean: null },
+        ]);
+    });
+});
+
+describe("summarizeValidations", () => {
+    it("counts responses, pending requests and distinct validators", () => {
+        const summary = summarizeValidations([
+            makeValidation({ validatorAddress: "0xAB", response: "90" }),
+            makeValidation({ validatorAddress: "0xab", response: "70" }),
+            makeValidation({ validatorAddress: "0xcd", response: null }),
+        ]);
+
+        expect(summary).toEqual({ total: 3, responded: 2, pending: 1, mean: 80, validators: 2 });
+    });
+});
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": fileURLToPath(new URL("./src", import.meta.url)),
+        },
+    },
+    esbuild: {
+        jsx: "automatic",
+    },
+    test: {
+        environment: "node",
+        include: ["test/**/*.test.{ts,tsx}"],
+    },
+});